@@ -0,0 +1,30 @@
+-- Add conference_settings_acknowledgements table
+-- Each conference is its own Sleeper league, so scoring, roster and league settings can drift
+-- apart. Sync is blocked while the conferences disagree until an admin acknowledges the exact
+-- set of differences; a new or changed difference needs a new acknowledgement.
+
+CREATE TABLE IF NOT EXISTS conference_settings_acknowledgements (
+  id BIGSERIAL PRIMARY KEY,
+  season_id BIGINT NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+  fingerprint TEXT NOT NULL,
+  differences JSONB NOT NULL DEFAULT '[]'::jsonb,
+  acknowledged_by TEXT NOT NULL DEFAULT 'admin',
+  acknowledged_at TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_conference_settings_acknowledgements_season ON conference_settings_acknowledgements(season_id, fingerprint);
+
+-- Add comments to document the table
+COMMENT ON TABLE conference_settings_acknowledgements IS 'Admin acknowledgements of settings that differ between a season''s conference leagues';
+COMMENT ON COLUMN conference_settings_acknowledgements.fingerprint IS 'Hash of the acknowledged differences; sync is allowed while the current differences hash to the same value';
+COMMENT ON COLUMN conference_settings_acknowledgements.differences IS 'The differences as they were acknowledged: [{section, key, values: [{conference_id, value}]}]';
+
+-- Same anonymous access as the other league tables
+ALTER TABLE conference_settings_acknowledgements ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow anonymous access to conference_settings_acknowledgements" ON conference_settings_acknowledgements;
+CREATE POLICY "Allow anonymous access to conference_settings_acknowledgements" 
+ON conference_settings_acknowledgements FOR ALL 
+TO anon 
+USING (true) 
+WITH CHECK (true);
@@ -0,0 +1,49 @@
+-- Add matchup_override_events table
+-- Append-only audit trail for matchup_admin_override. Every create, deactivate, delete
+-- and restore is recorded with the pairing before and after, who made the change and
+-- why, plus a copy of the override row so any earlier state can be restored.
+
+CREATE TABLE IF NOT EXISTS matchup_override_events (
+  id BIGSERIAL PRIMARY KEY,
+  season_id BIGINT NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+  week INTEGER NOT NULL,
+  conference_id BIGINT NOT NULL REFERENCES conferences(id) ON DELETE CASCADE,
+  override_id BIGINT, -- No foreign key: the override row may since have been deleted
+  action TEXT NOT NULL CHECK (action IN ('create', 'deactivate', 'delete', 'restore')),
+  before_team1_id BIGINT REFERENCES teams(id),
+  before_team2_id BIGINT REFERENCES teams(id),
+  after_team1_id BIGINT REFERENCES teams(id),
+  after_team2_id BIGINT REFERENCES teams(id),
+  admin_id TEXT,
+  reason TEXT,
+  restored_from_event_id BIGINT REFERENCES matchup_override_events(id),
+  override_active BOOLEAN, -- Whether the event left an override in effect
+  override_snapshot JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Tables created before override_active was added
+ALTER TABLE matchup_override_events ADD COLUMN IF NOT EXISTS override_active BOOLEAN;
+
+CREATE INDEX IF NOT EXISTS idx_matchup_override_events_season ON matchup_override_events(season_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_matchup_override_events_context ON matchup_override_events(season_id, week, conference_id);
+
+-- Add comments to document the table
+COMMENT ON TABLE matchup_override_events IS 'Immutable audit trail of matchup_admin_override changes';
+COMMENT ON COLUMN matchup_override_events.before_team1_id IS 'Pairing in effect before the change: the active override, or the original Sleeper pairing';
+COMMENT ON COLUMN matchup_override_events.after_team1_id IS 'Pairing in effect after the change';
+COMMENT ON COLUMN matchup_override_events.override_active IS 'Whether an override was left in effect: restoring the event recreates it, or removes the active one. Null on events recorded before the column was added';
+COMMENT ON COLUMN matchup_override_events.override_snapshot IS 'The override row as it was when the event was recorded';
+
+-- Events can be read and added but never changed or removed
+ALTER TABLE matchup_override_events ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow anonymous read of matchup_override_events" ON matchup_override_events;
+CREATE POLICY "Allow anonymous read of matchup_override_events" 
+ON matchup_override_events FOR SELECT 
+TO anon 
+USING (true);
+DROP POLICY IF EXISTS "Allow anonymous insert of matchup_override_events" ON matchup_override_events;
+CREATE POLICY "Allow anonymous insert of matchup_override_events" 
+ON matchup_override_events FOR INSERT 
+TO anon 
+WITH CHECK (true);
@@ -0,0 +1,32 @@
+-- Add matchup_recaps table
+-- One written recap per regular season matchup, generated from the box score once every
+-- matchup in the week is complete. Recaps are built from templates: the top scorer, the
+-- bench move that would have flipped the result, the margin, streaks and standings moves.
+
+CREATE TABLE IF NOT EXISTS matchup_recaps (
+  id BIGSERIAL PRIMARY KEY,
+  season_id BIGINT NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+  week INTEGER NOT NULL,
+  matchup_id BIGINT NOT NULL REFERENCES matchups(id) ON DELETE CASCADE,
+  headline TEXT NOT NULL,
+  recap TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (matchup_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_matchup_recaps_season_week ON matchup_recaps(season_id, week);
+
+-- Add comments to document the table
+COMMENT ON TABLE matchup_recaps IS 'Template-generated regular season matchup recaps, written once the week is complete';
+COMMENT ON COLUMN matchup_recaps.headline IS 'One-line summary used in the weekly digest';
+COMMENT ON COLUMN matchup_recaps.recap IS 'Full recap paragraph shown on the matchup page';
+
+-- Same anonymous access as the other league tables
+ALTER TABLE matchup_recaps ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow anonymous access to matchup_recaps" ON matchup_recaps;
+CREATE POLICY "Allow anonymous access to matchup_recaps" 
+ON matchup_recaps FOR ALL 
+TO anon 
+USING (true) 
+WITH CHECK (true);
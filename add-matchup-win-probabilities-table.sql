@@ -0,0 +1,51 @@
+-- Add matchup_win_probabilities table
+-- Live views record a win probability snapshot per matchup while games are played, so the
+-- week can be charted afterwards and the season's biggest comebacks found
+
+CREATE TABLE IF NOT EXISTS matchup_win_probabilities (
+  id BIGSERIAL PRIMARY KEY,
+  season_id BIGINT NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+  matchup_id BIGINT NOT NULL,
+  is_playoff BOOLEAN NOT NULL DEFAULT FALSE,
+  week INTEGER NOT NULL,
+  team1_id BIGINT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  team2_id BIGINT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  team1_win_probability NUMERIC NOT NULL,
+  team1_points NUMERIC,
+  team2_points NUMERIC,
+  team1_projected NUMERIC,
+  team2_projected NUMERIC,
+  recorded_at TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_matchup_win_probabilities_matchup ON matchup_win_probabilities(matchup_id, is_playoff, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_matchup_win_probabilities_season ON matchup_win_probabilities(season_id);
+
+-- Every open matchups page records snapshots, so viewers seeing the same scores would store the
+-- same snapshot once each; keep one row per distinct state of a matchup
+DELETE FROM matchup_win_probabilities a
+USING matchup_win_probabilities b
+WHERE a.id > b.id
+  AND a.matchup_id = b.matchup_id
+  AND a.is_playoff = b.is_playoff
+  AND a.team1_points IS NOT DISTINCT FROM b.team1_points
+  AND a.team2_points IS NOT DISTINCT FROM b.team2_points
+  AND a.team1_win_probability = b.team1_win_probability;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_matchup_win_probabilities_snapshot
+ON matchup_win_probabilities(matchup_id, is_playoff, team1_points, team2_points, team1_win_probability);
+
+-- Add comments to document the table
+COMMENT ON TABLE matchup_win_probabilities IS 'Win probability snapshots per matchup, recorded while the week is live';
+COMMENT ON COLUMN matchup_win_probabilities.matchup_id IS 'matchups.id, or playoff_brackets.id when is_playoff is true';
+COMMENT ON COLUMN matchup_win_probabilities.team1_win_probability IS 'Probability between 0 and 1 that team1 wins; team2 is the complement';
+
+-- Same anonymous access as the other league tables
+ALTER TABLE matchup_win_probabilities ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow anonymous access to matchup_win_probabilities" ON matchup_win_probabilities;
+CREATE POLICY "Allow anonymous access to matchup_win_probabilities" 
+ON matchup_win_probabilities FOR ALL 
+TO anon 
+USING (true) 
+WITH CHECK (true);
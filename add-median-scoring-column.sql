@@ -0,0 +1,9 @@
+-- Add median_scoring_mode column to seasons table
+-- This column controls the optional "vs. league median" extra win/loss each week
+
+ALTER TABLE seasons 
+ADD COLUMN IF NOT EXISTS median_scoring_mode TEXT NOT NULL DEFAULT 'off'
+CHECK (median_scoring_mode IN ('off', 'conference', 'league'));
+
+-- Add a comment to document the column
+COMMENT ON COLUMN seasons.median_scoring_mode IS 'Extra weekly win/loss against the median score: off, conference (median of the team''s conference) or league (median of all teams)';
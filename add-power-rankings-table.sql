@@ -0,0 +1,37 @@
+-- Add power_rankings table and power_ranking_weights column to seasons table
+-- The table stores one weekly power ranking snapshot row per team so movement can be shown
+
+CREATE TABLE IF NOT EXISTS power_rankings (
+  id BIGSERIAL PRIMARY KEY,
+  season_id BIGINT NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+  week INTEGER NOT NULL,
+  team_id BIGINT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  rank INTEGER NOT NULL,
+  score NUMERIC NOT NULL,
+  recent_form NUMERIC,
+  points_for NUMERIC,
+  all_play NUMERIC,
+  strength_of_schedule NUMERIC,
+  blurb TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (season_id, week, team_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_power_rankings_season_week ON power_rankings(season_id, week);
+
+ALTER TABLE seasons 
+ADD COLUMN IF NOT EXISTS power_ranking_weights JSONB DEFAULT NULL;
+
+-- Add comments to document the table and column
+COMMENT ON TABLE power_rankings IS 'Weekly power ranking snapshot per team, with the 0-1 component scores and an optional admin blurb';
+COMMENT ON COLUMN seasons.power_ranking_weights IS 'JSONB object of power ranking component weights (recent_form, points_for, all_play, strength_of_schedule)';
+
+-- Same anonymous access as the other league tables
+ALTER TABLE power_rankings ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow anonymous access to power_rankings" ON power_rankings;
+CREATE POLICY "Allow anonymous access to power_rankings" 
+ON power_rankings FOR ALL 
+TO anon 
+USING (true) 
+WITH CHECK (true);
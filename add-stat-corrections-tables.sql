@@ -0,0 +1,69 @@
+-- Add matchup_box_scores and stat_corrections tables
+-- NFL stat corrections land after the weekly sync has stored final scores. A correction
+-- pass re-fetches completed weeks from Sleeper and compares them with the stored matchup
+-- scores; any difference becomes a stat_corrections row for an admin to approve or dismiss.
+-- matchup_box_scores keeps each starter's points as last accepted, so a correction can show
+-- which players changed.
+
+CREATE TABLE IF NOT EXISTS matchup_box_scores (
+  id BIGSERIAL PRIMARY KEY,
+  season_id BIGINT NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+  week INTEGER NOT NULL,
+  matchup_id BIGINT NOT NULL REFERENCES matchups(id) ON DELETE CASCADE,
+  team1_points JSONB NOT NULL DEFAULT '{}'::jsonb,
+  team2_points JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (matchup_id)
+);
+
+CREATE TABLE IF NOT EXISTS stat_corrections (
+  id BIGSERIAL PRIMARY KEY,
+  season_id BIGINT NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+  week INTEGER NOT NULL,
+  matchup_id BIGINT NOT NULL REFERENCES matchups(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'dismissed')),
+  team1_id BIGINT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  team2_id BIGINT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  before_team1_score NUMERIC NOT NULL,
+  before_team2_score NUMERIC NOT NULL,
+  before_winning_team_id BIGINT REFERENCES teams(id) ON DELETE SET NULL,
+  after_team1_score NUMERIC NOT NULL,
+  after_team2_score NUMERIC NOT NULL,
+  after_winning_team_id BIGINT REFERENCES teams(id) ON DELETE SET NULL,
+  result_flipped BOOLEAN NOT NULL DEFAULT FALSE,
+  player_changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  explanation TEXT,
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_matchup_box_scores_season_week ON matchup_box_scores(season_id, week);
+CREATE INDEX IF NOT EXISTS idx_stat_corrections_season_status ON stat_corrections(season_id, status);
+CREATE INDEX IF NOT EXISTS idx_stat_corrections_matchup ON stat_corrections(matchup_id);
+
+-- Add comments to document the tables
+COMMENT ON TABLE matchup_box_scores IS 'Starter points per matchup as last accepted, the baseline stat corrections are diffed against';
+COMMENT ON COLUMN matchup_box_scores.team1_points IS 'Sleeper player id to points for team1 starters';
+COMMENT ON TABLE stat_corrections IS 'Score changes found by the stat correction pass, pending admin approval';
+COMMENT ON COLUMN stat_corrections.player_changes IS 'Starters whose points changed: [{team_id, player_id, before, after}]';
+COMMENT ON COLUMN stat_corrections.explanation IS 'Written when the correction is approved, including any change of result';
+
+-- Same anonymous access as the other league tables
+ALTER TABLE matchup_box_scores ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow anonymous access to matchup_box_scores" ON matchup_box_scores;
+CREATE POLICY "Allow anonymous access to matchup_box_scores" 
+ON matchup_box_scores FOR ALL 
+TO anon 
+USING (true) 
+WITH CHECK (true);
+
+ALTER TABLE stat_corrections ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow anonymous access to stat_corrections" ON stat_corrections;
+CREATE POLICY "Allow anonymous access to stat_corrections" 
+ON stat_corrections FOR ALL 
+TO anon 
+USING (true) 
+WITH CHECK (true);
@@ -0,0 +1,34 @@
+-- Add team_projections table
+-- One row per team and week with the pre-game projected total for its starting lineup. The
+-- projection stops changing once the team starts scoring, so it is the final projection
+-- the week was played against and can be compared with the actual score afterwards.
+
+CREATE TABLE IF NOT EXISTS team_projections (
+  id BIGSERIAL PRIMARY KEY,
+  season_id BIGINT NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+  week INTEGER NOT NULL,
+  team_id BIGINT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  projected_points NUMERIC NOT NULL,
+  actual_points NUMERIC,
+  locked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (season_id, week, team_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_projections_season_week ON team_projections(season_id, week);
+CREATE INDEX IF NOT EXISTS idx_team_projections_team ON team_projections(team_id);
+
+-- Add comments to document the table
+COMMENT ON TABLE team_projections IS 'Pre-game projected total per team and week, calculated with the season scoring_settings';
+COMMENT ON COLUMN team_projections.locked_at IS 'When the team started scoring; projected_points is final from then on';
+COMMENT ON COLUMN team_projections.actual_points IS 'Points the starting lineup scored, filled in once the week has been played';
+
+-- Same anonymous access as the other league tables
+ALTER TABLE team_projections ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow anonymous access to team_projections" ON team_projections;
+CREATE POLICY "Allow anonymous access to team_projections" 
+ON team_projections FOR ALL 
+TO anon 
+USING (true) 
+WITH CHECK (true);
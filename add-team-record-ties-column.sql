@@ -0,0 +1,8 @@
+-- Add ties column to team_records table
+-- Matchups that finish with equal scores count as a tie for both teams
+
+ALTER TABLE team_records 
+ADD COLUMN IF NOT EXISTS ties INTEGER NOT NULL DEFAULT 0;
+
+-- Add a comment to document the column
+COMMENT ON COLUMN team_records.ties IS 'Number of tied games (including ties against the weekly median); a tie counts as half a win in win percentage';
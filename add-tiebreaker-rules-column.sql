@@ -0,0 +1,8 @@
+-- Add tiebreaker_rules column to seasons table
+-- This column will store the ordered list of standings tiebreaker rules as JSONB
+
+ALTER TABLE seasons 
+ADD COLUMN IF NOT EXISTS tiebreaker_rules JSONB DEFAULT NULL;
+
+-- Add a comment to document the column
+COMMENT ON COLUMN seasons.tiebreaker_rules IS 'JSONB array of tiebreaker rule keys applied in order when teams are tied on win percentage';
@@ -0,0 +1,38 @@
+-- Add weekly_awards table
+-- One row per season, week and award. Awards are recorded once every regular season
+-- matchup in a week is complete: high score, low score, biggest blowout, closest game
+-- and the best single player score from a starting slot.
+
+CREATE TABLE IF NOT EXISTS weekly_awards (
+  id BIGSERIAL PRIMARY KEY,
+  season_id BIGINT NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+  week INTEGER NOT NULL,
+  award_type TEXT NOT NULL CHECK (award_type IN ('high_score', 'low_score', 'blowout', 'nail_biter', 'top_performer')),
+  team_id BIGINT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  opponent_id BIGINT REFERENCES teams(id) ON DELETE CASCADE,
+  matchup_id BIGINT REFERENCES matchups(id) ON DELETE SET NULL,
+  player_id TEXT,
+  points NUMERIC NOT NULL,
+  margin NUMERIC,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (season_id, week, award_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_weekly_awards_season_week ON weekly_awards(season_id, week);
+CREATE INDEX IF NOT EXISTS idx_weekly_awards_team ON weekly_awards(team_id);
+
+-- Add comments to document the table
+COMMENT ON TABLE weekly_awards IS 'Weekly regular season awards, recorded once every matchup in the week is complete';
+COMMENT ON COLUMN weekly_awards.team_id IS 'Award winner; for blowout and nail_biter the team that won the game';
+COMMENT ON COLUMN weekly_awards.player_id IS 'Sleeper player id, only set for top_performer';
+COMMENT ON COLUMN weekly_awards.margin IS 'Winning margin, only set for blowout and nail_biter';
+
+-- Same anonymous access as the other league tables
+ALTER TABLE weekly_awards ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow anonymous access to weekly_awards" ON weekly_awards;
+CREATE POLICY "Allow anonymous access to weekly_awards" 
+ON weekly_awards FOR ALL 
+TO anon 
+USING (true) 
+WITH CHECK (true);
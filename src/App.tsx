@@ -8,8 +8,12 @@ import { AppProvider } from './contexts/AppContext';
 import Header from './components/layout/Header';
 import HomePage from "./pages/HomePage";
 import StandingsPage from './pages/StandingsPage';
+import PlayoffOddsPage from './pages/PlayoffOddsPage';
+import PowerRankingsPage from './pages/PowerRankingsPage';
 import MatchupsPage from './pages/MatchupsPage';
 import MatchupDetailPage from './pages/MatchupDetailPage';
+import AwardsPage from './pages/AwardsPage';
+import RivalryPage from './pages/RivalryPage';
 import TeamsPage from './pages/TeamsPage';
 import TeamDetailPage from './pages/TeamDetailPage';
 import PlayersPage from './pages/PlayersPage';
@@ -59,10 +63,14 @@ const App = () => {
                 <Routes>
                   <Route path="/" element={<HomePage />} />
                   <Route path="/standings" element={<StandingsPage />} />
+                  <Route path="/standings/playoff-odds" element={<PlayoffOddsPage />} />
+                  <Route path="/power-rankings" element={<PowerRankingsPage />} />
                   <Route path="/matchups" element={<MatchupsPage />} />
                   <Route path="/matchups/:matchupId" element={<MatchupDetailPage />} />
+                  <Route path="/awards" element={<AwardsPage />} />
                   <Route path="/teams" element={<TeamsPage />} />
                   <Route path="/teams/:teamId" element={<TeamDetailPage />} />
+                  <Route path="/rivalry/:teamA/:teamB" element={<RivalryPage />} />
                   <Route path="/players" element={<PlayersPage />} />
                   <Route path="/players/:playerId" element={<PlayerDetailPage />} />
                   <Route path="/transactions" element={<TransactionsPage />} />
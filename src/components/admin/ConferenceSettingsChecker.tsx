@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Scale, CheckCircle, AlertTriangle, Loader2, RefreshCw, ShieldCheck } from 'lucide-react';
+import { DatabaseService, DbSeason } from '@/services/databaseService';
+import {
+  ConferenceSettingsService,
+  ConferenceSettingsCheck,
+  LEAGUE_SETTING_LABELS } from
+'@/services/conferenceSettingsService';
+import { SLEEPER_SCORING_MAP } from '@/hooks/useScoringSettings';
+import { ConferenceSettingDifference } from '@/types/database';
+
+const SECTION_LABELS: Record<ConferenceSettingDifference['section'], string> = {
+  scoring: 'Scoring',
+  roster: 'Roster slots',
+  league: 'League'
+};
+
+const ConferenceSettingsChecker: React.FC = () => {
+  const [seasons, setSeasons] = useState<DbSeason[]>([]);
+  const [selectedSeason, setSelectedSeason] = useState<string>('');
+  const [check, setCheck] = useState<ConferenceSettingsCheck | null>(null);
+  const [adminName, setAdminName] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [acknowledging, setAcknowledging] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadSeasons();
+  }, []);
+
+  useEffect(() => {
+    if (selectedSeason) {
+      runCheck();
+    }
+  }, [selectedSeason]);
+
+  const loadSeasons = async () => {
+    try {
+      const { data, error } = await DatabaseService.getSeasons({
+        limit: 100,
+        orderBy: { column: 'season_year', ascending: false }
+      });
+      if (error) throw new Error(error);
+
+      setSeasons(data);
+      const currentSeason = data.find((s) => s.is_current);
+      if (currentSeason) {
+        setSelectedSeason(currentSeason.id.toString());
+      }
+    } catch (error) {
+      console.error('Error loading seasons:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load seasons',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const runCheck = async () => {
+    setChecking(true);
+    try {
+      setCheck(await ConferenceSettingsService.checkSeason(parseInt(selectedSeason)));
+    } catch (error) {
+      console.error('Error checking conference settings:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to check conference settings',
+        variant: 'destructive'
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleAcknowledge = async () => {
+    if (!check || !confirm(`Acknowledge ${check.differences.length} settings differences and allow sync?`)) {
+      return;
+    }
+
+    setAcknowledging(true);
+    try {
+      const acknowledgement = await ConferenceSettingsService.acknowledge(check, adminName.trim() || 'admin');
+      setCheck({ ...check, acknowledgement, blocks_sync: check.failed.length > 0 });
+      toast({
+        title: 'Differences acknowledged',
+        description: 'Sync is allowed until the conference settings change again'
+      });
+    } catch (error) {
+      console.error('Error acknowledging settings differences:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to acknowledge differences',
+        variant: 'destructive'
+      });
+    } finally {
+      setAcknowledging(false);
+    }
+  };
+
+  const settingLabel = (difference: ConferenceSettingDifference) => {
+    if (difference.section === 'scoring') {
+      const mapping = SLEEPER_SCORING_MAP[difference.key];
+      return mapping ? `${mapping.description} (${difference.key})` : difference.key;
+    }
+    if (difference.section === 'league') {
+      return LEAGUE_SETTING_LABELS[difference.key] || difference.key;
+    }
+    return difference.key;
+  };
+
+  const formatValue = (value: number | string | null) => value === null ? '—' : String(value);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Conference Settings Consistency
+        </CardTitle>
+        <CardDescription>
+          Compare scoring, roster positions and league settings across every conference's Sleeper league. Sync is blocked until any differences are acknowledged.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Season</Label>
+            <Select value={selectedSeason} onValueChange={setSelectedSeason}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select season..." />
+              </SelectTrigger>
+              <SelectContent>
+                {seasons.map((season) =>
+                <SelectItem key={season.id} value={season.id.toString()}>
+                    {season.season_name}
+                  </SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="settings-admin-name">Your name (recorded on acknowledgements)</Label>
+            <Input
+              id="settings-admin-name"
+              placeholder="admin"
+              value={adminName}
+              onChange={(e) => setAdminName(e.target.value)} />
+          </div>
+
+          <div className="space-y-2 flex items-end">
+            <Button variant="outline" onClick={runCheck} disabled={!selectedSeason || checking}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${checking ? 'animate-spin' : ''}`} />
+              Check Again
+            </Button>
+          </div>
+        </div>
+
+        {checking && !check &&
+        <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        }
+
+        {check &&
+        <>
+            {check.failed.length > 0 &&
+          <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  Could not load the Sleeper league for {check.failed.join(', ')}; those conferences were not compared. Sync is blocked until every league loads.
+                </AlertDescription>
+              </Alert>
+          }
+
+            {check.differences.length === 0 ?
+          check.failed.length === 0 &&
+          <Alert>
+                <CheckCircle className="h-4 w-4 text-green-600" />
+                <AlertDescription>
+                  All {check.conferences.length} conference leagues use the same settings.
+                </AlertDescription>
+              </Alert> :
+
+          <>
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                  {check.blocks_sync ?
+              <Badge variant="destructive" className="w-fit">
+                      {check.differences.length} differences • Sync blocked
+                    </Badge> :
+
+              <Badge variant="secondary" className="w-fit">
+                      {check.differences.length} differences • Acknowledged by {check.acknowledgement?.acknowledged_by}
+                      {check.acknowledgement?.acknowledged_at &&
+                ` on ${new Date(check.acknowledgement.acknowledged_at).toLocaleDateString()}`}
+                    </Badge>
+              }
+                  {check.blocks_sync &&
+              <Button onClick={handleAcknowledge} disabled={acknowledging || check.failed.length > 0}>
+                      {acknowledging ?
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" /> :
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                }
+                      Acknowledge Differences
+                    </Button>
+              }
+                </div>
+
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Section</TableHead>
+                        <TableHead>Setting</TableHead>
+                        {check.conferences.
+                    filter((conference) => !check.failed.includes(conference.conference_name)).
+                    map((conference) =>
+                    <TableHead key={conference.id} className="text-right">{conference.conference_name}</TableHead>
+                    )}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {check.differences.map((difference) =>
+                  <TableRow key={`${difference.section}-${difference.key}`}>
+                          <TableCell>
+                            <Badge variant="outline">{SECTION_LABELS[difference.section]}</Badge>
+                          </TableCell>
+                          <TableCell className="font-medium">{settingLabel(difference)}</TableCell>
+                          {difference.values.map((value) =>
+                    <TableCell key={value.conference_id} className="text-right font-mono">
+                              {formatValue(value.value)}
+                            </TableCell>
+                    )}
+                        </TableRow>
+                  )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </>
+          }
+          </>
+        }
+      </CardContent>
+    </Card>);
+
+};
+
+export default ConferenceSettingsChecker;
@@ -33,6 +33,7 @@ import { useToast } from '@/hooks/use-toast';
 import { RefreshCw, Download, CheckCircle, AlertCircle, Clock, Database, Users, Trophy, UserCheck, Target, Server, Calendar, Filter } from 'lucide-react';
 import DraftService from '@/services/draftService';
 import { DatabaseService } from '@/services/databaseService';
+import { ConferenceSettingsService } from '@/services/conferenceSettingsService';
 
 // Define local interfaces since this component has complex sync requirements
 interface Season {
@@ -309,6 +310,21 @@ const DataSync: React.FC = () => {
   }, [selectedStartWeek, selectedEndWeek]);
 
 
+  // Season syncs wait until differences between the conference leagues' settings are acknowledged
+  const ensureSettingsAcknowledged = async (): Promise<boolean> => {
+    try {
+      await ConferenceSettingsService.assertSyncAllowed(selectedSeasonId!);
+      return true;
+    } catch (error) {
+      toast({
+        title: "Sync Blocked",
+        description: error instanceof Error ? error.message : "Conference settings could not be checked",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
   const syncRostersData = async () => {
     if (!selectedSeasonId || conferences.length === 0) {
       toast({
@@ -329,6 +345,8 @@ const DataSync: React.FC = () => {
       return;
     }
 
+    if (!(await ensureSettingsAcknowledged())) return;
+
     setSyncingRosters(true);
     setRostersProgress(0);
     setRostersSyncResult(null);
@@ -579,6 +597,8 @@ const DataSync: React.FC = () => {
       return;
     }
 
+    if (!(await ensureSettingsAcknowledged())) return;
+
     setSyncing(true);
     setProgress(0);
     setSyncResults([]);
@@ -674,6 +694,8 @@ const DataSync: React.FC = () => {
       return;
     }
 
+    if (!(await ensureSettingsAcknowledged())) return;
+
     setSyncingTeams(true);
     setTeamsProgress(0);
     setTeamsSyncResults([]);
@@ -1036,6 +1058,8 @@ const DataSync: React.FC = () => {
       return;
     }
 
+    if (!(await ensureSettingsAcknowledged())) return;
+
     setSyncingMatchups(true);
     setMatchupsProgress(0);
     setMatchupsSyncResult(null);
@@ -178,8 +178,13 @@ const MatchupCompletionManager: React.FC = () => {
         team2Score: parseFloat(team2Score)
       });
 
-      // For now, update the matchup directly using DatabaseService
-      const winnerId = parseFloat(team1Score) > parseFloat(team2Score) ? selectedMatchup.team1_id : selectedMatchup.team2_id;
+      // For now, update the matchup directly using DatabaseService (equal scores leave no winner)
+      const winnerId = StandingsService.getMatchupWinner(
+        selectedMatchup.team1_id,
+        selectedMatchup.team2_id!,
+        parseFloat(team1Score),
+        parseFloat(team2Score)
+      );
       await DatabaseService.updateMatchup(selectedMatchup.id, {
         team1_score: parseFloat(team1Score),
         team2_score: parseFloat(team2Score),
@@ -378,6 +383,9 @@ const MatchupCompletionManager: React.FC = () => {
                       <TableCell>
                         <div className="space-y-1">
                           {getStatusBadge(matchup.matchup_status)}
+                          {matchup.matchup_status === 'complete' && !matchup.winning_team_id &&
+                        <Badge variant="outline" className="text-xs">Tie</Badge>
+                        }
                           {matchup.manual_override &&
                         <Badge variant="outline" className="text-xs">Manual</Badge>
                         }
@@ -1,9 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Calendar, Trophy } from 'lucide-react';
+import { Calendar, CalendarPlus, History, Trophy } from 'lucide-react';
 import RegularSeasonMatchups from './RegularSeasonMatchups';
 import PlayoffMatchups from './PlayoffMatchups';
+import ScheduleGenerator from './ScheduleGenerator';
+import OverrideAuditTimeline from './OverrideAuditTimeline';
 
 const MatchupsManagement: React.FC = () => {
   return (
@@ -20,7 +22,7 @@ const MatchupsManagement: React.FC = () => {
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="regular-season" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="regular-season" className="flex items-center gap-2">
                 <Calendar className="h-4 w-4" />
                 Regular Season
@@ -29,6 +31,14 @@ const MatchupsManagement: React.FC = () => {
                 <Trophy className="h-4 w-4" />
                 Playoffs
               </TabsTrigger>
+              <TabsTrigger value="schedule-generator" className="flex items-center gap-2">
+                <CalendarPlus className="h-4 w-4" />
+                Schedule Generator
+              </TabsTrigger>
+              <TabsTrigger value="override-history" className="flex items-center gap-2">
+                <History className="h-4 w-4" />
+                Override History
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="regular-season">
@@ -38,6 +48,14 @@ const MatchupsManagement: React.FC = () => {
             <TabsContent value="playoffs">
               <PlayoffMatchups />
             </TabsContent>
+
+            <TabsContent value="schedule-generator">
+              <ScheduleGenerator />
+            </TabsContent>
+
+            <TabsContent value="override-history">
+              <OverrideAuditTimeline />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
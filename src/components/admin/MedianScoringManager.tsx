@@ -0,0 +1,312 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { Scale, Save, RefreshCw, Eye } from 'lucide-react';
+import { DatabaseService, DbSeason } from '@/services/databaseService';
+import { SupabaseStandingsService, StandingsData } from '@/services/supabaseStandingsService';
+import { teamRecordsService } from '@/services/teamRecordsService';
+import {
+  MedianScoringService,
+  MedianScoringMode,
+  MEDIAN_SCORING_MODE_LABELS } from
+'@/services/medianScoringService';
+
+const MODE_DESCRIPTIONS: Record<MedianScoringMode, string> = {
+  off: 'Records only count head-to-head results',
+  conference: 'Each week, teams scoring above their conference median get an extra win, below it an extra loss',
+  league: 'Each week, teams scoring above the median of every team in the league get an extra win, below it an extra loss'
+};
+
+const ALL_MODES = Object.keys(MEDIAN_SCORING_MODE_LABELS) as MedianScoringMode[];
+
+interface PreviewRow {
+  current: StandingsData;
+  preview: StandingsData;
+}
+
+const MedianScoringManager: React.FC = () => {
+  const [seasons, setSeasons] = useState<DbSeason[]>([]);
+  const [selectedSeasonId, setSelectedSeasonId] = useState<number | null>(null);
+  const [savedMode, setSavedMode] = useState<MedianScoringMode>('off');
+  const [mode, setMode] = useState<MedianScoringMode>('off');
+  const [previewRows, setPreviewRows] = useState<PreviewRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const selectedSeason = seasons.find((s) => s.id === selectedSeasonId);
+
+  useEffect(() => {
+    loadSeasons();
+  }, []);
+
+  useEffect(() => {
+    if (selectedSeasonId) {
+      loadMode();
+    }
+  }, [selectedSeasonId]);
+
+  const loadSeasons = async () => {
+    try {
+      const response = await DatabaseService.getSeasons({
+        orderBy: { column: 'season_year', ascending: false }
+      });
+
+      if (response.error) {
+        throw new Error('Failed to load seasons');
+      }
+
+      setSeasons(response.data);
+
+      // Auto-select current season if available
+      const currentSeason = response.data.find((s) => s.is_current);
+      if (currentSeason) {
+        setSelectedSeasonId(currentSeason.id);
+      }
+    } catch (error) {
+      console.error('Error loading seasons:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load seasons",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const loadMode = async () => {
+    if (!selectedSeasonId) return;
+
+    setLoading(true);
+    try {
+      const seasonMode = await MedianScoringService.getSeasonMode(selectedSeasonId);
+      setSavedMode(seasonMode);
+      setMode(seasonMode);
+      setPreviewRows([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!selectedSeason) return;
+
+    setPreviewing(true);
+    try {
+      const seasonYear = parseInt(selectedSeason.season_year);
+      const [current, preview] = await Promise.all([
+      SupabaseStandingsService.getStandingsData(seasonYear),
+      SupabaseStandingsService.getStandingsData(seasonYear, undefined, mode)]
+      );
+
+      const currentByTeam = new Map(current.map((team) => [team.team_id, team]));
+      setPreviewRows(preview.
+      filter((team) => currentByTeam.has(team.team_id)).
+      map((team) => ({ current: currentByTeam.get(team.team_id)!, preview: team })));
+    } catch (error) {
+      console.error('Error previewing median scoring:', error);
+      toast({
+        title: "Error",
+        description: "Failed to preview standings",
+        variant: "destructive"
+      });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selectedSeasonId) {
+      toast({
+        title: "Error",
+        description: "Please select a season",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await MedianScoringService.saveSeasonMode(selectedSeasonId, mode);
+
+      if (!result.success) {
+        throw new Error('Failed to save median scoring mode');
+      }
+
+      // Stored records only reflect the new rule once they are recalculated
+      await teamRecordsService.calculateTeamRecords(selectedSeasonId, undefined, false);
+
+      toast({
+        title: "Success",
+        description: "Median scoring saved and team records recalculated"
+      });
+
+      await loadMode();
+    } catch (error) {
+      console.error('Error saving median scoring mode:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save median scoring mode",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatRecord = (team: StandingsData) => {
+    return team.ties > 0 ? `${team.wins}-${team.losses}-${team.ties}` : `${team.wins}-${team.losses}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Median Scoring
+          </CardTitle>
+          <CardDescription>
+            Optionally award an extra win or loss each week based on the median score
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {/* Season Filter */}
+            <div className="space-y-2">
+              <Label htmlFor="median-season-select">Season</Label>
+              <Select
+                value={selectedSeasonId?.toString() || ""}
+                onValueChange={(value) => setSelectedSeasonId(parseInt(value))}>
+
+                <SelectTrigger id="median-season-select">
+                  <SelectValue placeholder="Select a season" />
+                </SelectTrigger>
+                <SelectContent>
+                  {seasons.map((season) =>
+                  <SelectItem key={season.id} value={season.id.toString()}>
+                      {season.season_name} ({season.season_year})
+                      {season.is_current && " - Current"}
+                    </SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="median-mode-select">Mode</Label>
+              <Select
+                value={mode}
+                onValueChange={(value) => {
+                  setMode(value as MedianScoringMode);
+                  setPreviewRows([]);
+                }}
+                disabled={!selectedSeasonId || loading}>
+
+                <SelectTrigger id="median-mode-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ALL_MODES.map((option) =>
+                  <SelectItem key={option} value={option}>
+                      {MEDIAN_SCORING_MODE_LABELS[option]}
+                      {option === savedMode && " - Saved"}
+                    </SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">{MODE_DESCRIPTIONS[mode]}</p>
+            </div>
+          </div>
+
+          {selectedSeasonId &&
+          <>
+              {/* Preview */}
+              {previewRows.length > 0 &&
+            <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16 text-center">Rank</TableHead>
+                        <TableHead>Team</TableHead>
+                        <TableHead className="text-center">{MEDIAN_SCORING_MODE_LABELS[savedMode]}</TableHead>
+                        <TableHead className="text-center">{MEDIAN_SCORING_MODE_LABELS[mode]}</TableHead>
+                        <TableHead className="text-center">Change</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {previewRows.map(({ current, preview }) => {
+                    const rankChange = current.overall_rank - preview.overall_rank;
+                    return (
+                      <TableRow key={preview.team_id}>
+                            <TableCell className="text-center font-medium">{preview.overall_rank}</TableCell>
+                            <TableCell>
+                              <div className="font-medium text-sm">{preview.team_name}</div>
+                              <div className="text-xs text-muted-foreground">{preview.conference_name}</div>
+                            </TableCell>
+                            <TableCell className="text-center font-mono">{formatRecord(current)}</TableCell>
+                            <TableCell className="text-center font-mono">{formatRecord(preview)}</TableCell>
+                            <TableCell className="text-center">
+                              {rankChange !== 0 &&
+                          <Badge variant="outline" className={rankChange > 0 ? 'text-green-600' : 'text-red-600'}>
+                                  {rankChange > 0 ? `+${rankChange}` : rankChange}
+                                </Badge>
+                          }
+                            </TableCell>
+                          </TableRow>);
+
+                  })}
+                    </TableBody>
+                  </Table>
+                </div>
+            }
+
+              <Alert>
+                <AlertDescription>
+                  Previewing never changes stored records. Saving updates the season setting and recalculates
+                  every team record for the season.
+                </AlertDescription>
+              </Alert>
+
+              <div className="flex justify-end gap-2">
+                <Button
+                variant="outline"
+                onClick={handlePreview}
+                disabled={previewing || loading}
+                className="flex items-center gap-2">
+
+                  {previewing ?
+                <RefreshCw className="h-4 w-4 animate-spin" /> :
+
+                <Eye className="h-4 w-4" />
+                }
+                  {previewing ? 'Loading...' : 'Preview Standings'}
+                </Button>
+                <Button
+                onClick={handleSave}
+                disabled={saving || loading || mode === savedMode}
+                className="flex items-center gap-2">
+
+                  {saving ?
+                <RefreshCw className="h-4 w-4 animate-spin" /> :
+
+                <Save className="h-4 w-4" />
+                }
+                  {saving ? 'Saving...' : 'Save Median Scoring'}
+                </Button>
+              </div>
+            </>
+          }
+        </CardContent>
+      </Card>
+    </div>);
+
+};
+
+export default MedianScoringManager;
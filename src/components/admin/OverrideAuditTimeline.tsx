@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { DatabaseService } from '@/services/databaseService';
+import { MatchupOverrideService, MatchupOverrideEventWithTeams } from '@/services/matchupOverrideService';
+import { DbSeason, DbTeam, MatchupOverrideAction } from '@/types/database';
+import { History, Loader2, Plus, PowerOff, RefreshCw, RotateCcw, Trash2 } from 'lucide-react';
+
+const ACTION_DETAILS: Record<MatchupOverrideAction, {label: string;icon: React.ElementType;className: string;}> = {
+  create: { label: 'Created', icon: Plus, className: 'bg-green-100 text-green-800 border-green-300' },
+  deactivate: { label: 'Deactivated', icon: PowerOff, className: 'bg-orange-100 text-orange-800 border-orange-300' },
+  delete: { label: 'Deleted', icon: Trash2, className: 'bg-red-100 text-red-800 border-red-300' },
+  restore: { label: 'Restored', icon: RotateCcw, className: 'bg-blue-100 text-blue-800 border-blue-300' }
+};
+
+// Regular season weeks (1-12)
+const REGULAR_SEASON_WEEKS = Array.from({ length: 12 }, (_, i) => i + 1);
+
+const OverrideAuditTimeline: React.FC = () => {
+  const [seasons, setSeasons] = useState<DbSeason[]>([]);
+  const [selectedSeason, setSelectedSeason] = useState<string>('');
+  const [selectedWeek, setSelectedWeek] = useState<string>('all');
+  const [events, setEvents] = useState<MatchupOverrideEventWithTeams[]>([]);
+  const [adminName, setAdminName] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadSeasons();
+  }, []);
+
+  useEffect(() => {
+    if (selectedSeason) {
+      loadEvents();
+    }
+  }, [selectedSeason, selectedWeek]);
+
+  const loadSeasons = async () => {
+    try {
+      const { data, error } = await DatabaseService.getSeasons({
+        limit: 100,
+        orderBy: { column: 'season_year', ascending: false }
+      });
+      if (error) throw new Error(error);
+
+      setSeasons(data);
+      const currentSeason = data.find((s) => s.is_current);
+      if (currentSeason) {
+        setSelectedSeason(currentSeason.id.toString());
+      }
+    } catch (error) {
+      console.error('Error loading seasons:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load seasons',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const loadEvents = async () => {
+    setLoading(true);
+    const rows = await MatchupOverrideService.getOverrideEvents(
+      parseInt(selectedSeason),
+      selectedWeek === 'all' ? undefined : parseInt(selectedWeek)
+    );
+    setEvents(rows);
+    setLoading(false);
+  };
+
+  const handleRestore = async (event: MatchupOverrideEventWithTeams) => {
+    const target = event.action === 'create' || event.action === 'restore' ?
+    `restore ${formatPairing(event.after_team1, event.after_team2, event.after_team1_id, event.after_team2_id)}` :
+    'remove the active override';
+    if (!confirm(`Week ${event.week}, ${event.conference?.conference_name || 'conference'}: ${target}?`)) {
+      return;
+    }
+
+    setRestoringId(event.id);
+    const success = await MatchupOverrideService.restoreEvent(event.id, adminName.trim() || undefined);
+    setRestoringId(null);
+
+    if (success) {
+      toast({
+        title: 'Override restored',
+        description: `Week ${event.week} is back to its state after event #${event.id}`
+      });
+      await loadEvents();
+    } else {
+      toast({
+        title: 'Error',
+        description: 'Failed to restore override state',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const formatPairing = (team1?: DbTeam, team2?: DbTeam, team1Id?: number | null, team2Id?: number | null) => {
+    if (!team1Id && !team2Id) return 'Original pairing';
+    const name = (team?: DbTeam, teamId?: number | null) => team?.team_name || (teamId ? `Team ${teamId}` : 'TBD');
+    return `${name(team1, team1Id)} vs ${name(team2, team2Id)}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Override History
+          </CardTitle>
+          <CardDescription>
+            Every override created, deactivated, deleted or restored. Restoring an event puts its week and conference back the way that event left them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label>Season</Label>
+              <Select value={selectedSeason} onValueChange={setSelectedSeason}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select season..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {seasons.map((season) =>
+                  <SelectItem key={season.id} value={season.id.toString()}>
+                      {season.season_name}
+                    </SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Week</Label>
+              <Select value={selectedWeek} onValueChange={setSelectedWeek} disabled={!selectedSeason}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All weeks</SelectItem>
+                  {REGULAR_SEASON_WEEKS.map((week) =>
+                  <SelectItem key={week} value={week.toString()}>Week {week}</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="admin-name">Your name (recorded on restores)</Label>
+              <Input
+                id="admin-name"
+                placeholder="admin"
+                value={adminName}
+                onChange={(e) => setAdminName(e.target.value)} />
+            </div>
+
+            <div className="space-y-2 flex items-end">
+              <Button variant="outline" onClick={loadEvents} disabled={!selectedSeason || loading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          {loading ?
+          <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div> :
+          events.length === 0 ?
+          <p className="text-sm text-muted-foreground text-center py-8">No override changes recorded</p> :
+
+          <ol className="relative border-l ml-3 space-y-6">
+              {events.map((event) => {
+              const details = ACTION_DETAILS[event.action];
+              const Icon = details.icon;
+
+              return (
+                <li key={event.id} className="ml-6">
+                    <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-background border">
+                      <Icon className="h-3 w-3" />
+                    </span>
+                    <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-2">
+                      <div className="space-y-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Badge variant="outline" className={details.className}>{details.label}</Badge>
+                          <span className="font-medium">Week {event.week}</span>
+                          <span className="text-sm text-muted-foreground">{event.conference?.conference_name}</span>
+                          <span className="text-xs text-muted-foreground">#{event.id}</span>
+                        </div>
+                        <div className="text-sm">
+                          <span className="text-muted-foreground">
+                            {formatPairing(event.before_team1, event.before_team2, event.before_team1_id, event.before_team2_id)}
+                          </span>
+                          <span className="mx-2">→</span>
+                          <span className="font-medium">
+                            {formatPairing(event.after_team1, event.after_team2, event.after_team1_id, event.after_team2_id)}
+                          </span>
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {event.admin_id || 'admin'}
+                          {event.created_at && ` • ${new Date(event.created_at).toLocaleString()}`}
+                          {event.reason && ` • ${event.reason}`}
+                        </div>
+                      </div>
+                      <Button
+                      variant="outline"
+                      size="sm"
+                      className="shrink-0"
+                      onClick={() => handleRestore(event)}
+                      disabled={restoringId !== null}>
+
+                        {restoringId === event.id ?
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" /> :
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      }
+                        Restore
+                      </Button>
+                    </div>
+                  </li>);
+
+            })}
+            </ol>
+          }
+        </CardContent>
+      </Card>
+    </div>);
+
+};
+
+export default OverrideAuditTimeline;
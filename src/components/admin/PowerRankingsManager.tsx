@@ -0,0 +1,332 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Zap, Save, RefreshCw, Camera } from 'lucide-react';
+import { DatabaseService, DbSeason } from '@/services/databaseService';
+import { StandingsService } from '@/services/standingsService';
+import {
+  PowerRankingsService,
+  PowerRankingRow,
+  PowerRankingWeights,
+  PowerRankingComponent,
+  POWER_RANKING_COMPONENT_LABELS,
+  DEFAULT_POWER_RANKING_WEIGHTS } from
+'@/services/powerRankingsService';
+
+const COMPONENTS = Object.keys(POWER_RANKING_COMPONENT_LABELS) as PowerRankingComponent[];
+const WEEKS = Array.from({ length: 17 }, (_, i) => i + 1);
+
+const PowerRankingsManager: React.FC = () => {
+  const [seasons, setSeasons] = useState<DbSeason[]>([]);
+  const [selectedSeasonId, setSelectedSeasonId] = useState<number | null>(null);
+  const [weights, setWeights] = useState<PowerRankingWeights>(DEFAULT_POWER_RANKING_WEIGHTS);
+  const [week, setWeek] = useState<number>(1);
+  const [rows, setRows] = useState<PowerRankingRow[]>([]);
+  const [teamNames, setTeamNames] = useState<Map<number, string>>(new Map());
+  const [blurbs, setBlurbs] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [savingBlurbId, setSavingBlurbId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadSeasons();
+  }, []);
+
+  useEffect(() => {
+    if (selectedSeasonId) {
+      loadSeasonSettings();
+    }
+  }, [selectedSeasonId]);
+
+  useEffect(() => {
+    if (selectedSeasonId) {
+      loadSnapshot();
+    }
+  }, [selectedSeasonId, week]);
+
+  const loadSeasons = async () => {
+    try {
+      const response = await DatabaseService.getSeasons({
+        orderBy: { column: 'season_year', ascending: false }
+      });
+
+      if (response.error) {
+        throw new Error('Failed to load seasons');
+      }
+
+      setSeasons(response.data);
+
+      // Auto-select current season if available
+      const currentSeason = response.data.find((s) => s.is_current);
+      if (currentSeason) {
+        setSelectedSeasonId(currentSeason.id);
+      }
+    } catch (error) {
+      console.error('Error loading seasons:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load seasons",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const loadSeasonSettings = async () => {
+    if (!selectedSeasonId) return;
+
+    setLoading(true);
+    try {
+      const [seasonWeights, standings, weeks] = await Promise.all([
+      PowerRankingsService.getSeasonWeights(selectedSeasonId),
+      StandingsService.getLeagueStandings(selectedSeasonId),
+      PowerRankingsService.getSnapshotWeeks(selectedSeasonId)]
+      );
+
+      setWeights(seasonWeights);
+      setTeamNames(new Map(standings.map((team) => [team.team_id, team.team_name])));
+      if (weeks.length > 0) {
+        setWeek(weeks[weeks.length - 1]);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadSnapshot = async () => {
+    if (!selectedSeasonId) return;
+
+    try {
+      const snapshot = (await PowerRankingsService.getRankings(selectedSeasonId, week)).filter((row) => row.id !== undefined);
+      setRows(snapshot);
+      setBlurbs(Object.fromEntries(snapshot.map((row) => [row.id!, row.blurb || ''])));
+    } catch (error) {
+      console.error('Error loading power ranking snapshot:', error);
+      setRows([]);
+    }
+  };
+
+  const handleSaveWeights = async () => {
+    if (!selectedSeasonId) return;
+
+    setSaving(true);
+    try {
+      const result = await PowerRankingsService.saveSeasonWeights(selectedSeasonId, weights);
+
+      if (!result.success) {
+        throw new Error('Failed to save power ranking weights');
+      }
+
+      toast({
+        title: "Success",
+        description: "Power ranking weights saved. Regenerate a week to apply them."
+      });
+    } catch (error) {
+      console.error('Error saving power ranking weights:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save power ranking weights",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!selectedSeasonId) return;
+
+    setGenerating(true);
+    try {
+      const result = await PowerRankingsService.generateSnapshot(selectedSeasonId, week);
+
+      if (!result.success) {
+        throw new Error('Failed to generate power rankings');
+      }
+
+      toast({
+        title: "Success",
+        description: `Power rankings generated for week ${week}`
+      });
+
+      await loadSnapshot();
+    } catch (error) {
+      console.error('Error generating power rankings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to generate power rankings",
+        variant: "destructive"
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleSaveBlurb = async (id: number) => {
+    setSavingBlurbId(id);
+    try {
+      const result = await PowerRankingsService.saveBlurb(id, blurbs[id] || '');
+
+      if (!result.success) {
+        throw new Error('Failed to save blurb');
+      }
+
+      setRows(rows.map((row) => row.id === id ? { ...row, blurb: blurbs[id] || '' } : row));
+
+      toast({
+        title: "Success",
+        description: "Blurb saved"
+      });
+    } catch (error) {
+      console.error('Error saving blurb:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save blurb",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingBlurbId(null);
+    }
+  };
+
+  const totalWeight = COMPONENTS.reduce((sum, component) => sum + (weights[component] || 0), 0);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Zap className="h-5 w-5" />
+            Power Rankings
+          </CardTitle>
+          <CardDescription>
+            Configure the ranking formula, publish weekly snapshots and write a blurb for each team
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Season Filter */}
+          <div className="space-y-2">
+            <Label htmlFor="power-rankings-season-select">Season</Label>
+            <Select
+              value={selectedSeasonId?.toString() || ""}
+              onValueChange={(value) => setSelectedSeasonId(parseInt(value))}>
+
+              <SelectTrigger id="power-rankings-season-select">
+                <SelectValue placeholder="Select a season" />
+              </SelectTrigger>
+              <SelectContent>
+                {seasons.map((season) =>
+                <SelectItem key={season.id} value={season.id.toString()}>
+                    {season.season_name} ({season.season_year})
+                    {season.is_current && " - Current"}
+                  </SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selectedSeasonId && (loading ?
+          <div className="flex items-center justify-center py-8">
+              <RefreshCw className="h-6 w-6 animate-spin" />
+              <span className="ml-2">Loading power rankings...</span>
+            </div> :
+
+          <>
+              {/* Weights */}
+              <div className="space-y-3">
+                <h3 className="text-sm font-semibold">Formula Weights</h3>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {COMPONENTS.map((component) =>
+                <div key={component} className="space-y-1">
+                      <Label htmlFor={`weight-${component}`}>{POWER_RANKING_COMPONENT_LABELS[component]}</Label>
+                      <Input
+                    id={`weight-${component}`}
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={Math.round((weights[component] || 0) * 100)}
+                    onChange={(e) => setWeights({ ...weights, [component]: Math.max(0, Number(e.target.value) || 0) / 100 })} />
+
+                    </div>
+                )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Weights are relative and rescaled to 100% (currently {Math.round(totalWeight * 100)}%)
+                </p>
+                <div className="flex justify-end">
+                  <Button onClick={handleSaveWeights} disabled={saving || totalWeight <= 0} className="flex items-center gap-2">
+                    {saving ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                    {saving ? 'Saving...' : 'Save Weights'}
+                  </Button>
+                </div>
+              </div>
+
+              {/* Weekly Snapshot */}
+              <div className="space-y-3">
+                <h3 className="text-sm font-semibold">Weekly Snapshot</h3>
+                <div className="flex items-center gap-2">
+                  <Select value={week.toString()} onValueChange={(value) => setWeek(parseInt(value))}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEKS.map((w) =>
+                    <SelectItem key={w} value={w.toString()}>Week {w}</SelectItem>
+                    )}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={handleGenerate} disabled={generating} className="flex items-center gap-2">
+                    {generating ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Camera className="h-4 w-4" />}
+                    {generating ? 'Generating...' : rows.length > 0 ? 'Regenerate' : 'Generate'}
+                  </Button>
+                </div>
+
+                {rows.length === 0 ?
+              <p className="text-sm text-muted-foreground">No snapshot for week {week} yet.</p> :
+
+              <div className="space-y-3">
+                    {rows.map((row) =>
+                <div key={row.id} className="rounded-md border p-3 space-y-2">
+                        <div className="flex items-center justify-between">
+                          <p className="font-medium text-sm">
+                            #{row.rank} {teamNames.get(row.team_id) || `Team ${row.team_id}`}
+                          </p>
+                          <span className="font-mono text-xs text-muted-foreground">{row.score.toFixed(1)}</span>
+                        </div>
+                        <div className="flex items-start gap-2">
+                          <Textarea
+                      rows={2}
+                      maxLength={280}
+                      placeholder="Short blurb for this week"
+                      value={blurbs[row.id!] || ''}
+                      onChange={(e) => setBlurbs({ ...blurbs, [row.id!]: e.target.value })} />
+
+                          <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleSaveBlurb(row.id!)}
+                      disabled={savingBlurbId === row.id || (blurbs[row.id!] || '') === (row.blurb || '')}>
+
+                            {savingBlurbId === row.id ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                          </Button>
+                        </div>
+                      </div>
+                )}
+                  </div>
+              }
+              </div>
+            </>)
+          }
+        </CardContent>
+      </Card>
+    </div>);
+
+};
+
+export default PowerRankingsManager;
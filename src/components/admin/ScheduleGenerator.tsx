@@ -0,0 +1,363 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { DatabaseService } from '@/services/databaseService';
+import { ScheduleGeneratorService, GeneratedSchedule, ScheduleTeam } from '@/services/scheduleGeneratorService';
+import { DbConference, DbSeason } from '@/types/database';
+import { AlertTriangle, CalendarPlus, CheckCircle, Loader2, Shuffle } from 'lucide-react';
+
+// Regular season weeks (1-12)
+const REGULAR_SEASON_WEEKS = 12;
+
+const ScheduleGenerator: React.FC = () => {
+  const [seasons, setSeasons] = useState<DbSeason[]>([]);
+  const [selectedSeason, setSelectedSeason] = useState<string>('');
+  const [conferences, setConferences] = useState<DbConference[]>([]);
+  const [teams, setTeams] = useState<ScheduleTeam[]>([]);
+  const [teamNames, setTeamNames] = useState<Map<number, string>>(new Map());
+  const [conferenceGames, setConferenceGames] = useState('1');
+  const [interconferenceWeeks, setInterconferenceWeeks] = useState('12');
+  const [minWeeksBetweenMeetings, setMinWeeksBetweenMeetings] = useState('3');
+  const [seed, setSeed] = useState('');
+  const [schedule, setSchedule] = useState<GeneratedSchedule | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [committing, setCommitting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadSeasons();
+  }, []);
+
+  useEffect(() => {
+    setSchedule(null);
+    if (selectedSeason) {
+      loadTeams();
+    }
+  }, [selectedSeason]);
+
+  const loadSeasons = async () => {
+    try {
+      const { data, error } = await DatabaseService.getSeasons({
+        limit: 100,
+        orderBy: { column: 'season_year', ascending: false }
+      });
+      if (error) throw new Error(error);
+
+      setSeasons(data);
+      const currentSeason = data.find((s) => s.is_current);
+      if (currentSeason) {
+        setSelectedSeason(currentSeason.id.toString());
+      }
+    } catch (error) {
+      console.error('Error loading seasons:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load seasons',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const loadTeams = async () => {
+    try {
+      setLoading(true);
+      const { data: conferenceData, error } = await DatabaseService.getConferences({
+        filters: [{ column: 'season_id', operator: 'eq', value: parseInt(selectedSeason) }]
+      });
+      if (error) throw new Error(error);
+
+      const conferenceIds = conferenceData.map((c) => c.id);
+      const { data: junctions } = conferenceIds.length > 0 ?
+      await DatabaseService.getTeamConferenceJunctions({
+        filters: [{ column: 'conference_id', operator: 'in', value: conferenceIds }],
+        limit: 1000
+      }) :
+      { data: [] };
+
+      const { data: teamData } = junctions.length > 0 ?
+      await DatabaseService.getTeams({
+        filters: [{ column: 'id', operator: 'in', value: junctions.map((j) => j.team_id) }],
+        limit: 1000
+      }) :
+      { data: [] };
+
+      setConferences(conferenceData);
+      setTeams(junctions.map((j) => ({ team_id: j.team_id, conference_id: j.conference_id })));
+      setTeamNames(new Map(teamData.map((team) => [team.id, team.team_name])));
+    } catch (error) {
+      console.error('Error loading teams:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load conferences and teams',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleGenerate = () => {
+    const scheduleSeed = seed ? parseInt(seed) : Math.floor(Math.random() * 1000000);
+
+    try {
+      const generated = ScheduleGeneratorService.generateSchedule(teams, {
+        weeks: REGULAR_SEASON_WEEKS,
+        conferenceGames: parseInt(conferenceGames) || 0,
+        interconferenceWeeks: interconferenceWeeks.
+        split(',').
+        map((week) => parseInt(week.trim())).
+        filter((week) => !isNaN(week)),
+        minWeeksBetweenMeetings: parseInt(minWeeksBetweenMeetings) || 0,
+        seed: scheduleSeed
+      });
+
+      setSeed(scheduleSeed.toString());
+      setSchedule(generated);
+    } catch (error) {
+      setSchedule(null);
+      toast({
+        title: 'Cannot generate schedule',
+        description: error instanceof Error ? error.message : 'Invalid settings',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!schedule) return;
+
+    const season = seasons.find((s) => s.id.toString() === selectedSeason);
+    if (!confirm(`Create ${schedule.games.length} regular season matchups for ${season?.season_name || 'this season'}?`)) {
+      return;
+    }
+
+    setCommitting(true);
+    const result = await ScheduleGeneratorService.commitSchedule(parseInt(selectedSeason), schedule.games);
+    setCommitting(false);
+
+    if (result.success) {
+      toast({
+        title: 'Schedule committed',
+        description: `Created ${result.created} matchups`
+      });
+      setSchedule(null);
+    } else {
+      toast({
+        title: 'Error',
+        description: typeof result.error === 'string' ?
+        result.error :
+        `Failed to commit schedule${result.created > 0 ? ` after creating ${result.created} matchups` : ''}`,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const teamName = (teamId: number) => teamNames.get(teamId) || `Team ${teamId}`;
+  const conferenceName = (conferenceId: number) =>
+  conferences.find((c) => c.id === conferenceId)?.conference_name || `Conference ${conferenceId}`;
+
+  const weeks = Array.from({ length: REGULAR_SEASON_WEEKS }, (_, i) => i + 1);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarPlus className="h-5 w-5" />
+            Schedule Generator
+          </CardTitle>
+          <CardDescription>
+            Generate the full regular season, review it, then commit it as matchups
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="space-y-2">
+              <Label>Season</Label>
+              <Select value={selectedSeason} onValueChange={setSelectedSeason}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select season..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {seasons.map((season) =>
+                  <SelectItem key={season.id} value={season.id.toString()}>
+                      {season.season_name}
+                    </SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="conference-games">Games vs. each conference opponent</Label>
+              <Input
+                id="conference-games"
+                type="number"
+                min={1}
+                value={conferenceGames}
+                onChange={(e) => setConferenceGames(e.target.value)} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="interconference-weeks">Interconference weeks</Label>
+              <Input
+                id="interconference-weeks"
+                placeholder="e.g. 6, 12"
+                value={interconferenceWeeks}
+                onChange={(e) => setInterconferenceWeeks(e.target.value)} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="min-weeks">Min. weeks between rematches</Label>
+              <Input
+                id="min-weeks"
+                type="number"
+                min={0}
+                value={minWeeksBetweenMeetings}
+                onChange={(e) => setMinWeeksBetweenMeetings(e.target.value)} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="seed">Seed</Label>
+              <Input
+                id="seed"
+                type="number"
+                placeholder="Random"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              {teams.length} teams in {conferences.length} conferences
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleGenerate} disabled={loading || teams.length === 0}>
+                {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Shuffle className="h-4 w-4 mr-2" />}
+                Generate Preview
+              </Button>
+              <Button
+                onClick={handleCommit}
+                disabled={!schedule || schedule.report.violations.length > 0 || committing}>
+
+                {committing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+                Commit Schedule
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {schedule &&
+      <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Fairness Report</CardTitle>
+              <CardDescription>
+                Largest home/away difference: {schedule.report.max_home_away_difference}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {schedule.report.violations.length > 0 ?
+            <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    <div className="font-medium mb-1">
+                      This schedule breaks {schedule.report.violations.length} constraint(s) and cannot be committed
+                    </div>
+                    <ul className="list-disc pl-4 text-sm">
+                      {schedule.report.violations.slice(0, 10).map((violation, index) =>
+                  <li key={index}>{violation}</li>
+                  )}
+                    </ul>
+                  </AlertDescription>
+                </Alert> :
+
+            <Alert>
+                  <CheckCircle className="h-4 w-4" />
+                  <AlertDescription>Every constraint is met</AlertDescription>
+                </Alert>
+            }
+
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Team</TableHead>
+                      <TableHead>Conference</TableHead>
+                      <TableHead className="text-center">Home / Away</TableHead>
+                      <TableHead className="text-center">Conference</TableHead>
+                      <TableHead className="text-center">Interconference</TableHead>
+                      <TableHead className="text-center">Meetings per Opponent</TableHead>
+                      <TableHead className="text-center">Shortest Rematch Gap</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {schedule.report.teams.map((summary) =>
+                  <TableRow key={summary.team_id}>
+                        <TableCell className="font-medium">{teamName(summary.team_id)}</TableCell>
+                        <TableCell>{conferenceName(summary.conference_id)}</TableCell>
+                        <TableCell className="text-center font-mono">{summary.home} / {summary.away}</TableCell>
+                        <TableCell className="text-center font-mono">{summary.conference_games}</TableCell>
+                        <TableCell className="text-center font-mono">{summary.interconference_games}</TableCell>
+                        <TableCell className="text-center font-mono">
+                          {summary.fewest_meetings === summary.most_meetings ?
+                      summary.fewest_meetings :
+                      `${summary.fewest_meetings}-${summary.most_meetings}`}
+                        </TableCell>
+                        <TableCell className="text-center font-mono">
+                          {summary.shortest_rematch_gap !== null ? `${summary.shortest_rematch_gap} wks` : '—'}
+                        </TableCell>
+                      </TableRow>
+                  )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Schedule Preview</CardTitle>
+              <CardDescription>Away team listed first, home team second</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                {weeks.map((week) => {
+                const weekGames = schedule.games.filter((g) => g.week === week);
+                return (
+                  <div key={week} className="border rounded-md p-3 space-y-1">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="font-medium">Week {week}</span>
+                        {weekGames.some((g) => g.is_interconference) &&
+                      <Badge variant="secondary">Interconference</Badge>
+                      }
+                      </div>
+                      {weekGames.map((game) =>
+                    <div key={`${game.home_team_id}-${game.away_team_id}`} className="text-sm flex justify-between gap-2">
+                          <span className="truncate">{teamName(game.away_team_id)}</span>
+                          <span className="text-muted-foreground">@</span>
+                          <span className="truncate text-right">{teamName(game.home_team_id)}</span>
+                        </div>
+                    )}
+                    </div>);
+
+              })}
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      }
+    </div>);
+
+};
+
+export default ScheduleGenerator;
@@ -0,0 +1,266 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Calculator, CheckCircle, AlertTriangle, Loader2, ChevronDown, ChevronRight } from 'lucide-react';
+import { DatabaseService, DbSeason } from '@/services/databaseService';
+import { ScoringEngineService, TeamScoreVerification } from '@/services/scoringEngineService';
+import MatchupCache from '@/services/matchupCache';
+import { SleeperPlayer } from '@/services/sleeperApi';
+
+// Regular season weeks (1-12)
+const REGULAR_SEASON_WEEKS = Array.from({ length: 12 }, (_, i) => i + 1);
+
+const ScoreVerification: React.FC = () => {
+  const [seasons, setSeasons] = useState<DbSeason[]>([]);
+  const [selectedSeason, setSelectedSeason] = useState<string>('');
+  const [selectedWeek, setSelectedWeek] = useState<string>('all');
+  const [results, setResults] = useState<TeamScoreVerification[] | null>(null);
+  const [teamNames, setTeamNames] = useState<Map<number, string>>(new Map());
+  const [players, setPlayers] = useState<Record<string, SleeperPlayer>>({});
+  const [showAll, setShowAll] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadSeasons();
+  }, []);
+
+  useEffect(() => {
+    setResults(null);
+  }, [selectedSeason, selectedWeek]);
+
+  const loadSeasons = async () => {
+    try {
+      const { data, error } = await DatabaseService.getSeasons({
+        limit: 100,
+        orderBy: { column: 'season_year', ascending: false }
+      });
+      if (error) throw new Error(error);
+
+      setSeasons(data);
+      const currentSeason = data.find((s) => s.is_current);
+      if (currentSeason) {
+        setSelectedSeason(currentSeason.id.toString());
+      }
+    } catch (error) {
+      console.error('Error loading seasons:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load seasons',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    try {
+      const seasonId = parseInt(selectedSeason);
+      const [rows, teamsResult, playerData] = await Promise.all([
+      selectedWeek === 'all' ?
+      ScoringEngineService.verifySeason(seasonId) :
+      ScoringEngineService.verifyWeek(seasonId, parseInt(selectedWeek)),
+      DatabaseService.getTeams({ limit: 500 }),
+      MatchupCache.getPlayers()]
+      );
+
+      setTeamNames(new Map(teamsResult.data.map((team) => [team.id, team.team_name])));
+      setPlayers(playerData);
+      setResults(rows);
+      setExpanded(null);
+
+      const discrepancies = rows.filter((row) => row.has_discrepancy).length;
+      toast({
+        title: discrepancies > 0 ? 'Discrepancies found' : 'Scores verified',
+        description: `${rows.length} team scores checked, ${discrepancies} with discrepancies`,
+        variant: discrepancies > 0 ? 'destructive' : 'default'
+      });
+    } catch (error) {
+      console.error('Error verifying scores:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to verify scores',
+        variant: 'destructive'
+      });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const formatScore = (score: number | null) => score === null ? '—' : score.toFixed(2);
+  const teamName = (teamId: number | null) => teamId ? teamNames.get(teamId) || `Team ${teamId}` : 'Bye';
+  const playerName = (playerId: string) => {
+    const player = players[playerId];
+    return player ? `${player.first_name} ${player.last_name}` : playerId;
+  };
+
+  const discrepancies = results?.filter((row) => row.has_discrepancy) || [];
+  const visibleRows = (showAll ? results : discrepancies) || [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Calculator className="h-5 w-5" />
+            Score Verification
+          </CardTitle>
+          <CardDescription>
+            Rescore every starter from Sleeper's raw stat lines with the season's scoring settings and compare against the stored matchup scores and Sleeper's totals.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Season</Label>
+              <Select value={selectedSeason} onValueChange={setSelectedSeason}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select season..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {seasons.map((season) =>
+                  <SelectItem key={season.id} value={season.id.toString()}>
+                      {season.season_name}
+                    </SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Week</Label>
+              <Select value={selectedWeek} onValueChange={setSelectedWeek} disabled={!selectedSeason}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All completed weeks</SelectItem>
+                  {REGULAR_SEASON_WEEKS.map((week) =>
+                  <SelectItem key={week} value={week.toString()}>Week {week}</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2 flex items-end">
+              <Button onClick={handleVerify} disabled={!selectedSeason || verifying}>
+                {verifying ?
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" /> :
+                <Calculator className="h-4 w-4 mr-2" />
+                }
+                Verify Scores
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {results &&
+      <Card>
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+              <CardTitle className="flex items-center gap-2">
+                {discrepancies.length > 0 ?
+              <AlertTriangle className="h-5 w-5 text-destructive" /> :
+              <CheckCircle className="h-5 w-5 text-green-600" />
+              }
+                {discrepancies.length > 0 ?
+              `${discrepancies.length} of ${results.length} team scores disagree` :
+              `All ${results.length} team scores match`
+              }
+              </CardTitle>
+              <div className="flex items-center gap-2">
+                <Switch id="show-all-scores" checked={showAll} onCheckedChange={setShowAll} />
+                <Label htmlFor="show-all-scores">Show matching scores</Label>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {visibleRows.length === 0 ?
+          <p className="text-sm text-muted-foreground text-center py-4">Nothing to show</p> :
+
+          <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-8" />
+                      <TableHead>Week</TableHead>
+                      <TableHead>Team</TableHead>
+                      <TableHead>Opponent</TableHead>
+                      <TableHead className="text-right">Stored</TableHead>
+                      <TableHead className="text-right">Sleeper</TableHead>
+                      <TableHead className="text-right">Rescored</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleRows.map((row) => {
+                  const key = `${row.matchup_id}-${row.team_id}`;
+                  const isExpanded = expanded === key;
+                  const playerDiffs = row.starters.filter((starter) =>
+                  starter.local_points === null || Math.abs(starter.local_points - starter.sleeper_points) > 0.01
+                  );
+
+                  return (
+                    <React.Fragment key={key}>
+                          <TableRow className="cursor-pointer hover:bg-muted/50" onClick={() => setExpanded(isExpanded ? null : key)}>
+                            <TableCell>
+                              {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                            </TableCell>
+                            <TableCell>{row.week}</TableCell>
+                            <TableCell className="font-medium">{teamName(row.team_id)}</TableCell>
+                            <TableCell>{teamName(row.opponent_id)}</TableCell>
+                            <TableCell className="text-right font-mono">{formatScore(row.stored_score)}</TableCell>
+                            <TableCell className="text-right font-mono">{formatScore(row.sleeper_score)}</TableCell>
+                            <TableCell className="text-right font-mono">{formatScore(row.local_score)}</TableCell>
+                            <TableCell>
+                              {row.has_discrepancy ?
+                          <Badge variant="destructive">Discrepancy</Badge> :
+                          row.local_score === null ?
+                          <Badge variant="outline">Stats missing</Badge> :
+                          <Badge variant="secondary">Match</Badge>
+                          }
+                            </TableCell>
+                          </TableRow>
+                          {isExpanded &&
+                      <TableRow>
+                              <TableCell colSpan={8} className="bg-muted/30">
+                                {playerDiffs.length === 0 ?
+                          <p className="text-sm text-muted-foreground">Every starter rescored to Sleeper's points</p> :
+
+                          <div className="space-y-1">
+                                    {playerDiffs.map((starter) =>
+                            <div key={starter.player_id} className="flex items-center justify-between text-sm">
+                                        <span>{playerName(starter.player_id)}</span>
+                                        <span className="font-mono">
+                                          Sleeper {starter.sleeper_points.toFixed(2)} • Rescored {formatScore(starter.local_points)}
+                                        </span>
+                                      </div>
+                            )}
+                                  </div>
+                          }
+                              </TableCell>
+                            </TableRow>
+                      }
+                        </React.Fragment>);
+
+                })}
+                  </TableBody>
+                </Table>
+              </div>
+          }
+          </CardContent>
+        </Card>
+      }
+    </div>);
+
+};
+
+export default ScoreVerification;
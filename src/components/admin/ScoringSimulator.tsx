@@ -0,0 +1,388 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { FlaskConical, Loader2, RotateCcw, ArrowUp, ArrowDown } from 'lucide-react';
+import { DatabaseService, DbSeason } from '@/services/databaseService';
+import { ProjectionService } from '@/services/projectionService';
+import { ScoringSimulatorService, ScoringSimulation } from '@/services/scoringSimulatorService';
+import { StandingsService } from '@/services/standingsService';
+import { WEEKLY_AWARD_TYPES, WEEKLY_AWARD_LABELS } from '@/services/awardsService';
+import MatchupCache from '@/services/matchupCache';
+import { SleeperPlayer } from '@/services/sleeperApi';
+import { SLEEPER_SCORING_MAP, SCORING_CATEGORIES, SCORING_CATEGORY_LABELS } from '@/hooks/useScoringSettings';
+
+// Common rule changes, applied on top of the current draft
+const PRESETS: {label: string;settings: Record<string, number>;}[] = [
+{ label: 'Full PPR', settings: { rec: 1 } },
+{ label: 'Half PPR', settings: { rec: 0.5 } },
+{ label: '6-pt passing TDs', settings: { pass_td: 6 } },
+{ label: 'TE premium (+0.5)', settings: { bonus_rec_te: 0.5 } }];
+
+
+const ScoringSimulator: React.FC = () => {
+  const [seasons, setSeasons] = useState<DbSeason[]>([]);
+  const [selectedSeason, setSelectedSeason] = useState<string>('');
+  const [actualSettings, setActualSettings] = useState<Record<string, number> | null>(null);
+  const [draftSettings, setDraftSettings] = useState<Record<string, number>>({});
+  const [simulation, setSimulation] = useState<ScoringSimulation | null>(null);
+  const [players, setPlayers] = useState<Record<string, SleeperPlayer>>({});
+  const [simulating, setSimulating] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadSeasons();
+  }, []);
+
+  useEffect(() => {
+    if (selectedSeason) {
+      loadScoringSettings();
+    }
+  }, [selectedSeason]);
+
+  const loadSeasons = async () => {
+    try {
+      const { data, error } = await DatabaseService.getSeasons({
+        limit: 100,
+        orderBy: { column: 'season_year', ascending: false }
+      });
+      if (error) throw new Error(error);
+
+      setSeasons(data);
+      // Rule votes are decided on finished seasons, so start with the most recent past one
+      const pastSeason = data.find((s) => !s.is_current) || data[0];
+      if (pastSeason) {
+        setSelectedSeason(pastSeason.id.toString());
+      }
+    } catch (error) {
+      console.error('Error loading seasons:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load seasons',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const loadScoringSettings = async () => {
+    setSimulation(null);
+    const settings = await ProjectionService.getScoringSettings(parseInt(selectedSeason));
+    setActualSettings(settings);
+    setDraftSettings(settings ? { ...settings } : {});
+    if (!settings) {
+      toast({
+        title: 'Error',
+        description: 'No scoring settings found for this season',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleSimulate = async () => {
+    setSimulating(true);
+    try {
+      const [result, playerData] = await Promise.all([
+      ScoringSimulatorService.simulateSeason(parseInt(selectedSeason), draftSettings),
+      MatchupCache.getPlayers()]
+      );
+      setSimulation(result);
+      setPlayers(playerData);
+
+      const flipped = result.matchups.filter((m) => m.actual_winner_id !== m.simulated_winner_id).length;
+      toast({
+        title: 'Simulation complete',
+        description: `${result.weeks.length} weeks rescored, ${flipped} of ${result.matchups.length} results change`
+      });
+    } catch (error) {
+      console.error('Error simulating scoring settings:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to run simulation',
+        variant: 'destructive'
+      });
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  const applyPreset = (settings: Record<string, number>) => {
+    setDraftSettings((current) => ({ ...current, ...settings }));
+    setSimulation(null);
+  };
+
+  const resetDraft = () => {
+    setDraftSettings({ ...actualSettings });
+    setSimulation(null);
+  };
+
+  const updateSetting = (key: string, value: string) => {
+    setDraftSettings((current) => ({ ...current, [key]: parseFloat(value) || 0 }));
+    setSimulation(null);
+  };
+
+  // Keys the season scores or the draft sets, plus the preset keys so presets show up
+  const editableKeys = Object.keys(SLEEPER_SCORING_MAP).filter((key) =>
+  Number(actualSettings?.[key]) || Number(draftSettings[key]) || PRESETS.some((preset) => key in preset.settings)
+  );
+
+  const changes = actualSettings ? ScoringSimulatorService.getChangedSettings(actualSettings, draftSettings) : [];
+
+  const teamNames = new Map(simulation?.actual.standings.map((team) => [team.team_id, team.team_name]) || []);
+  const teamName = (teamId: number | null | undefined) => teamId ? teamNames.get(teamId) || `Team ${teamId}` : 'Tie';
+  const playerName = (playerId: string | null | undefined) => {
+    const player = playerId ? players[playerId] : null;
+    return player ? `${player.first_name} ${player.last_name}` : playerId || '';
+  };
+
+  const flippedGames = simulation?.matchups.filter((m) => m.actual_winner_id !== m.simulated_winner_id) || [];
+
+  // Weekly award winners that change under the draft settings
+  const awardChanges = simulation ?
+  simulation.weeks.flatMap((week) => WEEKLY_AWARD_TYPES.map((type) => {
+    const actual = simulation.actual.awards.find((a) => a.week === week && a.award_type === type);
+    const simulated = simulation.simulated.awards.find((a) => a.week === week && a.award_type === type);
+    return { week, type, actual, simulated };
+  })).filter(({ actual, simulated }) =>
+  actual?.team_id !== simulated?.team_id || actual?.player_id !== simulated?.player_id
+  ) :
+  [];
+
+  const describeAward = (award: ScoringSimulation['actual']['awards'][number] | undefined) => {
+    if (!award) return '—';
+    const who = award.player_id ? `${playerName(award.player_id)} (${teamName(award.team_id)})` : teamName(award.team_id);
+    return `${who} • ${StandingsService.formatPoints(Number(award.points) || 0)}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="h-5 w-5" />
+          Scoring Rules Simulator
+        </CardTitle>
+        <CardDescription>
+          Draft alternative scoring settings and replay a season with them. Every stored starting lineup is rescored from raw stats, and the resulting standings, playoff seeds and weekly awards are shown next to what actually happened.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Season</Label>
+            <Select value={selectedSeason} onValueChange={setSelectedSeason}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select season..." />
+              </SelectTrigger>
+              <SelectContent>
+                {seasons.map((season) =>
+                <SelectItem key={season.id} value={season.id.toString()}>
+                    {season.season_name}
+                  </SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2 md:col-span-2">
+            <Label>Presets</Label>
+            <div className="flex flex-wrap gap-2">
+              {PRESETS.map((preset) =>
+              <Button
+                key={preset.label}
+                size="sm"
+                variant="outline"
+                onClick={() => applyPreset(preset.settings)}
+                disabled={!actualSettings}>
+
+                  {preset.label}
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={resetDraft}
+                disabled={!actualSettings || changes.length === 0}>
+
+                <RotateCcw className="h-4 w-4 mr-1" />
+                Reset
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {actualSettings &&
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {SCORING_CATEGORIES.
+          filter((category) => editableKeys.some((key) => SLEEPER_SCORING_MAP[key].category === category)).
+          map((category) =>
+          <div key={category} className="space-y-3">
+                <h4 className="text-sm font-semibold">{SCORING_CATEGORY_LABELS[category]}</h4>
+                {editableKeys.
+            filter((key) => SLEEPER_SCORING_MAP[key].category === category).
+            map((key) => {
+              const mapping = SLEEPER_SCORING_MAP[key];
+              const value = draftSettings[key] ?? 0;
+              const changed = value !== (Number(actualSettings[key]) || 0);
+              return (
+                <div key={key} className="space-y-1">
+                        <Label htmlFor={`draft-${key}`} className="text-xs capitalize">
+                          {mapping.description}{mapping.per > 1 && ` (per ${mapping.per})`}
+                        </Label>
+                        <Input
+                    id={`draft-${key}`}
+                    type="number"
+                    step="0.1"
+                    className={changed ? 'border-primary' : ''}
+                    value={mapping.per > 1 ? Math.round(value * mapping.per * 100) / 100 : value}
+                    onChange={(e) => updateSetting(
+                      key,
+                      mapping.per > 1 ? String((parseFloat(e.target.value) || 0) / mapping.per) : e.target.value
+                    )} />
+                      </div>);
+
+            })}
+              </div>
+          )}
+          </div>
+        }
+
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex flex-wrap gap-2">
+            {changes.length === 0 ?
+            <span className="text-sm text-muted-foreground">No changes from the season's settings</span> :
+            changes.map((change) =>
+            <Badge key={change.key} variant="secondary" className="font-mono">
+                  {change.key}: {change.actual} → {change.draft}
+                </Badge>
+            )}
+          </div>
+          <Button onClick={handleSimulate} disabled={!actualSettings || changes.length === 0 || simulating}>
+            {simulating ?
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" /> :
+            <FlaskConical className="h-4 w-4 mr-2" />
+            }
+            Run Simulation
+          </Button>
+        </div>
+
+        {simulation &&
+        <div className="space-y-6">
+            {simulation.unscored_starters > 0 &&
+          <p className="text-sm text-muted-foreground">
+                Stats could not be loaded for {simulation.unscored_starters} starter weeks; those players keep their actual points.
+              </p>
+          }
+
+            <div className="space-y-2">
+              <h4 className="font-semibold">Standings and Playoff Seeds</h4>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Team</TableHead>
+                      <TableHead className="text-center">Actual</TableHead>
+                      <TableHead className="text-center">Seed</TableHead>
+                      <TableHead className="text-center">Simulated</TableHead>
+                      <TableHead className="text-center">Seed</TableHead>
+                      <TableHead className="text-right">Points For</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {simulation.simulated.standings.map((team) => {
+                    const actual = simulation.actual.standings.find((t) => t.team_id === team.team_id);
+                    const movement = actual ? actual.overall_rank - team.overall_rank : 0;
+                    const actualSeed = simulation.actual.seeds.get(team.team_id);
+                    const simulatedSeed = simulation.simulated.seeds.get(team.team_id);
+
+                    return (
+                      <TableRow key={team.team_id}>
+                          <TableCell className="font-medium">
+                            <span className="flex items-center gap-1">
+                              {team.overall_rank}. {team.team_name}
+                              {movement > 0 && <ArrowUp className="h-3 w-3 text-green-600" />}
+                              {movement < 0 && <ArrowDown className="h-3 w-3 text-red-600" />}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-center">
+                            {actual ? `#${actual.overall_rank} • ${StandingsService.formatRecord(actual.wins, actual.losses, actual.ties)}` : '—'}
+                          </TableCell>
+                          <TableCell className="text-center">{actualSeed ?? '—'}</TableCell>
+                          <TableCell className="text-center font-medium">
+                            {StandingsService.formatRecord(team.wins, team.losses, team.ties)}
+                          </TableCell>
+                          <TableCell className="text-center">
+                            {simulatedSeed ?? '—'}
+                            {simulatedSeed !== actualSeed && <Badge variant="outline" className="ml-1">changed</Badge>}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {StandingsService.formatPoints(actual?.points_for || 0)} → {StandingsService.formatPoints(team.points_for)}
+                          </TableCell>
+                        </TableRow>);
+
+                  })}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="font-semibold">Results That Flip ({flippedGames.length})</h4>
+              {flippedGames.length === 0 ?
+            <p className="text-sm text-muted-foreground">Every game has the same winner</p> :
+
+            <div className="space-y-1">
+                  {flippedGames.map((game) =>
+              <div key={game.matchup_id} className="flex flex-col md:flex-row md:items-center md:justify-between text-sm border rounded-md p-2">
+                      <span>
+                        Week {game.week}: {teamName(game.team1_id)} vs {teamName(game.team2_id)}
+                      </span>
+                      <span className="font-mono text-xs">
+                        {game.actual_team1_score.toFixed(2)}-{game.actual_team2_score.toFixed(2)} ({teamName(game.actual_winner_id)})
+                        {' → '}
+                        {game.simulated_team1_score.toFixed(2)}-{game.simulated_team2_score.toFixed(2)} ({teamName(game.simulated_winner_id)})
+                      </span>
+                    </div>
+              )}
+                </div>
+            }
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="font-semibold">Award Winners That Change ({awardChanges.length})</h4>
+              {awardChanges.length === 0 ?
+            <p className="text-sm text-muted-foreground">Every weekly award goes to the same winner</p> :
+
+            <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Week</TableHead>
+                      <TableHead>Award</TableHead>
+                      <TableHead>Actual</TableHead>
+                      <TableHead>Simulated</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {awardChanges.map(({ week, type, actual, simulated }) =>
+                <TableRow key={`${week}-${type}`}>
+                        <TableCell>{week}</TableCell>
+                        <TableCell>{WEEKLY_AWARD_LABELS[type]}</TableCell>
+                        <TableCell className="text-sm">{describeAward(actual)}</TableCell>
+                        <TableCell className="text-sm font-medium">{describeAward(simulated)}</TableCell>
+                      </TableRow>
+                )}
+                  </TableBody>
+                </Table>
+            }
+            </div>
+          </div>
+        }
+      </CardContent>
+    </Card>);
+
+};
+
+export default ScoringSimulator;
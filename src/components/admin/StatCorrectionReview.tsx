@@ -0,0 +1,330 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { FileDiff, Check, X, Loader2, RefreshCw, ArrowRight } from 'lucide-react';
+import { DatabaseService, DbSeason } from '@/services/databaseService';
+import { StatCorrectionService } from '@/services/statCorrectionService';
+import MatchupCache from '@/services/matchupCache';
+import { SleeperPlayer } from '@/services/sleeperApi';
+import { DbStatCorrection } from '@/types/database';
+
+const StatCorrectionReview: React.FC = () => {
+  const [seasons, setSeasons] = useState<DbSeason[]>([]);
+  const [selectedSeason, setSelectedSeason] = useState<string>('');
+  const [corrections, setCorrections] = useState<DbStatCorrection[]>([]);
+  const [teamNames, setTeamNames] = useState<Map<number, string>>(new Map());
+  const [players, setPlayers] = useState<Record<string, SleeperPlayer>>({});
+  const [adminName, setAdminName] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [detecting, setDetecting] = useState(false);
+  const [reviewingId, setReviewingId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadSeasons();
+  }, []);
+
+  useEffect(() => {
+    if (selectedSeason) {
+      loadCorrections();
+    }
+  }, [selectedSeason]);
+
+  const loadSeasons = async () => {
+    try {
+      const { data, error } = await DatabaseService.getSeasons({
+        limit: 100,
+        orderBy: { column: 'season_year', ascending: false }
+      });
+      if (error) throw new Error(error);
+
+      setSeasons(data);
+      const currentSeason = data.find((s) => s.is_current);
+      if (currentSeason) {
+        setSelectedSeason(currentSeason.id.toString());
+      }
+    } catch (error) {
+      console.error('Error loading seasons:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load seasons',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const loadCorrections = async () => {
+    setLoading(true);
+    try {
+      const [rows, teamsResult, playerData] = await Promise.all([
+      StatCorrectionService.getCorrections(parseInt(selectedSeason)),
+      DatabaseService.getTeams({ limit: 500 }),
+      MatchupCache.getPlayers()]
+      );
+
+      setCorrections(rows);
+      setTeamNames(new Map(teamsResult.data.map((team) => [team.id, team.team_name])));
+      setPlayers(playerData);
+    } catch (error) {
+      console.error('Error loading stat corrections:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load stat corrections',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDetect = async () => {
+    setDetecting(true);
+    try {
+      const detected = await StatCorrectionService.detectCorrections(parseInt(selectedSeason));
+      const flipped = detected.filter((c) => c.result_flipped).length;
+      toast({
+        title: detected.length > 0 ? 'Stat corrections found' : 'No stat corrections',
+        description: detected.length > 0 ?
+        `${detected.length} matchups changed, ${flipped} with a different result` :
+        'Every completed matchup still matches Sleeper'
+      });
+      await loadCorrections();
+    } catch (error) {
+      console.error('Error running correction pass:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to run correction pass',
+        variant: 'destructive'
+      });
+    } finally {
+      setDetecting(false);
+    }
+  };
+
+  const handleReview = async (correction: DbStatCorrection, approve: boolean) => {
+    const action = approve ?
+    correction.result_flipped ? 'apply the corrected scores and change the result' : 'apply the corrected scores' :
+    'keep the stored scores';
+    if (!confirm(`Week ${correction.week}, ${teamName(correction.team1_id)} vs ${teamName(correction.team2_id)}: ${action}?`)) {
+      return;
+    }
+
+    setReviewingId(correction.id);
+    try {
+      const reviewer = adminName.trim() || 'admin';
+      if (approve) {
+        await StatCorrectionService.approveCorrection(correction.id, reviewer);
+      } else {
+        await StatCorrectionService.dismissCorrection(correction.id, reviewer);
+      }
+
+      toast({
+        title: approve ? 'Correction applied' : 'Correction dismissed',
+        description: approve ? 'Matchup result and team records updated' : 'Stored scores kept'
+      });
+      await loadCorrections();
+    } catch (error) {
+      console.error('Error reviewing stat correction:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to review stat correction',
+        variant: 'destructive'
+      });
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const teamName = (teamId: number | null | undefined) => teamId ? teamNames.get(teamId) || `Team ${teamId}` : 'Tie';
+  const playerName = (playerId: string) => {
+    const player = players[playerId];
+    return player ? `${player.first_name} ${player.last_name}` : playerId;
+  };
+
+  const pending = corrections.filter((c) => c.status === 'pending');
+  const reviewed = corrections.filter((c) => c.status !== 'pending');
+
+  const renderScores = (correction: DbStatCorrection) =>
+  <div className="space-y-1">
+      {[
+    { teamId: correction.team1_id, before: correction.before_team1_score, after: correction.after_team1_score },
+    { teamId: correction.team2_id, before: correction.before_team2_score, after: correction.after_team2_score }].
+    map((side) =>
+    <div key={side.teamId} className="flex items-center justify-between text-sm">
+          <span className="font-medium">{teamName(side.teamId)}</span>
+          <span className="flex items-center gap-1 font-mono">
+            {Number(side.before).toFixed(2)}
+            <ArrowRight className="h-3 w-3" />
+            {Number(side.after).toFixed(2)}
+          </span>
+        </div>
+    )}
+    </div>;
+
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileDiff className="h-5 w-5" />
+            Stat Corrections
+          </CardTitle>
+          <CardDescription>
+            Re-fetch completed weeks from Sleeper and compare against the stored matchup scores. Approving a correction updates the matchup's scores and winner and recalculates team records.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Season</Label>
+              <Select value={selectedSeason} onValueChange={setSelectedSeason}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select season..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {seasons.map((season) =>
+                  <SelectItem key={season.id} value={season.id.toString()}>
+                      {season.season_name}
+                    </SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="correction-admin-name">Your name (recorded on reviews)</Label>
+              <Input
+                id="correction-admin-name"
+                placeholder="admin"
+                value={adminName}
+                onChange={(e) => setAdminName(e.target.value)} />
+            </div>
+
+            <div className="space-y-2 flex items-end gap-2">
+              <Button onClick={handleDetect} disabled={!selectedSeason || detecting}>
+                {detecting ?
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" /> :
+                <FileDiff className="h-4 w-4 mr-2" />
+                }
+                Run Correction Pass
+              </Button>
+              <Button variant="outline" onClick={loadCorrections} disabled={!selectedSeason || loading}>
+                <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Awaiting Approval</CardTitle>
+          <CardDescription>{pending.length} matchups with corrected scores</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {pending.length === 0 ?
+          <p className="text-sm text-muted-foreground text-center py-4">No pending stat corrections</p> :
+
+          pending.map((correction) =>
+          <div key={correction.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">Week {correction.week}</Badge>
+                    {correction.result_flipped ?
+                <Badge variant="destructive">
+                        Result flips: {teamName(correction.before_winning_team_id)} → {teamName(correction.after_winning_team_id)}
+                      </Badge> :
+                <Badge variant="secondary">Result unchanged</Badge>
+                }
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                  size="sm"
+                  onClick={() => handleReview(correction, true)}
+                  disabled={reviewingId !== null}>
+
+                      {reviewingId === correction.id ?
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" /> :
+                  <Check className="h-4 w-4 mr-1" />
+                  }
+                      Approve
+                    </Button>
+                    <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleReview(correction, false)}
+                  disabled={reviewingId !== null}>
+
+                      <X className="h-4 w-4 mr-1" />
+                      Dismiss
+                    </Button>
+                  </div>
+                </div>
+
+                {renderScores(correction)}
+
+                {correction.player_changes?.length > 0 ?
+            <div className="space-y-1 border-t pt-2">
+                    {correction.player_changes.map((change) =>
+              <div key={`${change.team_id}-${change.player_id}`} className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span>{playerName(change.player_id)} ({teamName(change.team_id)})</span>
+                        <span className="font-mono">
+                          {change.before.toFixed(2)} → {change.after.toFixed(2)}
+                        </span>
+                      </div>
+              )}
+                  </div> :
+
+            <p className="text-xs text-muted-foreground border-t pt-2">
+                    No accepted box score to compare players against; only the team totals changed
+                  </p>
+            }
+              </div>
+          )
+          }
+        </CardContent>
+      </Card>
+
+      {reviewed.length > 0 &&
+      <Card>
+          <CardHeader>
+            <CardTitle>Reviewed</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {reviewed.map((correction) =>
+          <div key={correction.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">Week {correction.week}</Badge>
+                    <Badge variant={correction.status === 'approved' ? 'default' : 'secondary'}>
+                      {correction.status === 'approved' ? 'Approved' : 'Dismissed'}
+                    </Badge>
+                    {correction.status === 'approved' && correction.result_flipped &&
+                <Badge variant="destructive">Result flipped</Badge>
+                }
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {correction.reviewed_by}
+                    {correction.reviewed_at && ` • ${new Date(correction.reviewed_at).toLocaleString()}`}
+                  </span>
+                </div>
+                {correction.explanation ?
+            <p className="text-sm">{correction.explanation}</p> :
+            renderScores(correction)
+            }
+              </div>
+          )}
+          </CardContent>
+        </Card>
+      }
+    </div>);
+
+};
+
+export default StatCorrectionReview;
@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { ListOrdered, Save, RefreshCw, ArrowUp, ArrowDown } from 'lucide-react';
+import { DatabaseService, DbSeason } from '@/services/databaseService';
+import {
+  TiebreakerService,
+  TiebreakerRule,
+  TIEBREAKER_RULE_LABELS,
+  DEFAULT_TIEBREAKER_RULES } from
+'@/services/tiebreakerService';
+
+const RULE_DESCRIPTIONS: Record<TiebreakerRule, string> = {
+  head_to_head: 'Win percentage in games between the tied teams (only when every tied team has played each other)',
+  conference_record: 'Win percentage against teams in the same conference',
+  points_for: 'Most total points scored',
+  points_against: 'Fewest total points allowed',
+  coin_flip: 'Random but repeatable draw, always applied last if nothing else separates the teams'
+};
+
+const ALL_RULES = Object.keys(TIEBREAKER_RULE_LABELS) as TiebreakerRule[];
+
+const TiebreakerRulesManager: React.FC = () => {
+  const [seasons, setSeasons] = useState<DbSeason[]>([]);
+  const [selectedSeasonId, setSelectedSeasonId] = useState<number | null>(null);
+  const [ruleOrder, setRuleOrder] = useState<TiebreakerRule[]>(ALL_RULES);
+  const [enabledRules, setEnabledRules] = useState<Set<TiebreakerRule>>(new Set(DEFAULT_TIEBREAKER_RULES));
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadSeasons();
+  }, []);
+
+  useEffect(() => {
+    if (selectedSeasonId) {
+      loadRules();
+    }
+  }, [selectedSeasonId]);
+
+  const loadSeasons = async () => {
+    try {
+      const response = await DatabaseService.getSeasons({
+        orderBy: { column: 'season_year', ascending: false }
+      });
+
+      if (response.error) {
+        throw new Error('Failed to load seasons');
+      }
+
+      setSeasons(response.data);
+
+      // Auto-select current season if available
+      const currentSeason = response.data.find((s) => s.is_current);
+      if (currentSeason) {
+        setSelectedSeasonId(currentSeason.id);
+      }
+    } catch (error) {
+      console.error('Error loading seasons:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load seasons",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const loadRules = async () => {
+    if (!selectedSeasonId) return;
+
+    setLoading(true);
+    try {
+      const rules = await TiebreakerService.getSeasonRules(selectedSeasonId);
+      // Enabled rules first in their saved order, then the unused ones
+      setRuleOrder([...rules, ...ALL_RULES.filter((rule) => !rules.includes(rule))]);
+      setEnabledRules(new Set(rules));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= ruleOrder.length) return;
+
+    const updated = [...ruleOrder];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    setRuleOrder(updated);
+  };
+
+  const toggleRule = (rule: TiebreakerRule, checked: boolean) => {
+    setEnabledRules((prev) => {
+      const updated = new Set(prev);
+      if (checked) {
+        updated.add(rule);
+      } else {
+        updated.delete(rule);
+      }
+      return updated;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!selectedSeasonId) {
+      toast({
+        title: "Error",
+        description: "Please select a season",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const rules = ruleOrder.filter((rule) => enabledRules.has(rule));
+      const result = await TiebreakerService.saveSeasonRules(selectedSeasonId, rules);
+
+      if (!result.success) {
+        throw new Error('Failed to save tiebreaker rules');
+      }
+
+      toast({
+        title: "Success",
+        description: "Tiebreaker rules saved successfully"
+      });
+
+      await loadRules();
+    } catch (error) {
+      console.error('Error saving tiebreaker rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save tiebreaker rules",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListOrdered className="h-5 w-5" />
+            Standings Tiebreakers
+          </CardTitle>
+          <CardDescription>
+            Choose which tiebreakers apply and in what order when teams finish with the same win percentage
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Season Filter */}
+          <div className="space-y-2">
+            <Label htmlFor="tiebreaker-season-select">Season</Label>
+            <Select
+              value={selectedSeasonId?.toString() || ""}
+              onValueChange={(value) => setSelectedSeasonId(parseInt(value))}>
+
+              <SelectTrigger id="tiebreaker-season-select">
+                <SelectValue placeholder="Select a season" />
+              </SelectTrigger>
+              <SelectContent>
+                {seasons.map((season) =>
+                <SelectItem key={season.id} value={season.id.toString()}>
+                    {season.season_name} ({season.season_year})
+                    {season.is_current && " - Current"}
+                  </SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selectedSeasonId &&
+          <>
+              {loading ?
+            <div className="flex items-center justify-center py-8">
+                  <RefreshCw className="h-6 w-6 animate-spin" />
+                  <span className="ml-2">Loading tiebreaker rules...</span>
+                </div> :
+
+            <div className="space-y-2">
+                  {ruleOrder.map((rule, index) =>
+              <div key={rule} className="flex items-center justify-between rounded-md border p-3">
+                      <div className="flex items-start space-x-3">
+                        <Checkbox
+                    id={`tiebreaker-${rule}`}
+                    checked={enabledRules.has(rule)}
+                    onCheckedChange={(checked) => toggleRule(rule, checked === true)} />
+
+                        <div>
+                          <Label htmlFor={`tiebreaker-${rule}`} className="font-medium">
+                            {index + 1}. {TIEBREAKER_RULE_LABELS[rule]}
+                          </Label>
+                          <p className="text-sm text-muted-foreground">{RULE_DESCRIPTIONS[rule]}</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => moveRule(index, -1)} disabled={index === 0}>
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => moveRule(index, 1)} disabled={index === ruleOrder.length - 1}>
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+              )}
+                </div>
+            }
+
+              <Alert>
+                <AlertDescription>
+                  Ties between three or more teams are broken one team at a time. Once a team is separated,
+                  the remaining tied teams start again from the first rule.
+                </AlertDescription>
+              </Alert>
+
+              {/* Save Button */}
+              <div className="flex justify-end">
+                <Button
+                onClick={handleSave}
+                disabled={saving || loading}
+                className="flex items-center gap-2">
+
+                  {saving ?
+                <RefreshCw className="h-4 w-4 animate-spin" /> :
+
+                <Save className="h-4 w-4" />
+                }
+                  {saving ? 'Saving...' : 'Save Tiebreakers'}
+                </Button>
+              </div>
+            </>
+          }
+        </CardContent>
+      </Card>
+    </div>);
+
+};
+
+export default TiebreakerRulesManager;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { WEEKLY_AWARD_LABELS } from '@/services/awardsService';
+import { DbWeeklyAward } from '@/types/database';
+
+interface AwardSummaryProps {
+  award: DbWeeklyAward;
+  teamNames: Map<number, string>;
+  playerNames: Map<string, string>;
+  showLabel?: boolean;
+}
+
+/**
+ * One award: the winner and what they won it with
+ */
+const AwardSummary: React.FC<AwardSummaryProps> = ({ award, teamNames, playerNames, showLabel = true }) => {
+  const teamName = (teamId?: number | null) => teamId ? teamNames.get(teamId) || `Team ${teamId}` : '';
+  const points = Number(award.points).toFixed(2);
+
+  let detail: string;
+  switch (award.award_type) {
+    case 'blowout':
+    case 'nail_biter':
+      detail = Number(award.margin) === 0 ?
+      `tied ${teamName(award.opponent_id)} at ${points}` :
+      `beat ${teamName(award.opponent_id)} by ${Number(award.margin).toFixed(2)}`;
+      break;
+    case 'top_performer':
+      detail = `${award.player_id && playerNames.get(award.player_id) || `Player ${award.player_id}`} scored ${points}`;
+      break;
+    default:
+      detail = `${points} pts vs ${teamName(award.opponent_id)}`;
+  }
+
+  const winner = <span className="font-medium">{teamName(award.team_id)}</span>;
+
+  return (
+    <div className="min-w-0">
+      {showLabel &&
+      <div className="text-xs uppercase tracking-wide text-muted-foreground">{WEEKLY_AWARD_LABELS[award.award_type]}</div>
+      }
+      <div className="text-sm truncate">
+        {award.matchup_id ? <Link to={`/matchups/${award.matchup_id}`} className="hover:underline">{winner}</Link> : winner}
+        <span className="text-muted-foreground"> {detail}</span>
+      </div>
+    </div>);
+
+};
+
+export default AwardSummary;
@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Loader2, Award, ArrowRight, Crown } from 'lucide-react';
+import { AwardsService, WEEKLY_AWARD_TYPES } from '@/services/awardsService';
+import { DbWeeklyAward } from '@/types/database';
+import AwardSummary from './AwardSummary';
+
+interface WeeklyAwardsWidgetProps {
+  seasonId?: number;
+}
+
+const WeeklyAwardsWidget: React.FC<WeeklyAwardsWidgetProps> = ({ seasonId }) => {
+  const [awards, setAwards] = useState<DbWeeklyAward[]>([]);
+  const [teamNames, setTeamNames] = useState<Map<number, string>>(new Map());
+  const [playerNames, setPlayerNames] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!seasonId) {
+      setLoading(false);
+      return;
+    }
+
+    loadAwards();
+  }, [seasonId]);
+
+  const loadAwards = async () => {
+    try {
+      setLoading(true);
+      const rows = await AwardsService.getSeasonAwards(seasonId!);
+      const names = await AwardsService.getAwardNames(rows);
+
+      setTeamNames(names.teams);
+      setPlayerNames(names.players);
+      setAwards(rows);
+    } catch (error) {
+      console.error('Error loading weekly awards widget:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-4">
+        <Loader2 className="h-4 w-4 animate-spin text-primary" />
+      </div>);
+
+  }
+
+  if (awards.length === 0) {
+    return null;
+  }
+
+  const latestWeek = Math.max(...awards.map((award) => award.week));
+  const latestAwards = WEEKLY_AWARD_TYPES.
+  map((type) => awards.find((award) => award.week === latestWeek && award.award_type === type)).
+  filter((award): award is DbWeeklyAward => !!award);
+  const seasonHighScore = AwardsService.getSeasonHighScore(awards);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Award className="h-5 w-5 text-primary" />
+            <CardTitle>Week {latestWeek} Awards</CardTitle>
+          </div>
+          <Link to="/awards">
+            <Button variant="ghost" size="sm">
+              View All <ArrowRight className="ml-1 h-4 w-4" />
+            </Button>
+          </Link>
+        </div>
+        <CardDescription>Latest completed week</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {seasonHighScore &&
+        <div className="flex items-start gap-2 p-3 rounded-md bg-accent/30">
+            <Crown className="h-4 w-4 text-yellow-500 mt-1 shrink-0" />
+            <div className="min-w-0">
+              <div className="text-xs uppercase tracking-wide text-muted-foreground">
+                Season High Score • Week {seasonHighScore.week}
+              </div>
+              <AwardSummary award={seasonHighScore} teamNames={teamNames} playerNames={playerNames} showLabel={false} />
+            </div>
+          </div>
+        }
+        {latestAwards.map((award) =>
+        <AwardSummary key={award.award_type} award={award} teamNames={teamNames} playerNames={playerNames} />
+        )}
+      </CardContent>
+    </Card>);
+
+};
+
+export default WeeklyAwardsWidget;
@@ -3,15 +3,26 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 
 interface DataPoint {
   week: number;
-  team1: number;
+  team1?: number;
   team2?: number;
 }
 
+// A named line with one value per data point (undefined leaves a gap)
+export interface ChartSeries {
+  name: string;
+  color: string;
+  values: (number | undefined)[];
+}
+
 interface SimpleLineChartProps {
   title: string;
   data: DataPoint[];
-  team1Name: string;
-  team2Name: string;
+  team1Name?: string;
+  team2Name?: string;
+  series?: ChartSeries[]; // Replaces the team1/team2 lines when provided
+  invertYAxis?: boolean; // Draw smaller values at the top, e.g. for ranks
+  formatXLabel?: (week: number) => string;
+  yDomain?: [number, number]; // Fixed Y axis range instead of fitting the data, e.g. [0, 100] for percentages
   height?: number;
 }
 
@@ -20,6 +31,10 @@ const SimpleLineChart: React.FC<SimpleLineChartProps> = ({
   data,
   team1Name,
   team2Name,
+  series,
+  invertYAxis = false,
+  formatXLabel = (week) => `W${week}`,
+  yDomain,
   height = 200
 }) => {
   if (data.length === 0) {
@@ -37,15 +52,24 @@ const SimpleLineChart: React.FC<SimpleLineChartProps> = ({
     );
   }
 
-  const maxValue = Math.max(...data.flatMap(d => [d.team1, ...(d.team2 !== undefined ? [d.team2] : [])]));
-  const minValue = Math.min(...data.flatMap(d => [d.team1, ...(d.team2 !== undefined ? [d.team2] : [])]));
-  const range = maxValue - minValue;
+  const lines: ChartSeries[] = series || [
+    { name: team1Name || '', color: '#3b82f6', values: data.map(d => d.team1) },
+    ...(data.some(d => d.team2 !== undefined) ?
+      [{ name: team2Name || '', color: '#ef4444', values: data.map(d => d.team2) }] :
+      [])
+  ];
+
+  const allValues = lines.flatMap(line => line.values.filter((value): value is number => value !== undefined));
+  const maxValue = yDomain ? yDomain[1] : Math.max(...allValues);
+  const minValue = yDomain ? yDomain[0] : Math.min(...allValues);
+  const range = maxValue - minValue || 1;
 
   // Responsive chart dimensions
   const chartPadding = { left: 60, right: 40, top: 20, bottom: 40 };
   
   const getYPosition = (value: number) => {
-    return ((maxValue - value) / range) * (height - chartPadding.top - chartPadding.bottom) + chartPadding.top;
+    const offset = invertYAxis ? value - minValue : maxValue - value;
+    return (offset / range) * (height - chartPadding.top - chartPadding.bottom) + chartPadding.top;
   };
 
   const getXPosition = (index: number, chartWidth: number) => {
@@ -73,7 +97,7 @@ const SimpleLineChart: React.FC<SimpleLineChartProps> = ({
                 {/* Grid lines */}
                 {[0, 0.25, 0.5, 0.75, 1].map((ratio, index) => {
                   const y = chartPadding.top + ratio * (height - chartPadding.top - chartPadding.bottom);
-                  const value = maxValue - ratio * range;
+                  const value = invertYAxis ? minValue + ratio * range : maxValue - ratio * range;
                   const chartWidth = Math.max(500, data.length * 70);
                   return (
                     <g key={index}>
@@ -97,66 +121,48 @@ const SimpleLineChart: React.FC<SimpleLineChartProps> = ({
                   );
                 })}
 
-                {/* Team 1 line */}
-                <polyline
-                  fill="none"
-                  stroke="#3b82f6"
-                  strokeWidth="3"
-                  points={data
-                    .map((d, i) => {
-                      const chartWidth = Math.max(500, data.length * 70);
-                      return `${getXPosition(i, chartWidth)},${getYPosition(d.team1)}`;
-                    })
-                    .join(' ')}
-                />
-
-                {/* Team 2 line - only render if team2 data exists */}
-                {data.some(d => d.team2 !== undefined) && (
-                  <polyline
-                    fill="none"
-                    stroke="#ef4444"
-                    strokeWidth="3"
-                    points={data
-                      .filter(d => d.team2 !== undefined)
-                      .map((d, i) => {
-                        const chartWidth = Math.max(500, data.length * 70);
-                        const originalIndex = data.indexOf(d);
-                        return `${getXPosition(originalIndex, chartWidth)},${getYPosition(d.team2!)}`;
-                      })
-                      .join(' ')}
-                  />
-                )}
+                {/* Series lines */}
+                {lines.map((line, lineIndex) => {
+                  const chartWidth = Math.max(500, data.length * 70);
+                  return (
+                    <polyline
+                      key={lineIndex}
+                      fill="none"
+                      stroke={line.color}
+                      strokeWidth="3"
+                      points={line.values
+                        .map((value, i) => value !== undefined ? `${getXPosition(i, chartWidth)},${getYPosition(value)}` : null)
+                        .filter(point => point !== null)
+                        .join(' ')}
+                    />
+                  );
+                })}
 
                 {/* Data points */}
                 {data.map((d, i) => {
                   const chartWidth = Math.max(500, data.length * 70);
                   return (
                     <g key={i}>
-                      <circle
-                        cx={getXPosition(i, chartWidth)}
-                        cy={getYPosition(d.team1)}
-                        r="5"
-                        fill="#3b82f6"
-                        stroke="#ffffff"
-                        strokeWidth="2"
-                      />
-                      {d.team2 !== undefined && (
+                      {lines.map((line, lineIndex) => line.values[i] !== undefined && (
                         <circle
+                          key={lineIndex}
                           cx={getXPosition(i, chartWidth)}
-                          cy={getYPosition(d.team2)}
+                          cy={getYPosition(line.values[i]!)}
                           r="5"
-                          fill="#ef4444"
+                          fill={line.color}
                           stroke="#ffffff"
                           strokeWidth="2"
-                        />
-                      )}
+                        >
+                          <title>{`${line.name}: ${line.values[i]}`}</title>
+                        </circle>
+                      ))}
                       <text
                         x={getXPosition(i, chartWidth)}
                         y={height + chartPadding.bottom - 5}
                         textAnchor="middle"
                         className="text-xs fill-gray-500 font-medium"
                       >
-                        W{d.week}
+                        {formatXLabel(d.week)}
                       </text>
                     </g>
                   );
@@ -166,17 +172,13 @@ const SimpleLineChart: React.FC<SimpleLineChartProps> = ({
           </div>
 
           {/* Centered Legend */}
-          <div className="flex justify-center items-center space-x-8 mt-6 pt-4 border-t border-gray-100">
-            <div className="flex items-center space-x-3">
-              <div className="w-6 h-1 bg-blue-500 rounded-full"></div>
-              <span className="text-sm font-medium text-gray-700">{team1Name}</span>
-            </div>
-            {data.some(d => d.team2 !== undefined) && (
-              <div className="flex items-center space-x-3">
-                <div className="w-6 h-1 bg-red-500 rounded-full"></div>
-                <span className="text-sm font-medium text-gray-700">{team2Name}</span>
+          <div className="flex flex-wrap justify-center items-center gap-x-8 gap-y-2 mt-6 pt-4 border-t border-gray-100">
+            {lines.map((line, lineIndex) => (
+              <div key={lineIndex} className="flex items-center space-x-3">
+                <div className="w-6 h-1 rounded-full" style={{ backgroundColor: line.color }}></div>
+                <span className="text-sm font-medium text-gray-700">{line.name}</span>
               </div>
-            )}
+            ))}
           </div>
         </div>
       </CardContent>
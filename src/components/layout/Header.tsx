@@ -17,7 +17,9 @@ import {
   Sun,
   Shield,
   Settings,
-  Cog } from
+  Cog,
+  Zap,
+  Award } from
 'lucide-react';
 
 const Header: React.FC = () => {
@@ -37,7 +39,9 @@ const Header: React.FC = () => {
   const navigationItems = [
   { path: '/', label: 'Home', icon: Home },
   { path: '/standings', label: 'Standings', icon: Trophy },
+  { path: '/power-rankings', label: 'Power Rankings', icon: Zap },
   { path: '/matchups', label: 'Matchups', icon: Swords },
+  { path: '/awards', label: 'Awards', icon: Award },
   { path: '/teams', label: 'Teams', icon: Users },
   { path: '/players', label: 'Players', icon: UserCheck },
   { path: '/draft', label: 'Draft Results', icon: Shield },
@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, TrendingUp } from 'lucide-react';
+import { DatabaseService } from '@/services/databaseService';
+import { WinProbabilityService, MatchupComeback } from '@/services/winProbabilityService';
+
+interface BiggestComebacksProps {
+  seasonId?: number;
+  limit?: number;
+}
+
+const BiggestComebacks: React.FC<BiggestComebacksProps> = ({ seasonId, limit = 5 }) => {
+  const [comebacks, setComebacks] = useState<MatchupComeback[]>([]);
+  const [teamNames, setTeamNames] = useState<Map<number, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!seasonId) {
+      setLoading(false);
+      return;
+    }
+
+    loadComebacks();
+  }, [seasonId, limit]);
+
+  const loadComebacks = async () => {
+    try {
+      setLoading(true);
+      const rows = await WinProbabilityService.getBiggestComebacks(seasonId!, limit);
+
+      const teamIds = [...new Set(rows.flatMap((row) => [row.winner_id, row.loser_id]))];
+      if (teamIds.length > 0) {
+        const { data: teams } = await DatabaseService.getTeams({
+          filters: [{ column: 'id', operator: 'in', value: teamIds }]
+        });
+        setTeamNames(new Map(teams.map((team) => [team.id, team.team_name])));
+      }
+
+      setComebacks(rows);
+    } catch (error) {
+      console.error('Error loading biggest comebacks:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-4">
+        <Loader2 className="h-4 w-4 animate-spin text-primary" />
+      </div>);
+
+  }
+
+  if (comebacks.length === 0) {
+    return null;
+  }
+
+  const teamName = (teamId: number) => teamNames.get(teamId) || `Team ${teamId}`;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <TrendingUp className="h-5 w-5 text-primary" />
+          Biggest Comebacks
+        </CardTitle>
+        <CardDescription>Winners with the lowest in-game win probability this season</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {comebacks.map((comeback) => {
+          const row =
+          <div className="flex items-center justify-between text-sm px-3 py-2 rounded-md bg-accent/30 hover:bg-accent/50 transition-colors">
+              <div className="min-w-0">
+                <div className="font-medium truncate">
+                  {teamName(comeback.winner_id)} <span className="text-muted-foreground font-normal">over</span> {teamName(comeback.loser_id)}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Week {comeback.week}
+                  {comeback.is_playoff && ' • Playoffs'}
+                </div>
+              </div>
+              <Badge variant="outline" className="ml-2 shrink-0 font-mono" title="Winner's lowest win probability">
+                {(comeback.lowest_probability * 100).toFixed(1)}%
+              </Badge>
+            </div>;
+
+
+          // Playoff games live in the bracket rather than the matchups table
+          return comeback.is_playoff ?
+          <div key={`p-${comeback.matchup_id}`}>{row}</div> :
+          <Link key={`m-${comeback.matchup_id}`} to={`/matchups/${comeback.matchup_id}`} className="block">{row}</Link>;
+        })}
+      </CardContent>
+    </Card>);
+
+};
+
+export default BiggestComebacks;
@@ -3,6 +3,7 @@ import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Trophy, Clock } from 'lucide-react';
+import { StandingsService } from '@/services/standingsService';
 
 interface MatchupTeam {
   id: number;
@@ -10,7 +11,7 @@ interface MatchupTeam {
   owner: string;
   avatar?: string;
   logoUrl?: string;
-  record: { wins: number; losses: number };
+  record: { wins: number; losses: number; ties?: number };
   points: number;
   projectedPoints: number;
 }
@@ -41,7 +42,7 @@ const MobileMatchupHeader: React.FC<MobileMatchupHeaderProps> = ({
       case 'live':
         return <Badge className="bg-green-500 hover:bg-green-600">Live</Badge>;
       case 'completed':
-        return <Badge variant="secondary">Final</Badge>;
+        return <Badge variant="secondary">{team2 && !isBye && !winningTeam ? 'Final • Tie' : 'Final'}</Badge>;
       case 'upcoming':
         return <Badge variant="outline">Upcoming</Badge>;
       default:
@@ -81,7 +82,7 @@ const MobileMatchupHeader: React.FC<MobileMatchupHeaderProps> = ({
                 {team1.name}
               </div>
               <div className="text-xs text-muted-foreground">
-                {team1.owner} • {team1.record.wins}-{team1.record.losses}
+                {team1.owner} • {StandingsService.formatRecord(team1.record.wins, team1.record.losses, team1.record.ties)}
               </div>
             </div>
           </div>
@@ -123,7 +124,7 @@ const MobileMatchupHeader: React.FC<MobileMatchupHeaderProps> = ({
                   {team2.name}
                 </div>
                 <div className="text-xs text-muted-foreground">
-                  {team2.owner} • {team2.record.wins}-{team2.record.losses}
+                  {team2.owner} • {StandingsService.formatRecord(team2.record.wins, team2.record.losses, team2.record.ties)}
                 </div>
               </div>
             </div>
@@ -31,6 +31,7 @@ interface PlayerCardProps {
   positionSlot: string;
   isStarter: boolean;
   gameTimeRemaining?: string;
+  pointChange?: number; // Points gained since the last live poll
   expandable?: boolean;
   onClick?: () => void;
 }
@@ -46,6 +47,7 @@ const PlayerCard: React.FC<PlayerCardProps> = ({
   positionSlot,
   isStarter,
   gameTimeRemaining,
+  pointChange,
   expandable = false,
   onClick
 }) => {
@@ -87,6 +89,7 @@ const PlayerCard: React.FC<PlayerCardProps> = ({
     ${expandable ? 'cursor-pointer hover:shadow-md transition-shadow' : ''}
     ${isStarter ? 'border-l-4 border-l-blue-500' : 'border-l-4 border-l-gray-300'}
     ${isOutperforming ? 'bg-green-50' : isUnderperforming ? 'bg-red-50' : 'bg-white'}
+    ${pointChange ? 'ring-2 ring-yellow-400' : ''}
   `;
 
   return (
@@ -126,6 +129,11 @@ const PlayerCard: React.FC<PlayerCardProps> = ({
               isUnderperforming ? 'text-red-600' : ''
             }`}>
               {points.toFixed(1)}
+              {!!pointChange &&
+              <span className={`ml-1 text-xs font-semibold animate-pulse ${pointChange > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {pointChange > 0 ? '+' : ''}{pointChange.toFixed(1)}
+                </span>
+              }
             </div>
             <div className="text-xs text-muted-foreground">
               {projected.toFixed(1)}
@@ -0,0 +1,88 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Loader2, Zap, ArrowRight } from 'lucide-react';
+import { DatabaseService } from '@/services/databaseService';
+import { PowerRankingsService, PowerRankingRow } from '@/services/powerRankingsService';
+import RankMovement from './RankMovement';
+
+interface PowerRankingsWidgetProps {
+  seasonId?: number;
+  limit?: number;
+}
+
+const PowerRankingsWidget: React.FC<PowerRankingsWidgetProps> = ({ seasonId, limit = 5 }) => {
+  const [rankings, setRankings] = useState<PowerRankingRow[]>([]);
+  const [teamNames, setTeamNames] = useState<Map<number, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!seasonId) {
+      setLoading(false);
+      return;
+    }
+
+    loadRankings();
+  }, [seasonId, limit]);
+
+  const loadRankings = async () => {
+    try {
+      setLoading(true);
+      const rows = (await PowerRankingsService.getRankings(seasonId!)).slice(0, limit);
+
+      const { data: teams } = await DatabaseService.getTeams({
+        filters: [{ column: 'id', operator: 'in', value: rows.map((row) => row.team_id) }]
+      });
+
+      setTeamNames(new Map(teams.map((team) => [team.id, team.team_name])));
+      setRankings(rows);
+    } catch (error) {
+      console.error('Error loading power rankings widget:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-4">
+        <Loader2 className="h-4 w-4 animate-spin text-primary" />
+      </div>);
+
+  }
+
+  if (rankings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 border-t pt-3">
+      <div className="flex items-center justify-between">
+        <p className="flex items-center gap-1 text-sm font-semibold">
+          <Zap className="h-4 w-4 text-primary" />
+          Power Rankings
+          {rankings[0].week > 0 && <span className="font-normal text-muted-foreground">• Week {rankings[0].week}</span>}
+        </p>
+        <Link to="/power-rankings">
+          <Button variant="ghost" size="sm">
+            All <ArrowRight className="ml-1 h-3 w-3" />
+          </Button>
+        </Link>
+      </div>
+      {rankings.map((row) =>
+      <div key={row.team_id} className="flex items-center justify-between text-sm px-3 py-1.5 rounded-md bg-accent/30">
+          <div className="flex items-center gap-2">
+            <span className="w-6 font-semibold">#{row.rank}</span>
+            <span className="truncate">{teamNames.get(row.team_id) || `Team ${row.team_id}`}</span>
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="font-mono text-xs text-muted-foreground">{row.score.toFixed(1)}</span>
+            <RankMovement rank={row.rank} previousRank={row.previous_rank} />
+          </div>
+        </div>
+      )}
+    </div>);
+
+};
+
+export default PowerRankingsWidget;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { ArrowUp, ArrowDown, Minus } from 'lucide-react';
+
+interface RankMovementProps {
+  rank: number;
+  previousRank: number | null;
+}
+
+const RankMovement: React.FC<RankMovementProps> = ({ rank, previousRank }) => {
+  if (previousRank === null) {
+    return <span className="text-xs text-muted-foreground">NEW</span>;
+  }
+
+  const change = previousRank - rank;
+  if (change > 0) {
+    return (
+      <span className="flex items-center text-xs text-green-600" title={`Up ${change} from #${previousRank}`}>
+        <ArrowUp className="h-3 w-3" />
+        {change}
+      </span>);
+
+  }
+  if (change < 0) {
+    return (
+      <span className="flex items-center text-xs text-red-600" title={`Down ${-change} from #${previousRank}`}>
+        <ArrowDown className="h-3 w-3" />
+        {-change}
+      </span>);
+
+  }
+
+  return (
+    <span className="flex items-center text-xs text-muted-foreground" title="No change">
+      <Minus className="h-3 w-3" />
+    </span>);
+
+};
+
+export default RankMovement;
@@ -0,0 +1,79 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, Newspaper, ChevronRight } from 'lucide-react';
+import { RecapService } from '@/services/recapService';
+import { DbMatchupRecap } from '@/types/database';
+
+interface WeeklyRecapDigestProps {
+  seasonId?: number;
+}
+
+/**
+ * Headlines from the latest completed week, each linking to its matchup and full recap
+ */
+const WeeklyRecapDigest: React.FC<WeeklyRecapDigestProps> = ({ seasonId }) => {
+  const [recaps, setRecaps] = useState<DbMatchupRecap[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!seasonId) {
+      setLoading(false);
+      return;
+    }
+
+    loadRecaps();
+  }, [seasonId]);
+
+  const loadRecaps = async () => {
+    try {
+      setLoading(true);
+      setRecaps(await RecapService.updateSeasonRecaps(seasonId!));
+    } catch (error) {
+      console.error('Error loading weekly recap digest:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-4">
+        <Loader2 className="h-4 w-4 animate-spin text-primary" />
+      </div>);
+
+  }
+
+  if (recaps.length === 0) {
+    return null;
+  }
+
+  const latestWeek = Math.max(...recaps.map((recap) => recap.week));
+  const latestRecaps = recaps.filter((recap) => recap.week === latestWeek);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <Newspaper className="h-5 w-5 text-primary" />
+          <CardTitle>Week {latestWeek} Recap</CardTitle>
+        </div>
+        <CardDescription>How every game in the latest completed week played out</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        {latestRecaps.map((recap) =>
+        <Link
+          key={recap.id}
+          to={`/matchups/${recap.matchup_id}`}
+          className="flex items-center justify-between gap-2 p-2 rounded-md hover:bg-accent/50 transition-colors">
+
+            <span className="text-sm font-medium truncate">{recap.headline}</span>
+            <ChevronRight className="h-4 w-4 text-muted-foreground shrink-0" />
+          </Link>
+        )}
+      </CardContent>
+    </Card>);
+
+};
+
+export default WeeklyRecapDigest;
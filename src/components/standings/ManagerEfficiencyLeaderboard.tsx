@@ -0,0 +1,104 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Armchair } from 'lucide-react';
+import { DatabaseService } from '@/services/databaseService';
+import { LineupEfficiencyService, TeamEfficiencySummary } from '@/services/lineupEfficiencyService';
+
+interface ManagerEfficiencyLeaderboardProps {
+  seasonId?: number;
+  teamIds?: number[]; // Limit the board to these teams, e.g. one conference
+}
+
+const ManagerEfficiencyLeaderboard: React.FC<ManagerEfficiencyLeaderboardProps> = ({ seasonId, teamIds }) => {
+  const [summaries, setSummaries] = useState<TeamEfficiencySummary[]>([]);
+  const [teamNames, setTeamNames] = useState<Map<number, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!seasonId) {
+      setLoading(false);
+      return;
+    }
+
+    loadEfficiency();
+  }, [seasonId]);
+
+  const loadEfficiency = async () => {
+    try {
+      setLoading(true);
+      const rows = await LineupEfficiencyService.getSeasonEfficiency(seasonId!);
+
+      if (rows.length > 0) {
+        const { data: teams } = await DatabaseService.getTeams({
+          filters: [{ column: 'id', operator: 'in', value: rows.map((row) => row.team_id) }]
+        });
+        setTeamNames(new Map(teams.map((team) => [team.id, team.team_name])));
+      }
+
+      setSummaries(rows);
+    } catch (error) {
+      console.error('Error loading manager efficiency:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const rows = teamIds ? summaries.filter((summary) => teamIds.includes(summary.team_id)) : summaries;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Armchair className="h-5 w-5" />
+          Points Left on Bench
+        </CardTitle>
+        <CardDescription>
+          Best legal lineup from each roster compared with the starters actually used, completed regular season games
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ?
+        <div className="flex items-center justify-center p-4">
+            <Loader2 className="h-4 w-4 animate-spin text-primary" />
+          </div> :
+        rows.length === 0 ?
+        <p className="text-sm text-muted-foreground text-center py-4">No completed games yet</p> :
+
+        <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12 text-center">#</TableHead>
+                  <TableHead>Team</TableHead>
+                  <TableHead className="text-center">Left on Bench</TableHead>
+                  <TableHead className="text-center">Efficiency</TableHead>
+                  <TableHead className="text-center hidden sm:table-cell">Per Game</TableHead>
+                  <TableHead className="text-center hidden md:table-cell">Worst Week</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row, index) =>
+              <TableRow key={row.team_id}>
+                    <TableCell className="text-center font-medium">{index + 1}</TableCell>
+                    <TableCell className="font-medium">{teamNames.get(row.team_id) || `Team ${row.team_id}`}</TableCell>
+                    <TableCell className="text-center font-mono">{row.points_left_on_bench.toFixed(1)}</TableCell>
+                    <TableCell className="text-center font-mono">{row.efficiency.toFixed(1)}%</TableCell>
+                    <TableCell className="text-center font-mono hidden sm:table-cell">
+                      {(row.points_left_on_bench / row.games).toFixed(1)}
+                    </TableCell>
+                    <TableCell className="text-center text-sm text-muted-foreground hidden md:table-cell">
+                      {row.worst_week ? `W${row.worst_week.week} (${row.worst_week.points_left_on_bench.toFixed(1)})` : '—'}
+                    </TableCell>
+                  </TableRow>
+              )}
+              </TableBody>
+            </Table>
+          </div>
+        }
+      </CardContent>
+    </Card>);
+
+};
+
+export default ManagerEfficiencyLeaderboard;
@@ -0,0 +1,92 @@
+import { useState, useEffect } from 'react';
+import { LiveScoringService, LiveScoringUpdate, LiveWeekStatus } from '@/services/liveScoringService';
+import { MatchupStatusService, WeekStatus } from '@/services/matchupStatusService';
+
+interface UseLiveScoringOptions {
+  season?: number;
+  week?: number;
+  leagueIds: string[];
+  // Views turn live mode off once every matchup they show is final
+  enabled?: boolean;
+}
+
+interface UseLiveScoringResult {
+  status: LiveWeekStatus | null; // Null until the NFL state has been checked
+  weekStatus: WeekStatus | null; // NFL schedule and state for the week, to resolve matchup statuses
+  isLive: boolean;
+  updates: Map<string, LiveScoringUpdate>; // Latest update per league id
+  lastUpdated: Date | null;
+  nextPollAt: Date | null;
+}
+
+// How often an upcoming week is checked for kickoff
+const UPCOMING_RECHECK = 5 * 60 * 1000;
+const MIN_RECHECK = 30 * 1000;
+
+export const useLiveScoring = (options: UseLiveScoringOptions): UseLiveScoringResult => {
+  const { season, week, leagueIds, enabled = true } = options;
+  const [status, setStatus] = useState<LiveWeekStatus | null>(null);
+  const [weekStatus, setWeekStatus] = useState<WeekStatus | null>(null);
+  const [updates, setUpdates] = useState<Map<string, LiveScoringUpdate>>(new Map());
+
+  // Sorted so the same leagues in a different order do not resubscribe
+  const leagueKey = [...leagueIds].sort().join(',');
+
+  useEffect(() => {
+    setStatus(null);
+    setWeekStatus(null);
+    setUpdates(new Map());
+
+    if (!season || !week) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    // Before kickoff keep checking, at the first kickoff if that comes sooner, so an open
+    // view switches to live when the games start
+    const check = () => {
+      MatchupStatusService.getWeekStatusForYear(season.toString(), week).then((result) => {
+        if (cancelled) return;
+        const liveStatus = LiveScoringService.toLiveStatus(result);
+        setWeekStatus(result);
+        setStatus(liveStatus);
+
+        if (liveStatus === 'upcoming') {
+          const untilKickoff = result.first_kickoff !== null ? result.first_kickoff - Date.now() : UPCOMING_RECHECK;
+          timer = setTimeout(check, Math.min(Math.max(untilKickoff, MIN_RECHECK), UPCOMING_RECHECK));
+        }
+      });
+    };
+    check();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [season, week]);
+
+  useEffect(() => {
+    if (!enabled || status !== 'live' || !season || !week || !leagueKey) return;
+
+    const unsubscribes = leagueKey.split(',').map((leagueId) =>
+    LiveScoringService.subscribe(leagueId, season, week, (update) => {
+      setUpdates((prev) => new Map(prev).set(leagueId, update));
+      if (update.isFinal) setStatus('final');
+    })
+    );
+
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [enabled, status, season, week, leagueKey]);
+
+  const latest = [...updates.values()].sort((a, b) => b.polledAt.getTime() - a.polledAt.getTime())[0];
+  const pending = [...updates.values()].map((u) => u.nextPollAt).filter((d): d is Date => d !== null);
+
+  return {
+    status,
+    weekStatus,
+    isLive: enabled && status === 'live',
+    updates,
+    lastUpdated: latest?.polledAt || null,
+    nextPollAt: pending.length > 0 ? new Date(Math.min(...pending.map((d) => d.getTime()))) : null
+  };
+};
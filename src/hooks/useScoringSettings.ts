@@ -8,31 +8,250 @@ export interface ScoringRule {
   description: string;
 }
 
-export interface ScoringSettings {
-  passing: {
-    [key: string]: ScoringRule;
-  };
-  rushing: {
-    [key: string]: ScoringRule;
-  };
-  receiving: {
-    [key: string]: ScoringRule;
-  };
+export type ScoringCategory =
+  'passing' |
+  'rushing' |
+  'receiving' |
+  'kicking' |
+  'defense' |
+  'specialTeams' |
+  'idp' |
+  'bonuses' |
+  'fumbles' |
+  'other';
+
+export type ScoringSettings = Record<ScoringCategory, { [key: string]: ScoringRule }>;
+
+// Categories in the order the rules page shows them
+export const SCORING_CATEGORIES: ScoringCategory[] = [
+  'passing', 'rushing', 'receiving', 'kicking', 'defense', 'specialTeams', 'idp', 'bonuses', 'fumbles', 'other'
+];
+
+export const SCORING_CATEGORY_LABELS: Record<ScoringCategory, string> = {
+  passing: 'Passing',
+  rushing: 'Rushing',
+  receiving: 'Receiving',
+  kicking: 'Kicking',
+  defense: 'Team Defense',
+  specialTeams: 'Special Teams',
+  idp: 'Individual Defense (IDP)',
+  bonuses: 'Bonuses',
+  fumbles: 'Fumbles',
+  other: 'Other'
+};
+
+export interface ScoringKeyMapping {
+  category: ScoringCategory;
+  key: string;
+  description: string;
+  per: number; // Units the points are quoted per when the value doesn't divide evenly, e.g. 25 passing yards
+  once?: boolean; // Awarded once per game rather than per unit, e.g. points allowed brackets and threshold bonuses
 }
 
 // Mapping from Sleeper API scoring keys to our UI structure
-const SLEEPER_SCORING_MAP: Record<string, { category: keyof ScoringSettings; key: string; description: string; per: number }> = {
+export const SLEEPER_SCORING_MAP: Record<string, ScoringKeyMapping> = {
+  // Passing
   'pass_yd': { category: 'passing', key: 'passingYards', description: 'passing yards', per: 25 },
   'pass_td': { category: 'passing', key: 'passingTDs', description: 'passing touchdown', per: 1 },
   'pass_int': { category: 'passing', key: 'interceptions', description: 'interception', per: 1 },
   'pass_2pt': { category: 'passing', key: 'passing2pt', description: '2-point conversion', per: 1 },
+  'pass_att': { category: 'passing', key: 'passAttempts', description: 'pass attempt', per: 1 },
+  'pass_cmp': { category: 'passing', key: 'completions', description: 'completion', per: 1 },
+  'pass_inc': { category: 'passing', key: 'incompletions', description: 'incompletion', per: 1 },
+  'pass_cmp_40p': { category: 'passing', key: 'completions40Plus', description: 'completion of 40+ yards', per: 1 },
+  'pass_td_40p': { category: 'passing', key: 'passingTDs40Plus', description: 'passing touchdown of 40+ yards', per: 1 },
+  'pass_td_50p': { category: 'passing', key: 'passingTDs50Plus', description: 'passing touchdown of 50+ yards', per: 1 },
+  'pass_int_td': { category: 'passing', key: 'pickSixesThrown', description: 'interception returned for a touchdown', per: 1 },
+  'pass_sack': { category: 'passing', key: 'timesSacked', description: 'time sacked', per: 1 },
+  'pass_fd': { category: 'passing', key: 'passingFirstDowns', description: 'passing first down', per: 1 },
+
+  // Rushing
   'rush_yd': { category: 'rushing', key: 'rushingYards', description: 'rushing yards', per: 10 },
   'rush_td': { category: 'rushing', key: 'rushingTDs', description: 'rushing touchdown', per: 1 },
   'rush_2pt': { category: 'rushing', key: 'rushing2pt', description: '2-point conversion', per: 1 },
-  'rec_yd': { category: 'receiving', key: 'receivingYards', description: 'receiving yards', per: 10 },
+  'rush_att': { category: 'rushing', key: 'rushAttempts', description: 'rush attempt', per: 1 },
+  'rush_fd': { category: 'rushing', key: 'rushingFirstDowns', description: 'rushing first down', per: 1 },
+  'rush_40p': { category: 'rushing', key: 'rushes40Plus', description: 'rush of 40+ yards', per: 1 },
+  'rush_td_40p': { category: 'rushing', key: 'rushingTDs40Plus', description: 'rushing touchdown of 40+ yards', per: 1 },
+  'rush_td_50p': { category: 'rushing', key: 'rushingTDs50Plus', description: 'rushing touchdown of 50+ yards', per: 1 },
+
+  // Receiving
   'rec': { category: 'receiving', key: 'receptions', description: 'reception (PPR)', per: 1 },
+  'rec_yd': { category: 'receiving', key: 'receivingYards', description: 'receiving yards', per: 10 },
   'rec_td': { category: 'receiving', key: 'receivingTDs', description: 'receiving touchdown', per: 1 },
-  'rec_2pt': { category: 'receiving', key: 'receiving2pt', description: '2-point conversion', per: 1 }
+  'rec_2pt': { category: 'receiving', key: 'receiving2pt', description: '2-point conversion', per: 1 },
+  'rec_fd': { category: 'receiving', key: 'receivingFirstDowns', description: 'receiving first down', per: 1 },
+  'rec_40p': { category: 'receiving', key: 'receptions40Plus', description: 'reception of 40+ yards', per: 1 },
+  'rec_td_40p': { category: 'receiving', key: 'receivingTDs40Plus', description: 'receiving touchdown of 40+ yards', per: 1 },
+  'rec_td_50p': { category: 'receiving', key: 'receivingTDs50Plus', description: 'receiving touchdown of 50+ yards', per: 1 },
+  'rec_0_4': { category: 'receiving', key: 'receptions0To4', description: 'reception of 0-4 yards', per: 1 },
+  'rec_5_9': { category: 'receiving', key: 'receptions5To9', description: 'reception of 5-9 yards', per: 1 },
+  'rec_10_19': { category: 'receiving', key: 'receptions10To19', description: 'reception of 10-19 yards', per: 1 },
+  'rec_20_29': { category: 'receiving', key: 'receptions20To29', description: 'reception of 20-29 yards', per: 1 },
+  'rec_30_39': { category: 'receiving', key: 'receptions30To39', description: 'reception of 30-39 yards', per: 1 },
+
+  // Kicking
+  'fgm': { category: 'kicking', key: 'fieldGoals', description: 'field goal made', per: 1 },
+  'fgm_0_19': { category: 'kicking', key: 'fieldGoals0To19', description: 'field goal made (0-19 yards)', per: 1 },
+  'fgm_20_29': { category: 'kicking', key: 'fieldGoals20To29', description: 'field goal made (20-29 yards)', per: 1 },
+  'fgm_30_39': { category: 'kicking', key: 'fieldGoals30To39', description: 'field goal made (30-39 yards)', per: 1 },
+  'fgm_40_49': { category: 'kicking', key: 'fieldGoals40To49', description: 'field goal made (40-49 yards)', per: 1 },
+  'fgm_50p': { category: 'kicking', key: 'fieldGoals50Plus', description: 'field goal made (50+ yards)', per: 1 },
+  'fgm_50_59': { category: 'kicking', key: 'fieldGoals50To59', description: 'field goal made (50-59 yards)', per: 1 },
+  'fgm_60p': { category: 'kicking', key: 'fieldGoals60Plus', description: 'field goal made (60+ yards)', per: 1 },
+  'fgm_yds': { category: 'kicking', key: 'fieldGoalYards', description: 'field goal yards', per: 10 },
+  'fgm_yds_over_30': { category: 'kicking', key: 'fieldGoalYardsOver30', description: 'field goal yards beyond 30', per: 10 },
+  'fgmiss': { category: 'kicking', key: 'missedFieldGoals', description: 'missed field goal', per: 1 },
+  'fgmiss_0_19': { category: 'kicking', key: 'missedFieldGoals0To19', description: 'missed field goal (0-19 yards)', per: 1 },
+  'fgmiss_20_29': { category: 'kicking', key: 'missedFieldGoals20To29', description: 'missed field goal (20-29 yards)', per: 1 },
+  'fgmiss_30_39': { category: 'kicking', key: 'missedFieldGoals30To39', description: 'missed field goal (30-39 yards)', per: 1 },
+  'fgmiss_40_49': { category: 'kicking', key: 'missedFieldGoals40To49', description: 'missed field goal (40-49 yards)', per: 1 },
+  'fgmiss_50p': { category: 'kicking', key: 'missedFieldGoals50Plus', description: 'missed field goal (50+ yards)', per: 1 },
+  'xpm': { category: 'kicking', key: 'extraPoints', description: 'extra point made', per: 1 },
+  'xpmiss': { category: 'kicking', key: 'missedExtraPoints', description: 'missed extra point', per: 1 },
+
+  // Team defense
+  'def_td': { category: 'defense', key: 'defensiveTDs', description: 'defensive touchdown', per: 1 },
+  'sack': { category: 'defense', key: 'sacks', description: 'sack', per: 1 },
+  'int': { category: 'defense', key: 'interceptions', description: 'interception', per: 1 },
+  'ff': { category: 'defense', key: 'forcedFumbles', description: 'forced fumble', per: 1 },
+  'fum_rec': { category: 'defense', key: 'fumbleRecoveries', description: 'fumble recovery', per: 1 },
+  'safe': { category: 'defense', key: 'safeties', description: 'safety', per: 1 },
+  'blk_kick': { category: 'defense', key: 'blockedKicks', description: 'blocked kick', per: 1 },
+  'def_2pt': { category: 'defense', key: 'defensive2ptReturns', description: '2-point conversion return', per: 1 },
+  'def_pass_def': { category: 'defense', key: 'passesDefended', description: 'pass defended', per: 1 },
+  'tkl_loss': { category: 'defense', key: 'tacklesForLoss', description: 'tackle for loss', per: 1 },
+  'qb_hit': { category: 'defense', key: 'qbHits', description: 'QB hit', per: 1 },
+  'def_4_and_stop': { category: 'defense', key: 'fourthDownStops', description: 'fourth down stop', per: 1 },
+  'def_3_and_out': { category: 'defense', key: 'threeAndOuts', description: 'three and out', per: 1 },
+  'def_forced_punts': { category: 'defense', key: 'forcedPunts', description: 'forced punt', per: 1 },
+  'int_ret_yd': { category: 'defense', key: 'interceptionReturnYards', description: 'interception return yards', per: 10 },
+  'fum_ret_yd': { category: 'defense', key: 'fumbleReturnYards', description: 'fumble return yards', per: 10 },
+  'pts_allow': { category: 'defense', key: 'pointsAllowed', description: 'point allowed', per: 1 },
+  'yds_allow': { category: 'defense', key: 'yardsAllowed', description: 'yards allowed', per: 100 },
+  'pts_allow_0': { category: 'defense', key: 'shutout', description: 'for allowing 0 points', per: 1, once: true },
+  'pts_allow_1_6': { category: 'defense', key: 'pointsAllowed1To6', description: 'for allowing 1-6 points', per: 1, once: true },
+  'pts_allow_7_13': { category: 'defense', key: 'pointsAllowed7To13', description: 'for allowing 7-13 points', per: 1, once: true },
+  'pts_allow_14_20': { category: 'defense', key: 'pointsAllowed14To20', description: 'for allowing 14-20 points', per: 1, once: true },
+  'pts_allow_21_27': { category: 'defense', key: 'pointsAllowed21To27', description: 'for allowing 21-27 points', per: 1, once: true },
+  'pts_allow_28_34': { category: 'defense', key: 'pointsAllowed28To34', description: 'for allowing 28-34 points', per: 1, once: true },
+  'pts_allow_35p': { category: 'defense', key: 'pointsAllowed35Plus', description: 'for allowing 35+ points', per: 1, once: true },
+  'yds_allow_0_100': { category: 'defense', key: 'yardsAllowedUnder100', description: 'for allowing under 100 yards', per: 1, once: true },
+  'yds_allow_100_199': { category: 'defense', key: 'yardsAllowed100To199', description: 'for allowing 100-199 yards', per: 1, once: true },
+  'yds_allow_200_299': { category: 'defense', key: 'yardsAllowed200To299', description: 'for allowing 200-299 yards', per: 1, once: true },
+  'yds_allow_300_349': { category: 'defense', key: 'yardsAllowed300To349', description: 'for allowing 300-349 yards', per: 1, once: true },
+  'yds_allow_350_399': { category: 'defense', key: 'yardsAllowed350To399', description: 'for allowing 350-399 yards', per: 1, once: true },
+  'yds_allow_400_449': { category: 'defense', key: 'yardsAllowed400To449', description: 'for allowing 400-449 yards', per: 1, once: true },
+  'yds_allow_450_499': { category: 'defense', key: 'yardsAllowed450To499', description: 'for allowing 450-499 yards', per: 1, once: true },
+  'yds_allow_500_549': { category: 'defense', key: 'yardsAllowed500To549', description: 'for allowing 500-549 yards', per: 1, once: true },
+  'yds_allow_550p': { category: 'defense', key: 'yardsAllowed550Plus', description: 'for allowing 550+ yards', per: 1, once: true },
+
+  // Special teams and returns
+  'st_td': { category: 'specialTeams', key: 'returnTDs', description: 'special teams touchdown', per: 1 },
+  'def_st_td': { category: 'specialTeams', key: 'defenseReturnTDs', description: 'kick or punt return touchdown by the team defense', per: 1 },
+  'st_ff': { category: 'specialTeams', key: 'forcedFumbles', description: 'special teams forced fumble', per: 1 },
+  'def_st_ff': { category: 'specialTeams', key: 'defenseForcedFumbles', description: 'special teams forced fumble by the team defense', per: 1 },
+  'st_fum_rec': { category: 'specialTeams', key: 'fumbleRecoveries', description: 'special teams fumble recovery', per: 1 },
+  'def_st_fum_rec': { category: 'specialTeams', key: 'defenseFumbleRecoveries', description: 'special teams fumble recovery by the team defense', per: 1 },
+  'st_tkl_solo': { category: 'specialTeams', key: 'soloTackles', description: 'special teams solo tackle', per: 1 },
+  'kr_yd': { category: 'specialTeams', key: 'kickReturnYards', description: 'kick return yards', per: 25 },
+  'pr_yd': { category: 'specialTeams', key: 'puntReturnYards', description: 'punt return yards', per: 25 },
+
+  // Individual defensive players
+  'idp_tkl': { category: 'idp', key: 'tackles', description: 'tackle', per: 1 },
+  'idp_tkl_solo': { category: 'idp', key: 'soloTackles', description: 'solo tackle', per: 1 },
+  'idp_tkl_ast': { category: 'idp', key: 'assistedTackles', description: 'assisted tackle', per: 1 },
+  'idp_tkl_loss': { category: 'idp', key: 'tacklesForLoss', description: 'tackle for loss', per: 1 },
+  'idp_sack': { category: 'idp', key: 'sacks', description: 'sack', per: 1 },
+  'idp_sack_yd': { category: 'idp', key: 'sackYards', description: 'sack yards', per: 10 },
+  'idp_qb_hit': { category: 'idp', key: 'qbHits', description: 'QB hit', per: 1 },
+  'idp_int': { category: 'idp', key: 'interceptions', description: 'interception', per: 1 },
+  'idp_int_ret_yd': { category: 'idp', key: 'interceptionReturnYards', description: 'interception return yards', per: 10 },
+  'idp_ff': { category: 'idp', key: 'forcedFumbles', description: 'forced fumble', per: 1 },
+  'idp_fum_rec': { category: 'idp', key: 'fumbleRecoveries', description: 'fumble recovery', per: 1 },
+  'idp_fum_ret_yd': { category: 'idp', key: 'fumbleReturnYards', description: 'fumble return yards', per: 10 },
+  'idp_def_td': { category: 'idp', key: 'defensiveTDs', description: 'defensive touchdown', per: 1 },
+  'idp_pass_def': { category: 'idp', key: 'passesDefended', description: 'pass defended', per: 1 },
+  'idp_safe': { category: 'idp', key: 'safeties', description: 'safety', per: 1 },
+  'idp_blk_kick': { category: 'idp', key: 'blockedKicks', description: 'blocked kick', per: 1 },
+
+  // Bonuses
+  'bonus_pass_yd_300': { category: 'bonuses', key: 'passingYards300', description: 'for a 300-399 yard passing game', per: 1, once: true },
+  'bonus_pass_yd_400': { category: 'bonuses', key: 'passingYards400', description: 'for a 400+ yard passing game', per: 1, once: true },
+  'bonus_pass_cmp_25': { category: 'bonuses', key: 'completions25', description: 'for 25+ completions', per: 1, once: true },
+  'bonus_rush_yd_100': { category: 'bonuses', key: 'rushingYards100', description: 'for a 100-199 yard rushing game', per: 1, once: true },
+  'bonus_rush_yd_200': { category: 'bonuses', key: 'rushingYards200', description: 'for a 200+ yard rushing game', per: 1, once: true },
+  'bonus_rush_att_20': { category: 'bonuses', key: 'rushAttempts20', description: 'for 20+ rush attempts', per: 1, once: true },
+  'bonus_rec_yd_100': { category: 'bonuses', key: 'receivingYards100', description: 'for a 100-199 yard receiving game', per: 1, once: true },
+  'bonus_rec_yd_200': { category: 'bonuses', key: 'receivingYards200', description: 'for a 200+ yard receiving game', per: 1, once: true },
+  'bonus_rush_rec_yd_100': { category: 'bonuses', key: 'scrimmageYards100', description: 'for a 100-199 yard rushing and receiving game', per: 1, once: true },
+  'bonus_rush_rec_yd_200': { category: 'bonuses', key: 'scrimmageYards200', description: 'for a 200+ yard rushing and receiving game', per: 1, once: true },
+  'bonus_rec_rb': { category: 'bonuses', key: 'rbReceptions', description: 'reception by a running back', per: 1 },
+  'bonus_rec_wr': { category: 'bonuses', key: 'wrReceptions', description: 'reception by a wide receiver', per: 1 },
+  'bonus_rec_te': { category: 'bonuses', key: 'tePremium', description: 'reception by a tight end (TE premium)', per: 1 },
+  'bonus_fd_qb': { category: 'bonuses', key: 'qbFirstDowns', description: 'first down by a quarterback', per: 1 },
+  'bonus_fd_rb': { category: 'bonuses', key: 'rbFirstDowns', description: 'first down by a running back', per: 1 },
+  'bonus_fd_wr': { category: 'bonuses', key: 'wrFirstDowns', description: 'first down by a wide receiver', per: 1 },
+  'bonus_fd_te': { category: 'bonuses', key: 'teFirstDowns', description: 'first down by a tight end', per: 1 },
+  'bonus_tkl_10p': { category: 'bonuses', key: 'tackles10', description: 'for 10+ tackles', per: 1, once: true },
+  'bonus_sack_2p': { category: 'bonuses', key: 'sacks2', description: 'for 2+ sacks', per: 1, once: true },
+  'bonus_def_int_td_50p': { category: 'bonuses', key: 'interceptionReturnTDs50Plus', description: 'for an interception return touchdown of 50+ yards', per: 1, once: true },
+  'bonus_def_fum_td_50p': { category: 'bonuses', key: 'fumbleReturnTDs50Plus', description: 'for a fumble return touchdown of 50+ yards', per: 1, once: true },
+
+  // Fumbles
+  'fum': { category: 'fumbles', key: 'fumbles', description: 'fumble', per: 1 },
+  'fum_lost': { category: 'fumbles', key: 'fumblesLost', description: 'fumble lost', per: 1 },
+  'fum_rec_td': { category: 'fumbles', key: 'fumbleRecoveryTDs', description: 'offensive fumble recovery touchdown', per: 1 }
+};
+
+/**
+ * Express a Sleeper per-unit value in the units people quote, e.g. 0.04 per passing yard
+ * as 1 point per 25 yards. Values that are a whole fraction of a point (0.1, 0.04) are
+ * quoted as one point per that many units; anything else is quoted per the key's usual unit.
+ */
+export const normalizeScoringValue = (value: number, mapping: Pick<ScoringKeyMapping, 'per' | 'once'>): { points: number; per: number } => {
+  if (mapping.once || mapping.per === 1 || value === 0) {
+    return { points: value, per: 1 };
+  }
+
+  const unitsPerPoint = 1 / Math.abs(value);
+  if (Math.abs(unitsPerPoint - Math.round(unitsPerPoint)) < 1e-6) {
+    return { points: Math.sign(value), per: Math.round(unitsPerPoint) };
+  }
+
+  return { points: Math.round(value * mapping.per * 100) / 100, per: mapping.per };
+};
+
+/**
+ * Group a season's Sleeper scoring settings into categories with readable rules. Keys the
+ * catalog doesn't know land in `other`; unused (zero) keys are left out.
+ */
+export const convertSleeperScoringToUI = (sleeperScoring: Record<string, number>): ScoringSettings => {
+  const settings = Object.fromEntries(SCORING_CATEGORIES.map((category) => [category, {}])) as ScoringSettings;
+
+  Object.entries(sleeperScoring).forEach(([sleeperKey, value]) => {
+    const rawPoints = Number(value) || 0;
+    if (rawPoints === 0) return;
+
+    const mapping = SLEEPER_SCORING_MAP[sleeperKey] || {
+      category: 'other' as const,
+      key: sleeperKey.replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase()),
+      description: sleeperKey,
+      per: 1
+    };
+
+    const { points, per } = normalizeScoringValue(rawPoints, mapping);
+    const amount = `${points > 0 ? '+' : ''}${points} point${Math.abs(points) !== 1 ? 's' : ''}`;
+    settings[mapping.category][mapping.key] = {
+      points,
+      per,
+      description: mapping.once ?
+        `${amount} ${mapping.description}` :
+        `${amount} per ${per > 1 ? `${per} ` : ''}${mapping.description}`
+    };
+  });
+
+  return settings;
 };
 
 export const useScoringSettings = () => {
@@ -41,27 +260,6 @@ export const useScoringSettings = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const convertSleeperScoringToUI = (sleeperScoring: Record<string, number>): ScoringSettings => {
-    const settings: ScoringSettings = {
-      passing: {},
-      rushing: {},
-      receiving: {}
-    };
-
-    Object.entries(sleeperScoring).forEach(([sleeperKey, points]) => {
-      const mapping = SLEEPER_SCORING_MAP[sleeperKey];
-      if (mapping) {
-        settings[mapping.category][mapping.key] = {
-          points,
-          per: mapping.per,
-          description: `${points > 0 ? '+' : ''}${points} point${Math.abs(points) !== 1 ? 's' : ''} per ${mapping.description}`
-        };
-      }
-    });
-
-    return settings;
-  };
-
   const fetchScoringSettings = async () => {
     if (!selectedSeason) {
       setError('No season selected');
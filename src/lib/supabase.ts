@@ -24,7 +24,16 @@ export const TABLES = {
   PLAYOFF_BRACKETS: 'playoff_brackets',
   PLAYOFF_FORMATS: 'playoff_formats',
   TEAM_ROSTERS: 'team_rosters',
-  TRANSACTIONS: 'transactions'
+  TRANSACTIONS: 'transactions',
+  POWER_RANKINGS: 'power_rankings',
+  MATCHUP_WIN_PROBABILITIES: 'matchup_win_probabilities',
+  TEAM_PROJECTIONS: 'team_projections',
+  WEEKLY_AWARDS: 'weekly_awards',
+  MATCHUP_OVERRIDE_EVENTS: 'matchup_override_events',
+  MATCHUP_RECAPS: 'matchup_recaps',
+  MATCHUP_BOX_SCORES: 'matchup_box_scores',
+  STAT_CORRECTIONS: 'stat_corrections',
+  CONFERENCE_SETTINGS_ACKNOWLEDGEMENTS: 'conference_settings_acknowledgements'
 } as const;
 
 export default supabase;
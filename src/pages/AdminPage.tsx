@@ -7,11 +7,18 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
-import { Shield, Lock, Settings, Database, Clock, Activity, Calendar, Bot, Trophy } from 'lucide-react';
+import { Shield, Lock, Settings, Database, Clock, Activity, Calendar, Bot, Trophy, Zap, Calculator } from 'lucide-react';
 import LeagueManager from '@/components/admin/LeagueManager';
 import DataSync from '@/components/admin/DataSync';
 import MatchupsManagement from '@/components/admin/MatchupsManagement';
 import PlayoffFormatManager from '@/components/admin/PlayoffFormatManager';
+import TiebreakerRulesManager from '@/components/admin/TiebreakerRulesManager';
+import MedianScoringManager from '@/components/admin/MedianScoringManager';
+import PowerRankingsManager from '@/components/admin/PowerRankingsManager';
+import ScoreVerification from '@/components/admin/ScoreVerification';
+import StatCorrectionReview from '@/components/admin/StatCorrectionReview';
+import ScoringSimulator from '@/components/admin/ScoringSimulator';
+import ConferenceSettingsChecker from '@/components/admin/ConferenceSettingsChecker';
 
 import AutoSyncManager from '@/components/admin/AutoSyncManager';
 
@@ -175,7 +182,7 @@ const AdminPage: React.FC = () => {
       </div>
 
       <Tabs defaultValue="league-manager" className="space-y-6" data-id="ojttqdptv">
-        <TabsList className="grid w-full grid-cols-5" data-id="55g8xnp5m">
+        <TabsList className="grid w-full grid-cols-7" data-id="55g8xnp5m">
           <TabsTrigger value="league-manager" className="flex items-center gap-2" data-id="mudt4s949">
             <Settings className="h-4 w-4" data-id="vq59l6i0o" />
             League Manager
@@ -192,6 +199,14 @@ const AdminPage: React.FC = () => {
             <Trophy className="h-4 w-4" />
             Playoff Format
           </TabsTrigger>
+          <TabsTrigger value="power-rankings" className="flex items-center gap-2">
+            <Zap className="h-4 w-4" />
+            Power Rankings
+          </TabsTrigger>
+          <TabsTrigger value="scoring" className="flex items-center gap-2">
+            <Calculator className="h-4 w-4" />
+            Scoring
+          </TabsTrigger>
           <TabsTrigger value="auto-sync" className="flex items-center gap-2" data-id="ufa49dbo7">
             <Bot className="h-4 w-4" data-id="xv3rcuk8d" />
             Auto-Sync
@@ -202,7 +217,8 @@ const AdminPage: React.FC = () => {
           <LeagueManager data-id="jqk7s5yut" />
         </TabsContent>
 
-        <TabsContent value="data-sync" data-id="mbmsyjmjw">
+        <TabsContent value="data-sync" className="space-y-6" data-id="mbmsyjmjw">
+          <ConferenceSettingsChecker />
           <DataSync data-id="r02lgxd37" />
         </TabsContent>
 
@@ -210,8 +226,20 @@ const AdminPage: React.FC = () => {
           <MatchupsManagement data-id="ddqsho0df" />
         </TabsContent>
 
-        <TabsContent value="playoff-format">
+        <TabsContent value="playoff-format" className="space-y-6">
           <PlayoffFormatManager />
+          <TiebreakerRulesManager />
+          <MedianScoringManager />
+        </TabsContent>
+
+        <TabsContent value="power-rankings">
+          <PowerRankingsManager />
+        </TabsContent>
+
+        <TabsContent value="scoring" className="space-y-6">
+          <ScoreVerification />
+          <StatCorrectionReview />
+          <ScoringSimulator />
         </TabsContent>
 
         <TabsContent value="auto-sync" data-id="cr5xmlzdc">
@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { useApp } from '@/contexts/AppContext';
+import { Award, Crown, Loader2 } from 'lucide-react';
+import { AwardsService, WEEKLY_AWARD_TYPES, WEEKLY_AWARD_LABELS } from '@/services/awardsService';
+import { DbWeeklyAward } from '@/types/database';
+import AwardSummary from '@/components/awards/AwardSummary';
+
+const AwardsPage: React.FC = () => {
+  const { selectedSeason, currentSeasonConfig, loading: appLoading } = useApp();
+  const [awards, setAwards] = useState<DbWeeklyAward[]>([]);
+  const [teamNames, setTeamNames] = useState<Map<number, string>>(new Map());
+  const [playerNames, setPlayerNames] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+
+  const seasonId = currentSeasonConfig?.seasonId ? Number(currentSeasonConfig.seasonId) : undefined;
+
+  useEffect(() => {
+    if (!appLoading && seasonId) {
+      loadAwards();
+    }
+  }, [selectedSeason, appLoading, currentSeasonConfig]);
+
+  const loadAwards = async () => {
+    try {
+      setLoading(true);
+      const rows = await AwardsService.getSeasonAwards(seasonId!);
+      const names = await AwardsService.getAwardNames(rows);
+
+      setTeamNames(names.teams);
+      setPlayerNames(names.players);
+      setAwards(rows);
+    } catch (error) {
+      console.error('Error loading awards:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading || appLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="flex items-center space-x-2">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span>Loading awards...</span>
+        </div>
+      </div>);
+
+  }
+
+  const weeks = [...new Set(awards.map((award) => award.week))].sort((a, b) => b - a);
+  const seasonHighScore = AwardsService.getSeasonHighScore(awards);
+  const findAward = (week: number, type: string) => awards.find((award) => award.week === week && award.award_type === type);
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-col space-y-2">
+        <div className="flex items-center space-x-2">
+          <Award className="h-6 w-6 text-primary" />
+          <h1 className="text-3xl font-bold">Weekly Awards</h1>
+        </div>
+        <p className="text-muted-foreground">
+          {selectedSeason} regular season awards, recorded once every game in a week is final
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Crown className="h-5 w-5 text-yellow-500" />
+            Single Week High Score
+          </CardTitle>
+          <CardDescription>Season award for the most points in a single regular season week</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {seasonHighScore ?
+          <div className="flex items-center justify-between gap-4">
+              <AwardSummary award={seasonHighScore} teamNames={teamNames} playerNames={playerNames} showLabel={false} />
+              <Badge variant="outline" className="shrink-0">Week {seasonHighScore.week}</Badge>
+            </div> :
+
+          <p className="text-sm text-muted-foreground">No completed weeks yet</p>
+          }
+        </CardContent>
+      </Card>
+
+      {weeks.length > 0 &&
+      <Card>
+          <CardHeader>
+            <CardTitle>By Week</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-20">Week</TableHead>
+                    {WEEKLY_AWARD_TYPES.map((type) =>
+                  <TableHead key={type}>{WEEKLY_AWARD_LABELS[type]}</TableHead>
+                  )}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {weeks.map((week) =>
+                <TableRow key={week}>
+                      <TableCell className="font-medium">{week}</TableCell>
+                      {WEEKLY_AWARD_TYPES.map((type) => {
+                    const award = findAward(week, type);
+                    return (
+                      <TableCell key={type} className="max-w-[220px]">
+                            {award ?
+                        <AwardSummary award={award} teamNames={teamNames} playerNames={playerNames} showLabel={false} /> :
+                        <span className="text-muted-foreground">—</span>
+                        }
+                          </TableCell>);
+
+                  })}
+                    </TableRow>
+                )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      }
+    </div>);
+
+};
+
+export default AwardsPage;
@@ -14,6 +14,9 @@ import { MatchupService, OrganizedMatchup } from '@/services/matchupService';
 import { ProcessedTransaction } from '@/services/transactionService';
 import { DatabaseService } from '@/services/databaseService';
 import { ConferenceBadge } from '@/components/ui/conference-badge';
+import PowerRankingsWidget from '@/components/power-rankings/PowerRankingsWidget';
+import WeeklyAwardsWidget from '@/components/awards/WeeklyAwardsWidget';
+import WeeklyRecapDigest from '@/components/recaps/WeeklyRecapDigest';
 import {
   Shield,
   Trophy,
@@ -468,12 +471,12 @@ const HomePage: React.FC = () => {
     );
   }
 
-  const getStatusBadge = (status: string) => {
+  const getStatusBadge = (status: string, isTie: boolean = false) => {
     switch (status) {
       case 'live':
         return <Badge className="bg-green-500 hover:bg-green-600 text-xs">Live</Badge>;
       case 'completed':
-        return <Badge variant="secondary" className="text-xs">Final</Badge>;
+        return <Badge variant="secondary" className="text-xs">{isTie ? 'Final • Tie' : 'Final'}</Badge>;
       case 'upcoming':
         return <Badge variant="outline" className="text-xs">Upcoming</Badge>;
       default:
@@ -540,6 +543,9 @@ const HomePage: React.FC = () => {
             </div>
           </div>
         ))}
+        <PowerRankingsWidget
+          seasonId={currentSeasonConfig?.seasonId ? Number(currentSeasonConfig.seasonId) : undefined}
+          limit={5} />
       </div>
     );
   };
@@ -579,7 +585,8 @@ const HomePage: React.FC = () => {
           // Determine winning team (same logic as MatchupsPage)
           const team1 = matchup.teams[0];
           const team2 = matchup.teams[1];
-          const winningTeam = matchup.status === 'completed' 
+          const isTie = matchup.status === 'completed' && !!team2 && team1?.points === team2.points;
+          const winningTeam = matchup.status === 'completed' && !isTie
             ? (team1?.points > (team2?.points || 0) ? team1 : team2)
             : null;
 
@@ -588,7 +595,7 @@ const HomePage: React.FC = () => {
               <div className="p-2 border rounded-lg hover:bg-accent/50 transition-colors cursor-pointer">
                 <div className="flex items-center justify-between mb-1">
                   <ConferenceBadge conferenceName={matchup.conference.conference_name} variant="outline" size="sm" />
-                  {getStatusBadge(matchup.status)}
+                  {getStatusBadge(matchup.status, isTie)}
                 </div>
                 <div className="grid grid-cols-5 gap-2 items-center text-sm">
                   {/* Team 1 Name */}
@@ -850,6 +857,14 @@ const HomePage: React.FC = () => {
             </CardContent>
           </Card>
 
+          {/* Weekly Awards */}
+          <WeeklyAwardsWidget
+            seasonId={currentSeasonConfig?.seasonId ? Number(currentSeasonConfig.seasonId) : undefined} />
+
+          {/* Weekly Recap */}
+          <WeeklyRecapDigest
+            seasonId={currentSeasonConfig?.seasonId ? Number(currentSeasonConfig.seasonId) : undefined} />
+
           {/* Quick Actions */}
           <Card>
             <CardHeader>
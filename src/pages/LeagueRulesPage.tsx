@@ -6,7 +6,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useApp } from '@/contexts/AppContext';
-import { useScoringSettings } from '@/hooks/useScoringSettings';
+import { useScoringSettings, ScoringSettings, SCORING_CATEGORIES, SCORING_CATEGORY_LABELS } from '@/hooks/useScoringSettings';
 import { useRosterSettings } from '@/hooks/useRosterSettings';
 import { usePlayoffFormat } from '@/hooks/usePlayoffFormat';
 import { useCharter } from '@/hooks/useCharter';
@@ -35,8 +35,8 @@ const mockLeagueRules = {
       receiving2pt: { points: 2, per: 1, description: '2 points per 2-point conversion' }
     },
     kicking: {
-      fieldGoals0_39: { points: 3, per: 1, description: '3 points per field goal (0-39 yards)' },
-      fieldGoals40_49: { points: 4, per: 1, description: '4 points per field goal (40-49 yards)' },
+      fieldGoals0To39: { points: 3, per: 1, description: '3 points per field goal (0-39 yards)' },
+      fieldGoals40To49: { points: 4, per: 1, description: '4 points per field goal (40-49 yards)' },
       fieldGoals50Plus: { points: 5, per: 1, description: '5 points per field goal (50+ yards)' },
       extraPoints: { points: 1, per: 1, description: '1 point per extra point' },
       missedFieldGoals: { points: -1, per: 1, description: '-1 point per missed field goal' }
@@ -85,16 +85,19 @@ const LeagueRulesPage: React.FC = () => {
   const { charterInfo, loading: charterLoading, error: charterError, hasCharter } = useCharter();
   const [activeTab, setActiveTab] = useState('scoring');
 
+  // Show every category the season's settings use, or the defaults when they can't be loaded
+  const scoringRules: Partial<ScoringSettings> = scoringSettings || mockLeagueRules.scoring;
+
   const renderScoringTable = (category: string, rules: any) => {
     if (!rules || Object.keys(rules).length === 0) {
       return (
         <Card>
           <CardHeader>
-            <CardTitle className="capitalize">{category}</CardTitle>
+            <CardTitle>{category}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="text-center py-8 text-muted-foreground">
-              No {category} scoring rules configured
+              No {category.toLowerCase()} scoring rules configured
             </div>
           </CardContent>
         </Card>
@@ -104,7 +107,7 @@ const LeagueRulesPage: React.FC = () => {
     return (
       <Card>
         <CardHeader>
-          <CardTitle className="capitalize">{category}</CardTitle>
+          <CardTitle>{category}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="rounded-md border">
@@ -120,7 +123,7 @@ const LeagueRulesPage: React.FC = () => {
                 {Object.entries(rules).map(([key, rule]: [string, any]) => (
                   <TableRow key={key}>
                     <TableCell className="font-medium">
-                      {key.replace(/([A-Z])/g, ' $1').replace(/^./, (str) => str.toUpperCase())}
+                      {key.replace(/([A-Z]|\d+)/g, ' $1').replace(/^./, (str) => str.toUpperCase())}
                     </TableCell>
                     <TableCell className="text-right font-mono">
                       <Badge variant={rule.points > 0 ? 'default' : 'destructive'}>
@@ -196,19 +199,13 @@ const LeagueRulesPage: React.FC = () => {
           ) : null}
 
           <div className="grid gap-6">
-            {scoringSettings ? (
-              <>
-                {renderScoringTable('passing', scoringSettings.passing)}
-                {renderScoringTable('rushing', scoringSettings.rushing)}
-                {renderScoringTable('receiving', scoringSettings.receiving)}
-              </>
-            ) : (
-              <>
-                {renderScoringTable('passing', mockLeagueRules.scoring.passing)}
-                {renderScoringTable('rushing', mockLeagueRules.scoring.rushing)}
-                {renderScoringTable('receiving', mockLeagueRules.scoring.receiving)}
-              </>
-            )}
+            {SCORING_CATEGORIES
+              .filter((category) => Object.keys(scoringRules[category] || {}).length > 0)
+              .map((category) => (
+                <React.Fragment key={category}>
+                  {renderScoringTable(SCORING_CATEGORY_LABELS[category], scoringRules[category])}
+                </React.Fragment>
+              ))}
           </div>
 
           <Card>
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -29,11 +29,20 @@ import {
   BarChart3,
   Activity,
   Calendar,
-  Star
+  Star,
+  Percent
 } from 'lucide-react';
 import SupabaseMatchupService from '@/services/supabaseMatchupService';
-import SleeperApiService, { SleeperPlayer } from '@/services/sleeperApi';
+import { StandingsService } from '@/services/standingsService';
+import { SleeperPlayer } from '@/services/sleeperApi';
 import MatchupCache from '@/services/matchupCache';
+import { useLiveScoring } from '@/hooks/useLiveScoring';
+import { MatchupStatusService } from '@/services/matchupStatusService';
+import { WinProbabilityService, WinProbability } from '@/services/winProbabilityService';
+import { LineupEfficiencyService, LineupEfficiency } from '@/services/lineupEfficiencyService';
+import { ProjectionService } from '@/services/projectionService';
+import { RecapService } from '@/services/recapService';
+import { DbMatchupRecap, DbMatchupWinProbability } from '@/types/database';
 
 // Position color function to match TeamDetailPage styling
 const getPositionColor = (position: string) => {
@@ -58,7 +67,7 @@ interface MatchupTeam {
   owner: string;
   avatar?: string;
   logoUrl?: string;
-  record: { wins: number; losses: number };
+  record: { wins: number; losses: number; ties?: number };
   points: number;
   projectedPoints: number;
   rosterId: number;
@@ -120,6 +129,11 @@ const MatchupDetailPage: React.FC = () => {
   const [refreshing, setRefreshing] = useState(false);
   const [activeTab, setActiveTab] = useState('live-scoring');
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
+  const [winProbability, setWinProbability] = useState<WinProbability | null>(null);
+  const [winProbabilityHistory, setWinProbabilityHistory] = useState<DbMatchupWinProbability[]>([]);
+  const [playersStillPlaying, setPlayersStillPlaying] = useState<number[] | null>(null);
+  const [rosterPositions, setRosterPositions] = useState<string[] | null>(null);
+  const [recap, setRecap] = useState<DbMatchupRecap | null>(null);
 
   const seasonConfig = useMemo(() => 
     seasonConfigs.find(s => s.year === selectedSeason),
@@ -148,48 +162,27 @@ const MatchupDetailPage: React.FC = () => {
       );
 
       if (matchupData) {
-        // Fetch player projections for the matchup week
+        // Fetch player projections for the matchup week, scored with the season's settings
         try {
-          const seasonYear = selectedSeason;
           const weekNumber = matchupData.week;
-          const playerIds = [
-            ...matchupData.teams[0].starters, 
-            ...matchupData.teams[0].bench,
-            ...(matchupData.teams[1] ? [...matchupData.teams[1].starters, ...matchupData.teams[1].bench] : [])
-          ];
-          
-          // Fetch projections
-          const projections = await SleeperApiService.fetchPlayerProjections(
-            seasonYear,
-            weekNumber
-          );
-          
-          // Map projections to player IDs
-          const projectedPoints: Record<string, number> = {};
-          projections.forEach(projection => {
-            if (playerIds.includes(projection.player_id) && projection.stats.pts_ppr !== undefined) {
-              projectedPoints[projection.player_id] = projection.stats.pts_ppr;
-            }
-          });
+          const [projectedPoints, storedProjections] = await Promise.all([
+            ProjectionService.getPlayerProjections(seasonId, selectedSeason, weekNumber),
+            ProjectionService.getStoredProjections(seasonId, { week: weekNumber })
+          ]);
           
           // Update the projected points for each team
           matchupData.teams.forEach(team => {
-            team.starters.forEach(playerId => {
-              if (projectedPoints[playerId] !== undefined) {
-                team.playersProjected[playerId] = projectedPoints[playerId];
-              }
-            });
-            
-            team.bench.forEach(playerId => {
+            [...team.starters, ...team.bench].forEach(playerId => {
               if (projectedPoints[playerId] !== undefined) {
                 team.playersProjected[playerId] = projectedPoints[playerId];
               }
             });
             
-            // Recalculate total projected points for the team
-            team.projectedPoints = team.starters.reduce((total, playerId) => {
-              return total + (team.playersProjected[playerId] || 0);
-            }, 0);
+            // Once a team has started scoring its stored pre-game projection is the final one
+            const stored = storedProjections.find(row => row.team_id === team.id);
+            team.projectedPoints = stored?.locked_at
+              ? Number(stored.projected_points)
+              : ProjectionService.calculateLineupProjection(team.starters, team.playersProjected);
           });
         } catch (projError) {
           console.error('Error fetching player projections:', projError);
@@ -250,13 +243,116 @@ const MatchupDetailPage: React.FC = () => {
     loadMatchupData();
   }, [matchupId, selectedSeason, seasonConfig]);
 
-  // Auto-refresh for live matchups
+  // The detail page always shows a `matchups` row, so its history is never a playoff bracket's
+  useEffect(() => {
+    setWinProbabilityHistory([]);
+    if (!matchupId) return;
+
+    WinProbabilityService.getMatchupHistory(parseInt(matchupId)).then(setWinProbabilityHistory);
+  }, [matchupId]);
+
+  // Lineup efficiency needs the season's roster slots, only once the game is final
+  const isCompleted = matchup?.status === 'completed';
   useEffect(() => {
-    if (matchup?.status === 'live') {
-      const interval = setInterval(refreshData, 30000); // Refresh every 30 seconds
-      return () => clearInterval(interval);
+    const seasonId = typeof seasonConfig?.seasonId === 'string' ? parseInt(seasonConfig.seasonId) : seasonConfig?.seasonId;
+    if (!isCompleted || !seasonId) return;
+
+    LineupEfficiencyService.getRosterPositions(seasonId).
+      then(setRosterPositions).
+      catch(error => console.error('Error loading roster positions:', error));
+  }, [isCompleted, seasonConfig]);
+
+  // Recaps are written once the whole week is final, so there may not be one yet
+  useEffect(() => {
+    setRecap(null);
+    if (!isCompleted || !matchupId) return;
+
+    RecapService.getMatchupRecap(parseInt(matchupId)).then(setRecap);
+  }, [isCompleted, matchupId]);
+
+  // Recalculate win probability and who is still to play whenever the scores change
+  useEffect(() => {
+    if (!matchup) {
+      setWinProbability(null);
+      setPlayersStillPlaying(null);
+      return;
     }
-  }, [matchup?.status]);
+
+    let cancelled = false;
+    const calculate = async () => {
+      const lineups = matchup.teams.filter(Boolean).map(team => ({ starters: team!.starters, playersPoints: team!.playersPoints }));
+      const getGameStatus = await WinProbabilityService.getGameStatusLookup(selectedSeason, matchup.week);
+      if (cancelled) return;
+      setPlayersStillPlaying(lineups.map(lineup => WinProbabilityService.getPlayersStillPlaying(lineup, getGameStatus)));
+
+      const seasonId = typeof seasonConfig?.seasonId === 'string' ? parseInt(seasonConfig.seasonId) : seasonConfig?.seasonId;
+      if (lineups.length < 2 || matchup.status === 'completed' || !seasonId) {
+        setWinProbability(null);
+        return;
+      }
+
+      const projections = await WinProbabilityService.getProjections(seasonId, selectedSeason, matchup.week);
+      if (cancelled) return;
+
+      const [team1, team2] = lineups.map(lineup => WinProbabilityService.buildTeam(lineup, projections, getGameStatus));
+      const probability = WinProbabilityService.calculateWinProbability(team1, team2);
+      setWinProbability(probability);
+
+      if (matchup.status === 'live') {
+        WinProbabilityService.recordSnapshot({
+          season_id: seasonId,
+          matchup_id: matchup.id,
+          is_playoff: false,
+          week: matchup.week,
+          team1_id: matchup.teams[0].id,
+          team2_id: matchup.teams[1]!.id,
+          probability,
+          team1_points: team1.points,
+          team2_points: team2.points
+        });
+      }
+    };
+
+    calculate();
+    return () => {
+      cancelled = true;
+    };
+  }, [matchup]);
+
+  // Live mode polls the matchup's Sleeper league while its week is being played
+  const leagueId = seasonConfig?.conferences.find(c => c.dbConferenceId === matchup?.conference.id)?.leagueId;
+  const live = useLiveScoring({
+    season: selectedSeason,
+    week: matchup?.week,
+    leagueIds: leagueId ? [leagueId] : [],
+    enabled: !!matchup && matchup.status !== 'completed'
+  });
+  const liveUpdate = leagueId ? live.updates.get(leagueId) : undefined;
+
+  useEffect(() => {
+    if (!liveUpdate) return;
+
+    setMatchup(prev => {
+      if (!prev) return prev;
+
+      const teams = prev.teams.map(team => {
+        const sleeperMatchup = team && liveUpdate.matchups.find(m => m.roster_id === team.rosterId);
+        return sleeperMatchup
+          ? { ...team, points: sleeperMatchup.points || 0, playersPoints: sleeperMatchup.players_points || {} }
+          : team;
+      }) as DetailedMatchup['teams'];
+
+      // Scores only reach the database after the week, so the live points decide with the schedule
+      const status = prev.status === 'completed' || !live.weekStatus
+        ? prev.status
+        : MatchupStatusService.getDisplayStatus({
+          team1_score: teams[0]?.points,
+          team2_score: teams[1]?.points
+        }, live.weekStatus);
+      return { ...prev, teams, status };
+    });
+    setLastUpdated(liveUpdate.polledAt);
+  }, [liveUpdate]);
 
   if (loading) {
     return (
@@ -297,7 +393,18 @@ const MatchupDetailPage: React.FC = () => {
   }
 
   const [team1, team2] = matchup.teams;
-  const winningTeam = matchup.status === 'completed' && team2
+  // Player point changes from the latest live poll, for both rosters
+  const pointChanges: Record<string, number> = liveUpdate
+    ? Object.assign({}, ...matchup.teams.filter(Boolean).map(team => liveUpdate.pointChanges[team!.rosterId] || {}))
+    : {};
+  // Best legal lineup from each roster, once every score is final
+  const lineupEfficiency = matchup.status === 'completed' && rosterPositions
+    ? matchup.teams.map(team => team && LineupEfficiencyService.calculateEfficiency(
+        rosterPositions, team.starters, Object.keys(team.playersPoints), team.playersPoints, allPlayers
+      ))
+    : null;
+  // Equal final scores are a tie, so there is no winning team
+  const winningTeam = matchup.status === 'completed' && team2 && team1.points !== team2.points
     ? (team1.points > team2.points ? team1 : team2)
     : null;
 
@@ -323,8 +430,14 @@ const MatchupDetailPage: React.FC = () => {
         </div>
         
         <div className="flex items-center justify-between md:justify-end space-x-2">
-          <div className="text-xs text-muted-foreground md:order-2">
-            Updated: {lastUpdated.toLocaleTimeString()}
+          <div className="flex items-center space-x-2 text-xs text-muted-foreground md:order-2">
+            {live.isLive && (
+              <Badge className="bg-green-500 hover:bg-green-600" title={live.nextPollAt ? `Next update at ${live.nextPollAt.toLocaleTimeString()}` : undefined}>
+                <span className="h-2 w-2 rounded-full bg-white animate-pulse mr-1" />
+                Live
+              </Badge>
+            )}
+            <span>Updated: {lastUpdated.toLocaleTimeString()}</span>
           </div>
           <Button
             variant="outline"
@@ -358,6 +471,21 @@ const MatchupDetailPage: React.FC = () => {
         <MatchupHeader matchup={matchup} winningTeam={winningTeam} />
       </div>
 
+      {/* Recap */}
+      {recap && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-base md:text-lg">
+              <MessageSquare className="h-5 w-5" />
+              {recap.headline}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground leading-relaxed">{recap.recap}</p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Quick Stats Bar - Collapsible on Mobile */}
       <Collapsible defaultOpen={false} className="md:block">
         <CollapsibleTrigger asChild className="md:hidden">
@@ -368,11 +496,19 @@ const MatchupDetailPage: React.FC = () => {
         </CollapsibleTrigger>
         <CollapsibleContent className="md:block">
           <div className="mt-2 md:mt-0">
-            <QuickStatsBar matchup={matchup} />
+            <QuickStatsBar matchup={matchup} playersStillPlaying={playersStillPlaying} lineupEfficiency={lineupEfficiency} />
           </div>
         </CollapsibleContent>
       </Collapsible>
 
+      {team2 && (winProbability || winProbabilityHistory.length > 0) && (
+        <WinProbabilityPanel
+          matchup={matchup}
+          probability={winProbability}
+          history={winProbabilityHistory}
+        />
+      )}
+
       {/* Main Tabbed Content */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
         <TabsList className="grid w-full grid-cols-3 h-auto">
@@ -394,11 +530,16 @@ const MatchupDetailPage: React.FC = () => {
         </TabsList>
 
         <TabsContent value="live-scoring" className="space-y-4">
-          <LiveScoringTab matchup={matchup} allPlayers={allPlayers} />
+          <LiveScoringTab matchup={matchup} allPlayers={allPlayers} pointChanges={pointChanges} />
         </TabsContent>
 
         <TabsContent value="team-analysis" className="space-y-4">
-          <TeamAnalysisTab matchup={matchup} weeklyPerformanceData={weeklyPerformanceData} />
+          <TeamAnalysisTab
+            matchup={matchup}
+            weeklyPerformanceData={weeklyPerformanceData}
+            lineupEfficiency={lineupEfficiency}
+            allPlayers={allPlayers}
+          />
         </TabsContent>
 
         <TabsContent value="head-to-head" className="space-y-4">
@@ -447,7 +588,7 @@ const MatchupHeader: React.FC<{
       case 'live':
         return <Badge className="bg-green-500 hover:bg-green-600">Live</Badge>;
       case 'completed':
-        return <Badge variant="secondary">Final</Badge>;
+        return <Badge variant="secondary">{team2 && !winningTeam ? 'Final • Tie' : 'Final'}</Badge>;
       case 'upcoming':
         return <Badge variant="outline">Upcoming</Badge>;
       default:
@@ -550,7 +691,7 @@ const TeamCard: React.FC<{
           </div>
           <div className="text-sm text-muted-foreground">{team.owner}</div>
           <div className="text-xs text-muted-foreground">
-            {team.record.wins}-{team.record.losses}
+            {StandingsService.formatRecord(team.record.wins, team.record.losses, team.record.ties)}
           </div>
         </div>
         
@@ -595,7 +736,7 @@ const TeamCard: React.FC<{
           </div>
           <div className="text-sm text-muted-foreground">{team.owner}</div>
           <div className="text-xs text-muted-foreground">
-            {team.record.wins}-{team.record.losses}
+            {StandingsService.formatRecord(team.record.wins, team.record.losses, team.record.ties)}
           </div>
         </div>
         
@@ -611,20 +752,24 @@ const TeamCard: React.FC<{
 export default MatchupDetailPage;
 
 // Quick Stats Bar Component
-const QuickStatsBar: React.FC<{ matchup: DetailedMatchup }> = ({ matchup }) => {
+const QuickStatsBar: React.FC<{
+  matchup: DetailedMatchup;
+  playersStillPlaying?: number[] | null; // Starters whose NFL game has not finished, per team
+  lineupEfficiency?: (LineupEfficiency | undefined)[] | null;
+}> = ({ matchup, playersStillPlaying, lineupEfficiency }) => {
   const [team1, team2] = matchup.teams;
   
   const getPlayersStillPlaying = (team: MatchupTeam) => {
     // For scheduled games, all starters are considered "to play"
-    if (matchup.status === 'upcoming') {
+    if (matchup.status === 'upcoming' || !playersStillPlaying) {
       return team.starters.length;
     }
-    return team.starters.filter(playerId => {
-      // This would need to be implemented based on your player status logic
-      return true; // Placeholder
-    }).length;
+    return playersStillPlaying[team === team1 ? 0 : 1] ?? team.starters.length;
   };
 
+  const formatTeamRecord = (team: MatchupTeam) =>
+    StandingsService.formatRecord(team.record.wins, team.record.losses, team.record.ties);
+
   const getBenchPoints = (team: MatchupTeam) => {
     // For scheduled games, don't show actual bench points since no one has played yet
     if (matchup.status === 'upcoming') {
@@ -637,6 +782,19 @@ const QuickStatsBar: React.FC<{ matchup: DetailedMatchup }> = ({ matchup }) => {
 
   const isScheduled = matchup.status === 'upcoming';
 
+  // Once final, the points the best legal lineup would have added say more than raw bench points
+  const benchStat = lineupEfficiency && lineupEfficiency[0]
+    ? {
+        label: "Left on Bench",
+        value: team2 && lineupEfficiency[1]
+          ? `${lineupEfficiency[0].points_left_on_bench.toFixed(1)} vs ${lineupEfficiency[1].points_left_on_bench.toFixed(1)}`
+          : `${lineupEfficiency[0].points_left_on_bench.toFixed(1)}`,
+        mobileValue: team2 && lineupEfficiency[1]
+          ? `${lineupEfficiency[0].points_left_on_bench.toFixed(1)} vs ${lineupEfficiency[1].points_left_on_bench.toFixed(1)}`
+          : `${lineupEfficiency[0].points_left_on_bench.toFixed(1)}`
+      }
+    : null;
+
   const stats = [
     {
       label: isScheduled ? "Projected Points" : "Projected vs Actual",
@@ -664,7 +822,7 @@ const QuickStatsBar: React.FC<{ matchup: DetailedMatchup }> = ({ matchup }) => {
         ? `${getPlayersStillPlaying(team1)} vs ${getPlayersStillPlaying(team2)}`
         : `${getPlayersStillPlaying(team1)}`
     },
-    {
+    benchStat || {
       label: isScheduled ? "Bench Size" : "Bench Points",
       value: team2 
         ? isScheduled
@@ -684,11 +842,11 @@ const QuickStatsBar: React.FC<{ matchup: DetailedMatchup }> = ({ matchup }) => {
     {
       label: "Season Record",
       value: team2 
-        ? `${team1.record.wins}-${team1.record.losses} vs ${team2.record.wins}-${team2.record.losses}`
-        : `${team1.record.wins}-${team1.record.losses}`,
+        ? `${formatTeamRecord(team1)} vs ${formatTeamRecord(team2)}`
+        : formatTeamRecord(team1),
       mobileValue: team2
-        ? `${team1.record.wins}-${team1.record.losses} vs ${team2.record.wins}-${team2.record.losses}`
-        : `${team1.record.wins}-${team1.record.losses}`
+        ? `${formatTeamRecord(team1)} vs ${formatTeamRecord(team2)}`
+        : formatTeamRecord(team1)
     }
   ];
 
@@ -721,11 +879,85 @@ const QuickStatsBar: React.FC<{ matchup: DetailedMatchup }> = ({ matchup }) => {
   );
 };
 
+// Win Probability Panel Component
+const WIN_PROBABILITY_CHART_POINTS = 12;
+
+const WinProbabilityPanel: React.FC<{
+  matchup: DetailedMatchup;
+  probability: WinProbability | null; // Null once the game is final
+  history: DbMatchupWinProbability[];
+}> = ({ matchup, probability, history }) => {
+  const [team1, team2] = matchup.teams;
+
+  const points = history.map(row => ({
+    time: row.recorded_at ? new Date(row.recorded_at) : new Date(),
+    team1: Number(row.team1_win_probability)
+  }));
+  if (probability) {
+    points.push({ time: new Date(), team1: probability.team1 });
+  }
+
+  // Evenly spaced snapshots across the week, always keeping the first and latest
+  const sampled = points.length > WIN_PROBABILITY_CHART_POINTS
+    ? Array.from({ length: WIN_PROBABILITY_CHART_POINTS }, (_, i) =>
+        points[Math.round(i * (points.length - 1) / (WIN_PROBABILITY_CHART_POINTS - 1))])
+    : points;
+
+  const current = probability?.team1 ?? points[points.length - 1]?.team1;
+  if (current === undefined || !team2) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Percent className="h-5 w-5" />
+          Win Probability
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm font-medium">
+            <span className="truncate">{team1.name} {(current * 100).toFixed(1)}%</span>
+            <span className="truncate text-right">{((1 - current) * 100).toFixed(1)}% {team2.name}</span>
+          </div>
+          <div className="flex h-3 w-full overflow-hidden rounded-full bg-muted">
+            <div className="bg-blue-500 transition-all" style={{ width: `${current * 100}%` }} />
+            <div className="bg-red-500 transition-all" style={{ width: `${(1 - current) * 100}%` }} />
+          </div>
+          {probability && (
+            <p className="text-xs text-muted-foreground text-center">
+              Projected finish {probability.team1Projected.toFixed(1)} – {probability.team2Projected.toFixed(1)}
+            </p>
+          )}
+        </div>
+
+        {sampled.length > 1 && (
+          <SimpleLineChart
+            title="Win Probability Over the Week"
+            data={sampled.map((point, index) => ({
+              week: index,
+              team1: Math.round(point.team1 * 1000) / 10,
+              team2: Math.round((1 - point.team1) * 1000) / 10
+            }))}
+            team1Name={team1.name}
+            team2Name={team2.name}
+            yDomain={[0, 100]}
+            formatXLabel={(index) =>
+              sampled[index].time.toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' })}
+            height={220}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
 // Live Scoring Tab Component
 const LiveScoringTab: React.FC<{
   matchup: DetailedMatchup;
   allPlayers: Record<string, SleeperPlayer>;
-}> = ({ matchup, allPlayers }) => {
+  pointChanges?: Record<string, number>;
+}> = ({ matchup, allPlayers, pointChanges = {} }) => {
   const [team1, team2] = matchup.teams;
 
   const getPlayerInfo = (playerId: string): PlayerPerformance => {
@@ -776,6 +1008,7 @@ const LiveScoringTab: React.FC<{
         positionSlot={position}
         isStarter={isStarter}
         gameTimeRemaining={playerInfo.gameTimeRemaining}
+        pointChange={pointChanges[playerId]}
         expandable={false}
       />
     );
@@ -843,7 +1076,9 @@ const LiveScoringTab: React.FC<{
 const TeamAnalysisTab: React.FC<{ 
   matchup: DetailedMatchup; 
   weeklyPerformanceData: { week: number; team1: number; team2?: number }[];
-}> = ({ matchup, weeklyPerformanceData }) => {
+  lineupEfficiency?: (LineupEfficiency | undefined)[] | null; // Only for completed matchups
+  allPlayers: Record<string, SleeperPlayer>;
+}> = ({ matchup, weeklyPerformanceData, lineupEfficiency, allPlayers }) => {
   const [team1, team2] = matchup.teams;
 
   return (
@@ -884,10 +1119,86 @@ const TeamAnalysisTab: React.FC<{
           />
         )}
       </div>
+
+      {/* Lineup Efficiency */}
+      {lineupEfficiency && (
+        <div className="grid md:grid-cols-2 gap-4">
+          {matchup.teams.map((team, index) => team && lineupEfficiency[index] && (
+            <LineupEfficiencyCard
+              key={team.id}
+              teamName={team.name}
+              efficiency={lineupEfficiency[index]!}
+              playersPoints={team.playersPoints}
+              allPlayers={allPlayers}
+            />
+          ))}
+        </div>
+      )}
     </div>
   );
 };
 
+// Lineup Efficiency Card Component
+const LineupEfficiencyCard: React.FC<{
+  teamName: string;
+  efficiency: LineupEfficiency;
+  playersPoints: Record<string, number>;
+  allPlayers: Record<string, SleeperPlayer>;
+}> = ({ teamName, efficiency, playersPoints, allPlayers }) => {
+  const getPlayerName = (playerId: string) => {
+    const player = allPlayers[playerId];
+    return player ? `${player.first_name} ${player.last_name}` : playerId;
+  };
+
+  const efficiencyColor = efficiency.efficiency >= 95
+    ? 'text-green-600'
+    : efficiency.efficiency >= 85 ? 'text-yellow-600' : 'text-red-600';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{teamName} Lineup Efficiency</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex justify-between">
+          <span className="text-sm text-muted-foreground">Manager Efficiency</span>
+          <span className={`font-semibold ${efficiencyColor}`}>{efficiency.efficiency.toFixed(1)}%</span>
+        </div>
+        <Progress value={efficiency.efficiency} className="h-2" />
+        <div className="flex justify-between">
+          <span className="text-sm text-muted-foreground">Actual / Optimal</span>
+          <span className="font-medium">{efficiency.actual_points.toFixed(1)} / {efficiency.optimal_points.toFixed(1)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-sm text-muted-foreground">Points Left on Bench</span>
+          <span className="font-medium">{efficiency.points_left_on_bench.toFixed(1)}</span>
+        </div>
+
+        {efficiency.missed_starters.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-1">
+              <div className="text-sm font-medium">Should Have Started</div>
+              {efficiency.missed_starters.map(playerId => (
+                <div key={playerId} className="flex justify-between text-sm">
+                  <span className="truncate">{getPlayerName(playerId)}</span>
+                  <span className="font-mono text-green-600">{(playersPoints[playerId] || 0).toFixed(1)}</span>
+                </div>
+              ))}
+              {efficiency.wrong_starters.map(playerId => (
+                <div key={playerId} className="flex justify-between text-sm text-muted-foreground">
+                  <span className="truncate">Instead of {getPlayerName(playerId)}</span>
+                  <span className="font-mono text-red-600">{(playersPoints[playerId] || 0).toFixed(1)}</span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
 // Head-to-Head Tab Component
 const HeadToHeadTab: React.FC<{
   matchup: DetailedMatchup;
@@ -944,8 +1255,13 @@ const HeadToHeadTab: React.FC<{
             <Trophy className="h-5 w-5 mr-2" />
             All-Time Head-to-Head Record
           </CardTitle>
-          <div className="text-xs text-muted-foreground">
-            Showing completed games across all seasons
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>Showing completed games across all seasons</span>
+            {team2 &&
+            <Link to={`/rivalry/${team1.id}/${team2.id}`} className="text-primary hover:underline">
+                Full rivalry
+              </Link>
+            }
           </div>
         </CardHeader>
         <CardContent>
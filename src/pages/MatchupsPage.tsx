@@ -12,6 +12,11 @@ import { useToast } from '@/hooks/use-toast';
 import SleeperApiService, { SleeperPlayer } from '@/services/sleeperApi';
 import SupabaseMatchupService, { OrganizedMatchup } from '@/services/supabaseMatchupService';
 import MatchupCache from '@/services/matchupCache';
+import { useLiveScoring } from '@/hooks/useLiveScoring';
+import { WinProbabilityService } from '@/services/winProbabilityService';
+import { MatchupStatusService } from '@/services/matchupStatusService';
+import { ProjectionService, TeamProjection } from '@/services/projectionService';
+import BiggestComebacks from '@/components/matchup/BiggestComebacks';
 // Removed unused debug component imports
 import { ConferenceBadge } from '@/components/ui/conference-badge';
 
@@ -22,6 +27,7 @@ interface MinimalMatchup {
   conference: { id: number; name: string };
   teams: { id: number; name: string; owner: string; points: number; roster_id: number; conference?: { id: number; name: string }; avatar?: string; team_logourl?: string }[];
   status: 'live' | 'completed' | 'upcoming';
+  stat_corrections_pending?: boolean; // Every game is over but NFL stat corrections can still change the score
   week: number;
   is_playoff: boolean;
   is_bye?: boolean;
@@ -38,6 +44,12 @@ interface DetailedMatchupData {
   users: Record<string, any>;
 }
 
+// Point changes from the latest live poll, keyed by team id
+interface LiveMatchupChanges {
+  teams: Record<string, number>;
+  players: Record<string, Record<string, number>>;
+}
+
 // Position color function to match TeamDetailPage styling
 const getPositionColor = (position: string) => {
   switch (position) {
@@ -64,10 +76,15 @@ const MatchupCard = React.memo<{
   detailedData?: DetailedMatchupData | null;
   allPlayers: Record<string, SleeperPlayer>;
   loading?: boolean;
+  liveChanges?: LiveMatchupChanges;
+  winProbability?: number; // Team 1's chance of winning, while the week is live
+  projections?: (TeamProjection | undefined)[]; // Pre-game projection per team, in team order
   onViewDetails: (matchupId: number) => void;
-}>(({ matchup, isExpanded, onToggleExpand, detailedData, allPlayers, loading, onViewDetails }) => {
+}>(({ matchup, isExpanded, onToggleExpand, detailedData, allPlayers, loading, liveChanges, winProbability, projections, onViewDetails }) => {
   const [team1, team2] = matchup.teams;
-  const winningTeam = matchup.status === 'completed'
+  // Equal final scores are a tie, so neither team is highlighted as the winner
+  const isTie = matchup.status === 'completed' && !!team2 && team1.points === team2.points;
+  const winningTeam = matchup.status === 'completed' && !isTie
     ? (team1.points > (team2?.points || 0) ? team1 : team2)
     : null;
 
@@ -76,7 +93,10 @@ const MatchupCard = React.memo<{
       case 'live':
         return <Badge className="bg-green-500 hover:bg-green-600">Live</Badge>;
       case 'completed':
-        return <Badge variant="secondary">Final</Badge>;
+        if (matchup.stat_corrections_pending) {
+          return <Badge variant="outline" className="border-amber-300 text-amber-700">{isTie ? 'Tie • Stat corrections pending' : 'Stat corrections pending'}</Badge>;
+        }
+        return <Badge variant="secondary">{isTie ? 'Final • Tie' : 'Final'}</Badge>;
       case 'upcoming':
         return <Badge variant="outline">Upcoming</Badge>;
       default:
@@ -117,6 +137,34 @@ const MatchupCard = React.memo<{
     return name;
   };
 
+  // Highlight points gained since the last live poll
+  const renderPointChange = (change: number | undefined) => {
+    if (!change) return null;
+    return (
+      <span className={`ml-1 text-xs font-semibold animate-pulse ${change > 0 ? 'text-green-600' : 'text-red-600'}`}>
+        {change > 0 ? '+' : ''}{change.toFixed(1)}
+      </span>
+    );
+  };
+
+  // Projected total, with how far the actual score beat or missed it once the team has scored
+  const renderProjection = (projection: TeamProjection | undefined) => {
+    if (!projection) return null;
+    const difference = projection.actual_points !== null && matchup.status !== 'upcoming'
+      ? projection.actual_points - projection.projected_points
+      : null;
+    return (
+      <div className="text-[10px] font-normal text-muted-foreground text-right">
+        Proj {projection.projected_points.toFixed(1)}
+        {difference !== null && (
+          <span className={`ml-1 ${difference >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            ({difference >= 0 ? '+' : ''}{difference.toFixed(1)})
+          </span>
+        )}
+      </div>
+    );
+  };
+
   const renderTeamRoster = (teamId: string, teamName: string) => {
     if (!detailedData) return <div className="text-sm text-muted-foreground">Loading roster...</div>;
 
@@ -144,7 +192,10 @@ const MatchupCard = React.memo<{
                     <span className="font-medium">{playerInfo.name}</span>
                     <span className="text-muted-foreground">({playerInfo.position} - {playerInfo.team})</span>
                   </div>
-                  <span className="font-bold">{points.toFixed(1)}</span>
+                  <span className="font-bold">
+                    {points.toFixed(1)}
+                    {renderPointChange(liveChanges?.players[teamId]?.[playerId])}
+                  </span>
                 </div>
               );
             })}
@@ -166,7 +217,10 @@ const MatchupCard = React.memo<{
                       <span className="font-medium">{playerInfo.name}</span>
                       <span className="text-muted-foreground">({playerInfo.position} - {playerInfo.team})</span>
                     </div>
-                    <span className="text-muted-foreground">{points.toFixed(1)}</span>
+                    <span className="text-muted-foreground">
+                      {points.toFixed(1)}
+                      {renderPointChange(liveChanges?.players[teamId]?.[playerId])}
+                    </span>
                   </div>
                 );
               })}
@@ -225,12 +279,19 @@ const MatchupCard = React.memo<{
             </div>
             <div className={`text-sm font-bold flex-shrink-0 ml-2 ${winningTeam?.id === team1.id ? 'text-green-600' : ''}`}>
               {matchup.status === 'upcoming' ? '--' : team1.points.toFixed(1)}
+              {renderPointChange(liveChanges?.teams[team1.id.toString()])}
+              {renderProjection(projections?.[0])}
             </div>
           </div>
 
           {/* VS Divider */}
           <div className="text-center">
             <div className="text-xs font-medium text-muted-foreground">VS</div>
+            {winProbability !== undefined && matchup.status !== 'completed' && (
+              <div className="text-[10px] text-muted-foreground" title="Win probability">
+                {(winProbability * 100).toFixed(0)}% – {((1 - winProbability) * 100).toFixed(0)}%
+              </div>
+            )}
           </div>
 
           {/* Team 2 */}
@@ -258,6 +319,8 @@ const MatchupCard = React.memo<{
               {matchup.is_bye || !team2
                 ? 'BYE'
                 : matchup.status === 'upcoming' ? '--' : team2.points.toFixed(1)}
+              {team2 && renderPointChange(liveChanges?.teams[team2.id.toString()])}
+              {team2 && renderProjection(projections?.[1])}
             </div>
           </div>
         </div>
@@ -383,10 +446,12 @@ const MatchupCard = React.memo<{
                                       <div className="grid grid-cols-3 gap-2 items-center mt-1">
                                         <div className="text-right">
                                           <span className="font-bold text-xs">{player1Info ? points1.toFixed(1) : '-'}</span>
+                                          {player1Info && renderPointChange(liveChanges?.players[team1.id.toString()]?.[player1Id])}
                                         </div>
                                         <div></div>
                                         <div className="text-left">
                                           <span className="font-bold text-xs">{player2Info && team2 ? points2.toFixed(1) : '-'}</span>
+                                          {player2Info && team2 && renderPointChange(liveChanges?.players[team2.id.toString()]?.[player2Id])}
                                         </div>
                                       </div>
                                     </div>
@@ -534,6 +599,9 @@ const MatchupsPage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [apiErrors, setApiErrors] = useState<string[]>([]);
+  const [liveChanges, setLiveChanges] = useState<Map<number, LiveMatchupChanges>>(new Map());
+  const [winProbabilities, setWinProbabilities] = useState<Map<number, number>>(new Map());
+  const [projections, setProjections] = useState<Map<number, TeamProjection>>(new Map());
 
   // Ref to track if we're currently fetching to prevent duplicate calls
   const isFetchingRef = useRef(false);
@@ -602,8 +670,16 @@ const MatchupsPage: React.FC = () => {
       console.log(`✅ Loaded ${minimalMatchups.length} minimal matchups in ${(performance.now() - startTime).toFixed(2)}ms`);
       setMatchups(minimalMatchups);
 
+      // Projections come from Sleeper, so they fill in after the cards have rendered
+      setProjections(new Map());
+      ProjectionService.getWeekProjections(seasonId, selectedSeason, selectedWeek).
+        then(setProjections).
+        catch(error => console.error('Error loading projections:', error));
+
       // Clear previous details when matchups change
       setMatchupDetails(new Map());
+      setLiveChanges(new Map());
+      setWinProbabilities(new Map());
       matchupDetailsRef.current = new Map();
       setExpandedMatchups(new Set());
 
@@ -725,6 +801,150 @@ const MatchupsPage: React.FC = () => {
     }
   }, [selectedWeek, selectedConference, selectedSeason, seasonConfig, fetchMatchups]);
 
+  // Live mode: every conference league is polled (interconference opponents can come from
+  // any of them), and the pollers are shared with any other open matchup view
+  const leagueByConference = useMemo(() =>
+    new Map((seasonConfig?.conferences || []).
+      filter(c => c.dbConferenceId).
+      map(c => [c.dbConferenceId as number, c.leagueId])),
+    [seasonConfig]
+  );
+
+  const seasonId = seasonConfig
+    ? (typeof seasonConfig.seasonId === 'string' ? parseInt(seasonConfig.seasonId) : seasonConfig.seasonId)
+    : undefined;
+
+  const live = useLiveScoring({
+    season: selectedSeason,
+    week: selectedWeek,
+    leagueIds: [...new Set(leagueByConference.values())],
+    enabled: matchups.length > 0 && !matchups.every(m => m.status === 'completed')
+  });
+
+  // Until kickoff, keep the stored projections current so the one locked when a team starts
+  // scoring is its last pre-game projection. Re-runs each time the week status is re-checked.
+  useEffect(() => {
+    if (live.status !== 'upcoming' || !seasonId || !selectedSeason || !selectedWeek) return;
+
+    let cancelled = false;
+    ProjectionService.recordWeekProjections(seasonId, selectedSeason, selectedWeek).
+      then(result => {
+        if (!cancelled) setProjections(result);
+      }).
+      catch(error => console.error('Error refreshing projections:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [live.status, live.weekStatus, seasonId, selectedSeason, selectedWeek]);
+
+  useEffect(() => {
+    if (live.updates.size === 0) return;
+
+    const findSleeperMatchup = (matchup: MinimalMatchup, team: MinimalMatchup['teams'][number]) => {
+      const leagueId = leagueByConference.get(team.conference?.id ?? matchup.conference.id);
+      return leagueId ? live.updates.get(leagueId)?.matchups.find(m => m.roster_id === team.roster_id) : undefined;
+    };
+    const findPointChanges = (matchup: MinimalMatchup, team: MinimalMatchup['teams'][number]) => {
+      const leagueId = leagueByConference.get(team.conference?.id ?? matchup.conference.id);
+      return (leagueId && live.updates.get(leagueId)?.pointChanges[team.roster_id]) || {};
+    };
+
+    const changes = new Map<number, LiveMatchupChanges>();
+    const inProgress = new Set<number>();
+    const updated = matchups.map(matchup => {
+      const matchupChanges: LiveMatchupChanges = { teams: {}, players: {} };
+
+      const teams = matchup.teams.map(team => {
+        const sleeperMatchup = findSleeperMatchup(matchup, team);
+        if (!sleeperMatchup) return team;
+
+        const points = sleeperMatchup.points || 0;
+        const playerChanges = findPointChanges(matchup, team);
+        if (Object.keys(playerChanges).length > 0) {
+          matchupChanges.players[team.id.toString()] = playerChanges;
+          matchupChanges.teams[team.id.toString()] = Math.round((points - team.points) * 100) / 100;
+        }
+        return { ...team, points };
+      });
+
+      changes.set(matchup.id, matchupChanges);
+
+      // Scores only reach the database after the week, so the live points decide with the schedule
+      const status = matchup.status === 'completed' || !live.weekStatus
+        ? matchup.status
+        : MatchupStatusService.getDisplayStatus({
+          team1_score: teams[0]?.points,
+          team2_score: teams[1]?.points
+        }, live.weekStatus);
+      if (live.weekStatus && status === 'live') inProgress.add(matchup.id);
+      return { ...matchup, teams, status };
+    });
+
+    setMatchups(updated);
+    setLiveChanges(changes);
+
+    // Win probability for every game, recorded while it is being played so the week can be charted.
+    // A newer live update replaces these, so a slower earlier response is dropped.
+    let cancelled = false;
+    Promise.all(updated.map(async matchup => {
+      const [team1, team2] = matchup.teams.map(team => findSleeperMatchup(matchup, team));
+      if (matchup.is_bye || !team1 || !team2 || !seasonId) return null;
+
+      const { probability } = await WinProbabilityService.getMatchupWinProbability(
+        seasonId,
+        selectedSeason,
+        selectedWeek,
+        { starters: team1.starters || [], playersPoints: team1.players_points || {} },
+        { starters: team2.starters || [], playersPoints: team2.players_points || {} }
+      );
+
+      // Only games the refreshed schedule has in progress are charted, never a stale loaded status
+      if (inProgress.has(matchup.id)) {
+        WinProbabilityService.recordSnapshot({
+          season_id: seasonId,
+          matchup_id: matchup.id,
+          is_playoff: matchup.is_playoff,
+          week: matchup.week,
+          team1_id: matchup.teams[0].id,
+          team2_id: matchup.teams[1].id,
+          probability,
+          team1_points: team1.points || 0,
+          team2_points: team2.points || 0
+        });
+      }
+
+      return [matchup.id, probability.team1] as [number, number];
+    })).then(results => {
+      if (cancelled) return;
+      setWinProbabilities(new Map(results.filter((result): result is [number, number] => result !== null)));
+    }).catch(error => {
+      console.error('Error calculating win probabilities:', error);
+    });
+
+    // Keep expanded rosters in step with the live points
+    setMatchupDetails(prev => {
+      const next = new Map(prev);
+      updated.forEach(matchup => {
+        const details = next.get(matchup.id);
+        if (!details) return;
+
+        const playersPoints = { ...details.players_points };
+        matchup.teams.forEach(team => {
+          const sleeperMatchup = findSleeperMatchup(matchup, team);
+          if (sleeperMatchup) playersPoints[team.id.toString()] = sleeperMatchup.players_points || {};
+        });
+        next.set(matchup.id, { ...details, players_points: playersPoints });
+      });
+      matchupDetailsRef.current = next;
+      return next;
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [live.updates]);
+
   // Memoized sorted matchups for better performance
   const sortedMatchups = useMemo(() =>
     [...matchups].sort((a, b) => a.conference.name.localeCompare(b.conference.name)),
@@ -790,6 +1010,20 @@ const MatchupsPage: React.FC = () => {
               <span>Current week</span>
             </div>
           )}
+
+          {live.isLive && (
+            <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+              <Badge className="bg-green-500 hover:bg-green-600">
+                <span className="h-2 w-2 rounded-full bg-white animate-pulse mr-1" />
+                Live
+              </Badge>
+              {live.lastUpdated && (
+                <span title={live.nextPollAt ? `Next update at ${live.nextPollAt.toLocaleTimeString()}` : undefined}>
+                  Updated {live.lastUpdated.toLocaleTimeString()}
+                </span>
+              )}
+            </div>
+          )}
         </div>
 
         <div className="flex items-center space-x-4">
@@ -847,6 +1081,13 @@ const MatchupsPage: React.FC = () => {
             detailedData={matchupDetails.get(matchup.id)}
             allPlayers={allPlayers}
             loading={loadingDetails.has(matchup.id)}
+            liveChanges={liveChanges.get(matchup.id)}
+            winProbability={winProbabilities.get(matchup.id)}
+            projections={matchup.teams.map(team => {
+              // A slow response for a previously selected week must not label this one
+              const projection = projections.get(team.id);
+              return projection?.week === matchup.week ? projection : undefined;
+            })}
             onViewDetails={(id) => navigate(`/matchups/${id}`)}
           />
         ))}
@@ -861,6 +1102,8 @@ const MatchupsPage: React.FC = () => {
         )}
       </div>
 
+      <BiggestComebacks seasonId={seasonId} />
+
       {/* Debug components removed to reduce bundle size */}
     </div>
   );
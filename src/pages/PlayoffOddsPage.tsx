@@ -0,0 +1,255 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useApp } from '@/contexts/AppContext';
+import { ArrowLeft, ArrowUpDown, Percent, TrendingUp, TrendingDown, Loader2, RefreshCw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { StandingsService, StandingsData } from '@/services/standingsService';
+import { DatabaseService, DbPlayoffFormat } from '@/services/databaseService';
+import { PlayoffOddsService, TeamPlayoffOdds } from '@/services/playoffOddsService';
+import { ConferenceBadge } from '@/components/ui/conference-badge';
+
+type OddsKey = 'make_playoffs' | 'earn_bye' | 'win_conference' | 'win_championship';
+
+interface PlayoffOddsRow extends StandingsData {
+  odds: TeamPlayoffOdds;
+  previousOdds: TeamPlayoffOdds | null;
+}
+
+const DEFAULT_PLAYOFF_FORMAT: DbPlayoffFormat = {
+  id: 0,
+  season_id: 0,
+  playoff_teams: 10,
+  week_14_byes: 6,
+  reseed: true,
+  playoff_start_week: 14,
+  championship_week: 17,
+  is_active: true
+};
+
+const ODDS_COLUMNS: {key: OddsKey;label: string;title: string;}[] = [
+{ key: 'make_playoffs', label: 'Playoffs', title: 'Chance of making the playoffs' },
+{ key: 'earn_bye', label: 'Bye', title: 'Chance of a first-round bye' },
+{ key: 'win_conference', label: 'Conf', title: 'Chance of winning the Week 13 conference championship' },
+{ key: 'win_championship', label: 'Champ', title: 'Chance of winning the Colosseum Championship' }];
+
+
+const PlayoffOddsPage: React.FC = () => {
+  const { selectedSeason, selectedConference, currentSeasonConfig, loading: appLoading } = useApp();
+  const navigate = useNavigate();
+  const [rows, setRows] = useState<PlayoffOddsRow[]>([]);
+  const [asOfWeek, setAsOfWeek] = useState(0);
+  const [sortKey, setSortKey] = useState<OddsKey>('make_playoffs');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchOdds = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const season = currentSeasonConfig;
+      if (!season) {
+        throw new Error(`No season configuration found for year ${selectedSeason}`);
+      }
+
+      const seasonIdRaw = season.seasonId;
+      const seasonId = typeof seasonIdRaw === 'string' ? parseInt(seasonIdRaw) : seasonIdRaw;
+
+      const playoffFormatsResult = await DatabaseService.getPlayoffFormats({
+        filters: [{ column: 'season_id', operator: 'eq', value: seasonId }],
+        limit: 1
+      });
+      const playoffFormat = playoffFormatsResult.data?.[0] || { ...DEFAULT_PLAYOFF_FORMAT, season_id: seasonId };
+
+      // Odds always come from the whole league, the conference filter only narrows the table
+      const standings = await StandingsService.getLeagueStandings(seasonId, playoffFormat);
+      const seasonOdds = await PlayoffOddsService.getSeasonOdds(seasonId, standings, playoffFormat);
+
+      setAsOfWeek(seasonOdds.asOfWeek);
+      setRows(standings.map((team) => ({
+        ...team,
+        odds: seasonOdds.current.get(team.team_id)!,
+        previousOdds: seasonOdds.previous?.get(team.team_id) || null
+      })));
+    } catch (err) {
+      console.error('Error calculating playoff odds:', err);
+      setError(err instanceof Error ? err.message : 'Failed to calculate playoff odds');
+      toast({
+        title: 'Error',
+        description: 'Failed to calculate playoff odds. Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!appLoading && currentSeasonConfig) {
+      fetchOdds();
+    }
+  }, [selectedSeason, appLoading, currentSeasonConfig]);
+
+  const selectedConferenceName = selectedConference ?
+  currentSeasonConfig?.conferences.find((c) => c.id === selectedConference)?.name :
+  null;
+
+  const visibleRows = React.useMemo(() => {
+    return rows.
+    filter((row) => !selectedConferenceName || row.conference_name === selectedConferenceName).
+    sort((a, b) => b.odds[sortKey] - a.odds[sortKey] || a.overall_rank - b.overall_rank);
+  }, [rows, sortKey, selectedConferenceName]);
+
+  const formatPercent = (value: number) => {
+    if (value >= 0.999) return '>99.9%';
+    if (value > 0 && value < 0.001) return '<0.1%';
+    return `${(value * 100).toFixed(1)}%`;
+  };
+
+  // Week-over-week change in percentage points
+  const renderMovement = (row: PlayoffOddsRow, key: OddsKey) => {
+    if (!row.previousOdds) return null;
+
+    const change = (row.odds[key] - row.previousOdds[key]) * 100;
+    if (Math.abs(change) < 0.5) return null;
+
+    return change > 0 ?
+    <span className="flex items-center justify-center text-xs text-green-600">
+        <TrendingUp className="h-3 w-3 mr-0.5" />
+        {change.toFixed(1)}
+      </span> :
+
+    <span className="flex items-center justify-center text-xs text-red-600">
+        <TrendingDown className="h-3 w-3 mr-0.5" />
+        {Math.abs(change).toFixed(1)}
+      </span>;
+
+  };
+
+  if (appLoading || loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="flex items-center space-x-2">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span>{appLoading ? 'Loading season data...' : 'Simulating season...'}</span>
+        </div>
+      </div>);
+
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-col space-y-2">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Percent className="h-6 w-6 text-primary" />
+            <h1 className="text-3xl font-bold">Playoff Odds</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate('/standings')} className="flex items-center gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Standings
+            </Button>
+            <Button variant="outline" onClick={fetchOdds} className="flex items-center gap-2">
+              <RefreshCw className="h-4 w-4" />
+              Re-run
+            </Button>
+          </div>
+        </div>
+        <p className="text-muted-foreground">
+          {selectedSeason} Season • {selectedConferenceName || 'All Conferences'}
+          {asOfWeek > 0 && ` • Through Week ${asOfWeek}`}
+        </p>
+      </div>
+
+      {error ?
+      <Card>
+          <CardHeader>
+            <CardTitle>Error Calculating Odds</CardTitle>
+            <CardDescription>Unable to simulate the rest of the season</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="text-center space-y-4">
+              <p className="text-muted-foreground">{error}</p>
+              <Button onClick={fetchOdds}>Try Again</Button>
+            </div>
+          </CardContent>
+        </Card> :
+
+      <Card>
+          <CardHeader>
+            <CardTitle>Simulated Outcomes</CardTitle>
+            <CardDescription>
+              Each team's weekly scoring is modeled from its results so far and the remaining schedule,
+              conference championships and playoff bracket are simulated thousands of times.
+              Arrows show the change in percentage points since last week.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Team</TableHead>
+                    <TableHead className="hidden lg:table-cell text-center">Conference</TableHead>
+                    <TableHead className="text-center">Record</TableHead>
+                    <TableHead className="text-center hidden md:table-cell">Proj. Wins</TableHead>
+                    {ODDS_COLUMNS.map((column) =>
+                  <TableHead key={column.key} className="text-center" title={column.title}>
+                        <Button variant="ghost" size="sm" onClick={() => setSortKey(column.key)}>
+                          {column.label} <ArrowUpDown className="ml-1 h-3 w-3" />
+                        </Button>
+                      </TableHead>
+                  )}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.map((row) =>
+                <TableRow
+                  key={row.team_id}
+                  className="hover:bg-muted/50 cursor-pointer transition-colors"
+                  onClick={() => navigate(`/teams/${row.team_id}`)}>
+
+                      <TableCell>
+                        <div className="flex flex-col">
+                          <div className="font-medium text-sm">{row.team_name}</div>
+                          <div className="text-xs text-muted-foreground">{row.owner_name}</div>
+                        </div>
+                      </TableCell>
+                      <TableCell className="hidden lg:table-cell text-center">
+                        <ConferenceBadge conferenceName={row.conference_name} variant="outline" size="sm" />
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Badge variant="outline">
+                          {row.wins}-{row.losses}
+                          {row.ties > 0 && `-${row.ties}`}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-center hidden md:table-cell font-mono text-sm">
+                        {row.odds.projected_wins.toFixed(1)}
+                      </TableCell>
+                      {ODDS_COLUMNS.map((column) =>
+                  <TableCell key={column.key} className="text-center">
+                          <div className="font-mono text-sm">{formatPercent(row.odds[column.key])}</div>
+                          {renderMovement(row, column.key)}
+                        </TableCell>
+                  )}
+                    </TableRow>
+                )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      }
+    </div>);
+
+};
+
+export default PlayoffOddsPage;
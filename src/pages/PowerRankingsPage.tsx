@@ -0,0 +1,234 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useApp } from '@/contexts/AppContext';
+import { Zap, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { StandingsService, StandingsData } from '@/services/standingsService';
+import {
+  PowerRankingsService,
+  PowerRankingRow,
+  PowerRankingWeights,
+  POWER_RANKING_COMPONENT_LABELS } from
+'@/services/powerRankingsService';
+import { ConferenceBadge } from '@/components/ui/conference-badge';
+import RankMovement from '@/components/power-rankings/RankMovement';
+
+const PowerRankingsPage: React.FC = () => {
+  const { selectedSeason, selectedConference, currentSeasonConfig, loading: appLoading } = useApp();
+  const navigate = useNavigate();
+  const [rankings, setRankings] = useState<PowerRankingRow[]>([]);
+  const [teams, setTeams] = useState<Map<number, StandingsData>>(new Map());
+  const [weeks, setWeeks] = useState<number[]>([]);
+  const [selectedWeek, setSelectedWeek] = useState<number | undefined>(undefined);
+  const [weights, setWeights] = useState<PowerRankingWeights | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const seasonId = currentSeasonConfig?.seasonId ? Number(currentSeasonConfig.seasonId) : undefined;
+
+  useEffect(() => {
+    if (!appLoading && seasonId) {
+      setSelectedWeek(undefined);
+      loadSeason();
+    }
+  }, [selectedSeason, appLoading, currentSeasonConfig]);
+
+  useEffect(() => {
+    if (seasonId && selectedWeek !== undefined) {
+      loadRankings(selectedWeek);
+    }
+  }, [selectedWeek]);
+
+  const loadSeason = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [standings, snapshotWeeks, seasonWeights] = await Promise.all([
+      StandingsService.getLeagueStandings(seasonId!),
+      PowerRankingsService.getSnapshotWeeks(seasonId!),
+      PowerRankingsService.getSeasonWeights(seasonId!)]
+      );
+
+      setTeams(new Map(standings.map((team) => [team.team_id, team])));
+      setWeeks(snapshotWeeks);
+      setWeights(seasonWeights);
+
+      // Latest snapshot, or live rankings when none has been generated yet
+      setRankings(await PowerRankingsService.getRankings(seasonId!));
+    } catch (err) {
+      console.error('Error loading power rankings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load power rankings');
+      toast({
+        title: 'Error',
+        description: 'Failed to load power rankings. Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadRankings = async (week: number) => {
+    try {
+      setLoading(true);
+      setRankings(await PowerRankingsService.getRankings(seasonId!, week));
+    } catch (err) {
+      console.error('Error loading power rankings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load power rankings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectedConferenceName = selectedConference ?
+  currentSeasonConfig?.conferences.find((c) => c.id === selectedConference)?.name :
+  null;
+
+  const visibleRankings = rankings.filter((row) =>
+  !selectedConferenceName || teams.get(row.team_id)?.conference_name === selectedConferenceName
+  );
+
+  const isLive = rankings.length > 0 && rankings[0].id === undefined;
+  const displayedWeek = rankings[0]?.week;
+
+  const formatComponent = (value: number) => `${Math.round(value * 100)}`;
+
+  if (appLoading || loading && rankings.length === 0) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="flex items-center space-x-2">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span>Loading power rankings...</span>
+        </div>
+      </div>);
+
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-col space-y-2">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Zap className="h-6 w-6 text-primary" />
+            <h1 className="text-3xl font-bold">Power Rankings</h1>
+          </div>
+          {weeks.length > 0 &&
+          <Select
+            value={displayedWeek?.toString() || ''}
+            onValueChange={(value) => setSelectedWeek(parseInt(value))}>
+
+              <SelectTrigger className="w-32">
+                <SelectValue placeholder="Week" />
+              </SelectTrigger>
+              <SelectContent>
+                {weeks.map((week) =>
+              <SelectItem key={week} value={week.toString()}>Week {week}</SelectItem>
+              )}
+              </SelectContent>
+            </Select>
+          }
+        </div>
+        <p className="text-muted-foreground">
+          {selectedSeason} Season • {selectedConferenceName || 'All Conferences'}
+          {displayedWeek ? ` • Week ${displayedWeek}` : ''}
+          {isLive && ' • Live (not yet published)'}
+        </p>
+      </div>
+
+      {error ?
+      <Card>
+          <CardHeader>
+            <CardTitle>Error Loading Power Rankings</CardTitle>
+            <CardDescription>Unable to fetch power rankings</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="text-center space-y-4">
+              <p className="text-muted-foreground">{error}</p>
+              <Button onClick={loadSeason}>Try Again</Button>
+            </div>
+          </CardContent>
+        </Card> :
+
+      <Card>
+          <CardHeader>
+            <CardTitle>Rankings</CardTitle>
+            <CardDescription>
+              Score out of 100 from weighted components
+              {weights && `: ${Object.entries(weights).
+            filter(([, weight]) => weight > 0).
+            map(([component, weight]) => `${POWER_RANKING_COMPONENT_LABELS[component as keyof PowerRankingWeights]} ${Math.round(weight * 100)}%`).
+            join(' • ')}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16 text-center">Rank</TableHead>
+                    <TableHead className="w-12" />
+                    <TableHead>Team</TableHead>
+                    <TableHead className="hidden lg:table-cell text-center">Conference</TableHead>
+                    <TableHead className="text-center">Record</TableHead>
+                    <TableHead className="text-center">Score</TableHead>
+                    <TableHead className="text-center hidden md:table-cell">Form</TableHead>
+                    <TableHead className="text-center hidden md:table-cell">PF</TableHead>
+                    <TableHead className="text-center hidden md:table-cell">All-Play</TableHead>
+                    <TableHead className="text-center hidden md:table-cell">SOS</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRankings.map((row) => {
+                  const team = teams.get(row.team_id);
+                  return (
+                    <TableRow
+                      key={row.team_id}
+                      className="hover:bg-muted/50 cursor-pointer transition-colors"
+                      onClick={() => navigate(`/teams/${row.team_id}`)}>
+
+                        <TableCell className="text-center font-semibold">{row.rank}</TableCell>
+                        <TableCell>
+                          {!isLive && <RankMovement rank={row.rank} previousRank={row.previous_rank} />}
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium text-sm">{team?.team_name || `Team ${row.team_id}`}</div>
+                          <div className="text-xs text-muted-foreground">{team?.owner_name}</div>
+                          {row.blurb && <p className="text-xs italic mt-1 max-w-md">{row.blurb}</p>}
+                        </TableCell>
+                        <TableCell className="hidden lg:table-cell text-center">
+                          {team && <ConferenceBadge conferenceName={team.conference_name} variant="outline" size="sm" />}
+                        </TableCell>
+                        <TableCell className="text-center">
+                          {team &&
+                        <Badge variant="outline">
+                              {StandingsService.formatRecord(team.wins, team.losses, team.ties)}
+                            </Badge>
+                        }
+                        </TableCell>
+                        <TableCell className="text-center font-mono font-semibold">{row.score.toFixed(1)}</TableCell>
+                        <TableCell className="text-center font-mono hidden md:table-cell">{formatComponent(row.recent_form)}</TableCell>
+                        <TableCell className="text-center font-mono hidden md:table-cell">{formatComponent(row.points_for)}</TableCell>
+                        <TableCell className="text-center font-mono hidden md:table-cell">{formatComponent(row.all_play)}</TableCell>
+                        <TableCell className="text-center font-mono hidden md:table-cell">{formatComponent(row.strength_of_schedule)}</TableCell>
+                      </TableRow>);
+
+                })}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      }
+    </div>);
+
+};
+
+export default PowerRankingsPage;
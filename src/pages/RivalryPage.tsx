@@ -0,0 +1,217 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link, useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Swords, Loader2, ArrowLeft, AlertCircle } from 'lucide-react';
+import { DatabaseService, DbTeam } from '@/services/databaseService';
+import { RivalryService, Rivalry, RivalryStreak } from '@/services/rivalryService';
+import { StandingsService } from '@/services/standingsService';
+
+const RivalryPage: React.FC = () => {
+  const { teamA, teamB } = useParams<{teamA: string;teamB: string;}>();
+  const navigate = useNavigate();
+  const [rivalry, setRivalry] = useState<Rivalry | null>(null);
+  const [teams, setTeams] = useState<Map<number, DbTeam>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const teamAId = parseInt(teamA || '');
+  const teamBId = parseInt(teamB || '');
+
+  useEffect(() => {
+    if (isNaN(teamAId) || isNaN(teamBId) || teamAId === teamBId) {
+      setError('Pick two different teams to compare');
+      setLoading(false);
+      return;
+    }
+
+    loadRivalry();
+  }, [teamA, teamB]);
+
+  const loadRivalry = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [rivalryData, teamsResult] = await Promise.all([
+      RivalryService.getRivalry(teamAId, teamBId),
+      DatabaseService.getTeams({ filters: [{ column: 'id', operator: 'in', value: [teamAId, teamBId] }] })]
+      );
+
+      if (teamsResult.data.length < 2) {
+        throw new Error('Team not found');
+      }
+
+      setTeams(new Map(teamsResult.data.map((team) => [team.id, team])));
+      setRivalry(rivalryData);
+    } catch (err) {
+      console.error('Error loading rivalry:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load rivalry');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="flex items-center space-x-2">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span>Loading rivalry...</span>
+        </div>
+      </div>);
+
+  }
+
+  if (error || !rivalry) {
+    return (
+      <div className="space-y-6">
+        <Button variant="ghost" onClick={() => navigate(-1)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+        <Card>
+          <CardContent className="flex items-center gap-2 py-8 text-destructive">
+            <AlertCircle className="h-5 w-5" />
+            <span>{error || 'Rivalry not found'}</span>
+          </CardContent>
+        </Card>
+      </div>);
+
+  }
+
+  const teamName = (teamId: number) => teams.get(teamId)?.team_name || `Team ${teamId}`;
+  const { summary, meetings } = rivalry;
+  const formatStreak = (streak: RivalryStreak | null) => streak ? `${teamName(streak.team_id)} W${streak.length}` : '—';
+
+  const renderTeam = (teamId: number, align: 'left' | 'right') => {
+    const team = teams.get(teamId);
+    return (
+      <Link to={`/teams/${teamId}`} className={`flex items-center gap-3 hover:opacity-80 ${align === 'right' ? 'flex-row-reverse text-right' : ''}`}>
+        {team?.team_logourl &&
+        <img src={team.team_logourl} alt={team.team_name} className="h-12 w-12 rounded-full object-cover" />
+        }
+        <div>
+          <div className="text-lg font-bold">{teamName(teamId)}</div>
+          <div className="text-sm text-muted-foreground">{team?.owner_name}</div>
+        </div>
+      </Link>);
+
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex flex-col space-y-2">
+        <div className="flex items-center space-x-2">
+          <Swords className="h-6 w-6 text-primary" />
+          <h1 className="text-3xl font-bold">Rivalry</h1>
+        </div>
+        <p className="text-muted-foreground">Every regular season and playoff meeting across all seasons</p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex items-center justify-between gap-4">
+            {renderTeam(teamAId, 'left')}
+            <div className="text-center shrink-0">
+              <div className="text-3xl font-bold font-mono">
+                {summary.team_a_wins}-{summary.team_b_wins}{summary.ties > 0 && `-${summary.ties}`}
+              </div>
+              <div className="text-xs text-muted-foreground">Series record</div>
+            </div>
+            {renderTeam(teamBId, 'right')}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-2xl font-bold">{summary.meetings}</div>
+            <div className="text-sm text-muted-foreground">
+              Meetings{summary.playoff_meetings > 0 && ` (${summary.playoff_meetings} playoff)`}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-2xl font-bold">{summary.average_margin.toFixed(1)}</div>
+            <div className="text-sm text-muted-foreground">Average margin</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-lg font-bold truncate">{formatStreak(summary.longest_streak)}</div>
+            <div className="text-sm text-muted-foreground">Longest streak</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-lg font-bold truncate">{formatStreak(summary.current_streak)}</div>
+            <div className="text-sm text-muted-foreground">Current streak</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Meetings</CardTitle>
+          <CardDescription>
+            Total points: {teamName(teamAId)} {StandingsService.formatPoints(summary.team_a_points)},{' '}
+            {teamName(teamBId)} {StandingsService.formatPoints(summary.team_b_points)}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {meetings.length === 0 ?
+          <p className="text-sm text-muted-foreground text-center py-4">These teams have not played each other yet</p> :
+
+          <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Season</TableHead>
+                    <TableHead>Week</TableHead>
+                    <TableHead className="text-center">{teamName(teamAId)}</TableHead>
+                    <TableHead className="text-center">{teamName(teamBId)}</TableHead>
+                    <TableHead>Winner</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...meetings].reverse().map((meeting) =>
+                <TableRow
+                  key={`${meeting.is_playoff ? 'p' : 'm'}-${meeting.season_id}-${meeting.week}`}
+                  className={meeting.matchup_id ? 'cursor-pointer hover:bg-muted/50 transition-colors' : ''}
+                  onClick={() => meeting.matchup_id && navigate(`/matchups/${meeting.matchup_id}`)}>
+
+                      <TableCell className="font-medium">{meeting.season_year}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span>{meeting.week}</span>
+                          {meeting.round_name &&
+                      <Badge variant="secondary" className="text-xs bg-purple-100 text-purple-800">{meeting.round_name}</Badge>
+                      }
+                        </div>
+                      </TableCell>
+                      <TableCell className={`text-center font-mono ${meeting.winner_id === teamAId ? 'font-bold' : ''}`}>
+                        {meeting.team_a_score.toFixed(2)}
+                      </TableCell>
+                      <TableCell className={`text-center font-mono ${meeting.winner_id === teamBId ? 'font-bold' : ''}`}>
+                        {meeting.team_b_score.toFixed(2)}
+                      </TableCell>
+                      <TableCell>{meeting.winner_id ? teamName(meeting.winner_id) : 'Tie'}</TableCell>
+                    </TableRow>
+                )}
+                </TableBody>
+              </Table>
+            </div>
+          }
+        </CardContent>
+      </Card>
+    </div>);
+
+};
+
+export default RivalryPage;
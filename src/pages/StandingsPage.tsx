@@ -4,12 +4,25 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useApp } from '@/contexts/AppContext';
-import { ArrowUpDown, Trophy, TrendingUp, TrendingDown, Loader2, RefreshCw } from 'lucide-react';
+import { ArrowUpDown, Trophy, TrendingUp, TrendingDown, Loader2, RefreshCw, Percent } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { StandingsService, StandingsData } from '@/services/standingsService';
+import { StandingsService, StandingsData, StandingsSnapshot } from '@/services/standingsService';
 import { DatabaseService, DbPlayoffFormat } from '@/services/databaseService';
 import { ConferenceBadge } from '@/components/ui/conference-badge';
+import { TIEBREAKER_RULE_LABELS, TIEBREAKER_RULE_SHORT_LABELS } from '@/services/tiebreakerService';
+import { PlayoffClinchService, ClinchStatus } from '@/services/playoffClinchService';
+import { AllPlayService, AllPlayRecord } from '@/services/allPlayService';
+import { StrengthOfScheduleService, TeamStrengthOfSchedule, StrengthOfScheduleSplit } from '@/services/strengthOfScheduleService';
+import SimpleLineChart, { ChartSeries } from '@/components/charts/SimpleLineChart';
+import ManagerEfficiencyLeaderboard from '@/components/standings/ManagerEfficiencyLeaderboard';
+
+// Line colors for the rank history charts, one per team in a conference
+const RANK_HISTORY_COLORS = [
+'#3b82f6', '#ef4444', '#22c55e', '#f59e0b', '#8b5cf6', '#ec4899',
+'#14b8a6', '#f97316', '#6366f1', '#84cc16', '#06b6d4', '#a855f7'];
+
 
 const StandingsPage: React.FC = () => {
   const { selectedSeason, selectedConference, currentSeasonConfig, loading: appLoading } = useApp();
@@ -21,6 +34,11 @@ const StandingsPage: React.FC = () => {
   const [refreshing, setRefreshing] = useState(false);
   const [playoffFormat, setPlayoffFormat] = useState<DbPlayoffFormat | null>(null);
   const [isWeek13CompleteState, setIsWeek13CompleteState] = useState(false);
+  const [clinchStatuses, setClinchStatuses] = useState<Map<number, ClinchStatus>>(new Map());
+  const [allPlayRecords, setAllPlayRecords] = useState<Map<number, AllPlayRecord>>(new Map());
+  const [strengthOfSchedule, setStrengthOfSchedule] = useState<Map<number, TeamStrengthOfSchedule>>(new Map());
+  const [asOfWeek, setAsOfWeek] = useState<number | null>(null); // null shows the current standings
+  const [rankHistory, setRankHistory] = useState<StandingsSnapshot[]>([]);
   const { toast } = useToast();
 
   // Default playoff format
@@ -91,7 +109,7 @@ const StandingsPage: React.FC = () => {
       console.log(`Using season ID ${seasonId} for year ${selectedSeason}`);
       
       // Fetch playoff format data for this season
-      await fetchPlayoffFormat(seasonId);
+      const seasonPlayoffFormat = await fetchPlayoffFormat(seasonId) || DEFAULT_PLAYOFF_FORMAT;
 
       // Check if Week 13 is complete
       await checkWeek13Complete(seasonId);
@@ -120,12 +138,38 @@ const StandingsPage: React.FC = () => {
         }
       }
 
-      // Use the team records service to get standings data (now using Supabase)
-      const standings = await StandingsService.getStandingsData(seasonId, conferenceId, playoffFormat);
+      // Standings after every week, rebuilt from matchups, for the week picker and rank history
+      const history = await StandingsService.getRankHistory(seasonId, undefined, seasonPlayoffFormat);
+      setRankHistory(history);
+      const snapshot = asOfWeek !== null ? history.find((s) => s.week === asOfWeek) : undefined;
+
+      // Use the team records service to get standings data (now using Supabase),
+      // or the rebuilt standings when looking at a past week
+      const standings = snapshot ?
+      snapshot.standings.filter((team) => !conferenceId || team.conference_id === conferenceId) :
+      await StandingsService.getStandingsData(seasonId, conferenceId, playoffFormat);
 
       console.log('Standings data from service:', standings);
       setStandingsData(standings);
 
+      // Clinch scenarios always depend on the whole league, even when one conference is shown
+      const leagueStandings = snapshot ?
+      snapshot.standings :
+      conferenceId ?
+      await StandingsService.getLeagueStandings(seasonId, seasonPlayoffFormat) :
+      standings;
+      const [remainingGames, conferenceChampions] = await Promise.all([
+      PlayoffClinchService.getRemainingGames(seasonId, seasonPlayoffFormat.playoff_start_week, snapshot?.week),
+      PlayoffClinchService.getConferenceChampions(seasonId, seasonPlayoffFormat.playoff_start_week, snapshot?.week)]
+      );
+      setClinchStatuses(PlayoffClinchService.calculateClinchStatuses(leagueStandings, remainingGames, seasonPlayoffFormat, conferenceChampions));
+
+      // All-play compares every score against the whole league, so it also needs every team
+      setAllPlayRecords(await AllPlayService.getSeasonAllPlay(seasonId, leagueStandings, seasonPlayoffFormat.playoff_start_week, snapshot?.week));
+
+      // Schedule strength is ranked league-wide, games after the selected week count as remaining
+      setStrengthOfSchedule((await StrengthOfScheduleService.getSeasonStrengthOfSchedule(seasonId, snapshot?.week)).teams);
+
     } catch (err) {
       console.error('Error fetching standings:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch standings data');
@@ -206,12 +250,17 @@ const StandingsPage: React.FC = () => {
     }
   };
 
+  useEffect(() => {
+    // Past weeks belong to a season, so go back to the current standings when it changes
+    setAsOfWeek(null);
+  }, [selectedSeason]);
+
   useEffect(() => {
     // Don't load standings until app context is ready
     if (!appLoading && currentSeasonConfig) {
       fetchStandingsData();
     }
-  }, [selectedSeason, selectedConference, appLoading, currentSeasonConfig]);
+  }, [selectedSeason, selectedConference, appLoading, currentSeasonConfig, asOfWeek]);
 
   const handleSort = (key: string) => {
     let direction: 'asc' | 'desc' = 'desc';
@@ -221,14 +270,34 @@ const StandingsPage: React.FC = () => {
     setSortConfig({ key, direction });
   };
 
+  // All-play and schedule columns live outside the standings rows, everything else sorts on the row itself
+  const getSortValue = (team: StandingsData, key: string) => {
+    const allPlay = allPlayRecords.get(team.team_id);
+    const schedule = strengthOfSchedule.get(team.team_id);
+    switch (key) {
+      case 'strength_of_schedule':
+        return schedule?.played.opponent_win_percentage ?? 0;
+      case 'remaining_strength_of_schedule':
+        return schedule?.remaining.opponent_win_percentage ?? 0;
+      case 'all_play_percentage':
+        return allPlay?.league_percentage ?? 0;
+      case 'expected_wins':
+        return allPlay?.expected_wins ?? 0;
+      case 'luck':
+        return allPlay?.luck ?? 0;
+      default:
+        return (team as any)[key];
+    }
+  };
+
   const sortedStandings = React.useMemo(() => {
     let sortableStandings = [...standingsData];
     
     if (sortConfig !== null) {
       // Custom sorting based on user selection
       sortableStandings.sort((a, b) => {
-        const aValue = (a as any)[sortConfig.key];
-        const bValue = (b as any)[sortConfig.key];
+        const aValue = getSortValue(a, sortConfig.key);
+        const bValue = getSortValue(b, sortConfig.key);
 
         if (aValue < bValue) {
           return sortConfig.direction === 'asc' ? -1 : 1;
@@ -239,19 +308,12 @@ const StandingsPage: React.FC = () => {
         return 0;
       });
     } else {
-      // Default sorting: Wins first (descending), then Points For (descending)
-      sortableStandings.sort((a, b) => {
-        // First sort by wins (descending)
-        if (a.wins !== b.wins) {
-          return b.wins - a.wins;
-        }
-        // If wins are equal, sort by points for (descending)
-        return b.points_for - a.points_for;
-      });
+      // Default sorting: overall rank, which already applies the season's tiebreakers
+      sortableStandings.sort((a, b) => a.overall_rank - b.overall_rank);
     }
     
     return sortableStandings;
-  }, [standingsData, sortConfig]);
+  }, [standingsData, sortConfig, allPlayRecords, strengthOfSchedule]);
 
   // Check if Week 13 is complete by looking at matchup data
   const checkWeek13Complete = async (seasonId: number) => {
@@ -286,7 +348,7 @@ const StandingsPage: React.FC = () => {
 
   // Check if Week 13 is complete to determine if Status column should be shown
   const isWeek13Complete = () => {
-    return isWeek13CompleteState;
+    return isWeek13CompleteState && (asOfWeek === null || asOfWeek >= 13);
   };
 
   // Get record badge styling based on playoff seeding
@@ -334,6 +396,58 @@ const StandingsPage: React.FC = () => {
     return '';
   };
 
+  // Tiebreaker that decided the team's position, preferring the conference ordering when one is selected
+  const getDecidingTiebreaker = (team: StandingsData) => {
+    return selectedConference ?
+    team.conference_tiebreaker || team.overall_tiebreaker :
+    team.overall_tiebreaker;
+  };
+
+  // Get clinch/elimination badges for Status column (x: playoffs, y: bye, z: conference, e: eliminated)
+  const getClinchBadges = (team: StandingsData) => {
+    const status = clinchStatuses.get(team.team_id);
+    if (!status) return [];
+
+    const badges = [];
+    if (status.clinched_conference) {
+      badges.push(
+        <Badge key="z" variant="default" className="bg-yellow-500 text-white px-1.5" title="Won the conference championship game">
+          z
+        </Badge>
+      );
+    }
+    if (status.clinched_bye) {
+      badges.push(
+        <Badge key="y" variant="default" className="bg-blue-500 text-white px-1.5" title="Clinched first-round bye">
+          y
+        </Badge>
+      );
+    }
+    if (status.clinched_playoffs) {
+      badges.push(
+        <Badge key="x" variant="default" className="bg-green-600 text-white px-1.5" title="Clinched playoff spot">
+          x
+        </Badge>
+      );
+    }
+    if (status.eliminated) {
+      badges.push(
+        <Badge key="e" variant="outline" className="text-red-600 border-red-600 px-1.5" title="Eliminated from playoff contention">
+          e
+        </Badge>
+      );
+    }
+    if (!status.clinched_playoffs && status.magic_number !== null) {
+      badges.push(
+        <span key="magic" className="text-xs font-mono text-muted-foreground" title="Magic number: further wins that clinch a playoff spot whatever else happens">
+          M{status.magic_number}
+        </span>
+      );
+    }
+
+    return badges;
+  };
+
   // Get championship badges for Status column
   const getChampionshipBadges = (team: StandingsData) => {
     const badges = [];
@@ -368,6 +482,90 @@ const StandingsPage: React.FC = () => {
     return badges;
   };
 
+  // All-play record, expected wins and luck cells
+  const renderAllPlayCells = (team: StandingsData) => {
+    const allPlay = allPlayRecords.get(team.team_id);
+    if (!allPlay) {
+      return (
+        <>
+          <TableCell className="text-center hidden xl:table-cell">-</TableCell>
+          <TableCell className="text-center hidden xl:table-cell">-</TableCell>
+          <TableCell className="text-center hidden xl:table-cell">-</TableCell>
+        </>);
+
+    }
+
+    return (
+      <>
+        <TableCell className="text-center font-mono hidden xl:table-cell">
+          <div className="text-sm">{AllPlayService.formatRecord(allPlay.league)}</div>
+          <div className="text-[10px] text-muted-foreground" title="All-play record within the conference">
+            Conf {AllPlayService.formatRecord(allPlay.conference)}
+          </div>
+        </TableCell>
+        <TableCell className="text-center font-mono hidden xl:table-cell">
+          {allPlay.expected_wins.toFixed(1)}
+        </TableCell>
+        <TableCell className="text-center font-mono hidden xl:table-cell">
+          <span className={allPlay.luck >= 0 ? 'text-green-600' : 'text-red-600'}>
+            {allPlay.luck >= 0 ? '+' : ''}{allPlay.luck.toFixed(1)}
+          </span>
+        </TableCell>
+      </>);
+
+  };
+
+  // Opponents' win% with the league-wide rank (1 = hardest) and opponents' points per game underneath
+  const renderStrengthOfScheduleCell = (split: StrengthOfScheduleSplit | undefined, label: string) => {
+    if (!split || split.games === 0) {
+      return <TableCell className="text-center hidden xl:table-cell">-</TableCell>;
+    }
+
+    return (
+      <TableCell className="text-center font-mono hidden xl:table-cell">
+        <div className="text-sm" title={`${label}: opponents' win percentage, ranked 1 (hardest) across the league`}>
+          {StrengthOfScheduleService.formatWinPercentage(split.opponent_win_percentage)}
+          <span className="text-[10px] text-muted-foreground ml-1">#{split.rank}</span>
+        </div>
+        <div className="text-[10px] text-muted-foreground" title="Opponents' average points per game">
+          {split.opponent_points_for.toFixed(1)} PPG
+        </div>
+      </TableCell>);
+
+  };
+
+  // One line per team showing its conference rank after each week, one chart per conference
+  const getRankHistoryCharts = () => {
+    const history = asOfWeek !== null ? rankHistory.filter((s) => s.week <= asOfWeek) : rankHistory;
+    if (history.length < 2) return [];
+
+    const selectedConferenceName = selectedConference ?
+    currentSeasonConfig.conferences.find((c) => c.id === selectedConference)?.name :
+    null;
+
+    const conferences = new Map<number, {name: string;teams: StandingsData[];}>();
+    history[history.length - 1].standings.
+    filter((team) => !selectedConferenceName || team.conference_name === selectedConferenceName).
+    sort((a, b) => a.conference_rank - b.conference_rank).
+    forEach((team) => {
+      if (!conferences.has(team.conference_id)) {
+        conferences.set(team.conference_id, { name: team.conference_name, teams: [] });
+      }
+      conferences.get(team.conference_id)!.teams.push(team);
+    });
+
+    return [...conferences.entries()].map(([conferenceId, conference]) => ({
+      conferenceId,
+      name: conference.name,
+      data: history.map((s) => ({ week: s.week })),
+      series: conference.teams.map((team, index): ChartSeries => ({
+        name: team.team_name,
+        color: RANK_HISTORY_COLORS[index % RANK_HISTORY_COLORS.length],
+        values: history.map((s) => s.standings.find((t) => t.team_id === team.team_id)?.conference_rank)
+      }))
+    }));
+  };
+
   if (appLoading || loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -422,21 +620,46 @@ const StandingsPage: React.FC = () => {
             <Trophy className="h-6 w-6 text-primary" />
             <h1 className="text-3xl font-bold">League Standings</h1>
           </div>
-          <Button
-            variant="outline"
-            onClick={refreshStandings}
-            disabled={refreshing}
-            className="flex items-center gap-2">
-
-            <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
-            {refreshing ? 'Refreshing...' : 'Refresh'}
-          </Button>
+          <div className="flex items-center gap-2">
+            <Select
+              value={asOfWeek !== null ? asOfWeek.toString() : 'current'}
+              onValueChange={(value) => setAsOfWeek(value === 'current' ? null : parseInt(value))}>
+
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="current">Current</SelectItem>
+                {rankHistory.map((s) =>
+                <SelectItem key={s.week} value={s.week.toString()}>As of Week {s.week}</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={() => navigate('/standings/playoff-odds')}
+              className="flex items-center gap-2">
+
+              <Percent className="h-4 w-4" />
+              Playoff Odds
+            </Button>
+            <Button
+              variant="outline"
+              onClick={refreshStandings}
+              disabled={refreshing}
+              className="flex items-center gap-2">
+
+              <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+              {refreshing ? 'Refreshing...' : 'Refresh'}
+            </Button>
+          </div>
         </div>
         <p className="text-muted-foreground">
           {selectedSeason} Season • {selectedConference ?
           currentSeasonConfig.conferences.find((c) => c.id === selectedConference)?.name :
           'All Conferences'
           }
+          {asOfWeek !== null && ` • As of Week ${asOfWeek}`}
         </p>
       </div>
 
@@ -485,12 +708,18 @@ const StandingsPage: React.FC = () => {
         <CardHeader>
           <CardTitle>Team Standings</CardTitle>
           <CardDescription>
-            Click column headers to sort. Current standings for the {selectedSeason} season.
+            Click column headers to sort. {asOfWeek !== null ?
+            `Standings as they stood after Week ${asOfWeek} of the ${selectedSeason} season.` :
+            `Current standings for the ${selectedSeason} season.`}
             {playoffFormat && (
               <span className="block mt-1 text-xs">
                 Gold records: Conference Champions (guaranteed playoff seeds 1-3) • 
                 Green records: Playoff bound (top {playoffFormat.playoff_teams} teams overall)
-                {isWeek13Complete() && ' • Status shown after Week 13 completion'}
+                {' • TB: tiebreaker that decided a tied ordering'}
+                {' • All-Play: record against every team each week (league, then conference) • xW: expected wins • Luck: actual minus expected wins'}
+                {' • SOS / Rem. SOS: opponents\' win% in played / remaining games (#1 = hardest)'}
+                {' • x: clinched playoffs • y: clinched bye • z: clinched conference • e: eliminated • M: magic number'}
+                {isWeek13Complete() && ' • Championships shown after Week 13 completion'}
               </span>
             )}
           </CardDescription>
@@ -536,7 +765,32 @@ const StandingsPage: React.FC = () => {
                       Diff <ArrowUpDown className="ml-1 h-3 w-3" />
                     </Button>
                   </TableHead>
-                  {isWeek13Complete() && <TableHead className="hidden lg:table-cell">Status</TableHead>}
+                  <TableHead className="text-center hidden xl:table-cell">
+                    <Button variant="ghost" size="sm" onClick={() => handleSort('all_play_percentage')}>
+                      All-Play <ArrowUpDown className="ml-1 h-3 w-3" />
+                    </Button>
+                  </TableHead>
+                  <TableHead className="text-center hidden xl:table-cell">
+                    <Button variant="ghost" size="sm" onClick={() => handleSort('expected_wins')}>
+                      xW <ArrowUpDown className="ml-1 h-3 w-3" />
+                    </Button>
+                  </TableHead>
+                  <TableHead className="text-center hidden xl:table-cell">
+                    <Button variant="ghost" size="sm" onClick={() => handleSort('luck')}>
+                      Luck <ArrowUpDown className="ml-1 h-3 w-3" />
+                    </Button>
+                  </TableHead>
+                  <TableHead className="text-center hidden xl:table-cell">
+                    <Button variant="ghost" size="sm" onClick={() => handleSort('strength_of_schedule')}>
+                      SOS <ArrowUpDown className="ml-1 h-3 w-3" />
+                    </Button>
+                  </TableHead>
+                  <TableHead className="text-center hidden xl:table-cell">
+                    <Button variant="ghost" size="sm" onClick={() => handleSort('remaining_strength_of_schedule')}>
+                      Rem. SOS <ArrowUpDown className="ml-1 h-3 w-3" />
+                    </Button>
+                  </TableHead>
+                  <TableHead className="hidden lg:table-cell">Status</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -582,6 +836,14 @@ const StandingsPage: React.FC = () => {
                         {team.wins}-{team.losses}
                         {team.ties > 0 && `-${team.ties}`}
                       </Badge>
+                      {getDecidingTiebreaker(team) &&
+                      <div
+                        className="text-[10px] text-muted-foreground mt-1"
+                        title={`Tiebreaker: ${TIEBREAKER_RULE_LABELS[getDecidingTiebreaker(team)!]}`}>
+
+                          TB: {TIEBREAKER_RULE_SHORT_LABELS[getDecidingTiebreaker(team)!]}
+                        </div>
+                      }
                     </TableCell>
                     <TableCell className="text-center font-mono hidden md:table-cell">
                       {(team.win_percentage * 100).toFixed(1)}%
@@ -597,13 +859,15 @@ const StandingsPage: React.FC = () => {
                         {team.point_diff >= 0 ? '+' : ''}{team.point_diff.toFixed(1)}
                       </span>
                     </TableCell>
-                    {isWeek13Complete() && (
-                      <TableCell className="hidden lg:table-cell">
-                        <div className="flex items-center space-x-1 flex-wrap gap-1">
-                          {getChampionshipBadges(team)}
-                        </div>
-                      </TableCell>
-                    )}
+                    {renderAllPlayCells(team)}
+                    {renderStrengthOfScheduleCell(strengthOfSchedule.get(team.team_id)?.played, 'Strength of schedule')}
+                    {renderStrengthOfScheduleCell(strengthOfSchedule.get(team.team_id)?.remaining, 'Remaining strength of schedule')}
+                    <TableCell className="hidden lg:table-cell">
+                      <div className="flex items-center space-x-1 flex-wrap gap-1">
+                        {getClinchBadges(team)}
+                        {isWeek13Complete() && getChampionshipBadges(team)}
+                      </div>
+                    </TableCell>
                   </TableRow>
                 )}
               </TableBody>
@@ -611,6 +875,23 @@ const StandingsPage: React.FC = () => {
           </div>
         </CardContent>
       </Card>
+
+      {/* Rank History */}
+      {getRankHistoryCharts().map((chart) =>
+      <SimpleLineChart
+        key={chart.conferenceId}
+        title={`${chart.name} Rank by Week`}
+        data={chart.data}
+        series={chart.series}
+        invertYAxis />
+
+      )}
+
+      {/* Manager efficiency is league-wide; a conference view only shows its own teams */}
+      <ManagerEfficiencyLeaderboard
+        seasonId={typeof currentSeasonConfig?.seasonId === 'string' ? parseInt(currentSeasonConfig.seasonId) : currentSeasonConfig?.seasonId}
+        teamIds={selectedConference ? standingsData.map((team) => team.team_id) : undefined} />
+
     </div>);
 
 };
@@ -6,11 +6,23 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { ArrowLeft, Users, Trophy, TrendingUp, Calendar, Star, Loader2, AlertCircle, RefreshCw } from 'lucide-react';
+import { ArrowLeft, Users, Trophy, TrendingUp, Calendar, Star, Loader2, AlertCircle, RefreshCw, History, Swords } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { DatabaseService } from '@/services/databaseService';
 import { useApp } from '@/contexts/AppContext';
 import { ConferenceBadge } from '@/components/ui/conference-badge';
+import SimpleLineChart from '@/components/charts/SimpleLineChart';
+import { StandingsService } from '@/services/standingsService';
+import { AllPlayService, AllPlayRecord } from '@/services/allPlayService';
+import { FranchiseHistoryService, FranchiseHistory, FranchiseSeason } from '@/services/franchiseHistoryService';
+import {
+  StrengthOfScheduleService,
+  SeasonStrengthOfSchedule,
+  ScheduleDifficulty,
+  SCHEDULE_DIFFICULTY_LABELS } from
+'@/services/strengthOfScheduleService';
+import { ProjectionService } from '@/services/projectionService';
+import { DbTeamProjection } from '@/types/database';
 
 import SleeperApiService, { type SleeperRoster, type SleeperPlayer, type OrganizedRoster } from '../services/sleeperApi';
 import { type ProcessedTransaction } from '../services/transactionService';
@@ -38,9 +50,16 @@ interface ConferenceData {
   league_logo_url?: string;
 }
 
+const DIFFICULTY_CLASSES: Record<ScheduleDifficulty, string> = {
+  hard: 'text-red-600',
+  average: 'text-yellow-600',
+  easy: 'text-green-600'
+};
+
 interface ScheduleMatchup {
   week: string;
   opponent: string;
+  opponentId: number | null; // Null for playoff byes
   isHome: boolean;
   result: 'W' | 'L' | 'T' | 'TBD';
   teamScore: number | null;
@@ -89,12 +108,18 @@ const TeamDetailPage: React.FC = () => {
   const [transactionsLoading, setTransactionsLoading] = useState(false);
   const [schedule, setSchedule] = useState<ScheduleMatchup[]>([]);
   const [scheduleLoading, setScheduleLoading] = useState(false);
+  const [strengthOfSchedule, setStrengthOfSchedule] = useState<SeasonStrengthOfSchedule | null>(null);
+  const [projections, setProjections] = useState<Map<number, DbTeamProjection>>(new Map()); // Keyed by week
   const [teamRecord, setTeamRecord] = useState<TeamRecord | null>(null);
+  const [allPlayRecord, setAllPlayRecord] = useState<AllPlayRecord | null>(null);
+  const [franchiseHistory, setFranchiseHistory] = useState<FranchiseHistory | null>(null);
+  const [franchiseHistoryLoading, setFranchiseHistoryLoading] = useState(false);
   const [seasonWaiverData, setSeasonWaiverData] = useState<{ position: number; budget: number } | null>(null);
   const [seasonTransactionCount, setSeasonTransactionCount] = useState<number>(0);
   const [headerStats, setHeaderStats] = useState<{
     wins: number;
     losses: number;
+    ties: number;
     pointsFor: number;
     gamesPlayed: number;
   } | null>(null);
@@ -126,6 +151,23 @@ const TeamDetailPage: React.FC = () => {
     }
   }, [activeTab, teamRosterData, selectedSeason]);
 
+  useEffect(() => {
+    if (activeTab === 'performance' && teamRosterData && !allPlayRecord) {
+      fetchAllPlayRecord();
+    }
+  }, [activeTab, teamRosterData, selectedSeason]);
+
+  useEffect(() => {
+    if (activeTab === 'history' && teamRosterData && !franchiseHistory) {
+      fetchFranchiseHistory();
+    }
+  }, [activeTab, teamRosterData]);
+
+  // Franchise history spans every season, so it only resets when the team changes
+  useEffect(() => {
+    setFranchiseHistory(null);
+  }, [teamId]);
+
   useEffect(() => {
     if (activeTab === 'performance' && teamRosterData && !seasonWaiverData) {
       fetchSeasonWaiverData();
@@ -149,6 +191,8 @@ const TeamDetailPage: React.FC = () => {
     if (schedule.length > 0) {
       setSchedule([]);
     }
+    setStrengthOfSchedule(null);
+    setProjections(new Map());
     if (teamRecord) {
       setTeamRecord(null);
     }
@@ -158,6 +202,7 @@ const TeamDetailPage: React.FC = () => {
   useEffect(() => {
     setSeasonWaiverData(null);
     setSeasonTransactionCount(0);
+    setAllPlayRecord(null);
     setHeaderStats(null);
   }, [selectedSeason]);
 
@@ -615,11 +660,14 @@ const TeamDetailPage: React.FC = () => {
       );
 
       normalMatchups.forEach(matchup => {
-        // Check if there's an admin override for this matchup
+        // Check if there's an admin override for this matchup: it must involve the
+        // override's teams or its original Sleeper pairing, not just share the week
         const override = overridesResult.data?.find(override =>
           override.conference_id === matchup.conference_id &&
           override.week === parseInt(matchup.week) &&
-          override.is_active
+          override.is_active &&
+          [override.override_team1_id, override.override_team2_id, override.original_team1_id, override.original_team2_id].
+            some(id => id === matchup.team1_id || id === matchup.team2_id)
         );
 
         let team1Id, team2Id;
@@ -639,8 +687,10 @@ const TeamDetailPage: React.FC = () => {
           team2Id = matchup.team2_id;
         }
 
-        // Only include if our team is involved
-        if (team1Id === teamRosterData.teamData.id || team2Id === teamRosterData.teamData.id) {
+        // Only include if our team is involved, and only once a week when two
+        // original matchups were re-paired into the same override
+        if ((team1Id === teamRosterData.teamData.id || team2Id === teamRosterData.teamData.id) &&
+          !regularSeasonSchedule.some(scheduled => scheduled.week === matchup.week)) {
           // Determine opponent
           const isTeam1 = team1Id === teamRosterData.teamData.id;
           const opponentId = isTeam1 ? team2Id : team1Id;
@@ -672,6 +722,7 @@ const TeamDetailPage: React.FC = () => {
           regularSeasonSchedule.push({
             week: matchup.week,
             opponent: opponentName,
+            opponentId,
             isHome: isTeam1,
             result,
             teamScore,
@@ -727,6 +778,7 @@ const TeamDetailPage: React.FC = () => {
           regularSeasonSchedule.push({
             week: matchup.week,
             opponent: opponentName,
+            opponentId,
             isHome: isTeam1,
             result,
             teamScore,
@@ -771,6 +823,7 @@ const TeamDetailPage: React.FC = () => {
       const playoffSchedule = teamPlayoffMatchups.map(bracket => {
         // Check if this is a bye week (Week 14 only)
         let opponentName = 'Unknown Team';
+        let opponentId = null;
         let isTeam1 = true;
 
         if (bracket.is_bye && bracket.week === 14) {
@@ -780,7 +833,7 @@ const TeamDetailPage: React.FC = () => {
         } else {
           // Regular playoff matchup
           isTeam1 = bracket.team1_id === teamRosterData.teamData.id;
-          const opponentId = isTeam1 ? bracket.team2_id : bracket.team1_id;
+          opponentId = isTeam1 ? bracket.team2_id : bracket.team1_id;
           opponentName = teamLookup.get(opponentId) || 'Unknown Team';
         }
 
@@ -815,6 +868,7 @@ const TeamDetailPage: React.FC = () => {
         return {
           week: bracket.week.toString(),
           opponent: opponentName,
+          opponentId,
           isHome: isTeam1, // For playoffs, this might not be as meaningful
           result,
           teamScore,
@@ -835,6 +889,12 @@ const TeamDetailPage: React.FC = () => {
       const combinedSchedule = [...regularSeasonSchedule, ...playoffSchedule];
 
       setSchedule(combinedSchedule);
+
+      // Strength of schedule is ranked against the whole league, including interconference weeks
+      setStrengthOfSchedule(await StrengthOfScheduleService.getSeasonStrengthOfSchedule(seasonId));
+
+      const storedProjections = await ProjectionService.getStoredProjections(seasonId, { teamId: teamRosterData.teamData.id });
+      setProjections(new Map(storedProjections.map((row) => [row.week, row])));
       console.log(`Loaded ${combinedSchedule.length} matchups for ${selectedSeason} season (${regularSeasonSchedule.length} regular season, ${playoffSchedule.length} playoff)`);
 
       toast({
@@ -978,6 +1038,113 @@ const TeamDetailPage: React.FC = () => {
     }
   };
 
+  const fetchAllPlayRecord = async () => {
+    if (!teamRosterData) return;
+
+    try {
+      const seasonResult = await DatabaseService.getSeasons({
+        filters: [{ column: 'season_year', operator: 'eq', value: selectedSeason }]
+      });
+
+      if (seasonResult.error || !seasonResult.data || seasonResult.data.length === 0) {
+        throw new Error('Season not found');
+      }
+
+      const seasonId = seasonResult.data[0].id;
+
+      // All-play needs every team's weekly score, not just this team's
+      const leagueStandings = await StandingsService.getLeagueStandings(seasonId);
+      const allPlayRecords = await AllPlayService.getSeasonAllPlay(seasonId, leagueStandings);
+      setAllPlayRecord(allPlayRecords.get(teamRosterData.teamData.id) || null);
+    } catch (error) {
+      console.error('Error fetching all-play record:', error);
+      // Don't show toast for all-play errors as it's not critical
+    }
+  };
+
+  const fetchFranchiseHistory = async () => {
+    if (!teamRosterData) return;
+
+    try {
+      setFranchiseHistoryLoading(true);
+      setFranchiseHistory(await FranchiseHistoryService.getFranchiseHistory(teamRosterData.teamData.id));
+    } catch (error) {
+      console.error('Error fetching franchise history:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load franchise history',
+        variant: 'destructive'
+      });
+    } finally {
+      setFranchiseHistoryLoading(false);
+    }
+  };
+
+  // Pre-game projection for the week, and how far the final score beat or missed it
+  const renderProjection = (matchup: ScheduleMatchup) => {
+    const projection = projections.get(parseInt(matchup.week));
+    if (!projection) {
+      return <span className="text-muted-foreground">-</span>;
+    }
+
+    const projected = Number(projection.projected_points);
+    const difference = matchup.result !== 'TBD' && matchup.teamScore !== null ? matchup.teamScore - projected : null;
+    return (
+      <div className="text-sm">
+        {projected.toFixed(1)}
+        {difference !== null &&
+        <span className={`ml-1 text-xs ${difference >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            ({difference >= 0 ? '+' : ''}{difference.toFixed(1)})
+          </span>
+        }
+      </div>);
+
+  };
+
+  const projectionResults = teamRosterData ?
+  ProjectionService.calculateProjectionResults([...projections.values()]).
+  find((result) => result.team_id === teamRosterData.teamData.id) :
+  undefined;
+
+  // Remaining regular season opponents are colored by how strong they have been so far
+  const renderOpponentName = (matchup: ScheduleMatchup) => {
+    const opponent = strengthOfSchedule && !matchup.isPlayoff && matchup.result === 'TBD' && matchup.opponentId !== null ?
+    strengthOfSchedule.opponents.get(matchup.opponentId) :
+    undefined;
+
+    if (!opponent || opponent.games === 0) {
+      return <span>{matchup.opponent}</span>;
+    }
+
+    return (
+      <span
+        className={`font-medium ${DIFFICULTY_CLASSES[opponent.difficulty]}`}
+        title={`${SCHEDULE_DIFFICULTY_LABELS[opponent.difficulty]} opponent: ${StrengthOfScheduleService.formatWinPercentage(opponent.win_percentage)} win%, ${opponent.points_for.toFixed(1)} PPG`}>
+
+        {matchup.opponent}
+      </span>);
+
+  };
+
+  const getPlayoffResultBadge = (season: FranchiseSeason) => {
+    const label = FranchiseHistoryService.formatPlayoffResult(season);
+    switch (season.playoff_result) {
+      case 'champion':
+        return (
+          <Badge className="bg-yellow-500 text-white hover:bg-yellow-600">
+            <Trophy className="w-3 h-3 mr-1" />
+            {label}
+          </Badge>);
+
+      case 'runner_up':
+        return <Badge className="bg-gray-400 text-white hover:bg-gray-500">{label}</Badge>;
+      case 'missed':
+        return <Badge variant="outline" className="text-muted-foreground">{label}</Badge>;
+      default:
+        return <Badge variant="secondary">{label}</Badge>;
+    }
+  };
+
   const fetchSeasonWaiverData = async () => {
     if (!teamRosterData || !currentSeasonConfig) return;
 
@@ -1174,6 +1341,7 @@ const TeamDetailPage: React.FC = () => {
         setHeaderStats({
           wins: 0,
           losses: 0,
+          ties: 0,
           pointsFor: 0,
           gamesPlayed: 0
         });
@@ -1191,14 +1359,16 @@ const TeamDetailPage: React.FC = () => {
 
       let wins = 0;
       let losses = 0;
+      let ties = 0;
       let pointsFor = 0;
 
       if (teamRecordResult.data && teamRecordResult.data.length > 0) {
         const record = teamRecordResult.data[0];
         wins = record.wins;
         losses = record.losses;
+        ties = record.ties || 0;
         pointsFor = record.points_for;
-        console.log(`Found team record: ${wins}-${losses}, Points For: ${pointsFor}`);
+        console.log(`Found team record: ${StandingsService.formatRecord(wins, losses, ties)}, Points For: ${pointsFor}`);
       } else {
         console.log('No team record found, using default values');
       }
@@ -1275,6 +1445,7 @@ const TeamDetailPage: React.FC = () => {
       setHeaderStats({
         wins,
         losses,
+        ties,
         pointsFor,
         gamesPlayed
       });
@@ -1287,6 +1458,7 @@ const TeamDetailPage: React.FC = () => {
       setHeaderStats({
         wins: 0,
         losses: 0,
+        ties: 0,
         pointsFor: 0,
         gamesPlayed: 0
       });
@@ -1373,15 +1545,19 @@ const TeamDetailPage: React.FC = () => {
   const totalPointsAgainst = teamRecord?.points_against ?? SleeperApiService.formatPoints(roster.settings.fpts_against, roster.settings.fpts_against_decimal);
   const gamesPlayed = teamRecord ? (teamRecord.wins + teamRecord.losses + (teamRecord.ties || 0)) : (roster.settings.wins + roster.settings.losses + roster.settings.ties);
   const avgPointsPerGame = SleeperApiService.calculatePointsPerGame(totalPoints, gamesPlayed);
-  const winPercentage = gamesPlayed > 0 ? ((teamRecord?.wins ?? roster.settings.wins) / gamesPlayed * 100) : 0;
+  const winPercentage = gamesPlayed > 0 ?
+  ((teamRecord?.wins ?? roster.settings.wins) + (teamRecord ? teamRecord.ties || 0 : roster.settings.ties) * 0.5) / gamesPlayed * 100 :
+  0;
 
   // Header statistics - use database data when available, fallback to Sleeper data
   const headerWins = headerStats?.wins ?? roster.settings.wins;
   const headerLosses = headerStats?.losses ?? roster.settings.losses;
+  const headerTies = headerStats?.ties ?? roster.settings.ties;
   const headerPointsFor = headerStats?.pointsFor ?? SleeperApiService.formatPoints(roster.settings.fpts, roster.settings.fpts_decimal);
   const headerGamesPlayed = headerStats?.gamesPlayed ?? (roster.settings.wins + roster.settings.losses + roster.settings.ties);
   const headerAvgPointsPerGame = headerGamesPlayed > 0 ? (headerPointsFor / headerGamesPlayed) : 0;
-  const headerWinPercentage = headerGamesPlayed > 0 ? (headerWins / headerGamesPlayed * 100) : 0;
+  // Ties count as half a win
+  const headerWinPercentage = headerGamesPlayed > 0 ? ((headerWins + headerTies * 0.5) / headerGamesPlayed * 100) : 0;
 
   return (
     <div className="space-y-6">
@@ -1418,7 +1594,9 @@ const TeamDetailPage: React.FC = () => {
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
           <div>
             <div className="text-2xl font-bold">
-              {headerStats ? `${headerWins}-${headerLosses}` : `${roster.settings.wins}-${roster.settings.losses}`}
+              {headerStats ?
+              StandingsService.formatRecord(headerWins, headerLosses, headerTies) :
+              StandingsService.formatRecord(roster.settings.wins, roster.settings.losses, roster.settings.ties)}
             </div>
             <div className="text-sm text-muted-foreground">Record</div>
           </div>
@@ -1445,11 +1623,12 @@ const TeamDetailPage: React.FC = () => {
 
       {/* Team Details Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="roster">Roster</TabsTrigger>
           <TabsTrigger value="performance">Performance</TabsTrigger>
           <TabsTrigger value="transactions">Transactions</TabsTrigger>
           <TabsTrigger value="schedule">Schedule</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
         </TabsList>
 
         {/* Roster Tab */}
@@ -1734,6 +1913,59 @@ const TeamDetailPage: React.FC = () => {
               </CardContent>
             </Card>
           </div>
+
+          {allPlayRecord &&
+          <>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Star className="h-5 w-5" />
+                    <span>All-Play & Luck</span>
+                  </CardTitle>
+                  <CardDescription>
+                    Record if this team had played every other team each week
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div>
+                      <p className="text-sm text-muted-foreground">League All-Play</p>
+                      <p className="text-2xl font-bold">{AllPlayService.formatRecord(allPlayRecord.league)}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Conference All-Play</p>
+                      <p className="text-2xl font-bold">{AllPlayService.formatRecord(allPlayRecord.conference)}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Expected Wins</p>
+                      <p className="text-2xl font-bold">{allPlayRecord.expected_wins.toFixed(1)}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-muted-foreground">Luck</p>
+                      <p className={`text-2xl font-bold ${allPlayRecord.luck >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {allPlayRecord.luck >= 0 ? '+' : ''}{allPlayRecord.luck.toFixed(1)}
+                      </p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* The chart needs at least two weeks to draw a line */}
+              {allPlayRecord.weeks.length > 1 &&
+            <SimpleLineChart
+              title="Actual vs Expected Wins"
+              data={allPlayRecord.weeks.map((week, index) => ({
+                week: week.week,
+                team1: allPlayRecord.weeks.slice(0, index + 1).reduce((sum, w) => sum + w.actual_wins, 0),
+                team2: Number(allPlayRecord.weeks.slice(0, index + 1).reduce((sum, w) => sum + w.expected_wins, 0).toFixed(2))
+              }))}
+              team1Name="Actual Wins"
+              team2Name="Expected Wins"
+              height={200} />
+
+            }
+            </>
+          }
         </TabsContent>
 
         {/* Transactions Tab */}
@@ -1905,6 +2137,41 @@ const TeamDetailPage: React.FC = () => {
                         <div className="text-sm text-muted-foreground">Rank</div>
                       </div>
                     </div>
+                    {projectionResults &&
+                    <div className="text-sm text-muted-foreground text-center mt-4 pt-4 border-t">
+                        Beat projection in <span className="font-semibold text-foreground">{projectionResults.beat}</span> of {projectionResults.weeks} weeks,
+                        averaging{' '}
+                        <span className={projectionResults.average_difference >= 0 ? 'text-green-600' : 'text-red-600'}>
+                          {projectionResults.average_difference >= 0 ? '+' : ''}{projectionResults.average_difference.toFixed(1)}
+                        </span>{' '}
+                        points against the pre-game projection
+                      </div>
+                    }
+                    {strengthOfSchedule?.teams.has(teamRosterData.teamData.id) &&
+                    <div className="grid grid-cols-2 gap-4 text-center mt-4 pt-4 border-t">
+                        {(['played', 'remaining'] as const).map((key) => {
+                      const split = strengthOfSchedule.teams.get(teamRosterData.teamData.id)![key];
+                      return (
+                        <div key={key}>
+                              <div className="text-lg font-bold font-mono">
+                                {split.games > 0 ? StrengthOfScheduleService.formatWinPercentage(split.opponent_win_percentage) : '-'}
+                                {split.rank !== null &&
+                            <span className="text-xs text-muted-foreground ml-1">#{split.rank} of {strengthOfSchedule.teams.size}</span>
+                            }
+                              </div>
+                              <div className="text-sm text-muted-foreground">
+                                {key === 'played' ? 'Strength of Schedule' : 'Remaining SOS'}
+                              </div>
+                              {split.games > 0 &&
+                          <div className="text-xs text-muted-foreground">
+                                  Opponents average {split.opponent_points_for.toFixed(1)} PPG
+                                </div>
+                          }
+                            </div>);
+
+                    })}
+                      </div>
+                    }
                   </CardContent>
                 </Card>
 
@@ -1913,7 +2180,10 @@ const TeamDetailPage: React.FC = () => {
                   <CardHeader>
                     <CardTitle>Matchup Results</CardTitle>
                     <CardDescription>
-                      Week-by-week schedule and results
+                      Week-by-week schedule and results. Remaining opponents are colored by difficulty:{' '}
+                      <span className={DIFFICULTY_CLASSES.hard}>{SCHEDULE_DIFFICULTY_LABELS.hard}</span>,{' '}
+                      <span className={DIFFICULTY_CLASSES.average}>{SCHEDULE_DIFFICULTY_LABELS.average}</span>,{' '}
+                      <span className={DIFFICULTY_CLASSES.easy}>{SCHEDULE_DIFFICULTY_LABELS.easy}</span>
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -1926,6 +2196,7 @@ const TeamDetailPage: React.FC = () => {
                             <TableHead className="w-16">@/vs</TableHead>
                             <TableHead className="w-20">Result</TableHead>
                             <TableHead className="w-24">Score</TableHead>
+                            <TableHead className="w-24 hidden sm:table-cell">Projected</TableHead>
                             <TableHead className="w-16">Status</TableHead>
                           </TableRow>
                         </TableHeader>
@@ -1952,7 +2223,7 @@ const TeamDetailPage: React.FC = () => {
                               </TableCell>
                               <TableCell>
                                 <div className="flex items-center space-x-2">
-                                  <span>{matchup.opponent}</span>
+                                  {renderOpponentName(matchup)}
                                   {matchup.isOverridden && (
                                     <Badge
                                       variant="outline"
@@ -1965,6 +2236,16 @@ const TeamDetailPage: React.FC = () => {
                                       {matchup.overrideReason === 'Interconference' ? 'Interconference' : 'Override'}
                                     </Badge>
                                   )}
+                                  {matchup.opponentId !== null &&
+                                  <Link
+                                    to={`/rivalry/${teamId}/${matchup.opponentId}`}
+                                    onClick={(e) => e.stopPropagation()}
+                                    className="text-muted-foreground hover:text-primary"
+                                    title={`All-time rivalry with ${matchup.opponent}`}>
+
+                                      <Swords className="h-3.5 w-3.5" />
+                                    </Link>
+                                  }
                                 </div>
                               </TableCell>
                               <TableCell className="text-center">
@@ -1998,6 +2279,9 @@ const TeamDetailPage: React.FC = () => {
                                   <span className="text-muted-foreground">-</span>
                                 )}
                               </TableCell>
+                              <TableCell className="hidden sm:table-cell">
+                                {renderProjection(matchup)}
+                              </TableCell>
                               <TableCell>
                                 <Badge variant="outline" className="text-xs">
                                   {matchup.matchupStatus}
@@ -2013,6 +2297,167 @@ const TeamDetailPage: React.FC = () => {
               </div>
           }
         </TabsContent>
+
+        {/* Franchise History Tab */}
+        <TabsContent value="history" className="space-y-4">
+          {franchiseHistoryLoading || !franchiseHistory ?
+          <Card>
+              <CardContent className="flex items-center justify-center min-h-32">
+                <div className="flex items-center space-x-2">
+                  <Loader2 className="h-6 w-6 animate-spin" />
+                  <span>Loading franchise history...</span>
+                </div>
+              </CardContent>
+            </Card> :
+          franchiseHistory.seasons.length === 0 ?
+          <Card>
+                <CardContent className="flex items-center justify-center min-h-32">
+                  <div className="text-center space-y-2">
+                    <History className="h-12 w-12 text-muted-foreground mx-auto" />
+                    <h3 className="text-lg font-semibold">No History Found</h3>
+                    <p className="text-muted-foreground">
+                      This franchise has not played a season yet.
+                    </p>
+                  </div>
+                </CardContent>
+              </Card> :
+
+          <>
+                {/* All-Time Totals */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2">
+                      <History className="h-5 w-5" />
+                      <span>All-Time Totals</span>
+                    </CardTitle>
+                    <CardDescription>
+                      {franchiseHistory.totals.seasons} season{franchiseHistory.totals.seasons === 1 ? '' : 's'} as {teamRosterData.teamData.team_name}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                      <div>
+                        <div className="text-2xl font-bold">
+                          {StandingsService.formatRecord(franchiseHistory.totals.wins, franchiseHistory.totals.losses, franchiseHistory.totals.ties)}
+                        </div>
+                        <div className="text-sm text-muted-foreground">Record</div>
+                      </div>
+                      <div>
+                        <div className="text-2xl font-bold">{(franchiseHistory.totals.win_percentage * 100).toFixed(1)}%</div>
+                        <div className="text-sm text-muted-foreground">Win %</div>
+                      </div>
+                      <div>
+                        <div className="text-2xl font-bold">{franchiseHistory.totals.points_for.toFixed(1)}</div>
+                        <div className="text-sm text-muted-foreground">Points For</div>
+                      </div>
+                      <div>
+                        <div className="text-2xl font-bold">{franchiseHistory.totals.points_against.toFixed(1)}</div>
+                        <div className="text-sm text-muted-foreground">Points Against</div>
+                      </div>
+                      <div>
+                        <div className="text-2xl font-bold">{franchiseHistory.totals.playoff_appearances}</div>
+                        <div className="text-sm text-muted-foreground">Playoff Appearances</div>
+                      </div>
+                      <div>
+                        <div className="text-2xl font-bold">{franchiseHistory.totals.championships}</div>
+                        <div className="text-sm text-muted-foreground">Championships</div>
+                      </div>
+                      <div>
+                        <div className="text-2xl font-bold">{franchiseHistory.totals.conference_titles}</div>
+                        <div className="text-sm text-muted-foreground">Conference Titles</div>
+                      </div>
+                      <div>
+                        <div className="text-2xl font-bold">
+                          {franchiseHistory.totals.best_finish !== null ? `#${franchiseHistory.totals.best_finish}` : '-'}
+                        </div>
+                        <div className="text-sm text-muted-foreground">Best Finish</div>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* Season by Season */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Season by Season</CardTitle>
+                    <CardDescription>Final regular season record, standings finish and playoff result</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="rounded-md border">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Season</TableHead>
+                            <TableHead className="hidden md:table-cell">Conference</TableHead>
+                            <TableHead className="text-center">Record</TableHead>
+                            <TableHead className="text-center">Rank</TableHead>
+                            <TableHead>Playoffs</TableHead>
+                            <TableHead className="text-center hidden sm:table-cell">PF</TableHead>
+                            <TableHead className="text-center hidden sm:table-cell">PA</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {[...franchiseHistory.seasons].reverse().map((season) =>
+                      <TableRow key={season.season_id}>
+                              <TableCell className="font-medium">{season.season_year}</TableCell>
+                              <TableCell className="hidden md:table-cell">
+                                <ConferenceBadge conferenceName={season.conference_name} variant="outline" size="sm" />
+                              </TableCell>
+                              <TableCell className="text-center">
+                                <div className="font-mono">{StandingsService.formatRecord(season.wins, season.losses, season.ties)}</div>
+                                <div className="text-[10px] text-muted-foreground">{(season.win_percentage * 100).toFixed(1)}%</div>
+                              </TableCell>
+                              <TableCell className="text-center">
+                                {season.overall_rank !== null ?
+                          <>
+                                    <div className="font-semibold">#{season.overall_rank}</div>
+                                    <div className="text-[10px] text-muted-foreground">Conf #{season.conference_rank}</div>
+                                  </> :
+                          '-'
+                          }
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex items-center flex-wrap gap-1">
+                                  {getPlayoffResultBadge(season)}
+                                  {season.playoff_seed !== null &&
+                            <span className="text-xs text-muted-foreground">#{season.playoff_seed} seed</span>
+                            }
+                                  {season.is_conference_champion &&
+                            <Badge variant="outline" className="text-xs">Conf. Champ</Badge>
+                            }
+                                </div>
+                              </TableCell>
+                              <TableCell className="text-center font-mono hidden sm:table-cell">{season.points_for.toFixed(1)}</TableCell>
+                              <TableCell className="text-center font-mono hidden sm:table-cell">{season.points_against.toFixed(1)}</TableCell>
+                            </TableRow>
+                      )}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* The chart needs at least two seasons to draw a line */}
+                {franchiseHistory.seasons.length > 1 &&
+            <SimpleLineChart
+              title="Career Win %"
+              data={franchiseHistory.seasons.map((season, index) => {
+                const career = FranchiseHistoryService.calculateTotals(franchiseHistory.seasons.slice(0, index + 1));
+                return {
+                  week: Number(season.season_year),
+                  team1: Number((career.win_percentage * 100).toFixed(1)),
+                  team2: Number((season.win_percentage * 100).toFixed(1))
+                };
+              })}
+              team1Name="Career Win %"
+              team2Name="Season Win %"
+              formatXLabel={(year) => `${year}`}
+              height={200} />
+
+            }
+              </>
+          }
+        </TabsContent>
       </Tabs>
     </div>);
 
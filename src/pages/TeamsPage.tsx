@@ -9,6 +9,7 @@ import { useApp } from '@/contexts/AppContext';
 import { Users, Search, ExternalLink, Trophy, TrendingUp, RefreshCw, AlertCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { DatabaseService } from '@/services/databaseService';
+import { StandingsService } from '@/services/standingsService';
 import { ConferenceBadge } from '@/components/ui/conference-badge';
 
 // Interface for team data from database tables
@@ -147,7 +148,7 @@ const TeamsPage: React.FC = () => {
             record: {
               wins: teamRecord.wins,
               losses: teamRecord.losses,
-              ties: 0 // Ties not currently tracked in team_records
+              ties: teamRecord.ties || 0
             },
             pointsFor: teamRecord.points_for,
             pointsAgainst: teamRecord.points_against,
@@ -212,8 +213,8 @@ const TeamsPage: React.FC = () => {
     return searchMatch;
   });
 
-  const getRecordBadgeVariant = (wins: number, losses: number) => {
-    const winPercentage = wins / (wins + losses);
+  const getRecordBadgeVariant = (wins: number, losses: number, ties: number = 0) => {
+    const winPercentage = StandingsService.calculateWinPercentage(wins, losses, ties);
     if (winPercentage >= 0.7) return 'default';
     if (winPercentage >= 0.5) return 'secondary';
     return 'destructive';
@@ -328,7 +329,7 @@ const TeamsPage: React.FC = () => {
               <div className="grid grid-cols-2 gap-3">
                 <div>
                   <p className="text-xs text-muted-foreground">Record</p>
-                  <Badge variant={getRecordBadgeVariant(team.record.wins, team.record.losses)}>
+                  <Badge variant={getRecordBadgeVariant(team.record.wins, team.record.losses, team.record.ties)}>
                     {team.record.wins}-{team.record.losses}
                     {team.record.ties > 0 && `-${team.record.ties}`}
                   </Badge>
@@ -0,0 +1,179 @@
+import { PlayoffOddsService, ScheduledGame } from '@/services/playoffOddsService';
+
+export interface AllPlayTeam {
+  team_id: number;
+  conference_id: number;
+}
+
+export interface AllPlayRecordCounts {
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+export interface AllPlayWeek {
+  week: number;
+  score: number;
+  league: AllPlayRecordCounts;
+  conference: AllPlayRecordCounts;
+  expected_wins: number; // Share of the league this score would have beaten (ties count half)
+  actual_wins: number; // 1 for a win, 0.5 for a tie, 0 for a loss
+}
+
+export interface AllPlayRecord {
+  team_id: number;
+  league: AllPlayRecordCounts;
+  conference: AllPlayRecordCounts;
+  league_percentage: number;
+  conference_percentage: number;
+  expected_wins: number;
+  actual_wins: number;
+  luck: number; // Actual wins minus expected wins, positive means a lucky schedule
+  weeks: AllPlayWeek[];
+}
+
+/**
+ * All-play records: each week every team is compared against every other team that
+ * played that week, in the whole league and within its own conference. The all-play
+ * win rate per week sums to expected wins, and luck is how far the real record is
+ * ahead of (or behind) that expectation.
+ */
+export class AllPlayService {
+
+  /**
+   * Calculate all-play records for every team from completed regular season games
+   */
+  static calculateAllPlay(teams: AllPlayTeam[], games: ScheduledGame[]): Map<number, AllPlayRecord> {
+    const conferenceByTeam = new Map(teams.map((team) => [team.team_id, team.conference_id]));
+    const scoresByWeek = new Map<number, Map<number, number>>();
+    const resultsByWeek = new Map<number, Map<number, number>>();
+
+    games.filter((game) => game.completed).forEach((game) => {
+      if (!scoresByWeek.has(game.week)) {
+        scoresByWeek.set(game.week, new Map());
+        resultsByWeek.set(game.week, new Map());
+      }
+      scoresByWeek.get(game.week)!.set(game.team1_id, game.team1_score);
+      scoresByWeek.get(game.week)!.set(game.team2_id, game.team2_score);
+
+      const team1Result = this.gameResult(game);
+      resultsByWeek.get(game.week)!.set(game.team1_id, team1Result);
+      resultsByWeek.get(game.week)!.set(game.team2_id, 1 - team1Result);
+    });
+
+    const weeks = [...scoresByWeek.keys()].sort((a, b) => a - b);
+    const records = new Map<number, AllPlayRecord>();
+
+    teams.forEach((team) => {
+      const teamWeeks: AllPlayWeek[] = [];
+
+      weeks.forEach((week) => {
+        const scores = scoresByWeek.get(week)!;
+        if (!scores.has(team.team_id)) return;
+
+        const score = scores.get(team.team_id)!;
+        const league = this.emptyCounts();
+        const conference = this.emptyCounts();
+
+        scores.forEach((opponentScore, opponentId) => {
+          if (opponentId === team.team_id) return;
+          const isConferenceOpponent = conferenceByTeam.get(opponentId) === team.conference_id;
+          const key: keyof AllPlayRecordCounts = score > opponentScore ? 'wins' : score < opponentScore ? 'losses' : 'ties';
+          league[key]++;
+          if (isConferenceOpponent) {
+            conference[key]++;
+          }
+        });
+
+        teamWeeks.push({
+          week,
+          score,
+          league,
+          conference,
+          expected_wins: this.percentage(league),
+          actual_wins: resultsByWeek.get(week)!.get(team.team_id)!
+        });
+      });
+
+      const league = this.sumCounts(teamWeeks.map((w) => w.league));
+      const conference = this.sumCounts(teamWeeks.map((w) => w.conference));
+      const expectedWins = teamWeeks.reduce((sum, w) => sum + w.expected_wins, 0);
+      // Head-to-head results only: team_records also count median wins, which all-play has no share of
+      const actualWins = teamWeeks.reduce((sum, w) => sum + w.actual_wins, 0);
+
+      records.set(team.team_id, {
+        team_id: team.team_id,
+        league,
+        conference,
+        league_percentage: this.percentage(league),
+        conference_percentage: this.percentage(conference),
+        expected_wins: expectedWins,
+        actual_wins: actualWins,
+        luck: actualWins - expectedWins,
+        weeks: teamWeeks
+      });
+    });
+
+    return records;
+  }
+
+  /**
+   * Load the season schedule and calculate all-play records for the given teams,
+   * optionally only through a given week
+   */
+  static async getSeasonAllPlay(
+    seasonId: number,
+    teams: AllPlayTeam[],
+    playoffStartWeek: number = 14,
+    throughWeek?: number)
+  : Promise<Map<number, AllPlayRecord>> {
+    const games = await PlayoffOddsService.getSeasonSchedule(seasonId);
+    // The conference championship week is not part of the regular season record
+    const regularSeason = games.filter((game) =>
+    game.week < playoffStartWeek - 1 && (throughWeek === undefined || game.week <= throughWeek)
+    );
+    return this.calculateAllPlay(teams, regularSeason);
+  }
+
+  /**
+   * Format an all-play record as W-L or W-L-T
+   */
+  static formatRecord(counts: AllPlayRecordCounts): string {
+    return counts.ties > 0 ?
+    `${counts.wins}-${counts.losses}-${counts.ties}` :
+    `${counts.wins}-${counts.losses}`;
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  // Result for team1: 1 for a win, 0.5 for a tie, 0 for a loss
+  private static gameResult(game: ScheduledGame): number {
+    if (game.winning_team_id) {
+      return game.winning_team_id === game.team1_id ? 1 : 0;
+    }
+    if (game.team1_score > game.team2_score) return 1;
+    if (game.team1_score < game.team2_score) return 0;
+    return 0.5;
+  }
+
+  private static emptyCounts(): AllPlayRecordCounts {
+    return { wins: 0, losses: 0, ties: 0 };
+  }
+
+  private static sumCounts(counts: AllPlayRecordCounts[]): AllPlayRecordCounts {
+    return counts.reduce((total, c) => ({
+      wins: total.wins + c.wins,
+      losses: total.losses + c.losses,
+      ties: total.ties + c.ties
+    }), this.emptyCounts());
+  }
+
+  private static percentage(counts: AllPlayRecordCounts): number {
+    const games = counts.wins + counts.losses + counts.ties;
+    return games > 0 ? (counts.wins + counts.ties * 0.5) / games : 0;
+  }
+}
+
+export default AllPlayService;
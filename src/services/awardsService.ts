@@ -0,0 +1,301 @@
+import { DatabaseService } from '@/services/databaseService';
+import SleeperApiService from '@/services/sleeperApi';
+import { StandingsService } from '@/services/standingsService';
+import { PlayoffClinchService } from '@/services/playoffClinchService';
+import { DbMatchup, DbWeeklyAward, WeeklyAwardType } from '@/types/database';
+
+export interface StarterScore {
+  team_id: number;
+  player_id: string;
+  points: number;
+}
+
+export const WEEKLY_AWARD_TYPES: WeeklyAwardType[] = ['high_score', 'low_score', 'blowout', 'nail_biter', 'top_performer'];
+
+export const WEEKLY_AWARD_LABELS: Record<WeeklyAwardType, string> = {
+  high_score: 'High Score',
+  low_score: 'Low Score',
+  blowout: 'Biggest Blowout',
+  nail_biter: 'Closest Game',
+  top_performer: 'Top Performer'
+};
+
+/**
+ * Weekly awards. Once every regular season matchup in a week is complete the weekly sync
+ * stores the week's high score, low score, biggest blowout, closest game and best single
+ * starter in `weekly_awards`; pages only read them. The season high score award is the
+ * best of the weekly high scores.
+ */
+export class AwardsService {
+
+  /**
+   * Awards for one completed week. Byes are ignored; the top performer is only included
+   * when starter scores are given.
+   */
+  static calculateWeekAwards(
+    seasonId: number,
+    week: number,
+    matchups: DbMatchup[],
+    starterScores: StarterScore[] = []
+  ): Partial<DbWeeklyAward>[] {
+    const games = matchups.
+    filter((m) => !m.is_bye && m.team2_id).
+    map((m) => {
+      const team1Score = Number(m.team1_score) || 0;
+      const team2Score = Number(m.team2_score) || 0;
+      const winnerId = StandingsService.getMatchupWinner(m.team1_id, m.team2_id!, team1Score, team2Score, m.winning_team_id);
+      const team1Won = winnerId !== m.team2_id;
+
+      return {
+        matchup_id: m.id,
+        winner_id: team1Won ? m.team1_id : m.team2_id!,
+        loser_id: team1Won ? m.team2_id! : m.team1_id,
+        winner_score: team1Won ? team1Score : team2Score,
+        margin: Math.abs(team1Score - team2Score),
+        scores: [
+        { team_id: m.team1_id, opponent_id: m.team2_id!, points: team1Score },
+        { team_id: m.team2_id!, opponent_id: m.team1_id, points: team2Score }]
+
+      };
+    });
+
+    if (games.length === 0) {
+      return [];
+    }
+
+    const scores = games.flatMap((game) => game.scores.map((score) => ({ ...score, matchup_id: game.matchup_id })));
+    const highest = scores.reduce((best, score) => score.points > best.points ? score : best);
+    const lowest = scores.reduce((worst, score) => score.points < worst.points ? score : worst);
+    const blowout = games.reduce((best, game) => game.margin > best.margin ? game : best);
+    const closest = games.reduce((best, game) => game.margin < best.margin ? game : best);
+
+    const awards: Partial<DbWeeklyAward>[] = [
+    { award_type: 'high_score', ...highest },
+    { award_type: 'low_score', ...lowest },
+    { award_type: 'blowout', team_id: blowout.winner_id, opponent_id: blowout.loser_id, matchup_id: blowout.matchup_id, points: blowout.winner_score, margin: blowout.margin },
+    { award_type: 'nail_biter', team_id: closest.winner_id, opponent_id: closest.loser_id, matchup_id: closest.matchup_id, points: closest.winner_score, margin: closest.margin }];
+
+
+    if (starterScores.length > 0) {
+      const top = starterScores.reduce((best, score) => score.points > best.points ? score : best);
+      const game = games.find((g) => g.winner_id === top.team_id || g.loser_id === top.team_id);
+      awards.push({
+        award_type: 'top_performer',
+        team_id: top.team_id,
+        opponent_id: game ? game.winner_id === top.team_id ? game.loser_id : game.winner_id : null,
+        matchup_id: game?.matchup_id ?? null,
+        player_id: top.player_id,
+        points: top.points
+      });
+    }
+
+    return awards.map((award) => ({ ...award, season_id: seasonId, week }));
+  }
+
+  /**
+   * Record awards for every completed regular season week that is missing any of them,
+   * then return all of the season's awards. Run by the weekly sync; an award that could not
+   * be calculated (the top performer when starters fail to load) is retried on the next sync.
+   */
+  static async updateSeasonAwards(seasonId: number): Promise<DbWeeklyAward[]> {
+    try {
+      const { data: conferences } = await DatabaseService.getConferences({
+        filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+      });
+
+      const conferenceIds = conferences.map((c) => c.id);
+      if (conferenceIds.length === 0) {
+        return [];
+      }
+
+      // Awards only cover the regular season
+      const [matchupsResult, stored, regularSeasonEnd] = await Promise.all([
+      DatabaseService.getMatchups({
+        filters: [
+        { column: 'conference_id', operator: 'in', value: conferenceIds },
+        { column: 'is_playoff', operator: 'eq', value: false }]
+
+      }),
+      this.getSeasonAwards(seasonId),
+      PlayoffClinchService.getRegularSeasonEnd(seasonId)]
+      );
+
+      if (matchupsResult.error) {
+        throw new Error(`Failed to fetch matchups: ${matchupsResult.error.message || matchupsResult.error}`);
+      }
+
+      const matchupsByWeek = new Map<number, DbMatchup[]>();
+      matchupsResult.data.forEach((m) => {
+        const week = parseInt(m.week);
+        if (week >= 1 && week <= regularSeasonEnd) {
+          matchupsByWeek.set(week, [...(matchupsByWeek.get(week) || []), m]);
+        }
+      });
+
+      let changed = false;
+      for (const [week, matchups] of matchupsByWeek) {
+        const storedTypes = stored.filter((award) => award.week === week).map((award) => award.award_type);
+        const isComplete = matchups.every((m) => m.matchup_status === 'complete' || m.winning_team_id);
+        if (!isComplete || WEEKLY_AWARD_TYPES.every((type) => storedTypes.includes(type))) continue;
+
+        const starterScores = await this.getStarterScores(conferences, week);
+        const awards = this.calculateWeekAwards(seasonId, week, matchups, starterScores);
+        await this.storeAwards(awards, stored);
+        changed = true;
+      }
+
+      return changed ? await this.getSeasonAwards(seasonId) : stored;
+    } catch (error) {
+      console.error('Error updating weekly awards:', error);
+      return this.getSeasonAwards(seasonId);
+    }
+  }
+
+  /**
+   * Recompute and store one week's awards after its scores have changed. Awards that can't
+   * be recomputed (the top performer when starters fail to load) are removed, so the next
+   * sync fills them in instead of keeping a stale winner.
+   */
+  static async recalculateWeekAwards(seasonId: number, week: number): Promise<void> {
+    const { data: conferences } = await DatabaseService.getConferences({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+    });
+
+    const conferenceIds = conferences.map((c) => c.id);
+    if (conferenceIds.length === 0) {
+      return;
+    }
+
+    const [matchupsResult, stored, starterScores] = await Promise.all([
+    DatabaseService.getMatchups({
+      filters: [
+      { column: 'conference_id', operator: 'in', value: conferenceIds },
+      { column: 'week', operator: 'eq', value: week.toString() },
+      { column: 'is_playoff', operator: 'eq', value: false }]
+
+    }),
+    this.getSeasonAwards(seasonId),
+    this.getStarterScores(conferences, week)]
+    );
+
+    if (matchupsResult.error) {
+      throw new Error(`Failed to fetch matchups: ${matchupsResult.error.message || matchupsResult.error}`);
+    }
+
+    const weekAwards = stored.filter((award) => award.week === week);
+    const awards = this.calculateWeekAwards(seasonId, week, matchupsResult.data, starterScores);
+    await this.storeAwards(awards, weekAwards);
+
+    for (const award of weekAwards.filter((row) => !awards.some((a) => a.award_type === row.award_type))) {
+      const { error } = await DatabaseService.deleteWeeklyAward(award.id);
+      if (error) {
+        console.error(`Error removing ${award.award_type} award for week ${week}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Stored awards for a season, by week
+   */
+  static async getSeasonAwards(seasonId: number): Promise<DbWeeklyAward[]> {
+    const { data, error } = await DatabaseService.getWeeklyAwards({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }],
+      orderBy: { column: 'week', ascending: true },
+      limit: 1000
+    });
+
+    if (error) {
+      console.error('Error fetching weekly awards:', error);
+      return [];
+    }
+
+    return data;
+  }
+
+  /**
+   * The season high score award: the best weekly high score so far, earliest week on a tie
+   */
+  static getSeasonHighScore(awards: DbWeeklyAward[]): DbWeeklyAward | null {
+    return awards.
+    filter((award) => award.award_type === 'high_score').
+    reduce<DbWeeklyAward | null>((best, award) =>
+    !best || Number(award.points) > Number(best.points) ? award : best,
+    null);
+  }
+
+  /**
+   * Team and player names for a list of awards, keyed by team id and Sleeper player id
+   */
+  static async getAwardNames(awards: DbWeeklyAward[]): Promise<{teams: Map<number, string>;players: Map<string, string>;}> {
+    const teamIds = [...new Set(awards.flatMap((award) => [award.team_id, award.opponent_id]).filter((id): id is number => !!id))];
+    const playerIds = [...new Set(awards.map((award) => award.player_id).filter((id): id is string => !!id))];
+
+    const teams = new Map<number, string>();
+    const players = new Map<string, string>();
+
+    if (teamIds.length > 0) {
+      const { data } = await DatabaseService.getTeams({ filters: [{ column: 'id', operator: 'in', value: teamIds }] });
+      data.forEach((team) => teams.set(team.id, team.team_name));
+    }
+
+    if (playerIds.length > 0) {
+      const { data } = await DatabaseService.getPlayers({ filters: [{ column: 'sleeper_id', operator: 'in', value: playerIds }] });
+      data.forEach((player) => players.set(player.sleeper_id, player.player_name));
+    }
+
+    return { teams, players };
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  // Every starter's points for the week, or none when any conference fails to load
+  private static async getStarterScores(
+    conferences: {id: number;league_id: string;conference_name: string;}[],
+    week: number
+  ): Promise<StarterScore[]> {
+    const { data: junctions } = await DatabaseService.getTeamConferenceJunctions({
+      filters: [{ column: 'conference_id', operator: 'in', value: conferences.map((c) => c.id) }]
+    });
+
+    const scores: StarterScore[] = [];
+    for (const conference of conferences) {
+      try {
+        const sleeperMatchups = await SleeperApiService.fetchMatchups(conference.league_id, week);
+        junctions.
+        filter((j) => j.conference_id === conference.id).
+        forEach((junction) => {
+          const sleeperMatchup = sleeperMatchups.find((m) => m.roster_id === junction.roster_id);
+          (sleeperMatchup?.starters || []).forEach((playerId, index) => {
+            if (playerId && playerId !== '0') {
+              scores.push({ team_id: junction.team_id, player_id: playerId, points: sleeperMatchup!.starters_points?.[index] || 0 });
+            }
+          });
+        });
+      } catch (error) {
+        // A top performer from some conferences only could be the wrong player, so leave it
+        // out and let the next sync try again
+        console.error(`Error fetching Sleeper matchups for ${conference.conference_name}:`, error);
+        return [];
+      }
+    }
+
+    return scores;
+  }
+
+  private static async storeAwards(awards: Partial<DbWeeklyAward>[], stored: DbWeeklyAward[]): Promise<void> {
+    for (const award of awards) {
+      const existing = stored.find((row) => row.week === award.week && row.award_type === award.award_type);
+      const { error } = existing ?
+      await DatabaseService.updateWeeklyAward(existing.id, { ...award, updated_at: new Date().toISOString() }) :
+      await DatabaseService.createWeeklyAward(award);
+
+      if (error) {
+        console.error(`Error storing ${award.award_type} award for week ${award.week}:`, error);
+      }
+    }
+  }
+}
+
+export default AwardsService;
@@ -0,0 +1,221 @@
+import { DatabaseService } from '@/services/databaseService';
+import SleeperApiService, { SleeperLeague } from '@/services/sleeperApi';
+import {
+  ConferenceSettingDifference,
+  ConferenceSettingSection,
+  DbConference,
+  DbConferenceSettingsAcknowledgement } from
+'@/types/database';
+
+export interface ConferenceSettingsCheck {
+  season_id: number;
+  conferences: Pick<DbConference, 'id' | 'conference_name' | 'league_id'>[];
+  failed: string[]; // Conferences whose Sleeper league could not be loaded; blocks sync until they load
+  differences: ConferenceSettingDifference[];
+  fingerprint: string;
+  acknowledgement: DbConferenceSettingsAcknowledgement | null; // Covers exactly these differences
+  blocks_sync: boolean;
+}
+
+// League settings that track each league's own progress and always differ between leagues
+const IGNORED_LEAGUE_SETTINGS = ['leg', 'last_report', 'last_scored_leg', 'daily_waivers_last_ran'];
+
+export const LEAGUE_SETTING_LABELS: Record<string, string> = {
+  num_teams: 'Teams',
+  playoff_week_start: 'Playoff start week',
+  playoff_teams: 'Playoff teams',
+  playoff_type: 'Playoff type',
+  playoff_round_type: 'Playoff round length',
+  playoff_seed_type: 'Playoff seeding',
+  league_average_match: 'Median matchup',
+  trade_deadline: 'Trade deadline week',
+  trade_review_days: 'Trade review days',
+  waiver_type: 'Waiver type',
+  waiver_budget: 'FAAB budget',
+  waiver_clear_days: 'Waiver clear days',
+  waiver_day_of_week: 'Waiver day',
+  daily_waivers: 'Daily waivers',
+  reserve_slots: 'IR slots',
+  taxi_slots: 'Taxi slots',
+  bench_lock: 'Bench lock',
+  start_week: 'Start week',
+  draft_rounds: 'Draft rounds',
+  max_keepers: 'Keepers'
+};
+
+/**
+ * Each conference plays in its own Sleeper league, but the league treats them as one:
+ * the season stores a single copy of the scoring settings, and standings and playoffs
+ * assume every conference uses the same rules. The checker loads every conference's
+ * league and compares scoring, roster positions and league settings key by key. Sync is
+ * blocked while any league fails to load or any differences are unacknowledged; an
+ * acknowledgement covers exactly the differences it was given, so new drift blocks sync again.
+ */
+export class ConferenceSettingsService {
+  /**
+   * Compare the Sleeper settings of every conference in a season
+   */
+  static async checkSeason(seasonId: number): Promise<ConferenceSettingsCheck> {
+    const { data: conferences, error } = await DatabaseService.getConferences({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }],
+      orderBy: { column: 'id', ascending: true }
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch conferences: ${error.message || error}`);
+    }
+
+    const leagues = new Map<number, SleeperLeague>();
+    const failed: string[] = [];
+    for (const conference of conferences) {
+      try {
+        leagues.set(conference.id, await SleeperApiService.fetchLeague(conference.league_id));
+      } catch (fetchError) {
+        console.error(`Error fetching Sleeper league for ${conference.conference_name}:`, fetchError);
+        failed.push(conference.conference_name);
+      }
+    }
+
+    const differences = [
+    ...this.diffSection('scoring', leagues, (league) => league.scoring_settings || {}, 0),
+    ...this.diffSection('roster', leagues, (league) => this.countRosterSlots(league.roster_positions || []), 0),
+    ...this.diffSection('league', leagues, (league) => this.getLeagueSettings(league), null)];
+
+    const fingerprint = this.getFingerprint(differences);
+    const acknowledgement = differences.length > 0 ? await this.findAcknowledgement(seasonId, fingerprint) : null;
+
+    // Leagues that failed to load were not compared, so drift in them can't be ruled out
+
+    return {
+      season_id: seasonId,
+      conferences: conferences.map(({ id, conference_name, league_id }) => ({ id, conference_name, league_id })),
+      failed,
+      differences,
+      fingerprint,
+      acknowledgement,
+      blocks_sync: failed.length > 0 || differences.length > 0 && !acknowledgement
+    };
+  }
+
+  /**
+   * Record that an admin has reviewed the differences in a check and sync may go ahead
+   */
+  static async acknowledge(check: ConferenceSettingsCheck, acknowledgedBy: string): Promise<DbConferenceSettingsAcknowledgement> {
+    const { data, error } = await DatabaseService.createConferenceSettingsAcknowledgement({
+      season_id: check.season_id,
+      fingerprint: check.fingerprint,
+      differences: check.differences,
+      acknowledged_by: acknowledgedBy,
+      acknowledged_at: new Date().toISOString()
+    });
+
+    if (error || !data) {
+      throw new Error(`Failed to store acknowledgement: ${error?.message || error}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Throw when a season's conferences have unacknowledged settings differences. Called
+   * before any sync writes data for the season.
+   */
+  static async assertSyncAllowed(seasonId: number): Promise<void> {
+    const check = await this.checkSeason(seasonId);
+    if (check.failed.length > 0) {
+      throw new Error(
+        `Could not load the Sleeper league for ${check.failed.join(', ')}, so conference settings ` +
+        'could not be compared. Try again once every league loads.'
+      );
+    }
+    if (check.blocks_sync) {
+      throw new Error(
+        `Conference settings differ in ${check.differences.length} places. ` +
+        'Review and acknowledge them under Admin > Data Sync before syncing.'
+      );
+    }
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  // Keys whose value is not the same in every loaded league. Missing keys take the default:
+  // Sleeper leaves zero-point scoring keys and empty roster slots out.
+  private static diffSection(
+    section: ConferenceSettingSection,
+    leagues: Map<number, SleeperLeague>,
+    getValues: (league: SleeperLeague) => Record<string, number | string | null>,
+    missingValue: number | null
+  ): ConferenceSettingDifference[] {
+    if (leagues.size < 2) return [];
+
+    const valuesByConference = [...leagues.entries()].map(([conferenceId, league]) => ({
+      conference_id: conferenceId,
+      values: getValues(league)
+    }));
+    const keys = [...new Set(valuesByConference.flatMap((c) => Object.keys(c.values)))].sort();
+
+    return keys.
+    map((key) => ({
+      section,
+      key,
+      values: valuesByConference.map((c) => ({ conference_id: c.conference_id, value: c.values[key] ?? missingValue }))
+    })).
+    filter((difference) => new Set(difference.values.map((v) => JSON.stringify(v.value))).size > 1);
+  }
+
+  private static countRosterSlots(rosterPositions: string[]): Record<string, number> {
+    return rosterPositions.reduce<Record<string, number>>((counts, slot) => {
+      counts[slot] = (counts[slot] || 0) + 1;
+      return counts;
+    }, {});
+  }
+
+  private static getLeagueSettings(league: SleeperLeague): Record<string, number | string | null> {
+    const settings: Record<string, number | string | null> = { ...(league.settings as unknown as Record<string, number>) };
+    IGNORED_LEAGUE_SETTINGS.forEach((key) => delete settings[key]);
+    settings.total_rosters = league.total_rosters;
+    return settings;
+  }
+
+  // Stable hash of the differences, so an acknowledgement matches only the same drift
+  private static getFingerprint(differences: ConferenceSettingDifference[]): string {
+    const text = JSON.stringify(differences.map((d) => [
+    d.section,
+    d.key,
+    [...d.values].sort((a, b) => a.conference_id - b.conference_id).map((v) => [v.conference_id, v.value])]
+    ));
+
+    // 32-bit FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+  }
+
+  private static async findAcknowledgement(
+    seasonId: number,
+    fingerprint: string
+  ): Promise<DbConferenceSettingsAcknowledgement | null> {
+    const { data, error } = await DatabaseService.getConferenceSettingsAcknowledgements({
+      filters: [
+      { column: 'season_id', operator: 'eq', value: seasonId },
+      { column: 'fingerprint', operator: 'eq', value: fingerprint }],
+
+      orderBy: { column: 'acknowledged_at', ascending: false },
+      limit: 1
+    });
+
+    if (error) {
+      console.error('Error fetching settings acknowledgements:', error);
+      return null;
+    }
+
+    return data[0] || null;
+  }
+}
+
+export default ConferenceSettingsService;
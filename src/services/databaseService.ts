@@ -14,7 +14,16 @@ import {
   DbMatchupAdminOverride,
   DbTransaction,
   DbPlayoffBracket,
-  DbPlayoffFormat
+  DbPlayoffFormat,
+  DbPowerRanking,
+  DbMatchupWinProbability,
+  DbTeamProjection,
+  DbWeeklyAward,
+  DbMatchupOverrideEvent,
+  DbMatchupRecap,
+  DbMatchupBoxScore,
+  DbStatCorrection,
+  DbConferenceSettingsAcknowledgement
 } from '@/types/database';
 
 /**
@@ -92,6 +101,29 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Generic method to create several records in one insert, so either all of them are
+   * stored or none are
+   */
+  static async createRecords<T>(tableName: string, data: Partial<T>[]): Promise<{ data: T[]; error: unknown }> {
+    try {
+      const { data: result, error } = await supabase
+        .from(tableName)
+        .insert(data)
+        .select();
+
+      if (error) {
+        console.error(`Error creating records in ${tableName}:`, error);
+        return { data: [], error };
+      }
+
+      return { data: result || [], error: null };
+    } catch (error) {
+      console.error(`Error in createRecords for ${tableName}:`, error);
+      return { data: [], error };
+    }
+  }
+
   /**
    * Generic method to update a record in any table
    */
@@ -327,6 +359,10 @@ export class DatabaseService {
     return this.createRecord<DbMatchup>(TABLES.MATCHUPS, data);
   }
 
+  static async createMatchups(data: Partial<DbMatchup>[]): Promise<{ data: DbMatchup[]; error: unknown }> {
+    return this.createRecords<DbMatchup>(TABLES.MATCHUPS, data);
+  }
+
   static async updateMatchup(id: number, data: Partial<DbMatchup>): Promise<{ data: DbMatchup | null; error: any }> {
     return this.updateRecord<DbMatchup>(TABLES.MATCHUPS, id, data);
   }
@@ -526,6 +562,17 @@ export class DatabaseService {
     return this.deleteRecord(TABLES.MATCHUP_ADMIN_OVERRIDE, id);
   }
 
+  /**
+   * Matchup Override Events table operations (append-only)
+   */
+  static async getMatchupOverrideEvents(options?: DbQueryOptions): Promise<PaginatedResponse<DbMatchupOverrideEvent>> {
+    return this.queryTable<DbMatchupOverrideEvent>(TABLES.MATCHUP_OVERRIDE_EVENTS, options);
+  }
+
+  static async createMatchupOverrideEvent(data: Partial<DbMatchupOverrideEvent>): Promise<{ data: DbMatchupOverrideEvent | null; error: any }> {
+    return this.createRecord<DbMatchupOverrideEvent>(TABLES.MATCHUP_OVERRIDE_EVENTS, data);
+  }
+
   /**
    * Transactions table operations
    */
@@ -566,6 +613,126 @@ export class DatabaseService {
   static async updatePlayoffFormat(id: number, data: Partial<DbPlayoffFormat>): Promise<{ data: DbPlayoffFormat | null; error: any }> {
     return this.updateRecord<DbPlayoffFormat>(TABLES.PLAYOFF_FORMATS, id, data);
   }
+
+  /**
+   * Power Rankings table operations
+   */
+  static async getPowerRankings(options?: DbQueryOptions): Promise<PaginatedResponse<DbPowerRanking>> {
+    return this.queryTable<DbPowerRanking>(TABLES.POWER_RANKINGS, options);
+  }
+
+  static async createPowerRanking(data: Partial<DbPowerRanking>): Promise<{ data: DbPowerRanking | null; error: any }> {
+    return this.createRecord<DbPowerRanking>(TABLES.POWER_RANKINGS, data);
+  }
+
+  static async updatePowerRanking(id: number, data: Partial<DbPowerRanking>): Promise<{ data: DbPowerRanking | null; error: any }> {
+    return this.updateRecord<DbPowerRanking>(TABLES.POWER_RANKINGS, id, data);
+  }
+
+  /**
+   * Matchup Win Probabilities table operations
+   */
+  static async getMatchupWinProbabilities(options?: DbQueryOptions): Promise<PaginatedResponse<DbMatchupWinProbability>> {
+    return this.queryTable<DbMatchupWinProbability>(TABLES.MATCHUP_WIN_PROBABILITIES, options);
+  }
+
+  static async createMatchupWinProbability(data: Partial<DbMatchupWinProbability>): Promise<{ data: DbMatchupWinProbability | null; error: any }> {
+    return this.createRecord<DbMatchupWinProbability>(TABLES.MATCHUP_WIN_PROBABILITIES, data);
+  }
+
+  /**
+   * Team Projections table operations
+   */
+  static async getTeamProjections(options?: DbQueryOptions): Promise<PaginatedResponse<DbTeamProjection>> {
+    return this.queryTable<DbTeamProjection>(TABLES.TEAM_PROJECTIONS, options);
+  }
+
+  static async createTeamProjection(data: Partial<DbTeamProjection>): Promise<{ data: DbTeamProjection | null; error: any }> {
+    return this.createRecord<DbTeamProjection>(TABLES.TEAM_PROJECTIONS, data);
+  }
+
+  static async updateTeamProjection(id: number, data: Partial<DbTeamProjection>): Promise<{ data: DbTeamProjection | null; error: any }> {
+    return this.updateRecord<DbTeamProjection>(TABLES.TEAM_PROJECTIONS, id, data);
+  }
+
+  /**
+   * Weekly Awards table operations
+   */
+  static async getWeeklyAwards(options?: DbQueryOptions): Promise<PaginatedResponse<DbWeeklyAward>> {
+    return this.queryTable<DbWeeklyAward>(TABLES.WEEKLY_AWARDS, options);
+  }
+
+  static async createWeeklyAward(data: Partial<DbWeeklyAward>): Promise<{ data: DbWeeklyAward | null; error: any }> {
+    return this.createRecord<DbWeeklyAward>(TABLES.WEEKLY_AWARDS, data);
+  }
+
+  static async updateWeeklyAward(id: number, data: Partial<DbWeeklyAward>): Promise<{ data: DbWeeklyAward | null; error: any }> {
+    return this.updateRecord<DbWeeklyAward>(TABLES.WEEKLY_AWARDS, id, data);
+  }
+
+  static async deleteWeeklyAward(id: number): Promise<{ error: any }> {
+    return this.deleteRecord(TABLES.WEEKLY_AWARDS, id);
+  }
+
+  /**
+   * Matchup Recaps table operations
+   */
+  static async getMatchupRecaps(options?: DbQueryOptions): Promise<PaginatedResponse<DbMatchupRecap>> {
+    return this.queryTable<DbMatchupRecap>(TABLES.MATCHUP_RECAPS, options);
+  }
+
+  static async createMatchupRecap(data: Partial<DbMatchupRecap>): Promise<{ data: DbMatchupRecap | null; error: any }> {
+    return this.createRecord<DbMatchupRecap>(TABLES.MATCHUP_RECAPS, data);
+  }
+
+  static async updateMatchupRecap(id: number, data: Partial<DbMatchupRecap>): Promise<{ data: DbMatchupRecap | null; error: any }> {
+    return this.updateRecord<DbMatchupRecap>(TABLES.MATCHUP_RECAPS, id, data);
+  }
+
+  static async deleteMatchupRecap(id: number): Promise<{ error: any }> {
+    return this.deleteRecord(TABLES.MATCHUP_RECAPS, id);
+  }
+
+  /**
+   * Matchup Box Scores table operations
+   */
+  static async getMatchupBoxScores(options?: DbQueryOptions): Promise<PaginatedResponse<DbMatchupBoxScore>> {
+    return this.queryTable<DbMatchupBoxScore>(TABLES.MATCHUP_BOX_SCORES, options);
+  }
+
+  static async createMatchupBoxScore(data: Partial<DbMatchupBoxScore>): Promise<{ data: DbMatchupBoxScore | null; error: any }> {
+    return this.createRecord<DbMatchupBoxScore>(TABLES.MATCHUP_BOX_SCORES, data);
+  }
+
+  static async updateMatchupBoxScore(id: number, data: Partial<DbMatchupBoxScore>): Promise<{ data: DbMatchupBoxScore | null; error: any }> {
+    return this.updateRecord<DbMatchupBoxScore>(TABLES.MATCHUP_BOX_SCORES, id, data);
+  }
+
+  /**
+   * Stat Corrections table operations
+   */
+  static async getStatCorrections(options?: DbQueryOptions): Promise<PaginatedResponse<DbStatCorrection>> {
+    return this.queryTable<DbStatCorrection>(TABLES.STAT_CORRECTIONS, options);
+  }
+
+  static async createStatCorrection(data: Partial<DbStatCorrection>): Promise<{ data: DbStatCorrection | null; error: any }> {
+    return this.createRecord<DbStatCorrection>(TABLES.STAT_CORRECTIONS, data);
+  }
+
+  static async updateStatCorrection(id: number, data: Partial<DbStatCorrection>): Promise<{ data: DbStatCorrection | null; error: any }> {
+    return this.updateRecord<DbStatCorrection>(TABLES.STAT_CORRECTIONS, id, data);
+  }
+
+  /**
+   * Conference Settings Acknowledgements table operations
+   */
+  static async getConferenceSettingsAcknowledgements(options?: DbQueryOptions): Promise<PaginatedResponse<DbConferenceSettingsAcknowledgement>> {
+    return this.queryTable<DbConferenceSettingsAcknowledgement>(TABLES.CONFERENCE_SETTINGS_ACKNOWLEDGEMENTS, options);
+  }
+
+  static async createConferenceSettingsAcknowledgement(data: Partial<DbConferenceSettingsAcknowledgement>): Promise<{ data: DbConferenceSettingsAcknowledgement | null; error: any }> {
+    return this.createRecord<DbConferenceSettingsAcknowledgement>(TABLES.CONFERENCE_SETTINGS_ACKNOWLEDGEMENTS, data);
+  }
 }
 
 // Export database types for components
@@ -581,7 +748,16 @@ export type {
   DbTransaction,
   DbTeamConferenceJunction,
   DbPlayoffBracket,
-  DbPlayoffFormat
+  DbPlayoffFormat,
+  DbPowerRanking,
+  DbMatchupWinProbability,
+  DbTeamProjection,
+  DbWeeklyAward,
+  DbMatchupOverrideEvent,
+  DbMatchupRecap,
+  DbMatchupBoxScore,
+  DbStatCorrection,
+  DbConferenceSettingsAcknowledgement
 };
 
 // Service aliases for backward compatibility
@@ -0,0 +1,236 @@
+import { DatabaseService } from '@/services/databaseService';
+import { StandingsService } from '@/services/standingsService';
+import { DbPlayoffBracket, DbPlayoffFormat } from '@/types/database';
+
+export type PlayoffResult = 'champion' | 'runner_up' | 'eliminated' | 'in_progress' | 'missed';
+
+export const PLAYOFF_RESULT_LABELS: Record<PlayoffResult, string> = {
+  champion: 'Champion',
+  runner_up: 'Runner-up',
+  eliminated: 'Eliminated',
+  in_progress: 'In Progress',
+  missed: 'Missed Playoffs'
+};
+
+export interface FranchiseSeason {
+  season_id: number;
+  season_year: string;
+  season_name: string;
+  conference_id: number;
+  conference_name: string;
+  wins: number;
+  losses: number;
+  ties: number;
+  win_percentage: number;
+  points_for: number;
+  points_against: number;
+  overall_rank: number | null; // Regular season finish, null when the season has no records yet
+  conference_rank: number | null;
+  is_conference_champion: boolean; // Won the conference championship game
+  playoff_seed: number | null;
+  playoff_result: PlayoffResult;
+  eliminated_in: string | null; // Round the team was knocked out in
+}
+
+export interface FranchiseTotals {
+  seasons: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  win_percentage: number;
+  points_for: number;
+  points_against: number;
+  playoff_appearances: number;
+  championships: number;
+  conference_titles: number;
+  best_finish: number | null;
+}
+
+export interface FranchiseHistory {
+  seasons: FranchiseSeason[]; // Oldest season first
+  totals: FranchiseTotals;
+}
+
+type PlayoffWeeks = Pick<DbPlayoffFormat, 'playoff_start_week' | 'championship_week'>;
+
+const DEFAULT_PLAYOFF_WEEKS: PlayoffWeeks = { playoff_start_week: 14, championship_week: 17 };
+
+/**
+ * A franchise is a `teams` row; it joins a conference each season through
+ * `team_conference_junction`. This service walks those seasons and collects
+ * the final record, standings finish and playoff outcome for each one.
+ */
+export class FranchiseHistoryService {
+
+  /**
+   * Get every season a team has played with all-time totals
+   */
+  static async getFranchiseHistory(teamId: number): Promise<FranchiseHistory> {
+    const { data: junctions, error: junctionsError } = await DatabaseService.getTeamConferenceJunctions({
+      filters: [{ column: 'team_id', operator: 'eq', value: teamId }]
+    });
+
+    if (junctionsError) {
+      throw new Error(`Failed to fetch team conferences: ${junctionsError.message || junctionsError}`);
+    }
+
+    if (junctions.length === 0) {
+      return { seasons: [], totals: this.calculateTotals([]) };
+    }
+
+    const { data: conferences, error: conferencesError } = await DatabaseService.getConferences({
+      filters: [{ column: 'id', operator: 'in', value: junctions.map((j) => j.conference_id) }]
+    });
+
+    if (conferencesError) {
+      throw new Error(`Failed to fetch conferences: ${conferencesError.message || conferencesError}`);
+    }
+
+    const seasonIds = [...new Set(conferences.map((c) => c.season_id))];
+    const [seasonsResult, recordsResult, formatsResult] = await Promise.all([
+    DatabaseService.getSeasons({ filters: [{ column: 'id', operator: 'in', value: seasonIds }] }),
+    DatabaseService.getTeamRecords({ filters: [{ column: 'team_id', operator: 'eq', value: teamId }] }),
+    DatabaseService.getPlayoffFormats({ filters: [{ column: 'season_id', operator: 'in', value: seasonIds }] })]
+    );
+
+    if (seasonsResult.error) {
+      throw new Error(`Failed to fetch seasons: ${seasonsResult.error.message || seasonsResult.error}`);
+    }
+
+    const seasonsById = new Map(seasonsResult.data.map((season) => [season.id, season]));
+    const recordsBySeason = new Map((recordsResult.data || []).map((record) => [record.season_id, record]));
+    const formatsBySeason = new Map((formatsResult.data || []).map((format) => [format.season_id, format]));
+
+    const seasons: FranchiseSeason[] = [];
+    for (const conference of conferences) {
+      const season = seasonsById.get(conference.season_id);
+      if (!season) continue;
+
+      const [standings, brackets] = await Promise.all([
+      StandingsService.getLeagueStandings(season.id),
+      this.getPlayoffBrackets(season.id)]
+      );
+
+      const record = recordsBySeason.get(season.id);
+      const standing = standings.find((team) => team.team_id === teamId);
+      const wins = record?.wins || 0;
+      const losses = record?.losses || 0;
+      const ties = record?.ties || 0;
+      const playoffs = this.getPlayoffOutcome(brackets, teamId, formatsBySeason.get(season.id) || DEFAULT_PLAYOFF_WEEKS);
+
+      seasons.push({
+        season_id: season.id,
+        season_year: season.season_year,
+        season_name: season.season_name,
+        conference_id: conference.id,
+        conference_name: conference.conference_name,
+        wins,
+        losses,
+        ties,
+        win_percentage: StandingsService.calculateWinPercentage(wins, losses, ties),
+        points_for: record?.points_for || 0,
+        points_against: record?.points_against || 0,
+        overall_rank: standing?.overall_rank ?? null,
+        conference_rank: standing?.conference_rank ?? null,
+        ...playoffs
+      });
+    }
+
+    seasons.sort((a, b) => a.season_year.localeCompare(b.season_year));
+    return { seasons, totals: this.calculateTotals(seasons) };
+  }
+
+  /**
+   * Work out a team's seed and how far it went from a season's playoff brackets.
+   * The week before the playoffs holds the conference championship games.
+   */
+  static getPlayoffOutcome(
+    brackets: DbPlayoffBracket[],
+    teamId: number,
+    playoffWeeks: PlayoffWeeks = DEFAULT_PLAYOFF_WEEKS)
+  : Pick<FranchiseSeason, 'is_conference_champion' | 'playoff_seed' | 'playoff_result' | 'eliminated_in'> {
+    const teamGames = brackets.
+    filter((b) => b.team1_id === teamId || b.team2_id === teamId).
+    sort((a, b) => a.week - b.week);
+
+    const isConferenceChampion = teamGames.some((b) =>
+    b.week === playoffWeeks.playoff_start_week - 1 && b.winning_team_id === teamId
+    );
+
+    const playoffGames = teamGames.filter((b) => b.week >= playoffWeeks.playoff_start_week);
+    if (playoffGames.length === 0) {
+      return { is_conference_champion: isConferenceChampion, playoff_seed: null, playoff_result: 'missed', eliminated_in: null };
+    }
+
+    const first = playoffGames[0];
+    const seed = first.team1_id === teamId ? first.team1_seed : first.team2_seed;
+    const loss = playoffGames.find((b) => !b.is_bye && b.winning_team_id && b.winning_team_id !== teamId);
+
+    let result: PlayoffResult = 'in_progress';
+    if (loss) {
+      result = loss.week === playoffWeeks.championship_week ? 'runner_up' : 'eliminated';
+    } else if (playoffGames.some((b) => b.week === playoffWeeks.championship_week && b.winning_team_id === teamId)) {
+      result = 'champion';
+    }
+
+    return {
+      is_conference_champion: isConferenceChampion,
+      playoff_seed: seed ?? null,
+      playoff_result: result,
+      eliminated_in: result === 'eliminated' ? loss!.playoff_round_name || `Round ${loss!.round}` : null
+    };
+  }
+
+  /**
+   * Sum every season into all-time totals
+   */
+  static calculateTotals(seasons: FranchiseSeason[]): FranchiseTotals {
+    const wins = seasons.reduce((sum, s) => sum + s.wins, 0);
+    const losses = seasons.reduce((sum, s) => sum + s.losses, 0);
+    const ties = seasons.reduce((sum, s) => sum + s.ties, 0);
+    const finishes = seasons.map((s) => s.overall_rank).filter((rank): rank is number => rank !== null);
+
+    return {
+      seasons: seasons.length,
+      wins,
+      losses,
+      ties,
+      win_percentage: StandingsService.calculateWinPercentage(wins, losses, ties),
+      points_for: seasons.reduce((sum, s) => sum + s.points_for, 0),
+      points_against: seasons.reduce((sum, s) => sum + s.points_against, 0),
+      playoff_appearances: seasons.filter((s) => s.playoff_seed !== null).length,
+      championships: seasons.filter((s) => s.playoff_result === 'champion').length,
+      conference_titles: seasons.filter((s) => s.is_conference_champion).length,
+      best_finish: finishes.length > 0 ? Math.min(...finishes) : null
+    };
+  }
+
+  /**
+   * Describe a season's playoff outcome, e.g. "Lost in Semifinals"
+   */
+  static formatPlayoffResult(season: FranchiseSeason): string {
+    if (season.playoff_result === 'eliminated' && season.eliminated_in) {
+      return `Lost in ${season.eliminated_in}`;
+    }
+    return PLAYOFF_RESULT_LABELS[season.playoff_result];
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private static async getPlayoffBrackets(seasonId: number): Promise<DbPlayoffBracket[]> {
+    const { data, error } = await DatabaseService.getPlayoffBrackets({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+    });
+
+    if (error) {
+      console.error('Error fetching playoff brackets:', error);
+      return [];
+    }
+
+    return data;
+  }
+}
+
+export default FranchiseHistoryService;
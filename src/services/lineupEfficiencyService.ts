@@ -0,0 +1,320 @@
+import { DatabaseService } from '@/services/databaseService';
+import SleeperApiService, { SleeperMatchup, SleeperPlayer } from '@/services/sleeperApi';
+import MatchupCache from '@/services/matchupCache';
+
+// Positions each Sleeper roster slot accepts
+export const SLOT_ELIGIBILITY: Record<string, string[]> = {
+  QB: ['QB'],
+  RB: ['RB'],
+  WR: ['WR'],
+  TE: ['TE'],
+  K: ['K'],
+  DEF: ['DEF'],
+  DL: ['DL'],
+  LB: ['LB'],
+  DB: ['DB'],
+  FLEX: ['RB', 'WR', 'TE'],
+  WRRB_FLEX: ['RB', 'WR'],
+  REC_FLEX: ['WR', 'TE'],
+  SUPER_FLEX: ['QB', 'RB', 'WR', 'TE'],
+  IDP_FLEX: ['DL', 'LB', 'DB']
+};
+
+// Roster slots that never score
+const NON_STARTING_SLOTS = ['BN', 'IR', 'TAXI'];
+
+// Lineups from completed weeks only change with stat corrections, so they are kept for an hour
+const COMPLETED_WEEK_TTL = 60 * 60 * 1000;
+
+export interface LineupSlot {
+  slot: string;
+  player_id: string | null; // Null when no eligible player was available
+  points: number;
+}
+
+export interface LineupEfficiency {
+  actual_points: number; // Points scored by the starters actually used
+  optimal_points: number; // Points the best legal lineup would have scored
+  points_left_on_bench: number;
+  efficiency: number; // actual / optimal as a percentage
+  optimal_lineup: LineupSlot[];
+  missed_starters: string[]; // In the optimal lineup but left on the bench
+  wrong_starters: string[]; // Started but not in the optimal lineup
+}
+
+export interface TeamEfficiencySummary {
+  team_id: number;
+  games: number;
+  actual_points: number;
+  optimal_points: number;
+  points_left_on_bench: number;
+  efficiency: number;
+  worst_week: {week: number;points_left_on_bench: number;} | null;
+}
+
+/**
+ * Manager efficiency: how close the starters a manager picked came to the best legal
+ * lineup they could have set from the same roster that week. Slot eligibility follows
+ * the season's Sleeper `roster_positions`, so FLEX and SUPER_FLEX are only filled by
+ * positions they accept.
+ */
+export class LineupEfficiencyService {
+  private static completedWeekCache = new Map<string, {data: SleeperMatchup[];fetchedAt: number;}>();
+
+  /**
+   * Starting slots from a season's roster positions, without bench, IR and taxi slots
+   */
+  static getStartingSlots(rosterPositions: string[]): string[] {
+    return rosterPositions.filter((slot) => !NON_STARTING_SLOTS.includes(slot));
+  }
+
+  /**
+   * Positions a player can be started at
+   */
+  static getPlayerPositions(playerId: string, players: Record<string, SleeperPlayer>): string[] {
+    const player = players[playerId];
+    if (player?.fantasy_positions?.length) return player.fantasy_positions;
+    if (player?.position) return [player.position];
+
+    // Team defenses use the team abbreviation as their player id
+    return /^[A-Z]{2,3}$/.test(playerId) ? ['DEF'] : [];
+  }
+
+  /**
+   * The highest scoring legal lineup from a roster.
+   *
+   * Players are taken from the highest score down and kept whenever every player kept so
+   * far can still be given a slot, shuffling earlier players between slots if needed. A
+   * player scores the same in any slot, so this greedy order is exact even when flex slots
+   * overlap. Players with negative points are left out; an empty slot scores nothing.
+   */
+  static calculateOptimalLineup(
+    slots: string[],
+    rosterIds: string[],
+    playersPoints: Record<string, number>,
+    players: Record<string, SleeperPlayer>
+  ): LineupSlot[] {
+    const candidates = [...new Set(rosterIds)].
+    filter((playerId) => playerId && playerId !== '0' && (playersPoints[playerId] || 0) >= 0).
+    sort((a, b) => (playersPoints[b] || 0) - (playersPoints[a] || 0));
+
+    const eligibleSlots = (playerId: string) => {
+      const positions = this.getPlayerPositions(playerId, players);
+      return slots.
+      map((slot, index) => (SLOT_ELIGIBILITY[slot] || [slot]).some((p) => positions.includes(p)) ? index : -1).
+      filter((index) => index >= 0);
+    };
+
+    const slotPlayer: (string | null)[] = slots.map(() => null);
+    const eligibility = new Map<string, number[]>();
+
+    const assign = (playerId: string, visited: Set<number>): boolean => {
+      for (const index of eligibility.get(playerId)!) {
+        if (visited.has(index)) continue;
+        visited.add(index);
+
+        const current = slotPlayer[index];
+        if (current === null || assign(current, visited)) {
+          slotPlayer[index] = playerId;
+          return true;
+        }
+      }
+      return false;
+    };
+
+    for (const playerId of candidates) {
+      eligibility.set(playerId, eligibleSlots(playerId));
+      assign(playerId, new Set());
+      if (slotPlayer.every((player) => player !== null)) break;
+    }
+
+    return slots.map((slot, index) => ({
+      slot,
+      player_id: slotPlayer[index],
+      points: slotPlayer[index] ? playersPoints[slotPlayer[index]!] || 0 : 0
+    }));
+  }
+
+  /**
+   * Compare the starters actually used against the best legal lineup from the same roster
+   */
+  static calculateEfficiency(
+    rosterPositions: string[],
+    starters: string[],
+    rosterIds: string[],
+    playersPoints: Record<string, number>,
+    players: Record<string, SleeperPlayer>
+  ): LineupEfficiency {
+    const started = starters.filter((playerId) => playerId && playerId !== '0');
+    const optimalLineup = this.calculateOptimalLineup(
+      this.getStartingSlots(rosterPositions),
+      [...started, ...rosterIds],
+      playersPoints,
+      players
+    );
+
+    const actualPoints = started.reduce((sum, playerId) => sum + (playersPoints[playerId] || 0), 0);
+    // A lineup can outscore the "optimal" one only by starting a negative score the optimal one left empty
+    const optimalPoints = Math.max(optimalLineup.reduce((sum, slot) => sum + slot.points, 0), actualPoints);
+    const optimalIds = optimalLineup.map((slot) => slot.player_id).filter((id): id is string => id !== null);
+
+    return {
+      actual_points: actualPoints,
+      optimal_points: optimalPoints,
+      points_left_on_bench: optimalPoints - actualPoints,
+      efficiency: optimalPoints > 0 ? actualPoints / optimalPoints * 100 : 100,
+      optimal_lineup: optimalLineup,
+      // Swapping players with identical scores makes no difference, so only real misses are listed
+      missed_starters: optimalIds.filter((id) => !started.includes(id) && (playersPoints[id] || 0) > 0),
+      wrong_starters: started.filter((id) => !optimalIds.includes(id))
+    };
+  }
+
+  /**
+   * A season's roster positions, fetched from Sleeper and stored the first time they are needed
+   */
+  static async getRosterPositions(seasonId: number): Promise<string[]> {
+    const { data: seasons } = await DatabaseService.getSeasons({
+      filters: [{ column: 'id', operator: 'eq', value: seasonId }]
+    });
+
+    if (seasons[0]?.roster_positions?.length) {
+      return seasons[0].roster_positions;
+    }
+
+    const updateResult = await DatabaseService.updateSeasonRosterPositions(seasonId);
+    if (!updateResult.success) {
+      throw new Error(`No roster positions found for season ${seasonId}`);
+    }
+
+    const { data: updated } = await DatabaseService.getSeasons({
+      filters: [{ column: 'id', operator: 'eq', value: seasonId }]
+    });
+    return updated[0]?.roster_positions || [];
+  }
+
+  /**
+   * Lineup efficiency for every team over the season's completed regular season matchups,
+   * most points left on the bench first
+   */
+  static async getSeasonEfficiency(seasonId: number): Promise<TeamEfficiencySummary[]> {
+    const { data: conferences } = await DatabaseService.getConferences({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+    });
+
+    const conferenceIds = conferences.map((c) => c.id);
+    if (conferenceIds.length === 0) {
+      return [];
+    }
+
+    const [rosterPositions, players, matchupsResult, junctionsResult] = await Promise.all([
+    this.getRosterPositions(seasonId),
+    MatchupCache.getPlayers(),
+    DatabaseService.getMatchups({
+      filters: [
+      { column: 'conference_id', operator: 'in', value: conferenceIds },
+      { column: 'matchup_status', operator: 'eq', value: 'complete' }]
+
+    }),
+    DatabaseService.getTeamConferenceJunctions({
+      filters: [{ column: 'conference_id', operator: 'in', value: conferenceIds }]
+    })]
+    );
+
+    if (matchupsResult.error) {
+      throw new Error(`Failed to fetch matchups: ${matchupsResult.error.message || matchupsResult.error}`);
+    }
+
+    // Every team plays out of its own conference's Sleeper league, even in interconference games
+    const junctionByTeam = new Map(junctionsResult.data.map((j) => [j.team_id, j]));
+    const leagueByConference = new Map(conferences.map((c) => [c.id, c.league_id]));
+
+    const teamWeeks = new Set<string>();
+    matchupsResult.data.
+    filter((m) => !m.is_playoff && !m.is_bye && m.team2_id).
+    forEach((m) => {
+      teamWeeks.add(`${m.team1_id}-${parseInt(m.week)}`);
+      teamWeeks.add(`${m.team2_id}-${parseInt(m.week)}`);
+    });
+
+    const leagueWeeks = new Set<string>();
+    teamWeeks.forEach((key) => {
+      const [teamId, week] = key.split('-').map(Number);
+      const junction = junctionByTeam.get(teamId);
+      const leagueId = junction && leagueByConference.get(junction.conference_id);
+      if (leagueId) leagueWeeks.add(`${leagueId}|${week}`);
+    });
+
+    const sleeperMatchups = new Map<string, SleeperMatchup[]>();
+    await Promise.all([...leagueWeeks].map(async (key) => {
+      const [leagueId, week] = key.split('|');
+      try {
+        sleeperMatchups.set(key, await this.getCompletedWeekMatchups(leagueId, parseInt(week)));
+      } catch (error) {
+        console.error(`Error fetching Sleeper matchups for league ${leagueId} week ${week}:`, error);
+      }
+    }));
+
+    const summaries = new Map<number, TeamEfficiencySummary>();
+    teamWeeks.forEach((key) => {
+      const [teamId, week] = key.split('-').map(Number);
+      const junction = junctionByTeam.get(teamId);
+      const leagueId = junction && leagueByConference.get(junction.conference_id);
+      const sleeperMatchup = leagueId && sleeperMatchups.get(`${leagueId}|${week}`)?.find((m) => m.roster_id === junction.roster_id);
+      if (!sleeperMatchup) return;
+
+      const efficiency = this.calculateEfficiency(
+        rosterPositions,
+        sleeperMatchup.starters || [],
+        sleeperMatchup.players || [],
+        sleeperMatchup.players_points || {},
+        players
+      );
+
+      const summary = summaries.get(teamId) || {
+        team_id: teamId,
+        games: 0,
+        actual_points: 0,
+        optimal_points: 0,
+        points_left_on_bench: 0,
+        efficiency: 0,
+        worst_week: null
+      };
+
+      summary.games++;
+      summary.actual_points += efficiency.actual_points;
+      summary.optimal_points += efficiency.optimal_points;
+      summary.points_left_on_bench += efficiency.points_left_on_bench;
+      if (!summary.worst_week || efficiency.points_left_on_bench > summary.worst_week.points_left_on_bench) {
+        summary.worst_week = { week, points_left_on_bench: efficiency.points_left_on_bench };
+      }
+      summaries.set(teamId, summary);
+    });
+
+    return [...summaries.values()].
+    map((summary) => ({
+      ...summary,
+      efficiency: summary.optimal_points > 0 ? summary.actual_points / summary.optimal_points * 100 : 100
+    })).
+    sort((a, b) => b.points_left_on_bench - a.points_left_on_bench);
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  // Sleeper lineups for a completed league week, fetched once and then served from the cache
+  private static async getCompletedWeekMatchups(leagueId: string, week: number): Promise<SleeperMatchup[]> {
+    const key = `${leagueId}|${week}`;
+    const cached = this.completedWeekCache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < COMPLETED_WEEK_TTL) {
+      return cached.data;
+    }
+
+    const data = await SleeperApiService.fetchMatchups(leagueId, week);
+    this.completedWeekCache.set(key, { data, fetchedAt: Date.now() });
+    return data;
+  }
+}
+
+export default LineupEfficiencyService;
@@ -0,0 +1,221 @@
+import SleeperApiService, { SleeperMatchup } from '@/services/sleeperApi';
+import { MatchupStatusService, WeekStatus } from '@/services/matchupStatusService';
+
+export type LiveWeekStatus = 'upcoming' | 'live' | 'final';
+
+export interface LiveScoringUpdate {
+  leagueId: string;
+  week: number;
+  matchups: SleeperMatchup[];
+  // Per-player point changes since the previous poll, keyed by roster id then player id
+  pointChanges: Record<number, Record<string, number>>;
+  polledAt: Date;
+  nextPollAt: Date | null; // Null once polling has stopped
+  isFinal: boolean;
+}
+
+export type LiveScoringListener = (update: LiveScoringUpdate) => void;
+
+interface LiveChannel {
+  leagueId: string;
+  season: number;
+  week: number;
+  listeners: Set<LiveScoringListener>;
+  timer: ReturnType<typeof setTimeout> | null;
+  intervalIndex: number;
+  previousPoints: Map<number, Record<string, number>> | null;
+  lastUpdate: LiveScoringUpdate | null;
+}
+
+// Backoff schedule: poll quickly while scores move, slow down while they don't
+const POLL_INTERVALS = [30, 60, 120, 300].map((seconds) => seconds * 1000);
+
+// Kickoff windows in US Eastern time: [day (0 = Sunday), start hour, end hour].
+// Late games run past midnight, so each window spills into the next morning.
+const GAME_WINDOWS: [number, number, number][] = [
+[4, 19, 24], [5, 0, 2], // Thursday night
+[6, 12, 24], // Saturday (late season)
+[0, 9, 24], [1, 0, 2], // Sunday, including London games
+[1, 19, 24], [2, 0, 2] // Monday night
+];
+
+/**
+ * Live scoring. Views subscribe to a Sleeper league and week; every subscriber to the
+ * same league and week shares one poller. Polling backs off while scores are not
+ * changing or no games are on, resets when they move, and stops once the NFL week is over.
+ */
+export class LiveScoringService {
+  private static channels = new Map<string, LiveChannel>();
+
+  /**
+   * Subscribe to live updates for a league and week. Returns the unsubscribe function.
+   */
+  static subscribe(leagueId: string, season: number, week: number, listener: LiveScoringListener): () => void {
+    const key = `${leagueId}-${season}-${week}`;
+    let channel = this.channels.get(key);
+
+    if (!channel) {
+      channel = {
+        leagueId,
+        season,
+        week,
+        listeners: new Set(),
+        timer: null,
+        intervalIndex: 0,
+        previousPoints: null,
+        lastUpdate: null
+      };
+      this.channels.set(key, channel);
+      this.poll(key);
+    } else if (channel.lastUpdate) {
+      listener(channel.lastUpdate);
+    }
+
+    channel.listeners.add(listener);
+
+    return () => {
+      const current = this.channels.get(key);
+      if (!current) return;
+
+      current.listeners.delete(listener);
+      if (current.listeners.size === 0) {
+        this.stop(key);
+      }
+    };
+  }
+
+  /**
+   * Whether a week of a season is still to come, being played or over
+   */
+  static async getWeekStatus(season: number, week: number): Promise<LiveWeekStatus> {
+    return this.toLiveStatus(await MatchupStatusService.getWeekStatusForYear(season.toString(), week));
+  }
+
+  /**
+   * The week's matchup status, as far as polling is concerned: it runs while the week is
+   * live and stops once every game is over, corrections or not
+   */
+  static toLiveStatus(weekStatus: WeekStatus): LiveWeekStatus {
+    const status = MatchupStatusService.resolveStatus({}, weekStatus);
+    if (status === 'live' || status === 'upcoming') return status;
+    return 'final';
+  }
+
+  /**
+   * Whether NFL games are usually being played at this time
+   */
+  static isInGameWindow(now: Date = new Date()): boolean {
+    const { day, hour } = this.getEasternTime(now);
+    return GAME_WINDOWS.some(([windowDay, start, end]) => day === windowDay && hour >= start && hour < end);
+  }
+
+  /**
+   * Next poll interval index: back to the fastest when scores moved, one step slower when
+   * they did not, and the slowest outside game windows
+   */
+  static getNextIntervalIndex(current: number, changed: boolean, inGameWindow: boolean): number {
+    if (!inGameWindow) return POLL_INTERVALS.length - 1;
+    if (changed) return 0;
+    return Math.min(current + 1, POLL_INTERVALS.length - 1);
+  }
+
+  /**
+   * Per-player point changes between two polls. Only players whose points moved are included.
+   */
+  static calculatePointChanges(
+    previous: Map<number, Record<string, number>>,
+    matchups: SleeperMatchup[]
+  ): Record<number, Record<string, number>> {
+    const changes: Record<number, Record<string, number>> = {};
+
+    matchups.forEach((matchup) => {
+      const before = previous.get(matchup.roster_id);
+      if (!before) return;
+
+      Object.entries(matchup.players_points || {}).forEach(([playerId, points]) => {
+        const delta = Math.round((points - (before[playerId] || 0)) * 100) / 100;
+        if (delta !== 0) {
+          changes[matchup.roster_id] = { ...(changes[matchup.roster_id] || {}), [playerId]: delta };
+        }
+      });
+    });
+
+    return changes;
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private static async poll(key: string): Promise<void> {
+    const channel = this.channels.get(key);
+    if (!channel) return;
+
+    channel.timer = null;
+
+    try {
+      const status = await this.getWeekStatus(channel.season, channel.week);
+      const matchups = await SleeperApiService.fetchMatchups(channel.leagueId, channel.week);
+
+      // The view may have unsubscribed while the request was in flight
+      if (this.channels.get(key) !== channel) return;
+
+      const pointChanges = channel.previousPoints ? this.calculatePointChanges(channel.previousPoints, matchups) : {};
+      const changed = Object.keys(pointChanges).length > 0;
+      channel.previousPoints = new Map(matchups.map((m) => [m.roster_id, { ...(m.players_points || {}) }]));
+
+      const isFinal = status !== 'live';
+      channel.intervalIndex = this.getNextIntervalIndex(channel.intervalIndex, changed, this.isInGameWindow());
+      const delay = POLL_INTERVALS[channel.intervalIndex];
+
+      channel.lastUpdate = {
+        leagueId: channel.leagueId,
+        week: channel.week,
+        matchups,
+        pointChanges,
+        polledAt: new Date(),
+        nextPollAt: isFinal ? null : new Date(Date.now() + delay),
+        isFinal
+      };
+      channel.listeners.forEach((listener) => listener(channel.lastUpdate!));
+
+      if (isFinal) {
+        console.log(`🏁 Week ${channel.week} is final for league ${channel.leagueId}, live scoring stopped`);
+        return;
+      }
+
+      channel.timer = setTimeout(() => this.poll(key), delay);
+    } catch (error) {
+      console.error(`Error polling live scores for league ${channel.leagueId}:`, error);
+      if (this.channels.get(key) !== channel) return;
+
+      channel.intervalIndex = Math.min(channel.intervalIndex + 1, POLL_INTERVALS.length - 1);
+      channel.timer = setTimeout(() => this.poll(key), POLL_INTERVALS[channel.intervalIndex]);
+    }
+  }
+
+  private static stop(key: string): void {
+    const channel = this.channels.get(key);
+    if (channel?.timer) {
+      clearTimeout(channel.timer);
+    }
+    this.channels.delete(key);
+  }
+
+  private static getEasternTime(date: Date): {day: number;hour: number;} {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: 'America/New_York',
+      weekday: 'short',
+      hour: 'numeric',
+      hourCycle: 'h23'
+    }).formatToParts(date);
+
+    const weekday = parts.find((p) => p.type === 'weekday')?.value || 'Sun';
+    return {
+      day: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(weekday),
+      hour: parseInt(parts.find((p) => p.type === 'hour')?.value || '0')
+    };
+  }
+}
+
+export default LiveScoringService;
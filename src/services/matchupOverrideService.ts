@@ -1,5 +1,5 @@
 import { DatabaseService } from './databaseService';
-import { DbMatchupAdminOverride, DbTeam, DbConference } from '@/types/database';
+import { DbMatchupAdminOverride, DbMatchupOverrideEvent, MatchupOverrideAction, DbTeam, DbConference } from '@/types/database';
 
 export interface MatchupOverrideRequest {
   season_id: number;
@@ -12,6 +12,13 @@ export interface MatchupOverrideRequest {
   original_team1_id?: number;
   original_team2_id?: number;
   sleeper_matchup_id?: string;
+  admin_id?: string;
+}
+
+export interface OverrideChangeOptions {
+  admin_id?: string;
+  reason?: string;
+  restored_from_event_id?: number; // Set when the change restores an earlier event's state
 }
 
 export interface MatchupOverrideWithTeams extends DbMatchupAdminOverride {
@@ -22,16 +29,43 @@ export interface MatchupOverrideWithTeams extends DbMatchupAdminOverride {
   conference?: DbConference;
 }
 
+export interface MatchupOverrideEventWithTeams extends DbMatchupOverrideEvent {
+  before_team1?: DbTeam;
+  before_team2?: DbTeam;
+  after_team1?: DbTeam;
+  after_team2?: DbTeam;
+  conference?: DbConference;
+}
+
+const DEFAULT_ADMIN_ID = 'admin';
+
+/**
+ * Admin overrides re-pair a conference's Sleeper matchups for a week. Every change is
+ * also written to `matchup_override_events`, an append-only trail that records the
+ * pairing before and after, the admin and the reason, so any earlier state can be
+ * restored with `restoreEvent`.
+ */
 export class MatchupOverrideService {
   /**
    * Create a new matchup override
    */
-  static async createOverride(request: MatchupOverrideRequest): Promise<DbMatchupAdminOverride | null> {
+  static async createOverride(
+    request: MatchupOverrideRequest,
+    options: OverrideChangeOptions = {}
+  ): Promise<DbMatchupAdminOverride | null> {
     try {
       console.log('🔄 Creating matchup override:', request);
 
+      const adminId = request.admin_id || options.admin_id || DEFAULT_ADMIN_ID;
+      const [replaced] = await this.getActiveOverrides(request.season_id, request.week, request.conference_id);
+
       // Deactivate any existing overrides for the same week/conference/teams
-      await this.deactivateExistingOverrides(request.season_id, request.week, request.conference_id);
+      await this.deactivateExistingOverrides(request.season_id, request.week, request.conference_id, {
+        admin_id: adminId,
+        reason: options.restored_from_event_id ?
+          `Replaced while restoring event #${options.restored_from_event_id}` :
+          'Replaced by a new override'
+      });
 
       const override: Partial<DbMatchupAdminOverride> = {
         season_id: request.season_id,
@@ -45,7 +79,7 @@ export class MatchupOverrideService {
         original_team2_id: request.original_team2_id,
         sleeper_matchup_id: request.sleeper_matchup_id,
         is_active: true,
-        overridden_by_admin_id: 'admin', // TODO: Get from auth context
+        overridden_by_admin_id: adminId,
         date_overridden: new Date().toISOString()
       };
 
@@ -55,6 +89,19 @@ export class MatchupOverrideService {
         throw new Error(result.error);
       }
 
+      // Deactivating what it replaced already returned the original pairing
+      await this.recordEvent(options.restored_from_event_id ? 'restore' : 'create', result.data!, {
+        before: [
+        request.original_team1_id ?? replaced?.original_team1_id,
+        request.original_team2_id ?? replaced?.original_team2_id],
+
+        after: [result.data!.override_team1_id, result.data!.override_team2_id],
+        override_active: true,
+        admin_id: adminId,
+        reason: options.reason || request.admin_notes || override.override_reason,
+        restored_from_event_id: options.restored_from_event_id
+      });
+
       console.log('✅ Matchup override created:', result.data);
       return result.data;
 
@@ -128,10 +175,12 @@ export class MatchupOverrideService {
   /**
    * Deactivate an override
    */
-  static async deactivateOverride(overrideId: number): Promise<boolean> {
+  static async deactivateOverride(overrideId: number, options: OverrideChangeOptions = {}): Promise<boolean> {
     try {
       console.log('🔄 Deactivating override:', overrideId);
 
+      const override = await this.getOverride(overrideId);
+
       const result = await DatabaseService.updateMatchupAdminOverride(overrideId, {
         is_active: false,
         updated_at: new Date().toISOString()
@@ -141,6 +190,14 @@ export class MatchupOverrideService {
         throw new Error(result.error);
       }
 
+      await this.recordEvent(options.restored_from_event_id ? 'restore' : 'deactivate', override, {
+        ...this.getRemovalPairings(override),
+        override_active: false,
+        admin_id: options.admin_id,
+        reason: options.reason || 'Override deactivated',
+        restored_from_event_id: options.restored_from_event_id
+      });
+
       console.log('✅ Override deactivated');
       return true;
 
@@ -151,18 +208,27 @@ export class MatchupOverrideService {
   }
 
   /**
-   * Permanently delete an override
+   * Permanently delete an override. The event keeps a copy of the deleted row.
    */
-  static async deleteOverride(overrideId: number): Promise<boolean> {
+  static async deleteOverride(overrideId: number, options: OverrideChangeOptions = {}): Promise<boolean> {
     try {
       console.log('🗑️ Deleting override:', overrideId);
 
+      const override = await this.getOverride(overrideId);
+
       const result = await DatabaseService.deleteMatchupAdminOverride(overrideId);
 
       if (result.error) {
         throw new Error(result.error);
       }
 
+      await this.recordEvent('delete', override, {
+        ...this.getRemovalPairings(override),
+        override_active: false,
+        admin_id: options.admin_id,
+        reason: options.reason || 'Override deleted'
+      });
+
       console.log('✅ Override deleted');
       return true;
 
@@ -178,13 +244,14 @@ export class MatchupOverrideService {
   private static async deactivateExistingOverrides(
     season_id: number, 
     week: number, 
-    conference_id: number
+    conference_id: number,
+    options: OverrideChangeOptions = {}
   ): Promise<void> {
     try {
       const existingOverrides = await this.getActiveOverrides(season_id, week, conference_id);
       
       for (const override of existingOverrides) {
-        await this.deactivateOverride(override.id);
+        await this.deactivateOverride(override.id, options);
       }
 
     } catch (error) {
@@ -192,6 +259,117 @@ export class MatchupOverrideService {
     }
   }
 
+  /**
+   * Audit trail for a season, newest first, optionally for one week or conference
+   */
+  static async getOverrideEvents(
+    season_id: number,
+    week?: number,
+    conference_id?: number
+  ): Promise<MatchupOverrideEventWithTeams[]> {
+    try {
+      const filters = [
+        { column: 'season_id', operator: 'eq' as const, value: season_id }
+      ];
+
+      if (week !== undefined) {
+        filters.push({ column: 'week', operator: 'eq' as const, value: week });
+      }
+
+      if (conference_id !== undefined) {
+        filters.push({ column: 'conference_id', operator: 'eq' as const, value: conference_id });
+      }
+
+      const eventsResult = await DatabaseService.getMatchupOverrideEvents({
+        filters,
+        orderBy: { column: 'created_at', ascending: false },
+        limit: 500
+      });
+
+      if (eventsResult.error) {
+        throw new Error(eventsResult.error);
+      }
+
+      const [teamsResult, conferencesResult] = await Promise.all([
+        DatabaseService.getTeams({}),
+        DatabaseService.getConferences({})
+      ]);
+
+      const teams = teamsResult.data || [];
+      const conferences = conferencesResult.data || [];
+      const findTeam = (teamId?: number | null) => teamId ? teams.find(t => t.id === teamId) : undefined;
+
+      return (eventsResult.data || []).map(event => ({
+        ...event,
+        before_team1: findTeam(event.before_team1_id),
+        before_team2: findTeam(event.before_team2_id),
+        after_team1: findTeam(event.after_team1_id),
+        after_team2: findTeam(event.after_team2_id),
+        conference: conferences.find(c => c.id === event.conference_id)
+      }));
+
+    } catch (error) {
+      console.error('❌ Error getting override events:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Bring a week and conference back to the state an event left it in: the override it
+   * created, or no override at all if it removed one. The restore is itself recorded.
+   */
+  static async restoreEvent(eventId: number, admin_id: string = DEFAULT_ADMIN_ID): Promise<boolean> {
+    try {
+      console.log('⏪ Restoring override state from event:', eventId);
+
+      const eventResult = await DatabaseService.getMatchupOverrideEvents({
+        filters: [{ column: 'id', operator: 'eq', value: eventId }]
+      });
+
+      const event = eventResult.data?.[0];
+      if (eventResult.error || !event) {
+        throw new Error(eventResult.error || `Override event ${eventId} not found`);
+      }
+
+      const options: OverrideChangeOptions = {
+        admin_id,
+        reason: `Restored state from event #${event.id}`,
+        restored_from_event_id: event.id
+      };
+
+      // The event left an override in place, so put the same pairing back. A restore can go
+      // either way, so events recorded before override_active existed fall back to the action.
+      const leftOverride = event.override_active ?? event.action === 'create';
+      if (leftOverride && event.after_team1_id && event.after_team2_id) {
+        const snapshot = event.override_snapshot || {};
+        const override = await this.createOverride({
+          season_id: event.season_id,
+          week: event.week,
+          conference_id: event.conference_id,
+          override_team1_id: event.after_team1_id,
+          override_team2_id: event.after_team2_id,
+          override_reason: snapshot.override_reason,
+          admin_notes: snapshot.admin_notes,
+          original_team1_id: snapshot.original_team1_id,
+          original_team2_id: snapshot.original_team2_id,
+          sleeper_matchup_id: snapshot.sleeper_matchup_id,
+          admin_id
+        }, options);
+
+        return override !== null;
+      }
+
+      // The event removed the override, so remove whatever is active now
+      const active = await this.getActiveOverrides(event.season_id, event.week, event.conference_id);
+      const results = await Promise.all(active.map(override => this.deactivateOverride(override.id, options)));
+      return results.every(Boolean);
+
+    } catch (error) {
+      console.error('❌ Error restoring override event:', error);
+      return false;
+    }
+  }
+
   /**
    * Get override history for auditing
    */
@@ -239,4 +417,64 @@ export class MatchupOverrideService {
       return [];
     }
   }
+
+  /**
+   * Private helper methods
+   */
+
+  private static async getOverride(overrideId: number): Promise<DbMatchupAdminOverride> {
+    const result = await DatabaseService.getMatchupAdminOverrides({
+      filters: [{ column: 'id', operator: 'eq', value: overrideId }]
+    });
+
+    if (result.error || !result.data?.[0]) {
+      throw new Error(result.error || `Override ${overrideId} not found`);
+    }
+
+    return result.data[0];
+  }
+
+  // Removing an active override returns the original pairing; an inactive one changes nothing
+  private static getRemovalPairings(override: DbMatchupAdminOverride) {
+    const original: [number | undefined, number | undefined] = [override.original_team1_id, override.original_team2_id];
+    return {
+      before: override.is_active ? [override.override_team1_id, override.override_team2_id] as [number, number] : original,
+      after: original
+    };
+  }
+
+  private static async recordEvent(
+    action: MatchupOverrideAction,
+    override: DbMatchupAdminOverride,
+    change: {
+      before: [number | undefined, number | undefined];
+      after: [number | undefined, number | undefined];
+      admin_id?: string;
+      reason?: string;
+      override_active: boolean;
+      restored_from_event_id?: number;
+    }
+  ): Promise<void> {
+    const result = await DatabaseService.createMatchupOverrideEvent({
+      season_id: override.season_id,
+      week: override.week,
+      conference_id: override.conference_id,
+      override_id: override.id,
+      action,
+      before_team1_id: change.before[0] ?? null,
+      before_team2_id: change.before[1] ?? null,
+      after_team1_id: change.after[0] ?? null,
+      after_team2_id: change.after[1] ?? null,
+      admin_id: change.admin_id || DEFAULT_ADMIN_ID,
+      reason: change.reason,
+      restored_from_event_id: change.restored_from_event_id ?? null,
+      override_active: change.override_active,
+      override_snapshot: override
+    });
+
+    // The trail must not silently miss a change, so surface the failure to the admin
+    if (result.error) {
+      throw new Error(`Override ${action} was saved but its audit event could not be recorded: ${result.error.message || result.error}`);
+    }
+  }
 }
@@ -1,5 +1,6 @@
 // Service for handling matchup data routing with override functionality
 import SleeperApiService, { SleeperMatchup, SleeperRoster, SleeperUser, SleeperPlayer } from './sleeperApi';
+import { MatchupStatusService, WeekStatus } from './matchupStatusService';
 
 export interface DatabaseMatchup {
   id: number;
@@ -231,6 +232,30 @@ export class MatchupService {
     }
   }
 
+  /**
+   * Get the season year for a legacy season ID
+   */
+  static async getSeasonYear(seasonId: number): Promise<string | null> {
+    try {
+      const { data, error } = await window.ezsite.apis.tablePage(12818, {
+        PageNo: 1,
+        PageSize: 1,
+        Filters: [
+        { name: 'id', op: 'Equal', value: seasonId }]
+
+      });
+
+      if (error || !data.List || data.List.length === 0) {
+        return null;
+      }
+
+      return String(data.List[0].season_year);
+    } catch (error) {
+      console.error(`Error getting season ${seasonId}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Fetch and organize matchups with override support
    */
@@ -246,6 +271,8 @@ export class MatchupService {
       console.log(`📊 Processing ${conferences.length} conferences for week ${week}, season ${seasonId}`);
 
       const allMatchups: OrganizedMatchup[] = [];
+      // Week status is keyed by Supabase season, so resolve it through the legacy season's year
+      const weekStatus = await MatchupStatusService.getWeekStatusForYear(await this.getSeasonYear(seasonId), week);
 
       for (const conference of conferences) {
         try {
@@ -288,7 +315,8 @@ export class MatchupService {
                   conference,
                   sleeperMatchups,
                   sleeperRosters,
-                  sleeperUsers
+                  sleeperUsers,
+                  weekStatus
                 );
 
                 if (organizedMatchup) {
@@ -309,7 +337,8 @@ export class MatchupService {
                 sleeperUsers,
                 teams,
                 conference,
-                overrides
+                overrides,
+                weekStatus
               );
               conferenceMatchups.push(...sleeperOrganizedMatchups);
             } else {
@@ -343,7 +372,8 @@ export class MatchupService {
   conference: Conference,
   sleeperMatchups: any[],
   sleeperRosters: any[],
-  sleeperUsers: any[])
+  sleeperUsers: any[],
+  weekStatus: WeekStatus)
   : Promise<OrganizedMatchup | null> {
     try {
       console.log(`⚔️ Processing DB matchup ${dbMatchup.id}: Team ${dbMatchup.team_1_id} vs Team ${dbMatchup.team_2_id}${dbMatchup.is_manual_override ? ' (OVERRIDDEN)' : ''}`);
@@ -492,7 +522,12 @@ export class MatchupService {
           matchup_starters: team2SleeperData?.starters || []
         }],
 
-        status: this.determineMatchupStatus(dbMatchup, team1SleeperData, team2SleeperData),
+        status: MatchupStatusService.getDisplayStatus({
+          matchup_status: dbMatchup.status,
+          winning_team_id: dbMatchup.winner_id,
+          team1_score: this.getTeamScore(dbMatchup, 'team_1', team1SleeperData),
+          team2_score: this.getTeamScore(dbMatchup, 'team_2', team2SleeperData)
+        }, weekStatus),
         rawData: {
           dbMatchup,
           team1SleeperData,
@@ -521,7 +556,8 @@ export class MatchupService {
   sleeperUsers: any[],
   teams: Team[],
   conference: Conference,
-  overrides: MatchupOverride[])
+  overrides: MatchupOverride[],
+  weekStatus: WeekStatus)
   : Promise<OrganizedMatchup[]> {
     try {
       console.log(`🏈 Processing ${sleeperMatchups.length} Sleeper matchups for ${conference.conference_name}`);
@@ -585,7 +621,10 @@ export class MatchupService {
               matchup_starters: team2SleeperData.starters || []
             }],
 
-            status: this.determineSleeperMatchupStatus(team1SleeperData, team2SleeperData),
+            status: MatchupStatusService.getDisplayStatus({
+              team1_score: team1SleeperData.points,
+              team2_score: team2SleeperData.points
+            }, weekStatus),
             rawData: {
               team1SleeperData,
               team2SleeperData,
@@ -625,28 +664,6 @@ export class MatchupService {
     }
   }
 
-  /**
-   * Determine matchup status for Sleeper-only data
-   */
-  private static determineSleeperMatchupStatus(
-  team1Data: any,
-  team2Data: any)
-  : 'live' | 'completed' | 'upcoming' {
-    // Check if either team has points > 0
-    const hasPoints = (team1Data?.points || 0) > 0 || (team2Data?.points || 0) > 0;
-
-    if (hasPoints) {
-      // If both teams have final scores, it's completed
-      if ((team1Data?.points || 0) > 0 && (team2Data?.points || 0) > 0) {
-        return 'completed';
-      }
-      // If only one team has points, it's live
-      return 'live';
-    }
-
-    return 'upcoming';
-  }
-
   /**
    * Apply overrides to database matchups (HYBRID PROCESSING)
    * This preserves all database matchup data while applying team assignment overrides
@@ -776,34 +793,6 @@ export class MatchupService {
     // Otherwise use Sleeper API score
     return sleeperData?.points || 0;
   }
-
-  /**
-   * Determine matchup status
-   */
-  private static determineMatchupStatus(
-  dbMatchup: DatabaseMatchup | any,
-  team1Data?: SleeperMatchup,
-  team2Data?: SleeperMatchup)
-  : 'live' | 'completed' | 'upcoming' {
-    // Check if manually marked as complete
-    if (dbMatchup.is_manual_override && dbMatchup.status === 'complete') {
-      return 'completed';
-    }
-
-    // Check if either team has points > 0
-    const hasPoints = (team1Data?.points || 0) > 0 || (team2Data?.points || 0) > 0;
-
-    if (hasPoints) {
-      // If both teams have final scores, it's completed
-      if ((team1Data?.points || 0) > 0 && (team2Data?.points || 0) > 0) {
-        return 'completed';
-      }
-      // If only one team has points, it's live
-      return 'live';
-    }
-
-    return 'upcoming';
-  }
 }
 
 export default MatchupService;
\ No newline at end of file
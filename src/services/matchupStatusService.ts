@@ -0,0 +1,223 @@
+import { DatabaseService } from '@/services/databaseService';
+import SleeperApiService, { SleeperNFLState, SleeperScheduleGame } from '@/services/sleeperApi';
+
+/**
+ * Where a matchup is in its week:
+ * - upcoming: no NFL game in the week has kicked off
+ * - live: the week's NFL games are being played
+ * - pending_corrections: every game is over but NFL stat corrections can still change scores,
+ *   or a detected correction is waiting for review
+ * - final: the stat correction window has closed and no correction is waiting
+ */
+export type MatchupLifecycleStatus = 'upcoming' | 'live' | 'pending_corrections' | 'final';
+
+// The three states the matchup pages show
+export type MatchupDisplayStatus = 'live' | 'completed' | 'upcoming';
+
+// A matchup's recorded result and current points, from the database or Sleeper
+export interface MatchupStatusInput {
+  matchup_status?: string | null;
+  winning_team_id?: number | null;
+  team1_score?: number | null;
+  team2_score?: number | null;
+  has_pending_correction?: boolean; // A detected stat correction is waiting for admin review
+}
+
+export interface WeekStatus {
+  season_year: string | null;
+  week: number;
+  games: number; // NFL games scheduled this week
+  games_started: number; // In progress or complete
+  games_complete: number;
+  first_kickoff: number | null; // Epoch ms
+  last_kickoff: number | null;
+  nfl_state: SleeperNFLState | null;
+}
+
+// NFL stat corrections are settled by the end of the week after the games, so scores can
+// still move for this long after the last kickoff
+const STAT_CORRECTION_WINDOW = 4 * 24 * 60 * 60 * 1000;
+
+// Schedule and NFL state are refreshed at most once a minute
+const SCHEDULE_TTL = 60 * 1000;
+
+/**
+ * One place that decides whether a matchup is upcoming, live, waiting on stat corrections
+ * or final, driven by the NFL schedule for the week and Sleeper's NFL state, so every page
+ * agrees on a matchup's status.
+ */
+export class MatchupStatusService {
+  private static scheduleCache = new Map<string, {data: SleeperScheduleGame[];fetchedAt: number;}>();
+  private static nflStateCache: {data: SleeperNFLState;fetchedAt: number;} | null = null;
+  private static seasonYearCache = new Map<number, string>();
+
+  /**
+   * Load the NFL schedule and state for a league week. Anything that cannot be loaded is
+   * left empty and the status falls back to what is known.
+   */
+  static async getWeekStatus(seasonId: number, week: number): Promise<WeekStatus> {
+    return this.getWeekStatusForYear(await this.getSeasonYear(seasonId), week);
+  }
+
+  /**
+   * Load the NFL schedule and state for a week of an NFL season, for callers that know the
+   * season year rather than the league season
+   */
+  static async getWeekStatusForYear(seasonYear: string | null, week: number): Promise<WeekStatus> {
+    const nflState = await this.getNFLState();
+    const games = seasonYear ? await this.getWeekGames(seasonYear, week) : [];
+    const kickoffs = games.map((game) => Date.parse(game.date)).filter((time) => !isNaN(time));
+
+    return {
+      season_year: seasonYear,
+      week,
+      games: games.length,
+      games_started: games.filter((game) => game.status !== 'pre_game').length,
+      games_complete: games.filter((game) => game.status === 'complete').length,
+      first_kickoff: kickoffs.length > 0 ? Math.min(...kickoffs) : null,
+      last_kickoff: kickoffs.length > 0 ? Math.max(...kickoffs) : null,
+      nfl_state: nflState
+    };
+  }
+
+  /**
+   * NFL games in a week of the regular season schedule
+   */
+  static async getWeekGames(seasonYear: string, week: number): Promise<SleeperScheduleGame[]> {
+    const cached = this.scheduleCache.get(seasonYear);
+    if (cached && Date.now() - cached.fetchedAt < SCHEDULE_TTL) {
+      return cached.data.filter((game) => game.week === week);
+    }
+
+    try {
+      const data = await SleeperApiService.fetchNFLSchedule('regular', seasonYear);
+      this.scheduleCache.set(seasonYear, { data, fetchedAt: Date.now() });
+      return data.filter((game) => game.week === week);
+    } catch (error) {
+      console.error('Error loading NFL schedule for matchup status:', error);
+      return (cached?.data || []).filter((game) => game.week === week);
+    }
+  }
+
+  /**
+   * Resolve a matchup's status for its week
+   */
+  static resolveStatus(matchup: MatchupStatusInput, weekStatus: WeekStatus, now: number = Date.now()): MatchupLifecycleStatus {
+    if (matchup.has_pending_correction) {
+      return 'pending_corrections';
+    }
+
+    // The weekly sync records results before stat corrections come in, so a recorded result
+    // is only final once the correction window has closed
+    if (matchup.matchup_status === 'complete' || matchup.winning_team_id) {
+      return this.isCorrectionWindowOpen(weekStatus, now) ? 'pending_corrections' : 'final';
+    }
+
+    const hasPoints = (Number(matchup.team1_score) || 0) > 0 || (Number(matchup.team2_score) || 0) > 0;
+
+    if (weekStatus.games > 0) {
+      if (weekStatus.games_complete === weekStatus.games) {
+        return this.isCorrectionWindowOpen(weekStatus, now) ? 'pending_corrections' : 'final';
+      }
+
+      // Sleeper points can arrive before the schedule shows the first game under way
+      if (weekStatus.games_started > 0 || hasPoints) {
+        return 'live';
+      }
+
+      return 'upcoming';
+    }
+
+    return this.resolveFromNFLState(hasPoints, weekStatus);
+  }
+
+  /**
+   * Collapse a lifecycle status into the three states the pages show
+   */
+  static toDisplayStatus(status: MatchupLifecycleStatus): MatchupDisplayStatus {
+    switch (status) {
+      case 'live':
+        return 'live';
+      case 'pending_corrections':
+      case 'final':
+        return 'completed';
+      default:
+        return 'upcoming';
+    }
+  }
+
+  /**
+   * Resolve a matchup's status and collapse it for display
+   */
+  static getDisplayStatus(matchup: MatchupStatusInput, weekStatus: WeekStatus): MatchupDisplayStatus {
+    return this.toDisplayStatus(this.resolveStatus(matchup, weekStatus));
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  // Every game of the week is over and stat corrections can still arrive
+  private static isCorrectionWindowOpen(weekStatus: WeekStatus, now: number): boolean {
+    if (weekStatus.games > 0) {
+      if (weekStatus.games_complete < weekStatus.games) return false;
+      return now - (weekStatus.last_kickoff ?? now) < STAT_CORRECTION_WINDOW;
+    }
+    return this.resolveFromNFLState(false, weekStatus) === 'pending_corrections';
+  }
+
+  // Without a schedule for the week (not loaded, or past the NFL regular season) the
+  // current NFL week decides: earlier weeks are over, the previous one may still be corrected
+  private static resolveFromNFLState(hasPoints: boolean, weekStatus: WeekStatus): MatchupLifecycleStatus {
+    const state = weekStatus.nfl_state;
+    if (!state || !weekStatus.season_year) {
+      return hasPoints ? 'live' : 'upcoming';
+    }
+
+    const seasonYear = parseInt(weekStatus.season_year);
+    const stateSeason = parseInt(state.season);
+    if (seasonYear < stateSeason) return 'final';
+    if (seasonYear > stateSeason || state.season_type === 'pre') return 'upcoming';
+    if (state.season_type === 'off') return 'final';
+
+    if (weekStatus.week < state.week - 1) return 'final';
+    if (weekStatus.week === state.week - 1) return 'pending_corrections';
+    if (weekStatus.week === state.week) return hasPoints ? 'live' : 'upcoming';
+    return 'upcoming';
+  }
+
+  private static async getNFLState(): Promise<SleeperNFLState | null> {
+    if (this.nflStateCache && Date.now() - this.nflStateCache.fetchedAt < SCHEDULE_TTL) {
+      return this.nflStateCache.data;
+    }
+
+    try {
+      const data = await SleeperApiService.getNFLState();
+      this.nflStateCache = { data, fetchedAt: Date.now() };
+      return data;
+    } catch (error) {
+      console.error('Error loading NFL state for matchup status:', error);
+      return this.nflStateCache?.data || null;
+    }
+  }
+
+  private static async getSeasonYear(seasonId: number): Promise<string | null> {
+    const cached = this.seasonYearCache.get(seasonId);
+    if (cached) return cached;
+
+    const { data, error } = await DatabaseService.getSeasons({
+      filters: [{ column: 'id', operator: 'eq', value: seasonId }],
+      limit: 1
+    });
+
+    if (error || data.length === 0) {
+      console.error('Error loading season for matchup status:', error);
+      return null;
+    }
+
+    this.seasonYearCache.set(seasonId, data[0].season_year);
+    return data[0].season_year;
+  }
+}
+
+export default MatchupStatusService;
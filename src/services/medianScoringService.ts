@@ -0,0 +1,186 @@
+import { DatabaseService } from '@/services/databaseService';
+import { DbMatchup, DbSeason } from '@/types/database';
+
+export type MedianScoringMode = NonNullable<DbSeason['median_scoring_mode']>;
+
+export const MEDIAN_SCORING_MODE_LABELS: Record<MedianScoringMode, string> = {
+  off: 'Off',
+  conference: 'Conference Median',
+  league: 'League Median'
+};
+
+export interface MedianGame {
+  week: number;
+  conference_id: number;
+  team1_id: number;
+  team2_id: number;
+  team1_score: number;
+  team2_score: number;
+}
+
+export interface MedianResult {
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+// Shape of matchups read through the legacy table API (team_1_id, team_1_score, ...)
+export interface LegacyMatchup {
+  week: number | string;
+  conference_id: number;
+  team_1_id: number;
+  team_2_id: number;
+  team_1_score: number;
+  team_2_score: number;
+  is_playoff?: boolean;
+}
+
+/**
+ * "Vs. median" scoring: on top of its head-to-head result, every team gets an extra
+ * win when it outscores the median of its conference (or of the whole league) that
+ * week, an extra loss when it falls below, and a tie when it lands exactly on it.
+ */
+export class MedianScoringService {
+
+  /**
+   * Extra wins, losses and ties per team for the given mode. Returns an empty map when the mode is off.
+   * In conference mode each score counts toward its own team's conference from `conferenceByTeam`,
+   * so an interconference opponent lands in its own conference's median; teams missing from it
+   * fall back to the matchup's conference.
+   */
+  static calculateMedianResults(
+    games: MedianGame[],
+    mode: MedianScoringMode,
+    conferenceByTeam: Map<number, number> = new Map())
+  : Map<number, MedianResult> {
+    const results = new Map<number, MedianResult>();
+    if (mode === 'off') {
+      return results;
+    }
+
+    // Group each week's scores by conference, or into a single league-wide pool
+    const pools = new Map<string, Map<number, number>>();
+    const addScore = (week: number, teamId: number, conferenceId: number, score: number) => {
+      const key = mode === 'conference' ? `${week}_${conferenceByTeam.get(teamId) ?? conferenceId}` : `${week}`;
+      if (!pools.has(key)) {
+        pools.set(key, new Map());
+      }
+      pools.get(key)!.set(teamId, score);
+    };
+    games.forEach((game) => {
+      addScore(game.week, game.team1_id, game.conference_id, game.team1_score);
+      addScore(game.week, game.team2_id, game.conference_id, game.team2_score);
+    });
+
+    pools.forEach((scores) => {
+      if (scores.size < 2) return;
+
+      const median = this.median([...scores.values()]);
+      scores.forEach((score, teamId) => {
+        if (!results.has(teamId)) {
+          results.set(teamId, { wins: 0, losses: 0, ties: 0 });
+        }
+        const result = results.get(teamId)!;
+        if (score > median) {
+          result.wins++;
+        } else if (score < median) {
+          result.losses++;
+        } else {
+          result.ties++;
+        }
+      });
+    });
+
+    return results;
+  }
+
+  /**
+   * Load the median scoring mode for a season, falling back to off
+   */
+  static async getSeasonMode(seasonId: number): Promise<MedianScoringMode> {
+    try {
+      const { data: seasons, error } = await DatabaseService.getSeasons({
+        filters: [{ column: 'id', operator: 'eq', value: seasonId }],
+        limit: 1
+      });
+
+      if (error || seasons.length === 0) {
+        return 'off';
+      }
+
+      return this.normalizeMode(seasons[0].median_scoring_mode);
+    } catch (error) {
+      console.error('Error fetching median scoring mode:', error);
+      return 'off';
+    }
+  }
+
+  /**
+   * Save the median scoring mode for a season
+   */
+  static async saveSeasonMode(seasonId: number, mode: MedianScoringMode): Promise<{ success: boolean; error?: unknown }> {
+    const { error } = await DatabaseService.updateSeason(seasonId, {
+      median_scoring_mode: this.normalizeMode(mode)
+    });
+
+    if (error) {
+      return { success: false, error };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Convert completed regular season database matchups into median games
+   */
+  static toMedianGames(matchups: DbMatchup[]): MedianGame[] {
+    return matchups.
+    filter((m) => !m.is_playoff && !m.is_bye && m.team2_id).
+    filter((m) => m.matchup_status === 'complete' || Boolean(m.winning_team_id)).
+    map((m) => ({
+      week: parseInt(m.week),
+      conference_id: m.conference_id,
+      team1_id: m.team1_id,
+      team2_id: m.team2_id as number,
+      team1_score: Number(m.team1_score) || 0,
+      team2_score: Number(m.team2_score) || 0
+    }));
+  }
+
+  /**
+   * Convert completed matchups from the legacy table API into median games
+   */
+  static fromLegacyMatchups(matchups: LegacyMatchup[]): MedianGame[] {
+    return matchups.
+    filter((m) => !m.is_playoff && m.team_2_id).
+    map((m) => ({
+      week: typeof m.week === 'string' ? parseInt(m.week) : m.week,
+      conference_id: m.conference_id,
+      team1_id: m.team_1_id,
+      team2_id: m.team_2_id,
+      team1_score: Number(m.team_1_score) || 0,
+      team2_score: Number(m.team_2_score) || 0
+    }));
+  }
+
+  /**
+   * Treat missing or unknown values as off
+   */
+  static normalizeMode(mode?: string | null): MedianScoringMode {
+    return mode && mode in MEDIAN_SCORING_MODE_LABELS ? mode as MedianScoringMode : 'off';
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private static median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ?
+    (sorted[middle - 1] + sorted[middle]) / 2 :
+    sorted[middle];
+  }
+}
+
+export default MedianScoringService;
@@ -78,6 +78,7 @@ export class MigrationAdapter {
       'draft_results': 'draft_results',
       'transactions': 'transactions',
       'playoff_bracket': 'playoff_bracket',
+      'playoff_formats': 'playoff_formats',
       'matchup_admin_override': 'matchup_admin_override',
       'team_rosters': 'team_rosters'
     };
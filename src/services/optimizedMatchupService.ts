@@ -1,7 +1,8 @@
 // Optimized Matchup Service with improved performance
 import { DatabaseService } from './databaseService';
 import SleeperApiService, { SleeperMatchup, SleeperRoster, SleeperUser, SleeperPlayer } from './sleeperApi';
-import { DbMatchup, DbConference, DbTeam, DbPlayoffBracket } from '@/types/database';
+import { MatchupStatusService } from './matchupStatusService';
+import { DbMatchup, DbConference, DbTeam, DbPlayoffBracket, PaginatedResponse } from '@/types/database';
 
 // Performance-optimized caching layer
 class MatchupDataCache {
@@ -96,7 +97,10 @@ export class OptimizedMatchupService {
       const startTime = performance.now();
 
       // Batch all database queries in parallel
-      const batchData = await this.getMatchupDataBatch(seasonId, week, conferenceId);
+      const [batchData, weekStatus] = await Promise.all([
+        this.getMatchupDataBatch(seasonId, week, conferenceId),
+        MatchupStatusService.getWeekStatus(seasonId, week)
+      ]);
       const { conferences, teams, junctions, matchups } = batchData;
 
       console.log(`📊 Batch data loaded in ${(performance.now() - startTime).toFixed(2)}ms`);
@@ -134,7 +138,7 @@ export class OptimizedMatchupService {
               roster_id: team1Junction?.roster_id || 0
             }
           ],
-          status: this.determineMatchupStatus(dbMatchup),
+          status: MatchupStatusService.getDisplayStatus(dbMatchup, weekStatus),
           week: parseInt(dbMatchup.week),
           is_playoff: dbMatchup.is_playoff || false,
           is_bye: dbMatchup.is_bye || false
@@ -288,24 +292,15 @@ export class OptimizedMatchupService {
     week: number,
     conferenceId?: number
   ) {
-    const queries = [
-      DatabaseService.getConferences({
-        filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
-      }),
-      DatabaseService.getTeams({ limit: 500 }),
-      DatabaseService.getTeamConferenceJunctions({ limit: 1000 })
-    ];
-
-    // Add matchup query based on week
+    // Playoff weeks come from the bracket table
+    let matchupsQuery: Promise<PaginatedResponse<DbMatchup | DbPlayoffBracket>>;
     if (week >= 13) {
-      queries.push(
-        DatabaseService.getPlayoffBrackets({
-          filters: [
-            { column: 'season_id', operator: 'eq', value: seasonId },
-            { column: 'week', operator: 'eq', value: week }
-          ]
-        })
-      );
+      matchupsQuery = DatabaseService.getPlayoffBrackets({
+        filters: [
+          { column: 'season_id', operator: 'eq', value: seasonId },
+          { column: 'week', operator: 'eq', value: week }
+        ]
+      });
     } else {
       const matchupFilters = [
         { column: 'week', operator: 'eq' as const, value: week.toString() }
@@ -315,15 +310,20 @@ export class OptimizedMatchupService {
         matchupFilters.push({ column: 'conference_id', operator: 'eq' as const, value: conferenceId });
       }
 
-      queries.push(
-        DatabaseService.getMatchups({
-          filters: matchupFilters,
-          limit: 100
-        })
-      );
+      matchupsQuery = DatabaseService.getMatchups({
+        filters: matchupFilters,
+        limit: 100
+      });
     }
 
-    const [conferences, teams, junctions, matchups] = await Promise.all(queries);
+    const [conferences, teams, junctions, matchups] = await Promise.all([
+      DatabaseService.getConferences({
+        filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+      }),
+      DatabaseService.getTeams({ limit: 500 }),
+      DatabaseService.getTeamConferenceJunctions({ limit: 1000 }),
+      matchupsQuery
+    ]);
 
     return {
       conferences: conferences.data || [],
@@ -414,21 +414,6 @@ export class OptimizedMatchupService {
     }
   }
 
-  /**
-   * Determine matchup status from database data
-   */
-  private static determineMatchupStatus(matchup: any): 'live' | 'completed' | 'upcoming' {
-    if (matchup.matchup_status === 'complete' || matchup.winning_team_id) {
-      return 'completed';
-    }
-    
-    if (matchup.team1_score > 0 || matchup.team2_score > 0) {
-      return 'live';
-    }
-    
-    return 'upcoming';
-  }
-
   /**
    * Clear all caches (useful for debugging or forced refresh)
    */
@@ -0,0 +1,299 @@
+import { DatabaseService } from '@/services/databaseService';
+import { DbMatchup, DbPlayoffBracket, DbPlayoffFormat } from '@/types/database';
+
+export interface ClinchTeam {
+  team_id: number;
+  conference_id: number;
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+export interface RemainingGame {
+  week: number;
+  team1_id: number;
+  team2_id: number;
+}
+
+export interface ClinchStatus {
+  team_id: number;
+  clinched_playoffs: boolean; // x
+  clinched_bye: boolean; // y
+  clinched_conference: boolean; // z, won the conference championship game
+  eliminated: boolean; // e
+  magic_number: number | null; // Further wins that clinch a playoff spot whatever else happens, null when eliminated
+  remaining_games: number;
+}
+
+export interface SeedableTeam {
+  team_id: number;
+  conference_id: number;
+  overall_rank: number;
+  conference_rank: number;
+}
+
+interface WinRange {
+  team: ClinchTeam;
+  current: number;
+  max: number;
+}
+
+/**
+ * Playoff clinch and elimination calculator.
+ *
+ * Seeding follows the league format: every conference champion gets a playoff spot
+ * (seeds 1-3), the remaining spots go to the best non-champions overall, and the top
+ * `week_14_byes` seeds get a first-round bye. The regular season ends two weeks before
+ * `playoff_start_week`; the week in between is each conference's championship game between
+ * its top two teams, so a conference title is only clinched by winning that game. A clinch
+ * is only reported when it holds in every outcome of the remaining games, treating a tie in
+ * the standings as a loss of the tiebreaker, so the badges never have to be taken back.
+ */
+export class PlayoffClinchService {
+
+  /**
+   * Calculate clinch and elimination status for every team. `conferenceChampions` are the
+   * winners of the conference championship games played so far.
+   */
+  static calculateClinchStatuses(
+    teams: ClinchTeam[],
+    remainingGames: RemainingGame[],
+    playoffFormat: Pick<DbPlayoffFormat, 'playoff_teams' | 'week_14_byes'>,
+    conferenceChampions: number[] = []
+  ): Map<number, ClinchStatus> {
+    const remainingByTeam = new Map<number, number>();
+    remainingGames.forEach((game) => {
+      remainingByTeam.set(game.team1_id, (remainingByTeam.get(game.team1_id) || 0) + 1);
+      remainingByTeam.set(game.team2_id, (remainingByTeam.get(game.team2_id) || 0) + 1);
+    });
+
+    const ranges: WinRange[] = teams.map((team) => {
+      const current = this.winTotal(team);
+      return { team, current, max: current + (remainingByTeam.get(team.team_id) || 0) };
+    });
+
+    const conferenceIds = [...new Set(teams.map((team) => team.conference_id))];
+    const champions = new Set(conferenceChampions);
+    const decidedConferences = new Set(
+      teams.filter((team) => champions.has(team.team_id)).map((team) => team.conference_id)
+    );
+    const statuses = new Map<number, ClinchStatus>();
+
+    ranges.forEach((range) => {
+      const others = ranges.filter((other) => other.team.team_id !== range.team.team_id);
+      const clinchedConference = champions.has(range.team.team_id);
+      const lostConference = !clinchedConference && decidedConferences.has(range.team.conference_id);
+      const seedsAhead = this.worstCaseSeedsAhead(range.current, range.team.conference_id, clinchedConference, others, conferenceIds);
+
+      // As a champion only other conference champions can be seeded ahead
+      const championSeedsAhead = clinchedConference ?
+      conferenceIds.filter((id) => id !== range.team.conference_id).
+      filter((id) => others.some((other) =>
+      other.team.conference_id === id && other.max >= range.current &&
+      (!decidedConferences.has(id) || champions.has(other.team.team_id))
+      )).length :
+      seedsAhead;
+
+      const clinchedPlayoffs = clinchedConference || seedsAhead < playoffFormat.playoff_teams;
+      const clinchedBye = Math.min(seedsAhead, championSeedsAhead) < playoffFormat.week_14_byes;
+      const eliminated = !clinchedPlayoffs &&
+      this.isEliminated(range, others, conferenceIds, lostConference, playoffFormat.playoff_teams);
+
+      statuses.set(range.team.team_id, {
+        team_id: range.team.team_id,
+        clinched_playoffs: clinchedPlayoffs,
+        clinched_bye: clinchedBye,
+        clinched_conference: clinchedConference,
+        eliminated,
+        magic_number: eliminated ? null : clinchedPlayoffs ? 0 : this.magicNumber(range, others, conferenceIds, playoffFormat.playoff_teams),
+        remaining_games: remainingByTeam.get(range.team.team_id) || 0
+      });
+    });
+
+    return statuses;
+  }
+
+  /**
+   * Project playoff seeds from the current standings: conference champions first, then the best non-champions
+   */
+  static projectSeeds<T extends SeedableTeam>(teams: T[]): Map<number, number> {
+    const byOverallRank = [...teams].sort((a, b) => a.overall_rank - b.overall_rank);
+    const champions = byOverallRank.filter((team) => team.conference_rank === 1);
+    const nonChampions = byOverallRank.filter((team) => team.conference_rank !== 1);
+
+    const seeds = new Map<number, number>();
+    [...champions, ...nonChampions].forEach((team, index) => {
+      seeds.set(team.team_id, index + 1);
+    });
+    return seeds;
+  }
+
+  /**
+   * Last week of a season's regular season, from its active playoff format (two weeks
+   * before `playoff_start_week`, which defaults to 14)
+   */
+  static async getRegularSeasonEnd(seasonId: number): Promise<number> {
+    const { data, error } = await DatabaseService.getPlayoffFormats({
+      filters: [
+      { column: 'season_id', operator: 'eq', value: seasonId },
+      { column: 'is_active', operator: 'eq', value: true }],
+
+      limit: 1
+    });
+
+    if (error) {
+      console.error('Error fetching playoff format:', error);
+    }
+
+    return (data?.[0]?.playoff_start_week || 14) - 2;
+  }
+
+  /**
+   * Winners of the conference championship games, played the week before `playoffStartWeek`.
+   * With asOfWeek, only games played by then count.
+   */
+  static async getConferenceChampions(seasonId: number, playoffStartWeek: number = 14, asOfWeek?: number): Promise<number[]> {
+    const championshipWeek = playoffStartWeek - 1;
+    if (asOfWeek !== undefined && asOfWeek < championshipWeek) {
+      return [];
+    }
+
+    const { data: brackets, error } = await DatabaseService.getPlayoffBrackets({
+      filters: [
+      { column: 'season_id', operator: 'eq', value: seasonId },
+      { column: 'week', operator: 'eq', value: championshipWeek }]
+
+    });
+
+    if (error) {
+      console.error('Error fetching conference championship results:', error);
+      return [];
+    }
+
+    return (brackets || []).
+    map((bracket: DbPlayoffBracket) => bracket.winning_team_id).
+    filter((teamId): teamId is number => !!teamId);
+  }
+
+  /**
+   * Get the unplayed regular season games for a season. With asOfWeek, every game
+   * after that week counts as unplayed so past weeks can be revisited.
+   */
+  static async getRemainingGames(seasonId: number, playoffStartWeek: number = 14, asOfWeek?: number): Promise<RemainingGame[]> {
+    const { data: conferences } = await DatabaseService.getConferences({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+    });
+
+    const conferenceIds = conferences.map((c) => c.id);
+    if (conferenceIds.length === 0) {
+      return [];
+    }
+
+    const { data: matchups, error } = await DatabaseService.getMatchups({
+      filters: [{ column: 'conference_id', operator: 'in', value: conferenceIds }]
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch matchups: ${error.message || error}`);
+    }
+
+    return this.toRemainingGames(matchups, playoffStartWeek, asOfWeek);
+  }
+
+  /**
+   * Keep regular season matchups that have not been completed yet (or come after asOfWeek).
+   * The regular season ends before the conference championship week.
+   */
+  static toRemainingGames(matchups: DbMatchup[], playoffStartWeek: number = 14, asOfWeek?: number): RemainingGame[] {
+    const regularSeasonEnd = playoffStartWeek - 2;
+    return matchups.
+    filter((m) => !m.is_playoff && !m.is_bye && m.team2_id).
+    filter((m) => parseInt(m.week) <= regularSeasonEnd).
+    filter((m) => asOfWeek !== undefined ?
+    parseInt(m.week) > asOfWeek :
+    m.matchup_status !== 'complete' && !m.winning_team_id).
+    map((m) => ({
+      week: parseInt(m.week),
+      team1_id: m.team1_id,
+      team2_id: m.team2_id as number
+    }));
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  // Ties count as half a win so records with ties compare correctly
+  private static winTotal(team: ClinchTeam): number {
+    return (team.wins || 0) + (team.ties || 0) * 0.5;
+  }
+
+  /**
+   * Upper bound on seeds that can finish ahead of a team that ends with `wins`:
+   * every team that can reach that total, plus one champion from each conference
+   * where nobody can (that champion takes a spot regardless of record). That includes
+   * the team's own conference unless it is the champion, since the runner-up can win
+   * the championship game.
+   */
+  private static worstCaseSeedsAhead(
+    wins: number,
+    conferenceId: number,
+    isChampion: boolean,
+    others: WinRange[],
+    conferenceIds: number[]
+  ): number {
+    const threats = others.filter((other) => other.max >= wins);
+    const conferencesWithoutThreats = conferenceIds.filter((id) =>
+    (id !== conferenceId || !isChampion) &&
+    others.some((other) => other.team.conference_id === id) &&
+    !threats.some((threat) => threat.team.conference_id === id)
+    );
+    return threats.length + conferencesWithoutThreats.length;
+  }
+
+  /**
+   * A team is eliminated when it cannot win its conference and, even if it wins out,
+   * the teams certainly ahead of it plus the other conference champions fill every spot.
+   * A team can still win its conference while it can reach the top two and the
+   * championship game has not been played.
+   */
+  private static isEliminated(
+    range: WinRange,
+    others: WinRange[],
+    conferenceIds: number[],
+    lostConference: boolean,
+    playoffTeams: number
+  ): boolean {
+    const certainlyAhead = others.filter((other) => other.current > range.max);
+    const conferenceTeamsAhead = certainlyAhead.filter((other) => other.team.conference_id === range.team.conference_id).length;
+    if (!lostConference && conferenceTeamsAhead < 2) {
+      return false;
+    }
+
+    const otherChampionSpots = conferenceIds.filter((id) =>
+    id !== range.team.conference_id && !certainlyAhead.some((other) => other.team.conference_id === id)
+    ).length;
+
+    return certainlyAhead.length + otherChampionSpots >= playoffTeams;
+  }
+
+  /**
+   * Fewest further wins that clinch a playoff spot however every other game goes
+   */
+  private static magicNumber(
+    range: WinRange,
+    others: WinRange[],
+    conferenceIds: number[],
+    playoffTeams: number
+  ): number {
+    const ceiling = Math.max(...others.map((other) => other.max), range.current) + 1;
+    let magic = 0;
+    while (range.current + magic < ceiling &&
+    this.worstCaseSeedsAhead(range.current + magic, range.team.conference_id, false, others, conferenceIds) >= playoffTeams) {
+      magic++;
+    }
+    return Math.ceil(magic);
+  }
+}
+
+export default PlayoffClinchService;
@@ -0,0 +1,433 @@
+import { DatabaseService } from '@/services/databaseService';
+import { TiebreakerService, TiebreakerRule, TiebreakerGame } from '@/services/tiebreakerService';
+import { DbMatchup, DbPlayoffBracket, DbPlayoffFormat } from '@/types/database';
+
+export interface PlayoffOddsTeam {
+  team_id: number;
+  conference_id: number;
+}
+
+export interface ScheduledGame {
+  week: number;
+  team1_id: number;
+  team2_id: number;
+  team1_score: number;
+  team2_score: number;
+  winning_team_id: number | null;
+  completed: boolean;
+}
+
+export interface TeamPlayoffOdds {
+  team_id: number;
+  make_playoffs: number; // Probabilities between 0 and 1
+  earn_bye: number;
+  win_conference: number;
+  win_championship: number;
+  projected_wins: number;
+  average_seed: number | null; // Average seed in simulations where the team made the playoffs
+}
+
+export interface PlayoffOddsOptions {
+  simulations?: number;
+  seed?: number;
+  // Treat games after this week as unplayed (defaults to every completed game)
+  asOfWeek?: number;
+  // Known conference champions, used once the conference championship has been played
+  conferenceChampions?: Map<number, number>;
+}
+
+export interface SeasonPlayoffOdds {
+  asOfWeek: number;
+  current: Map<number, TeamPlayoffOdds>;
+  previous: Map<number, TeamPlayoffOdds> | null; // Odds one week earlier, for movement
+}
+
+type PlayoffFormatRules = Pick<DbPlayoffFormat, 'playoff_teams' | 'week_14_byes' | 'reseed' | 'playoff_start_week'>;
+
+interface ScoringModel {
+  mean: number;
+  sd: number;
+}
+
+interface SimTeamRecord {
+  team_id: number;
+  conference_id: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  win_percentage: number;
+  points_for: number;
+  points_against: number;
+}
+
+const DEFAULT_SIMULATIONS = 3000;
+// Weight, in games, given to the league-wide scoring distribution when fitting each team
+const PRIOR_GAMES = 3;
+
+/**
+ * Monte Carlo playoff odds simulator.
+ *
+ * Each team's weekly scoring is fitted as a normal distribution, shrunk toward the
+ * league average so early-season odds are not driven by one or two big weeks. The
+ * remaining regular season, the week 13 conference championships (top 2 per
+ * conference) and the playoff bracket from `playoff_formats` are then simulated.
+ */
+export class PlayoffOddsService {
+
+  /**
+   * Simulate the rest of the season and return each team's odds
+   */
+  static simulate(
+    teams: PlayoffOddsTeam[],
+    games: ScheduledGame[],
+    playoffFormat: PlayoffFormatRules,
+    rules: TiebreakerRule[],
+    options: PlayoffOddsOptions = {}
+  ): Map<number, TeamPlayoffOdds> {
+    const simulations = options.simulations || DEFAULT_SIMULATIONS;
+    const random = this.createRandom(options.seed ?? 1);
+    const asOfWeek = options.asOfWeek ?? Infinity;
+    const regularSeasonEnd = playoffFormat.playoff_start_week - 2;
+
+    const regularSeason = games.filter((game) => game.week <= regularSeasonEnd);
+    const played = regularSeason.filter((game) => game.completed && game.week <= asOfWeek);
+    const remaining = regularSeason.filter((game) => !game.completed || game.week > asOfWeek);
+    const models = this.fitScoringModels(teams, played);
+
+    const counts = new Map(teams.map((team) => [team.team_id, {
+      playoffs: 0, bye: 0, conference: 0, championship: 0, wins: 0, seedTotal: 0
+    }]));
+
+    for (let i = 0; i < simulations; i++) {
+      const simulatedGames: TiebreakerGame[] = played.map((game) => this.toTiebreakerGame(game));
+      remaining.forEach((game) => {
+        simulatedGames.push({
+          team1_id: game.team1_id,
+          team2_id: game.team2_id,
+          team1_score: this.sampleScore(models.get(game.team1_id)!, random),
+          team2_score: this.sampleScore(models.get(game.team2_id)!, random),
+          winning_team_id: null
+        });
+      });
+
+      const records = this.buildRecords(teams, simulatedGames);
+      const overall = TiebreakerService.rankTeams(records, simulatedGames, rules, options.seed ?? 1).map((r) => r.team);
+
+      // Week 13 conference championships between the top two teams in each conference
+      const champions: SimTeamRecord[] = [];
+      const conferenceIds = [...new Set(teams.map((team) => team.conference_id))];
+      conferenceIds.forEach((conferenceId) => {
+        const knownChampion = options.conferenceChampions?.get(conferenceId);
+        const conferenceTeams = overall.filter((team) => team.conference_id === conferenceId);
+        const champion = knownChampion ?
+        conferenceTeams.find((team) => team.team_id === knownChampion) :
+        conferenceTeams.length > 1 ?
+        this.playGame(conferenceTeams[0], conferenceTeams[1], models, random) :
+        conferenceTeams[0];
+        if (champion) {
+          champions.push(champion);
+        }
+      });
+
+      // Seeds: conference champions first (by overall standing), then the best remaining teams
+      const championIds = new Set(champions.map((team) => team.team_id));
+      const seeded = [
+      ...overall.filter((team) => championIds.has(team.team_id)),
+      ...overall.filter((team) => !championIds.has(team.team_id))].
+      slice(0, playoffFormat.playoff_teams);
+
+      const championship = this.simulateBracket(seeded, playoffFormat, models, random);
+
+      records.forEach((record) => {
+        const count = counts.get(record.team_id)!;
+        count.wins += record.wins + record.ties * 0.5;
+      });
+      seeded.forEach((team, index) => {
+        const count = counts.get(team.team_id)!;
+        count.playoffs++;
+        count.seedTotal += index + 1;
+        if (index < playoffFormat.week_14_byes) {
+          count.bye++;
+        }
+      });
+      champions.forEach((team) => counts.get(team.team_id)!.conference++);
+      if (championship) {
+        counts.get(championship.team_id)!.championship++;
+      }
+    }
+
+    const odds = new Map<number, TeamPlayoffOdds>();
+    counts.forEach((count, teamId) => {
+      odds.set(teamId, {
+        team_id: teamId,
+        make_playoffs: count.playoffs / simulations,
+        earn_bye: count.bye / simulations,
+        win_conference: count.conference / simulations,
+        win_championship: count.championship / simulations,
+        projected_wins: count.wins / simulations,
+        average_seed: count.playoffs > 0 ? count.seedTotal / count.playoffs : null
+      });
+    });
+    return odds;
+  }
+
+  /**
+   * Load the season schedule and simulate odds for the latest completed week and the week before it
+   */
+  static async getSeasonOdds(
+    seasonId: number,
+    teams: PlayoffOddsTeam[],
+    playoffFormat: PlayoffFormatRules,
+    simulations: number = DEFAULT_SIMULATIONS
+  ): Promise<SeasonPlayoffOdds> {
+    const [games, rules, conferenceChampions] = await Promise.all([
+    this.getSeasonSchedule(seasonId),
+    TiebreakerService.getSeasonRules(seasonId),
+    this.getConferenceChampions(seasonId, teams, playoffFormat.playoff_start_week - 1)]
+    );
+
+    const completedWeeks = games.filter((game) => game.completed).map((game) => game.week);
+    const asOfWeek = completedWeeks.length > 0 ? Math.max(...completedWeeks) : 0;
+
+    const current = this.simulate(teams, games, playoffFormat, rules, {
+      simulations,
+      seed: seasonId,
+      asOfWeek,
+      conferenceChampions
+    });
+
+    const previous = asOfWeek > 0 ?
+    this.simulate(teams, games, playoffFormat, rules, { simulations, seed: seasonId, asOfWeek: asOfWeek - 1 }) :
+    null;
+
+    return { asOfWeek, current, previous };
+  }
+
+  /**
+   * Get every regular season game for a season, played or not
+   */
+  static async getSeasonSchedule(seasonId: number): Promise<ScheduledGame[]> {
+    const { data: conferences } = await DatabaseService.getConferences({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+    });
+
+    const conferenceIds = conferences.map((c) => c.id);
+    if (conferenceIds.length === 0) {
+      return [];
+    }
+
+    const { data: matchups, error } = await DatabaseService.getMatchups({
+      filters: [{ column: 'conference_id', operator: 'in', value: conferenceIds }]
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch matchups: ${error.message || error}`);
+    }
+
+    return this.toScheduledGames(matchups);
+  }
+
+  /**
+   * Convert database matchups into scheduled games, dropping byes and playoff games
+   */
+  static toScheduledGames(matchups: DbMatchup[]): ScheduledGame[] {
+    return matchups.
+    filter((m) => !m.is_playoff && !m.is_bye && m.team2_id).
+    map((m) => ({
+      week: parseInt(m.week),
+      team1_id: m.team1_id,
+      team2_id: m.team2_id as number,
+      team1_score: Number(m.team1_score) || 0,
+      team2_score: Number(m.team2_score) || 0,
+      winning_team_id: m.winning_team_id ?? null,
+      completed: m.matchup_status === 'complete' || Boolean(m.winning_team_id)
+    }));
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private static async getConferenceChampions(
+    seasonId: number,
+    teams: PlayoffOddsTeam[],
+    championshipWeek: number
+  ): Promise<Map<number, number>> {
+    const { data: brackets } = await DatabaseService.getPlayoffBrackets({
+      filters: [
+      { column: 'season_id', operator: 'eq', value: seasonId },
+      { column: 'week', operator: 'eq', value: championshipWeek }]
+
+    });
+
+    const conferenceByTeam = new Map(teams.map((team) => [team.team_id, team.conference_id]));
+    const champions = new Map<number, number>();
+    (brackets || []).forEach((bracket: DbPlayoffBracket) => {
+      if (bracket.winning_team_id && conferenceByTeam.has(bracket.winning_team_id)) {
+        champions.set(conferenceByTeam.get(bracket.winning_team_id)!, bracket.winning_team_id);
+      }
+    });
+    return champions;
+  }
+
+  private static fitScoringModels(teams: PlayoffOddsTeam[], played: ScheduledGame[]): Map<number, ScoringModel> {
+    const scoresByTeam = new Map<number, number[]>(teams.map((team) => [team.team_id, []]));
+    played.forEach((game) => {
+      scoresByTeam.get(game.team1_id)?.push(game.team1_score);
+      scoresByTeam.get(game.team2_id)?.push(game.team2_score);
+    });
+
+    const allScores = [...scoresByTeam.values()].flat();
+    const leagueMean = allScores.length > 0 ? this.mean(allScores) : 100;
+    const leagueVariance = allScores.length > 1 ? this.variance(allScores, leagueMean) : 400;
+
+    const models = new Map<number, ScoringModel>();
+    scoresByTeam.forEach((scores, teamId) => {
+      const n = scores.length;
+      const teamMean = n > 0 ? this.mean(scores) : leagueMean;
+      const teamVariance = n > 1 ? this.variance(scores, teamMean) : leagueVariance;
+      models.set(teamId, {
+        mean: (n * teamMean + PRIOR_GAMES * leagueMean) / (n + PRIOR_GAMES),
+        sd: Math.sqrt((n * teamVariance + PRIOR_GAMES * leagueVariance) / (n + PRIOR_GAMES))
+      });
+    });
+    return models;
+  }
+
+  private static buildRecords(teams: PlayoffOddsTeam[], games: TiebreakerGame[]): SimTeamRecord[] {
+    const records = new Map<number, SimTeamRecord>(teams.map((team) => [team.team_id, {
+      team_id: team.team_id,
+      conference_id: team.conference_id,
+      wins: 0,
+      losses: 0,
+      ties: 0,
+      win_percentage: 0,
+      points_for: 0,
+      points_against: 0
+    }]));
+
+    games.forEach((game) => {
+      const team1 = records.get(game.team1_id);
+      const team2 = records.get(game.team2_id);
+      if (!team1 || !team2) return;
+
+      team1.points_for += game.team1_score;
+      team1.points_against += game.team2_score;
+      team2.points_for += game.team2_score;
+      team2.points_against += game.team1_score;
+
+      const winnerId = game.winning_team_id ||
+      (game.team1_score > game.team2_score ? game.team1_id : game.team2_score > game.team1_score ? game.team2_id : null);
+      if (winnerId === game.team1_id) {
+        team1.wins++;
+        team2.losses++;
+      } else if (winnerId === game.team2_id) {
+        team2.wins++;
+        team1.losses++;
+      } else {
+        team1.ties++;
+        team2.ties++;
+      }
+    });
+
+    return [...records.values()].map((record) => {
+      const totalGames = record.wins + record.losses + record.ties;
+      return {
+        ...record,
+        win_percentage: totalGames > 0 ? (record.wins + record.ties * 0.5) / totalGames : 0
+      };
+    });
+  }
+
+  /**
+   * Simulate the playoff bracket and return the champion. Top seeds get byes in the
+   * first round; remaining teams play highest seed vs lowest seed, reseeding each round
+   * when the format says so.
+   */
+  private static simulateBracket(
+    seeded: SimTeamRecord[],
+    playoffFormat: PlayoffFormatRules,
+    models: Map<number, ScoringModel>,
+    random: () => number
+  ): SimTeamRecord | null {
+    if (seeded.length === 0) return null;
+
+    const seedOf = new Map(seeded.map((team, index) => [team.team_id, index + 1]));
+    const byes = seeded.slice(0, playoffFormat.week_14_byes);
+    const firstRound = seeded.slice(playoffFormat.week_14_byes);
+
+    let alive = [...byes, ...this.playRound(firstRound, models, random)];
+    while (alive.length > 1) {
+      if (playoffFormat.reseed) {
+        alive.sort((a, b) => seedOf.get(a.team_id)! - seedOf.get(b.team_id)!);
+      }
+      alive = this.playRound(alive, models, random);
+    }
+    return alive[0];
+  }
+
+  /**
+   * Pair first vs last, second vs second-to-last, and so on. An odd team out advances.
+   */
+  private static playRound(
+    teams: SimTeamRecord[],
+    models: Map<number, ScoringModel>,
+    random: () => number
+  ): SimTeamRecord[] {
+    const winners: SimTeamRecord[] = [];
+    for (let i = 0, j = teams.length - 1; i <= j; i++, j--) {
+      winners.push(i === j ? teams[i] : this.playGame(teams[i], teams[j], models, random));
+    }
+    return winners;
+  }
+
+  private static playGame(
+    team1: SimTeamRecord,
+    team2: SimTeamRecord,
+    models: Map<number, ScoringModel>,
+    random: () => number
+  ): SimTeamRecord {
+    const score1 = this.sampleScore(models.get(team1.team_id)!, random);
+    const score2 = this.sampleScore(models.get(team2.team_id)!, random);
+    return score1 >= score2 ? team1 : team2;
+  }
+
+  private static toTiebreakerGame(game: ScheduledGame): TiebreakerGame {
+    return {
+      team1_id: game.team1_id,
+      team2_id: game.team2_id,
+      team1_score: game.team1_score,
+      team2_score: game.team2_score,
+      winning_team_id: game.winning_team_id
+    };
+  }
+
+  // Normal sample via Box-Muller, rounded to hundredths like real scores
+  private static sampleScore(model: ScoringModel, random: () => number): number {
+    const u1 = Math.max(random(), Number.EPSILON);
+    const u2 = random();
+    const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+    return Math.round(Math.max(0, model.mean + z * model.sd) * 100) / 100;
+  }
+
+  // Seeded PRNG (mulberry32) so the same inputs always produce the same odds
+  private static createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = state + 0x6d2b79f5 | 0;
+      let t = Math.imul(state ^ state >>> 15, 1 | state);
+      t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t;
+      return ((t ^ t >>> 14) >>> 0) / 4294967296;
+    };
+  }
+
+  private static mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+
+  private static variance(values: number[], mean: number): number {
+    return values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1);
+  }
+}
+
+export default PlayoffOddsService;
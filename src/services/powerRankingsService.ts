@@ -0,0 +1,317 @@
+import { DatabaseService } from '@/services/databaseService';
+import { StandingsService } from '@/services/standingsService';
+import { PlayoffOddsService, ScheduledGame } from '@/services/playoffOddsService';
+import { AllPlayService, AllPlayTeam } from '@/services/allPlayService';
+import { DbPowerRanking } from '@/types/database';
+
+export type PowerRankingComponent = 'recent_form' | 'points_for' | 'all_play' | 'strength_of_schedule';
+
+export type PowerRankingWeights = Record<PowerRankingComponent, number>;
+
+export const DEFAULT_POWER_RANKING_WEIGHTS: PowerRankingWeights = {
+  recent_form: 0.3,
+  points_for: 0.25,
+  all_play: 0.35,
+  strength_of_schedule: 0.1
+};
+
+export const POWER_RANKING_COMPONENT_LABELS: Record<PowerRankingComponent, string> = {
+  recent_form: 'Recent Form',
+  points_for: 'Points For',
+  all_play: 'All-Play Win %',
+  strength_of_schedule: 'Strength of Schedule'
+};
+
+export interface PowerRankingEntry {
+  team_id: number;
+  rank: number;
+  score: number; // 0-100
+  recent_form: number; // Component scores, 0-1
+  points_for: number;
+  all_play: number;
+  strength_of_schedule: number;
+}
+
+export interface PowerRankingRow extends PowerRankingEntry {
+  id?: number; // Snapshot row id, missing for live (unsaved) rankings
+  week: number;
+  blurb?: string;
+  previous_rank: number | null;
+}
+
+// Number of most recent weeks that make up recent form
+const RECENT_WEEKS = 3;
+
+const COMPONENTS = Object.keys(DEFAULT_POWER_RANKING_WEIGHTS) as PowerRankingComponent[];
+
+/**
+ * Weekly power rankings. Each component is scaled to 0-1 across the league:
+ * recent form is the all-play win rate over the last few weeks, points for is
+ * scoring per game, all-play is the season-long all-play win rate and strength of
+ * schedule is the opponents' average all-play win rate. The weighted sum is
+ * scaled to 0-100 and a snapshot is stored per week so movement can be shown.
+ */
+export class PowerRankingsService {
+
+  /**
+   * Rank teams from completed games through the given week
+   */
+  static calculateRankings(
+    teams: AllPlayTeam[],
+    games: ScheduledGame[],
+    weights: PowerRankingWeights = DEFAULT_POWER_RANKING_WEIGHTS
+  ): PowerRankingEntry[] {
+    const completed = games.filter((game) => game.completed);
+    const allPlay = AllPlayService.calculateAllPlay(teams, completed);
+
+    const raw = teams.map((team) => {
+      const record = allPlay.get(team.team_id)!;
+      const recentWeeks = record.weeks.slice(-RECENT_WEEKS);
+
+      const opponents: number[] = [];
+      completed.forEach((game) => {
+        if (game.team1_id === team.team_id) opponents.push(game.team2_id);
+        if (game.team2_id === team.team_id) opponents.push(game.team1_id);
+      });
+
+      return {
+        team_id: team.team_id,
+        recent_form: recentWeeks.length > 0 ?
+        recentWeeks.reduce((sum, week) => sum + week.expected_wins, 0) / recentWeeks.length :
+        0,
+        points_for: record.weeks.length > 0 ?
+        record.weeks.reduce((sum, week) => sum + week.score, 0) / record.weeks.length :
+        0,
+        all_play: record.league_percentage,
+        strength_of_schedule: opponents.length > 0 ?
+        opponents.reduce((sum, id) => sum + (allPlay.get(id)?.league_percentage || 0), 0) / opponents.length :
+        0
+      };
+    });
+
+    // Points and schedule strength are not percentages, so spread them over 0-1
+    const pointsFor = this.scaleToUnit(raw.map((r) => r.points_for));
+    const strength = this.scaleToUnit(raw.map((r) => r.strength_of_schedule));
+    const totalWeight = COMPONENTS.reduce((sum, component) => sum + (weights[component] || 0), 0) || 1;
+
+    const entries = raw.map((r, i) => {
+      const components: Record<PowerRankingComponent, number> = {
+        recent_form: r.recent_form,
+        points_for: pointsFor[i],
+        all_play: r.all_play,
+        strength_of_schedule: strength[i]
+      };
+      const score = COMPONENTS.reduce((sum, component) => sum + components[component] * (weights[component] || 0), 0);
+
+      return {
+        team_id: r.team_id,
+        rank: 0,
+        score: Math.round(score / totalWeight * 1000) / 10,
+        ...components
+      };
+    });
+
+    return entries.
+    sort((a, b) => b.score - a.score || b.all_play - a.all_play || a.team_id - b.team_id).
+    map((entry, index) => ({ ...entry, rank: index + 1 }));
+  }
+
+  /**
+   * Calculate rankings through a week and store them as that week's snapshot. Existing blurbs are kept.
+   */
+  static async generateSnapshot(seasonId: number, week: number): Promise<{ success: boolean; error?: unknown }> {
+    try {
+      console.log(`📊 Generating power rankings for season ${seasonId}, week ${week}`);
+
+      const [teams, games, weights] = await Promise.all([
+      StandingsService.getLeagueStandings(seasonId),
+      PlayoffOddsService.getSeasonSchedule(seasonId),
+      this.getSeasonWeights(seasonId)]
+      );
+
+      const rankings = this.calculateRankings(teams, games.filter((game) => game.week <= week), weights);
+      const existing = await this.getSnapshot(seasonId, week);
+      const existingByTeam = new Map(existing.map((row) => [row.team_id, row]));
+
+      for (const entry of rankings) {
+        const current = existingByTeam.get(entry.team_id);
+        const { error } = current ?
+        await DatabaseService.updatePowerRanking(current.id, { ...entry, updated_at: new Date().toISOString() }) :
+        await DatabaseService.createPowerRanking({ ...entry, season_id: seasonId, week });
+
+        if (error) {
+          throw error;
+        }
+      }
+
+      console.log(`✅ Stored power rankings for ${rankings.length} teams`);
+      return { success: true };
+    } catch (error) {
+      console.error('Error generating power rankings:', error);
+      return { success: false, error };
+    }
+  }
+
+  /**
+   * Get the stored rankings for a week with each team's rank from the previous snapshot.
+   * Falls back to live, unsaved rankings when no snapshot has been generated yet.
+   */
+  static async getRankings(seasonId: number, week?: number): Promise<PowerRankingRow[]> {
+    const weeks = await this.getSnapshotWeeks(seasonId);
+    const targetWeek = week ?? weeks[weeks.length - 1];
+
+    if (targetWeek === undefined || !weeks.includes(targetWeek)) {
+      return this.getLiveRankings(seasonId, targetWeek);
+    }
+
+    const previousWeek = weeks.filter((w) => w < targetWeek).pop();
+    const [current, previous] = await Promise.all([
+    this.getSnapshot(seasonId, targetWeek),
+    previousWeek !== undefined ? this.getSnapshot(seasonId, previousWeek) : Promise.resolve([] as DbPowerRanking[])]
+    );
+    const previousRanks = new Map(previous.map((row) => [row.team_id, row.rank]));
+
+    return current.
+    map((row) => ({
+      id: row.id,
+      week: row.week,
+      team_id: row.team_id,
+      rank: row.rank,
+      score: Number(row.score),
+      recent_form: Number(row.recent_form) || 0,
+      points_for: Number(row.points_for) || 0,
+      all_play: Number(row.all_play) || 0,
+      strength_of_schedule: Number(row.strength_of_schedule) || 0,
+      blurb: row.blurb,
+      previous_rank: previousRanks.get(row.team_id) ?? null
+    })).
+    sort((a, b) => a.rank - b.rank);
+  }
+
+  /**
+   * Weeks that have a stored snapshot, in ascending order
+   */
+  static async getSnapshotWeeks(seasonId: number): Promise<number[]> {
+    const { data, error } = await DatabaseService.getPowerRankings({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+    });
+
+    if (error) {
+      console.error('Error fetching power ranking weeks:', error);
+      return [];
+    }
+
+    return [...new Set(data.map((row) => row.week))].sort((a, b) => a - b);
+  }
+
+  /**
+   * Save the admin blurb for one team's snapshot row
+   */
+  static async saveBlurb(id: number, blurb: string): Promise<{ success: boolean; error?: unknown }> {
+    const { error } = await DatabaseService.updatePowerRanking(id, {
+      blurb: blurb.trim() || null,
+      updated_at: new Date().toISOString()
+    });
+
+    if (error) {
+      return { success: false, error };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Load the power ranking weights configured for a season, falling back to the defaults
+   */
+  static async getSeasonWeights(seasonId: number): Promise<PowerRankingWeights> {
+    try {
+      const { data: seasons, error } = await DatabaseService.getSeasons({
+        filters: [{ column: 'id', operator: 'eq', value: seasonId }],
+        limit: 1
+      });
+
+      if (error || seasons.length === 0) {
+        return DEFAULT_POWER_RANKING_WEIGHTS;
+      }
+
+      return this.normalizeWeights(seasons[0].power_ranking_weights);
+    } catch (error) {
+      console.error('Error fetching power ranking weights:', error);
+      return DEFAULT_POWER_RANKING_WEIGHTS;
+    }
+  }
+
+  /**
+   * Save the power ranking weights for a season
+   */
+  static async saveSeasonWeights(seasonId: number, weights: PowerRankingWeights): Promise<{ success: boolean; error?: unknown }> {
+    const { error } = await DatabaseService.updateSeason(seasonId, {
+      power_ranking_weights: this.normalizeWeights(weights)
+    });
+
+    if (error) {
+      return { success: false, error };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Keep known components with non-negative weights, falling back to the defaults when nothing is weighted
+   */
+  static normalizeWeights(weights?: Record<string, number> | null): PowerRankingWeights {
+    if (!weights) {
+      return DEFAULT_POWER_RANKING_WEIGHTS;
+    }
+
+    const normalized = { ...DEFAULT_POWER_RANKING_WEIGHTS };
+    COMPONENTS.forEach((component) => {
+      const value = Number(weights[component]);
+      normalized[component] = Number.isFinite(value) && value >= 0 ? value : 0;
+    });
+
+    return COMPONENTS.some((component) => normalized[component] > 0) ? normalized : DEFAULT_POWER_RANKING_WEIGHTS;
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private static async getSnapshot(seasonId: number, week: number): Promise<DbPowerRanking[]> {
+    const { data, error } = await DatabaseService.getPowerRankings({
+      filters: [
+      { column: 'season_id', operator: 'eq', value: seasonId },
+      { column: 'week', operator: 'eq', value: week }]
+
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch power rankings: ${error.message || error}`);
+    }
+
+    return data;
+  }
+
+  private static async getLiveRankings(seasonId: number, week?: number): Promise<PowerRankingRow[]> {
+    const [teams, games, weights] = await Promise.all([
+    StandingsService.getLeagueStandings(seasonId),
+    PlayoffOddsService.getSeasonSchedule(seasonId),
+    this.getSeasonWeights(seasonId)]
+    );
+
+    const completedWeeks = games.filter((game) => game.completed).map((game) => game.week);
+    const throughWeek = week ?? (completedWeeks.length > 0 ? Math.max(...completedWeeks) : 0);
+
+    return this.calculateRankings(teams, games.filter((game) => game.week <= throughWeek), weights).
+    map((entry) => ({ ...entry, week: throughWeek, previous_rank: null }));
+  }
+
+  // Min-max scale to 0-1; identical values all map to 0.5
+  private static scaleToUnit(values: number[]): number[] {
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    return values.map((value) => max > min ? (value - min) / (max - min) : 0.5);
+  }
+}
+
+export default PowerRankingsService;
@@ -0,0 +1,302 @@
+import { DatabaseService } from '@/services/databaseService';
+import SleeperApiService, { SleeperMatchup } from '@/services/sleeperApi';
+import { ScoringEngineService } from '@/services/scoringEngineService';
+import { DbFilter, DbTeamProjection } from '@/types/database';
+
+export interface TeamProjection {
+  team_id: number;
+  week: number;
+  projected_points: number;
+  actual_points: number | null; // Null until the team has scored
+  is_final: boolean; // The projection stopped changing when the team started scoring
+}
+
+export interface ProjectionResults {
+  team_id: number;
+  weeks: number;
+  projected_points: number;
+  actual_points: number;
+  beat: number; // Weeks scoring more than projected
+  missed: number;
+  average_difference: number; // Actual minus projected, per week
+}
+
+const PROJECTION_POSITIONS = ['QB', 'RB', 'WR', 'TE', 'K', 'DEF'];
+const PROJECTION_TTL = 10 * 60 * 1000;
+
+/**
+ * Pre-game projections. Sleeper projects raw stats for every player; they are scored
+ * with the season's stored `scoring_settings` so projections match how the league
+ * actually scores, and a lineup's projection is the sum of its starters.
+ *
+ * Projections are stored in `team_projections`: the weekly sync records the week it just
+ * synced with its actual scores and the next week's early projections, and the matchups
+ * page refreshes a week's rows while it has not kicked off. A team's row keeps updating
+ * until it starts scoring, so what is left is the last projection before kickoff.
+ * Rows are only written when a number changed.
+ */
+export class ProjectionService {
+  private static scoringCache = new Map<number, Record<string, number>>();
+  private static projectionCache = new Map<string, {data: Record<string, number>;fetchedAt: number;}>();
+
+  /**
+   * Score a player's projected stats the way the scoring engine scores actual ones, so
+   * defense brackets and threshold bonuses count. Without scoring settings, Sleeper's own
+   * PPR total is used.
+   */
+  static calculateProjectedPoints(
+    stats: Record<string, number>,
+    scoringSettings: Record<string, number> | null,
+    position?: string)
+  : number {
+    if (!scoringSettings) {
+      return stats.pts_ppr || 0;
+    }
+
+    return ScoringEngineService.calculatePoints(stats, scoringSettings, position);
+  }
+
+  /**
+   * Projected total for a starting lineup
+   */
+  static calculateLineupProjection(starters: string[], playerProjections: Record<string, number>): number {
+    const total = starters.
+    filter((playerId) => playerId && playerId !== '0').
+    reduce((sum, playerId) => sum + (playerProjections[playerId] || 0), 0);
+    return Math.round(total * 100) / 100;
+  }
+
+  /**
+   * A season's scoring settings, fetched from Sleeper and stored the first time they are needed
+   */
+  static async getScoringSettings(seasonId: number): Promise<Record<string, number> | null> {
+    const cached = this.scoringCache.get(seasonId);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const load = async () => {
+        const { data: seasons } = await DatabaseService.getSeasons({
+          filters: [{ column: 'id', operator: 'eq', value: seasonId }]
+        });
+        return seasons[0]?.scoring_settings || null;
+      };
+
+      let settings = await load();
+      if (!settings) {
+        const updateResult = await DatabaseService.updateSeasonScoringSettings(seasonId);
+        settings = updateResult.success ? await load() : null;
+      }
+
+      // A failed load is retried next time rather than remembered
+      if (settings) {
+        this.scoringCache.set(seasonId, settings);
+      }
+      return settings;
+    } catch (error) {
+      console.error('Error loading scoring settings:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Projected points per player for a week under the season's scoring
+   */
+  static async getPlayerProjections(seasonId: number, seasonYear: number | string, week: number): Promise<Record<string, number>> {
+    const key = `${seasonId}-${week}`;
+    const cached = this.projectionCache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < PROJECTION_TTL) {
+      return cached.data;
+    }
+
+    const [scoringSettings, projections] = await Promise.all([
+    this.getScoringSettings(seasonId),
+    SleeperApiService.fetchPlayerProjections(seasonYear.toString(), week, 'regular', PROJECTION_POSITIONS)]
+    );
+
+    const data: Record<string, number> = {};
+    projections.forEach((projection) => {
+      data[projection.player_id] = this.calculateProjectedPoints(projection.stats || {}, scoringSettings, projection.player?.position);
+    });
+
+    this.projectionCache.set(key, { data, fetchedAt: Date.now() });
+    return data;
+  }
+
+  /**
+   * Projected and actual totals for every team in a week, keyed by team id. Lineups come
+   * from each conference's Sleeper league; teams that have started scoring keep the
+   * projection stored before they did.
+   */
+  static async getWeekProjections(seasonId: number, seasonYear: number | string, week: number): Promise<Map<number, TeamProjection>> {
+    const { projections } = await this.loadWeekProjections(seasonId, seasonYear, week);
+    return projections;
+  }
+
+  /**
+   * Calculate a week's projections and store them, locking each team's projection once
+   * it has started scoring. Throws when a projection can't be stored.
+   */
+  static async recordWeekProjections(seasonId: number, seasonYear: number | string, week: number): Promise<Map<number, TeamProjection>> {
+    const { projections, storedByTeam } = await this.loadWeekProjections(seasonId, seasonYear, week);
+    await this.storeProjections(seasonId, [...projections.values()], storedByTeam);
+    return projections;
+  }
+
+  /**
+   * Stored projections for a season, optionally for one week or team
+   */
+  static async getStoredProjections(seasonId: number, options: {week?: number;teamId?: number;} = {}): Promise<DbTeamProjection[]> {
+    const filters: DbFilter[] = [{ column: 'season_id', operator: 'eq', value: seasonId }];
+    if (options.week !== undefined) filters.push({ column: 'week', operator: 'eq', value: options.week });
+    if (options.teamId !== undefined) filters.push({ column: 'team_id', operator: 'eq', value: options.teamId });
+
+    const { data, error } = await DatabaseService.getTeamProjections({
+      filters,
+      orderBy: { column: 'week', ascending: true },
+      limit: 1000
+    });
+
+    if (error) {
+      console.error('Error fetching team projections:', error);
+      return [];
+    }
+
+    return data;
+  }
+
+  /**
+   * How often each team beat its final projection over the weeks it has a score for,
+   * biggest average overperformance first
+   */
+  static calculateProjectionResults(rows: DbTeamProjection[]): ProjectionResults[] {
+    const results = new Map<number, ProjectionResults>();
+
+    rows.
+    filter((row) => row.actual_points !== null && row.actual_points !== undefined).
+    forEach((row) => {
+      const projected = Number(row.projected_points);
+      const actual = Number(row.actual_points);
+      const result = results.get(row.team_id) || {
+        team_id: row.team_id,
+        weeks: 0,
+        projected_points: 0,
+        actual_points: 0,
+        beat: 0,
+        missed: 0,
+        average_difference: 0
+      };
+
+      result.weeks++;
+      result.projected_points += projected;
+      result.actual_points += actual;
+      if (actual > projected) result.beat++;else
+      if (actual < projected) result.missed++;
+      results.set(row.team_id, result);
+    });
+
+    return [...results.values()].
+    map((result) => ({
+      ...result,
+      average_difference: (result.actual_points - result.projected_points) / result.weeks
+    })).
+    sort((a, b) => b.average_difference - a.average_difference);
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private static async loadWeekProjections(
+    seasonId: number,
+    seasonYear: number | string,
+    week: number)
+  : Promise<{projections: Map<number, TeamProjection>;storedByTeam: Map<number, DbTeamProjection>;}> {
+    const { data: conferences } = await DatabaseService.getConferences({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+    });
+
+    const conferenceIds = conferences.map((c) => c.id);
+    if (conferenceIds.length === 0) {
+      return { projections: new Map(), storedByTeam: new Map() };
+    }
+
+    const [playerProjections, junctionsResult, stored] = await Promise.all([
+    this.getPlayerProjections(seasonId, seasonYear, week),
+    DatabaseService.getTeamConferenceJunctions({
+      filters: [{ column: 'conference_id', operator: 'in', value: conferenceIds }]
+    }),
+    this.getStoredProjections(seasonId, { week })]
+    );
+
+    const storedByTeam = new Map(stored.map((row) => [row.team_id, row]));
+    const lineups = new Map<number, SleeperMatchup>();
+
+    for (const conference of conferences) {
+      try {
+        const sleeperMatchups = await SleeperApiService.fetchMatchups(conference.league_id, week);
+        junctionsResult.data.
+        filter((j) => j.conference_id === conference.id).
+        forEach((junction) => {
+          const sleeperMatchup = sleeperMatchups.find((m) => m.roster_id === junction.roster_id);
+          if (sleeperMatchup) lineups.set(junction.team_id, sleeperMatchup);
+        });
+      } catch (error) {
+        console.error(`Error fetching Sleeper matchups for ${conference.conference_name}:`, error);
+      }
+    }
+
+    const projections = new Map<number, TeamProjection>();
+    lineups.forEach((sleeperMatchup, teamId) => {
+      const existing = storedByTeam.get(teamId);
+      const actual = sleeperMatchup.points || 0;
+      const isFinal = !!existing?.locked_at || actual !== 0;
+
+      projections.set(teamId, {
+        team_id: teamId,
+        week,
+        projected_points: existing && isFinal ?
+        Number(existing.projected_points) :
+        this.calculateLineupProjection(sleeperMatchup.starters || [], playerProjections),
+        actual_points: actual !== 0 ? actual : null,
+        is_final: isFinal
+      });
+    });
+
+    return { projections, storedByTeam };
+  }
+
+  private static async storeProjections(
+    seasonId: number,
+    projections: TeamProjection[],
+    storedByTeam: Map<number, DbTeamProjection>)
+  : Promise<void> {
+    for (const projection of projections) {
+      const existing = storedByTeam.get(projection.team_id);
+      const row: Partial<DbTeamProjection> = {
+        projected_points: projection.projected_points,
+        actual_points: projection.actual_points,
+        locked_at: existing?.locked_at || (projection.is_final ? new Date().toISOString() : null)
+      };
+
+      // Nothing to write when neither number moved
+      if (existing &&
+      Number(existing.projected_points) === row.projected_points &&
+      (existing.actual_points === null || existing.actual_points === undefined ? null : Number(existing.actual_points)) === row.actual_points &&
+      !!existing.locked_at === !!row.locked_at) {
+        continue;
+      }
+
+      const { error } = existing ?
+      await DatabaseService.updateTeamProjection(existing.id, { ...row, updated_at: new Date().toISOString() }) :
+      await DatabaseService.createTeamProjection({ ...row, season_id: seasonId, week: projection.week, team_id: projection.team_id });
+
+      if (error) {
+        throw new Error(`Failed to store projection for team ${projection.team_id}: ${error.message || error}`);
+      }
+    }
+  }
+}
+
+export default ProjectionService;
@@ -0,0 +1,479 @@
+import { DatabaseService } from '@/services/databaseService';
+import SleeperApiService, { SleeperMatchup, SleeperPlayer } from '@/services/sleeperApi';
+import { StandingsService } from '@/services/standingsService';
+import { PlayoffClinchService } from '@/services/playoffClinchService';
+import { LineupEfficiencyService, SLOT_ELIGIBILITY } from '@/services/lineupEfficiencyService';
+import MatchupCache from '@/services/matchupCache';
+import { DbConference, DbMatchup, DbMatchupRecap } from '@/types/database';
+
+// One team's lineup for the week from Sleeper
+export interface RecapBoxScore {
+  team_id: number;
+  starters: string[]; // In starting slot order, '0' for an empty slot
+  players: string[];
+  players_points: Record<string, number>;
+}
+
+export interface RecapStreak {
+  result: 'W' | 'L' | 'T';
+  length: number;
+}
+
+// The single bench-for-starter swap that would have changed the result
+export interface RecapBenchFlip {
+  team_id: number;
+  slot: string;
+  bench_player_id: string;
+  starter_player_id: string | null; // Null when the slot was left empty
+  gain: number;
+}
+
+export interface MatchupRecapFacts {
+  matchup_id: number;
+  week: number;
+  team1_id: number;
+  team2_id: number;
+  team1_score: number;
+  team2_score: number;
+  winner_id: number | null; // Null for a tie
+  margin: number;
+  top_scorer: {team_id: number;player_id: string;points: number;} | null;
+  bench_flip: RecapBenchFlip | null;
+  streaks: Record<number, {before: RecapStreak | null;after: RecapStreak | null;}>;
+  ranks: Record<number, {before: number | null;after: number | null;}>; // Overall standings rank
+}
+
+// Everything outside the matchup itself that a recap draws on
+export interface RecapContext {
+  slots: string[]; // Starting slots from the season's roster positions
+  players: Record<string, SleeperPlayer>;
+  results: DbMatchup[]; // Completed regular season matchups through the recap's week
+  ranksBefore: Map<number, number>; // Overall rank by team after the previous week
+  ranksAfter: Map<number, number>;
+}
+
+const CLOSE_GAME_MARGIN = 5;
+const BLOWOUT_MARGIN = 40;
+const NOTABLE_STREAK = 3;
+
+/**
+ * Written matchup recaps. Once every regular season matchup in a week is complete each
+ * game gets a short recap built from templates and the box score: the top scorer, the
+ * bench move that would have flipped the result, the margin, streaks and how the
+ * standings moved. Recaps are stored in `matchup_recaps`.
+ */
+export class RecapService {
+
+  /**
+   * Facts for one completed matchup
+   */
+  static buildFacts(
+    matchup: DbMatchup,
+    boxScores: Map<number, RecapBoxScore>,
+    context: RecapContext
+  ): MatchupRecapFacts {
+    const team2Id = matchup.team2_id!;
+    const team1Score = Number(matchup.team1_score) || 0;
+    const team2Score = Number(matchup.team2_score) || 0;
+    const week = parseInt(matchup.week);
+    const winnerId = StandingsService.getMatchupWinner(matchup.team1_id, team2Id, team1Score, team2Score, matchup.winning_team_id);
+    const margin = Math.abs(team1Score - team2Score);
+
+    const topScorers = [matchup.team1_id, team2Id].flatMap((teamId) => {
+      const box = boxScores.get(teamId);
+      return (box?.starters || []).
+      filter((playerId) => playerId && playerId !== '0').
+      map((playerId) => ({ team_id: teamId, player_id: playerId, points: box!.players_points[playerId] || 0 }));
+    });
+
+    // A loser needed to make up the margin; in a tie either side only needed one more point
+    const flipTeams = winnerId === null ? [matchup.team1_id, team2Id] : [winnerId === matchup.team1_id ? team2Id : matchup.team1_id];
+    const benchFlip = flipTeams.
+    map((teamId) => boxScores.get(teamId)).
+    filter((box): box is RecapBoxScore => !!box).
+    map((box) => this.findBenchFlip(box, context.slots, context.players)).
+    filter((flip): flip is RecapBenchFlip => flip !== null && flip.gain > margin).
+    reduce<RecapBenchFlip | null>((best, flip) => !best || flip.gain > best.gain ? flip : best, null);
+
+    const streaks: MatchupRecapFacts['streaks'] = {};
+    const ranks: MatchupRecapFacts['ranks'] = {};
+    [matchup.team1_id, team2Id].forEach((teamId) => {
+      const results = this.getTeamResults(teamId, context.results);
+      streaks[teamId] = {
+        before: this.getStreak(results.filter((result) => result.week < week).map((result) => result.result)),
+        after: this.getStreak(results.filter((result) => result.week <= week).map((result) => result.result))
+      };
+      ranks[teamId] = {
+        before: context.ranksBefore.get(teamId) ?? null,
+        after: context.ranksAfter.get(teamId) ?? null
+      };
+    });
+
+    return {
+      matchup_id: matchup.id,
+      week,
+      team1_id: matchup.team1_id,
+      team2_id: team2Id,
+      team1_score: team1Score,
+      team2_score: team2Score,
+      winner_id: winnerId,
+      margin,
+      top_scorer: topScorers.length > 0 ? topScorers.reduce((best, score) => score.points > best.points ? score : best) : null,
+      bench_flip: benchFlip,
+      streaks,
+      ranks
+    };
+  }
+
+  /**
+   * The best single swap of a bench player into a starting slot they are eligible for
+   */
+  static findBenchFlip(
+    box: RecapBoxScore,
+    slots: string[],
+    players: Record<string, SleeperPlayer>
+  ): RecapBenchFlip | null {
+    const bench = box.players.filter((playerId) => playerId && playerId !== '0' && !box.starters.includes(playerId));
+    let best: RecapBenchFlip | null = null;
+
+    slots.forEach((slot, index) => {
+      const starterId = box.starters[index] && box.starters[index] !== '0' ? box.starters[index] : null;
+      const starterPoints = starterId ? box.players_points[starterId] || 0 : 0;
+      const accepts = SLOT_ELIGIBILITY[slot] || [slot];
+
+      bench.forEach((playerId) => {
+        const positions = LineupEfficiencyService.getPlayerPositions(playerId, players);
+        if (!positions.some((position) => accepts.includes(position))) return;
+
+        const gain = (box.players_points[playerId] || 0) - starterPoints;
+        if (gain > 0 && (!best || gain > best.gain)) {
+          best = { team_id: box.team_id, slot, bench_player_id: playerId, starter_player_id: starterId, gain };
+        }
+      });
+    });
+
+    return best;
+  }
+
+  /**
+   * A team's current streak from its results, oldest first
+   */
+  static getStreak(results: ('W' | 'L' | 'T')[]): RecapStreak | null {
+    if (results.length === 0) return null;
+
+    const last = results[results.length - 1];
+    let length = 0;
+    for (let i = results.length - 1; i >= 0 && results[i] === last; i--) {
+      length++;
+    }
+    return { result: last, length };
+  }
+
+  /**
+   * Headline and recap paragraph for a matchup
+   */
+  static writeRecap(
+    facts: MatchupRecapFacts,
+    teamName: (teamId: number) => string,
+    playerName: (playerId: string) => string
+  ): {headline: string;recap: string;} {
+    const points = (value: number) => value.toFixed(2);
+    const loserId = facts.winner_id === null ? null : facts.winner_id === facts.team1_id ? facts.team2_id : facts.team1_id;
+    const winnerScore = facts.winner_id === facts.team2_id ? facts.team2_score : facts.team1_score;
+    const loserScore = facts.winner_id === facts.team2_id ? facts.team1_score : facts.team2_score;
+    const score = `${points(winnerScore)}-${points(loserScore)}`;
+
+    let headline: string;
+    const sentences: string[] = [];
+
+    if (facts.winner_id === null || loserId === null) {
+      headline = `${teamName(facts.team1_id)} and ${teamName(facts.team2_id)} tie at ${points(facts.team1_score)}`;
+      sentences.push(`${teamName(facts.team1_id)} and ${teamName(facts.team2_id)} finished level at ${points(facts.team1_score)} apiece.`);
+    } else if (facts.margin < CLOSE_GAME_MARGIN) {
+      headline = `${teamName(facts.winner_id)} edges ${teamName(loserId)} ${score}`;
+      sentences.push(`${teamName(facts.winner_id)} held off ${teamName(loserId)} ${score}, winning by just ${points(facts.margin)}.`);
+    } else if (facts.margin >= BLOWOUT_MARGIN) {
+      headline = `${teamName(facts.winner_id)} routs ${teamName(loserId)} ${score}`;
+      sentences.push(`${teamName(facts.winner_id)} ran away from ${teamName(loserId)} ${score}, a ${points(facts.margin)}-point win.`);
+    } else {
+      headline = `${teamName(facts.winner_id)} beats ${teamName(loserId)} ${score}`;
+      sentences.push(`${teamName(facts.winner_id)} beat ${teamName(loserId)} ${score} by ${points(facts.margin)} points.`);
+    }
+
+    if (facts.top_scorer) {
+      sentences.push(`${playerName(facts.top_scorer.player_id)} led all starters with ${points(facts.top_scorer.points)} for ${teamName(facts.top_scorer.team_id)}.`);
+    }
+
+    const flip = facts.bench_flip;
+    if (flip) {
+      const move = flip.starter_player_id ?
+      `starting ${playerName(flip.bench_player_id)} over ${playerName(flip.starter_player_id)} at ${flip.slot}` :
+      `filling the empty ${flip.slot} slot with ${playerName(flip.bench_player_id)}`;
+      const outcome = facts.winner_id === null ? 'broken the tie' : 'flipped the result';
+      sentences.push(`${teamName(flip.team_id)} left the difference on the bench: ${move} was worth ${points(flip.gain)} more points and would have ${outcome}.`);
+    } else if (loserId !== null) {
+      sentences.push(`No single bench move would have saved ${teamName(loserId)}.`);
+    }
+
+    [facts.winner_id ?? facts.team1_id, loserId ?? facts.team2_id].forEach((teamId) => {
+      const streak = facts.streaks[teamId];
+      const before = streak?.before;
+      const after = streak?.after;
+
+      if (before && after && before.result !== after.result && before.result !== 'T' && before.length >= NOTABLE_STREAK) {
+        sentences.push(before.result === 'L' ?
+        `${teamName(teamId)} snapped a ${before.length}-game losing streak.` :
+        `${teamName(teamId)}'s ${before.length}-game winning streak is over.`);
+      } else if (after && after.length >= NOTABLE_STREAK && after.result !== 'T') {
+        sentences.push(after.result === 'W' ?
+        `${teamName(teamId)} has won ${after.length} straight.` :
+        `${teamName(teamId)} has lost ${after.length} in a row.`);
+      }
+    });
+
+    const standingMoves = [facts.team1_id, facts.team2_id].
+    map((teamId) => {
+      const rank = facts.ranks[teamId];
+      if (!rank?.after) return null;
+
+      let move: string;
+      if (rank.before === null) {
+        move = `sits ${this.ordinal(rank.after)}`;
+      } else if (rank.after < rank.before) {
+        move = `climbs from ${this.ordinal(rank.before)} to ${this.ordinal(rank.after)}`;
+      } else if (rank.after > rank.before) {
+        move = `falls from ${this.ordinal(rank.before)} to ${this.ordinal(rank.after)}`;
+      } else {
+        move = `holds at ${this.ordinal(rank.after)}`;
+      }
+      return `${teamName(teamId)} ${move}`;
+    }).
+    filter((move): move is string => move !== null);
+
+    if (standingMoves.length > 0) {
+      sentences.push(`In the standings, ${standingMoves.join(' and ')}.`);
+    }
+
+    return { headline, recap: sentences.join(' ') };
+  }
+
+  /**
+   * Write recaps for every completed regular season week with matchups missing one, then
+   * return all of the season's recaps. Matchups whose box scores can't be loaded are left
+   * for the next pass.
+   */
+  static async updateSeasonRecaps(seasonId: number): Promise<DbMatchupRecap[]> {
+    try {
+      const { data: conferences } = await DatabaseService.getConferences({
+        filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+      });
+
+      const conferenceIds = conferences.map((c) => c.id);
+      if (conferenceIds.length === 0) {
+        return [];
+      }
+
+      // Recaps only cover the regular season
+      const [matchupsResult, stored, regularSeasonEnd] = await Promise.all([
+      DatabaseService.getMatchups({
+        filters: [
+        { column: 'conference_id', operator: 'in', value: conferenceIds },
+        { column: 'is_playoff', operator: 'eq', value: false }]
+
+      }),
+      this.getSeasonRecaps(seasonId),
+      PlayoffClinchService.getRegularSeasonEnd(seasonId)]
+      );
+
+      if (matchupsResult.error) {
+        throw new Error(`Failed to fetch matchups: ${matchupsResult.error.message || matchupsResult.error}`);
+      }
+
+      const isComplete = (m: DbMatchup) => m.matchup_status === 'complete' || !!m.winning_team_id;
+      const matchupsByWeek = new Map<number, DbMatchup[]>();
+      matchupsResult.data.forEach((m) => {
+        const week = parseInt(m.week);
+        if (week >= 1 && week <= regularSeasonEnd) {
+          matchupsByWeek.set(week, [...(matchupsByWeek.get(week) || []), m]);
+        }
+      });
+
+      const recapped = new Set(stored.map((recap) => recap.matchup_id));
+      const pendingWeeks = [...matchupsByWeek.entries()].
+      filter(([, matchups]) => matchups.every(isComplete)).
+      map(([week, matchups]) => ({ week, games: matchups.filter((m) => !m.is_bye && m.team2_id && !recapped.has(m.id)) })).
+      filter(({ games }) => games.length > 0).
+      sort((a, b) => a.week - b.week);
+
+      if (pendingWeeks.length === 0) {
+        return stored;
+      }
+
+      const [rankHistory, players, slots, junctionsResult, teamsResult] = await Promise.all([
+      StandingsService.getRankHistory(seasonId, Math.max(...pendingWeeks.map(({ week }) => week))),
+      MatchupCache.getPlayers(),
+      LineupEfficiencyService.getRosterPositions(seasonId).
+      then((positions) => LineupEfficiencyService.getStartingSlots(positions)).
+      catch((error) => {
+        console.error('Error loading roster positions for recaps:', error);
+        return [] as string[];
+      }),
+      DatabaseService.getTeamConferenceJunctions({
+        filters: [{ column: 'conference_id', operator: 'in', value: conferenceIds }]
+      }),
+      DatabaseService.getTeams({ limit: 500 })]
+      );
+
+      const teamNames = new Map(teamsResult.data.map((team) => [team.id, team.team_name]));
+      const teamName = (teamId: number) => teamNames.get(teamId) || `Team ${teamId}`;
+      const playerName = (playerId: string) => {
+        const player = players[playerId];
+        return player ? `${player.first_name} ${player.last_name}`.trim() : playerId;
+      };
+      const rankMap = (week: number) => new Map(
+        (rankHistory.find((snapshot) => snapshot.week === week)?.standings || []).map((team) => [team.team_id, team.overall_rank])
+      );
+      const completed = matchupsResult.data.filter((m) => isComplete(m) && !m.is_bye && m.team2_id);
+
+      // Without the starting slots no bench move can be judged, and a stored recap is never
+      // rewritten, so leave every game for a later pass
+      if (slots.length === 0) {
+        return stored;
+      }
+
+      for (const { week, games } of pendingWeeks) {
+        const boxScores = await this.getBoxScores(conferences, junctionsResult.data, week);
+        const context: RecapContext = {
+          slots,
+          players,
+          results: completed.filter((m) => parseInt(m.week) <= week),
+          ranksBefore: rankMap(week - 1),
+          ranksAfter: rankMap(week)
+        };
+
+        for (const matchup of games) {
+          // A team whose lineup failed to load would read as having no top scorer or bench move
+          if (!boxScores.has(matchup.team1_id) || !boxScores.has(matchup.team2_id!)) continue;
+
+          const { headline, recap } = this.writeRecap(this.buildFacts(matchup, boxScores, context), teamName, playerName);
+          await this.storeRecap({ season_id: seasonId, week, matchup_id: matchup.id, headline, recap }, stored);
+        }
+      }
+
+      return await this.getSeasonRecaps(seasonId);
+    } catch (error) {
+      console.error('Error updating matchup recaps:', error);
+      return this.getSeasonRecaps(seasonId);
+    }
+  }
+
+  /**
+   * Stored recaps for a season, by week
+   */
+  static async getSeasonRecaps(seasonId: number): Promise<DbMatchupRecap[]> {
+    const { data, error } = await DatabaseService.getMatchupRecaps({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }],
+      orderBy: { column: 'week', ascending: true },
+      limit: 1000
+    });
+
+    if (error) {
+      console.error('Error fetching matchup recaps:', error);
+      return [];
+    }
+
+    return data;
+  }
+
+  /**
+   * The stored recap for one matchup, if it has been written
+   */
+  static async getMatchupRecap(matchupId: number): Promise<DbMatchupRecap | null> {
+    const { data, error } = await DatabaseService.getMatchupRecaps({
+      filters: [{ column: 'matchup_id', operator: 'eq', value: matchupId }],
+      limit: 1
+    });
+
+    if (error) {
+      console.error('Error fetching matchup recap:', error);
+      return null;
+    }
+
+    return data[0] || null;
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  // Every team plays out of its own conference's Sleeper league, even in interconference games
+  private static async getBoxScores(
+    conferences: DbConference[],
+    junctions: {team_id: number;conference_id: number;roster_id: number;}[],
+    week: number
+  ): Promise<Map<number, RecapBoxScore>> {
+    const boxScores = new Map<number, RecapBoxScore>();
+
+    for (const conference of conferences) {
+      let sleeperMatchups: SleeperMatchup[];
+      try {
+        sleeperMatchups = await SleeperApiService.fetchMatchups(conference.league_id, week);
+      } catch (error) {
+        console.error(`Error fetching Sleeper matchups for ${conference.conference_name}:`, error);
+        continue;
+      }
+
+      junctions.
+      filter((j) => j.conference_id === conference.id).
+      forEach((junction) => {
+        const sleeperMatchup = sleeperMatchups.find((m) => m.roster_id === junction.roster_id);
+        if (!sleeperMatchup) return;
+
+        boxScores.set(junction.team_id, {
+          team_id: junction.team_id,
+          starters: sleeperMatchup.starters || [],
+          players: sleeperMatchup.players || [],
+          players_points: sleeperMatchup.players_points || {}
+        });
+      });
+    }
+
+    return boxScores;
+  }
+
+  private static getTeamResults(teamId: number, matchups: DbMatchup[]): {week: number;result: 'W' | 'L' | 'T';}[] {
+    return matchups.
+    filter((m) => m.team1_id === teamId || m.team2_id === teamId).
+    map((m) => {
+      const winnerId = StandingsService.getMatchupWinner(
+        m.team1_id,
+        m.team2_id!,
+        Number(m.team1_score) || 0,
+        Number(m.team2_score) || 0,
+        m.winning_team_id
+      );
+      const result: 'W' | 'L' | 'T' = winnerId === null ? 'T' : winnerId === teamId ? 'W' : 'L';
+      return { week: parseInt(m.week), result };
+    }).
+    sort((a, b) => a.week - b.week);
+  }
+
+  private static ordinal(rank: number): string {
+    const suffixes = ['th', 'st', 'nd', 'rd'];
+    const remainder = rank % 100;
+    return rank + (suffixes[(remainder - 20) % 10] || suffixes[remainder] || suffixes[0]);
+  }
+
+  private static async storeRecap(recap: Partial<DbMatchupRecap>, stored: DbMatchupRecap[]): Promise<void> {
+    const existing = stored.find((row) => row.matchup_id === recap.matchup_id);
+    const { error } = existing ?
+    await DatabaseService.updateMatchupRecap(existing.id, { ...recap, updated_at: new Date().toISOString() }) :
+    await DatabaseService.createMatchupRecap(recap);
+
+    if (error) {
+      console.error(`Error storing recap for matchup ${recap.matchup_id}:`, error);
+    }
+  }
+}
+
+export default RecapService;
@@ -0,0 +1,157 @@
+import { DatabaseService } from '@/services/databaseService';
+import { StandingsService } from '@/services/standingsService';
+import { DbMatchup, DbPlayoffBracket } from '@/types/database';
+
+export interface RivalryMeeting {
+  season_id: number;
+  season_year: string;
+  week: number;
+  is_playoff: boolean;
+  round_name: string | null; // Playoff round, e.g. "Semifinals"
+  matchup_id: number | null; // Regular season meetings link to their matchup page
+  team_a_score: number;
+  team_b_score: number;
+  winner_id: number | null; // Null for a tie
+}
+
+export interface RivalryStreak {
+  team_id: number;
+  length: number;
+}
+
+export interface RivalrySummary {
+  meetings: number;
+  team_a_wins: number;
+  team_b_wins: number;
+  ties: number;
+  team_a_points: number;
+  team_b_points: number;
+  average_margin: number; // Average winning margin, ties count as zero
+  longest_streak: RivalryStreak | null;
+  current_streak: RivalryStreak | null;
+  playoff_meetings: number;
+}
+
+export interface Rivalry {
+  meetings: RivalryMeeting[]; // Oldest first
+  summary: RivalrySummary;
+}
+
+/**
+ * Every completed meeting between two franchises across all seasons. Regular season
+ * games come from `matchups`; conference championships and playoff games come from
+ * `playoff_brackets`.
+ */
+export class RivalryService {
+
+  /**
+   * All completed meetings between two teams with the series summary, from team A's side
+   */
+  static async getRivalry(teamAId: number, teamBId: number): Promise<Rivalry> {
+    const pairFilters = (team1Id: number, team2Id: number) => [
+    { column: 'team1_id', operator: 'eq' as const, value: team1Id },
+    { column: 'team2_id', operator: 'eq' as const, value: team2Id }];
+
+
+    const [matchupsA, matchupsB, bracketsA, bracketsB, seasonsResult, conferencesResult] = await Promise.all([
+    DatabaseService.getMatchups({ filters: pairFilters(teamAId, teamBId) }),
+    DatabaseService.getMatchups({ filters: pairFilters(teamBId, teamAId) }),
+    DatabaseService.getPlayoffBrackets({ filters: pairFilters(teamAId, teamBId) }),
+    DatabaseService.getPlayoffBrackets({ filters: pairFilters(teamBId, teamAId) }),
+    DatabaseService.getSeasons({ limit: 100 }),
+    DatabaseService.getConferences({ limit: 1000 })]
+    );
+
+    if (matchupsA.error || matchupsB.error) {
+      const error = matchupsA.error || matchupsB.error;
+      throw new Error(`Failed to fetch matchups: ${error.message || error}`);
+    }
+
+    const seasonYears = new Map(seasonsResult.data.map((season) => [season.id, season.season_year]));
+    const seasonByConference = new Map(conferencesResult.data.map((c) => [c.id, c.season_id]));
+
+    const regularSeason = [...matchupsA.data, ...matchupsB.data].
+    filter((m) => !m.is_playoff && (m.matchup_status === 'complete' || m.winning_team_id)).
+    map((m) => this.toMeeting(m, teamAId, seasonByConference.get(m.conference_id), seasonYears));
+
+    const playoffs = [...(bracketsA.data || []), ...(bracketsB.data || [])].
+    filter((b) => !b.is_bye && (b.winning_team_id || b.team1_score || b.team2_score)).
+    map((b) => this.toMeeting(b, teamAId, b.season_id, seasonYears));
+
+    const meetings = [...regularSeason, ...playoffs].
+    filter((meeting): meeting is RivalryMeeting => meeting !== null).
+    sort((a, b) => a.season_year.localeCompare(b.season_year) || a.week - b.week);
+
+    return { meetings, summary: this.summarizeRivalry(teamAId, teamBId, meetings) };
+  }
+
+  /**
+   * Series record, points, average margin and streaks from team A's side
+   */
+  static summarizeRivalry(teamAId: number, teamBId: number, meetings: RivalryMeeting[]): RivalrySummary {
+    let longest: RivalryStreak | null = null;
+    let current: RivalryStreak | null = null;
+
+    for (const meeting of meetings) {
+      if (meeting.winner_id === null) {
+        current = null;
+        continue;
+      }
+
+      current = current && current.team_id === meeting.winner_id ?
+      { team_id: current.team_id, length: current.length + 1 } :
+      { team_id: meeting.winner_id, length: 1 };
+
+      if (!longest || current.length > longest.length) {
+        longest = current;
+      }
+    }
+
+    return {
+      meetings: meetings.length,
+      team_a_wins: meetings.filter((m) => m.winner_id === teamAId).length,
+      team_b_wins: meetings.filter((m) => m.winner_id === teamBId).length,
+      ties: meetings.filter((m) => m.winner_id === null).length,
+      team_a_points: meetings.reduce((sum, m) => sum + m.team_a_score, 0),
+      team_b_points: meetings.reduce((sum, m) => sum + m.team_b_score, 0),
+      average_margin: meetings.length > 0 ?
+      meetings.reduce((sum, m) => sum + Math.abs(m.team_a_score - m.team_b_score), 0) / meetings.length :
+      0,
+      longest_streak: longest,
+      current_streak: current,
+      playoff_meetings: meetings.filter((m) => m.is_playoff).length
+    };
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private static toMeeting(
+    game: DbMatchup | DbPlayoffBracket,
+    teamAId: number,
+    seasonId: number | undefined,
+    seasonYears: Map<number, string>)
+  : RivalryMeeting | null {
+    if (seasonId === undefined) return null;
+
+    const isPlayoff = 'round' in game;
+    const isTeamA = game.team1_id === teamAId;
+    const team1Score = Number(game.team1_score) || 0;
+    const team2Score = Number(game.team2_score) || 0;
+
+    return {
+      season_id: seasonId,
+      season_year: seasonYears.get(seasonId) || seasonId.toString(),
+      week: typeof game.week === 'string' ? parseInt(game.week) : game.week,
+      is_playoff: isPlayoff,
+      round_name: isPlayoff ? (game as DbPlayoffBracket).playoff_round_name || `Round ${(game as DbPlayoffBracket).round}` : null,
+      matchup_id: isPlayoff ? null : game.id,
+      team_a_score: isTeamA ? team1Score : team2Score,
+      team_b_score: isTeamA ? team2Score : team1Score,
+      winner_id: StandingsService.getMatchupWinner(game.team1_id, game.team2_id!, team1Score, team2Score, game.winning_team_id)
+    };
+  }
+}
+
+export default RivalryService;
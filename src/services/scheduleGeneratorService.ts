@@ -0,0 +1,525 @@
+import { DatabaseService } from '@/services/databaseService';
+
+export interface ScheduleTeam {
+  team_id: number;
+  conference_id: number;
+}
+
+export interface ScheduleOptions {
+  weeks: number; // Regular season weeks, starting at week 1
+  conferenceGames: number; // Times each team plays every conference opponent
+  interconferenceWeeks: number[]; // Weeks where every team plays outside its conference
+  minWeeksBetweenMeetings: number; // A rematch must come at least this many weeks after the last meeting
+  seed?: number; // Same seed and teams give the same schedule
+}
+
+export interface ScheduledGame {
+  week: number;
+  home_team_id: number;
+  away_team_id: number;
+  conference_id: number; // The home team's conference
+  is_interconference: boolean;
+}
+
+export interface TeamScheduleSummary {
+  team_id: number;
+  conference_id: number;
+  games: number;
+  home: number;
+  away: number;
+  conference_games: number;
+  interconference_games: number;
+  fewest_meetings: number; // Against any conference opponent
+  most_meetings: number;
+  shortest_rematch_gap: number | null; // Null when the team never plays anyone twice
+}
+
+export interface ScheduleFairnessReport {
+  teams: TeamScheduleSummary[];
+  max_home_away_difference: number;
+  violations: string[]; // Constraints the schedule breaks; empty when it can be committed
+}
+
+export interface GeneratedSchedule {
+  games: ScheduledGame[];
+  report: ScheduleFairnessReport;
+}
+
+// Different shuffles tried before settling for the best schedule found
+const GENERATION_ATTEMPTS = 50;
+
+/**
+ * Regular season schedule generator. Conference weeks come from a round robin per
+ * conference, repeated until every conference opponent has been played the requested
+ * number of times. Interconference weeks pair every team with a team from another
+ * conference, preferring opponents they have not met. Home and away are then balanced
+ * across the season.
+ *
+ * Nothing is stored until `commitSchedule` is called, so a schedule and its fairness
+ * report can be previewed first.
+ */
+export class ScheduleGeneratorService {
+
+  /**
+   * Settings that no schedule can satisfy, as messages for the admin
+   */
+  static validateOptions(teams: ScheduleTeam[], options: ScheduleOptions): string[] {
+    const errors: string[] = [];
+    const conferences = this.groupByConference(teams);
+    const conferenceWeeks = options.weeks - options.interconferenceWeeks.length;
+
+    if (options.weeks < 1) {
+      errors.push('The season needs at least one week');
+    }
+
+    if (options.conferenceGames < 1) {
+      errors.push('Each conference opponent must be played at least once');
+    }
+
+    options.interconferenceWeeks.
+    filter((week) => week < 1 || week > options.weeks).
+    forEach((week) => errors.push(`Interconference week ${week} is outside weeks 1-${options.weeks}`));
+
+    if (options.interconferenceWeeks.length > 0) {
+      if (conferences.size < 2) {
+        errors.push('Interconference weeks need at least two conferences');
+      } else if (Math.max(...[...conferences.values()].map((ids) => ids.length)) * 2 > teams.length) {
+        errors.push('One conference has more than half of the teams, so it cannot be paired entirely across conferences');
+      }
+    }
+
+    conferences.forEach((teamIds, conferenceId) => {
+      if (teamIds.length < 2 || teamIds.length % 2 !== 0) {
+        errors.push(`Conference ${conferenceId} has ${teamIds.length} teams; an even number of at least two is needed`);
+        return;
+      }
+
+      const needed = options.conferenceGames * (teamIds.length - 1);
+      if (needed > conferenceWeeks) {
+        errors.push(
+          `Conference ${conferenceId} needs ${needed} conference weeks to play each opponent ${options.conferenceGames} time(s), ` +
+          `but only ${conferenceWeeks} are left after interconference weeks`
+        );
+      } else if (needed < conferenceWeeks) {
+        // Extra conference weeks would wrap the round robin and repeat some opponents only
+        errors.push(
+          `Conference ${conferenceId} plays each opponent ${options.conferenceGames} time(s) in ${needed} conference weeks, ` +
+          `but ${conferenceWeeks} are left after interconference weeks; add interconference weeks or conference games`
+        );
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Generate a full regular season and its fairness report. Several shuffles are tried
+   * and the one with the fewest violations, then the best home/away balance, is kept.
+   */
+  static generateSchedule(teams: ScheduleTeam[], options: ScheduleOptions): GeneratedSchedule {
+    const errors = this.validateOptions(teams, options);
+    if (errors.length > 0) {
+      throw new Error(errors.join('. '));
+    }
+
+    const random = this.createRandom(options.seed ?? Date.now());
+    let best: GeneratedSchedule | null = null;
+
+    for (let attempt = 0; attempt < GENERATION_ATTEMPTS; attempt++) {
+      const games = this.buildSchedule(teams, options, random);
+      const report = this.getFairnessReport(teams, games, options);
+      const candidate = { games, report };
+
+      if (!best ||
+      report.violations.length < best.report.violations.length ||
+      report.violations.length === best.report.violations.length &&
+      report.max_home_away_difference < best.report.max_home_away_difference) {
+        best = candidate;
+      }
+
+      if (report.violations.length === 0 && report.max_home_away_difference <= 1) break;
+    }
+
+    return best!;
+  }
+
+  /**
+   * Per-team fairness numbers and any broken constraints for a schedule
+   */
+  static getFairnessReport(teams: ScheduleTeam[], games: ScheduledGame[], options: ScheduleOptions): ScheduleFairnessReport {
+    const violations: string[] = [];
+    const conferenceByTeam = new Map(teams.map((team) => [team.team_id, team.conference_id]));
+    const meetings = this.getMeetingWeeks(games);
+
+    const summaries = teams.map((team) => {
+      const teamGames = games.filter((g) => g.home_team_id === team.team_id || g.away_team_id === team.team_id);
+      const conferenceOpponents = teams.filter((t) => t.conference_id === team.conference_id && t.team_id !== team.team_id);
+      const meetingCounts = conferenceOpponents.map((opponent) =>
+      meetings.get(this.pairKey(team.team_id, opponent.team_id))?.length || 0
+      );
+
+      let shortestGap: number | null = null;
+      teams.forEach((opponent) => {
+        const weeks = meetings.get(this.pairKey(team.team_id, opponent.team_id)) || [];
+        for (let i = 1; i < weeks.length; i++) {
+          const gap = weeks[i] - weeks[i - 1];
+          if (shortestGap === null || gap < shortestGap) shortestGap = gap;
+        }
+      });
+
+      const weeksPlayed = new Set(teamGames.map((g) => g.week));
+      for (let week = 1; week <= options.weeks; week++) {
+        if (!weeksPlayed.has(week)) violations.push(`Team ${team.team_id} has no game in week ${week}`);
+      }
+      if (weeksPlayed.size < teamGames.length) {
+        violations.push(`Team ${team.team_id} plays more than once in a week`);
+      }
+
+      return {
+        team_id: team.team_id,
+        conference_id: team.conference_id,
+        games: teamGames.length,
+        home: teamGames.filter((g) => g.home_team_id === team.team_id).length,
+        away: teamGames.filter((g) => g.away_team_id === team.team_id).length,
+        conference_games: teamGames.filter((g) => !g.is_interconference).length,
+        interconference_games: teamGames.filter((g) => g.is_interconference).length,
+        fewest_meetings: meetingCounts.length > 0 ? Math.min(...meetingCounts) : 0,
+        most_meetings: meetingCounts.length > 0 ? Math.max(...meetingCounts) : 0,
+        shortest_rematch_gap: shortestGap
+      };
+    });
+
+    summaries.
+    filter((summary) => summary.fewest_meetings < options.conferenceGames).
+    forEach((summary) => violations.push(
+      `Team ${summary.team_id} plays a conference opponent only ${summary.fewest_meetings} time(s)`
+    ));
+
+    summaries.
+    filter((summary) => summary.most_meetings > options.conferenceGames).
+    forEach((summary) => violations.push(
+      `Team ${summary.team_id} plays a conference opponent ${summary.most_meetings} times`
+    ));
+
+    meetings.forEach((weeks, key) => {
+      for (let i = 1; i < weeks.length; i++) {
+        if (weeks[i] - weeks[i - 1] < options.minWeeksBetweenMeetings) {
+          violations.push(`Teams ${key.replace('-', ' and ')} meet in weeks ${weeks[i - 1]} and ${weeks[i]}`);
+        }
+      }
+    });
+
+    games.
+    filter((g) => g.is_interconference === (conferenceByTeam.get(g.home_team_id) === conferenceByTeam.get(g.away_team_id))).
+    forEach((g) => violations.push(
+      `Week ${g.week}: teams ${g.home_team_id} and ${g.away_team_id} are in the wrong kind of week`
+    ));
+
+    return {
+      teams: summaries,
+      max_home_away_difference: summaries.reduce((max, s) => Math.max(max, Math.abs(s.home - s.away)), 0),
+      violations
+    };
+  }
+
+  /**
+   * Store a generated schedule as `matchups` rows, home team as team1, all or nothing.
+   * Refuses to write into a season that already has regular season matchups for those weeks.
+   */
+  static async commitSchedule(seasonId: number, games: ScheduledGame[]): Promise<{success: boolean;created: number;error?: unknown;}> {
+    let created = 0;
+
+    try {
+      const { data: conferences, error: conferenceError } = await DatabaseService.getConferences({
+        filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+      });
+
+      if (conferenceError) {
+        throw conferenceError;
+      }
+
+      const weeks = [...new Set(games.map((g) => g.week.toString()))];
+      const { data: existing, error: existingError } = await DatabaseService.getMatchups({
+        filters: [
+        { column: 'conference_id', operator: 'in', value: conferences.map((c) => c.id) },
+        { column: 'week', operator: 'in', value: weeks },
+        { column: 'is_playoff', operator: 'eq', value: false }],
+
+        limit: 1
+      });
+
+      if (existingError) {
+        throw existingError;
+      }
+
+      if (existing.length > 0) {
+        return {
+          success: false,
+          created,
+          error: 'This season already has regular season matchups for these weeks; remove them before committing a new schedule'
+        };
+      }
+
+      // One insert, so a failure leaves no partial schedule behind
+      const { data: inserted, error } = await DatabaseService.createMatchups(
+        [...games].sort((a, b) => a.week - b.week).map((game) => ({
+          conference_id: game.conference_id,
+          week: game.week.toString(),
+          team1_id: game.home_team_id,
+          team2_id: game.away_team_id,
+          is_playoff: false,
+          manual_override: game.is_interconference,
+          matchup_status: 'pending',
+          notes: game.is_interconference ? 'Interconference (generated schedule)' : 'Generated schedule'
+        }))
+      );
+
+      if (error) {
+        throw error;
+      }
+      created = inserted.length;
+
+      return { success: true, created };
+    } catch (error) {
+      console.error('Error committing generated schedule:', error);
+      return { success: false, created, error };
+    }
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private static buildSchedule(teams: ScheduleTeam[], options: ScheduleOptions, random: () => number): ScheduledGame[] {
+    const conferences = this.groupByConference(teams);
+    const conferenceByTeam = new Map(teams.map((team) => [team.team_id, team.conference_id]));
+    const interconferenceWeeks = new Set(options.interconferenceWeeks);
+    const conferenceWeeks = Array.from({ length: options.weeks }, (_, i) => i + 1).
+    filter((week) => !interconferenceWeeks.has(week));
+
+    const pairings: {week: number;teamA: number;teamB: number;interconference: boolean;}[] = [];
+
+    // Repeating the same round order keeps every rematch a full round robin apart
+    conferences.forEach((teamIds) => {
+      const rounds = this.shuffle(this.getRoundRobin(this.shuffle(teamIds, random)), random);
+      conferenceWeeks.forEach((week, index) => {
+        rounds[index % rounds.length].forEach(([teamA, teamB]) =>
+        pairings.push({ week, teamA, teamB, interconference: false })
+        );
+      });
+    });
+
+    const meetings = new Map<string, number[]>();
+    const recordMeeting = (teamA: number, teamB: number, week: number) => {
+      const key = this.pairKey(teamA, teamB);
+      meetings.set(key, [...(meetings.get(key) || []), week]);
+    };
+    pairings.forEach((p) => recordMeeting(p.teamA, p.teamB, p.week));
+
+    [...interconferenceWeeks].sort((a, b) => a - b).forEach((week) => {
+      this.pairAcrossConferences(teams, meetings, week, options.minWeeksBetweenMeetings, random).
+      forEach(([teamA, teamB]) => {
+        pairings.push({ week, teamA, teamB, interconference: true });
+        recordMeeting(teamA, teamB, week);
+      });
+    });
+
+    pairings.sort((a, b) => a.week - b.week);
+    const homeTeams = this.balanceHomeAway(pairings);
+
+    return pairings.map((pairing, index) => {
+      const home = homeTeams[index];
+      const away = home === pairing.teamA ? pairing.teamB : pairing.teamA;
+      return {
+        week: pairing.week,
+        home_team_id: home,
+        away_team_id: away,
+        conference_id: conferenceByTeam.get(home)!,
+        is_interconference: pairing.interconference
+      };
+    });
+  }
+
+  /**
+   * Circle method: one team stays put while the rest rotate, giving n - 1 rounds where
+   * everyone plays everyone once
+   */
+  private static getRoundRobin(teamIds: number[]): [number, number][][] {
+    const rotating = teamIds.slice(1);
+    const rounds: [number, number][][] = [];
+
+    for (let round = 0; round < teamIds.length - 1; round++) {
+      const order = [teamIds[0], ...rotating];
+      const pairs: [number, number][] = [];
+      for (let i = 0; i < order.length / 2; i++) {
+        pairs.push([order[i], order[order.length - 1 - i]]);
+      }
+      rounds.push(pairs);
+      rotating.unshift(rotating.pop()!);
+    }
+
+    return rounds;
+  }
+
+  /**
+   * Pair every team with a team from another conference. Teams from the conference with
+   * the most unpaired teams go first, which always finds a full pairing when no conference
+   * holds more than half the teams. Opponents met least, and longest ago, are preferred.
+   */
+  private static pairAcrossConferences(
+    teams: ScheduleTeam[],
+    meetings: Map<string, number[]>,
+    week: number,
+    minWeeksBetweenMeetings: number,
+    random: () => number
+  ): [number, number][] {
+    const unpaired = new Map<number, number[]>();
+    this.groupByConference(teams).forEach((teamIds, conferenceId) =>
+    unpaired.set(conferenceId, this.shuffle(teamIds, random))
+    );
+
+    const remaining = () => [...unpaired.entries()].
+    filter(([, teamIds]) => teamIds.length > 0).
+    sort((a, b) => b[1].length - a[1].length);
+
+    const cost = (teamA: number, teamB: number) => {
+      const weeks = meetings.get(this.pairKey(teamA, teamB)) || [];
+      if (weeks.length === 0) return 0;
+      const tooSoon = week - weeks[weeks.length - 1] < minWeeksBetweenMeetings ? 1000 : 0;
+      return tooSoon + weeks.length * 10 - (week - weeks[weeks.length - 1]) / 100;
+    };
+
+    const pairs: [number, number][] = [];
+    let conferencesLeft = remaining();
+
+    while (conferencesLeft.length > 1) {
+      const [conferenceId, teamIds] = conferencesLeft[0];
+      const team = teamIds.shift()!;
+
+      const candidates = conferencesLeft.
+      filter(([otherId]) => otherId !== conferenceId).
+      flatMap(([otherId, otherIds]) => otherIds.map((id) => ({ conferenceId: otherId, teamId: id })));
+
+      // Skip opponents that would leave one conference with more than half of the teams still unpaired
+      const safe = candidates.filter((candidate) => {
+        const counts = conferencesLeft.map(([id, ids]) =>
+        ids.length - (id === candidate.conferenceId ? 1 : 0)
+        );
+        const total = counts.reduce((sum, count) => sum + count, 0);
+        return Math.max(...counts) * 2 <= total;
+      });
+
+      const choice = (safe.length > 0 ? safe : candidates).
+      sort((a, b) => cost(team, a.teamId) - cost(team, b.teamId))[0];
+
+      const opponents = unpaired.get(choice.conferenceId)!;
+      opponents.splice(opponents.indexOf(choice.teamId), 1);
+      pairs.push([team, choice.teamId]);
+      conferencesLeft = remaining();
+    }
+
+    return pairs;
+  }
+
+  /**
+   * Pick the home team for each pairing, in week order: the team with fewer home games so
+   * far hosts, and a rematch flips the last meeting's venue when that is still even.
+   * Single venue swaps are then made while they reduce the overall imbalance.
+   */
+  private static balanceHomeAway(pairings: {teamA: number;teamB: number;}[]): number[] {
+    const balance = new Map<number, number>(); // Home games minus away games
+    const lastHost = new Map<string, number>();
+    const homeTeams: number[] = [];
+
+    const shift = (home: number, away: number, amount: number) => {
+      balance.set(home, (balance.get(home) || 0) + amount);
+      balance.set(away, (balance.get(away) || 0) - amount);
+    };
+
+    pairings.forEach(({ teamA, teamB }) => {
+      const key = this.pairKey(teamA, teamB);
+      const balanceA = balance.get(teamA) || 0;
+      const balanceB = balance.get(teamB) || 0;
+
+      let home: number;
+      if (balanceA !== balanceB) {
+        home = balanceA < balanceB ? teamA : teamB;
+      } else if (lastHost.has(key)) {
+        home = lastHost.get(key) === teamA ? teamB : teamA;
+      } else {
+        home = teamA;
+      }
+
+      const away = home === teamA ? teamB : teamA;
+      shift(home, away, 1);
+      lastHost.set(key, home);
+      homeTeams.push(home);
+    });
+
+    let improved = true;
+    while (improved) {
+      improved = false;
+      pairings.forEach(({ teamA, teamB }, index) => {
+        const home = homeTeams[index];
+        const away = home === teamA ? teamB : teamA;
+        const homeBalance = balance.get(home) || 0;
+        const awayBalance = balance.get(away) || 0;
+
+        // Swapping moves each team two games toward the other side
+        const before = homeBalance ** 2 + awayBalance ** 2;
+        const after = (homeBalance - 2) ** 2 + (awayBalance + 2) ** 2;
+        if (after < before) {
+          shift(home, away, -2);
+          homeTeams[index] = away;
+          improved = true;
+        }
+      });
+    }
+
+    return homeTeams;
+  }
+
+  private static getMeetingWeeks(games: ScheduledGame[]): Map<string, number[]> {
+    const meetings = new Map<string, number[]>();
+    [...games].sort((a, b) => a.week - b.week).forEach((game) => {
+      const key = this.pairKey(game.home_team_id, game.away_team_id);
+      meetings.set(key, [...(meetings.get(key) || []), game.week]);
+    });
+    return meetings;
+  }
+
+  private static groupByConference(teams: ScheduleTeam[]): Map<number, number[]> {
+    const conferences = new Map<number, number[]>();
+    teams.forEach((team) => {
+      conferences.set(team.conference_id, [...(conferences.get(team.conference_id) || []), team.team_id]);
+    });
+    return conferences;
+  }
+
+  private static pairKey(teamA: number, teamB: number): string {
+    return teamA < teamB ? `${teamA}-${teamB}` : `${teamB}-${teamA}`;
+  }
+
+  private static shuffle<T>(items: T[], random: () => number): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  // Seeded generator (mulberry32) so a previewed schedule can be reproduced
+  private static createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = state + 0x6D2B79F5 >>> 0;
+      let t = state;
+      t = Math.imul(t ^ t >>> 15, t | 1);
+      t ^= t + Math.imul(t ^ t >>> 7, t | 61);
+      return ((t ^ t >>> 14) >>> 0) / 4294967296;
+    };
+  }
+}
+
+export default ScheduleGeneratorService;
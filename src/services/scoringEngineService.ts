@@ -0,0 +1,332 @@
+import { DatabaseService } from '@/services/databaseService';
+import SleeperApiService, { SleeperMatchup, SleeperPlayer } from '@/services/sleeperApi';
+import { ProjectionService } from '@/services/projectionService';
+import MatchupCache from '@/services/matchupCache';
+import { DbMatchup } from '@/types/database';
+
+export interface PlayerScoreCheck {
+  player_id: string;
+  sleeper_points: number;
+  local_points: number | null; // Null when the player's stats could not be loaded
+}
+
+export interface TeamScoreVerification {
+  matchup_id: number;
+  week: number;
+  team_id: number;
+  opponent_id: number | null;
+  stored_score: number; // Score on the matchups row
+  sleeper_score: number | null; // Sleeper's total, null when the lineup could not be loaded
+  local_score: number | null; // Rescored from raw stats, null when any starter's stats failed to load
+  starters: PlayerScoreCheck[];
+  has_discrepancy: boolean;
+}
+
+// Scores are kept to two decimals, so anything closer than this is a rounding difference
+const SCORE_TOLERANCE = 0.01;
+
+// Player stat lines are fetched a handful at a time to stay friendly with the Sleeper API
+const STATS_BATCH_SIZE = 8;
+const STATS_TTL = 10 * 60 * 1000;
+
+/**
+ * Local fantasy scoring. Raw weekly stat lines from Sleeper are scored with the season's
+ * stored `scoring_settings` instead of trusting Sleeper's `players_points`, so stored
+ * matchup scores can be checked independently.
+ *
+ * Most Sleeper scoring keys are a stat key with a per-unit value (fractional yardage such
+ * as `pass_yd: 0.04` is applied per yard, never rounded down to whole increments). Keys
+ * with no matching stat on the line are derived: points and yards allowed brackets from
+ * `pts_allow` and `yds_allow`, open-ended kicking tiers such as `fgm_50p` from the
+ * narrower tiers, threshold bonuses such as `bonus_rec_yd_100` from the underlying stat,
+ * and position bonuses such as `bonus_rec_te` from the player's position.
+ */
+export class ScoringEngineService {
+  private static statsCache = new Map<string, {data: Promise<Map<number, Record<string, number>>>;fetchedAt: number;}>();
+
+  /**
+   * Fantasy points for one stat line under a scoring configuration
+   */
+  static calculatePoints(
+    stats: Record<string, number>,
+    scoringSettings: Record<string, number>,
+    position?: string
+  ): number {
+    const points = Object.entries(scoringSettings).reduce(
+      (sum, [key, value]) => sum + this.getStatValue(key, stats, position, scoringSettings) * (Number(value) || 0),
+      0
+    );
+    return Math.round(points * 100) / 100;
+  }
+
+  /**
+   * The count or amount a scoring key applies to on a stat line. Threshold bonus tiers stop
+   * below the next tier configured in `scoringSettings`.
+   */
+  static getStatValue(
+    key: string,
+    stats: Record<string, number>,
+    position?: string,
+    scoringSettings: Record<string, number> = {}
+  ): number {
+    if (typeof stats[key] === 'number') {
+      return stats[key];
+    }
+
+    // Defense points and yards allowed brackets: pts_allow_0, pts_allow_7_13, yds_allow_550p
+    const bracket = key.match(/^(pts_allow|yds_allow)_(\d+)(?:_(\d+)|(p))?$/);
+    if (bracket) {
+      const allowed = stats[bracket[1]];
+      if (typeof allowed !== 'number') return 0;
+
+      const low = parseInt(bracket[2]);
+      if (bracket[4]) return allowed >= low ? 1 : 0;
+      const high = bracket[3] !== undefined ? parseInt(bracket[3]) : low;
+      return allowed >= low && allowed <= high ? 1 : 0;
+    }
+
+    // Reception and first down bonuses for one position: bonus_rec_te, bonus_fd_rb
+    const positionBonus = key.match(/^bonus_(rec|fd)_(qb|rb|wr|te)$/);
+    if (positionBonus) {
+      if (position?.toLowerCase() !== positionBonus[2]) return 0;
+      return positionBonus[1] === 'rec' ?
+      stats.rec || 0 :
+      (stats.pass_fd || 0) + (stats.rush_fd || 0) + (stats.rec_fd || 0);
+    }
+
+    if (key.startsWith('bonus_')) {
+      const base = key.slice('bonus_'.length);
+      if (typeof stats[base] === 'number') {
+        return stats[base];
+      }
+
+      // Threshold bonuses: bonus_pass_yd_300, bonus_rush_att_20, bonus_rush_rec_yd_100. Each
+      // tier ends where the next configured one starts, so a 420-yard passer earns the 400
+      // bonus but not the 300 one.
+      const threshold = base.match(/^(.+)_(\d+)$/);
+      if (threshold) {
+        const [, stat, from] = threshold;
+        const total = stat === 'rush_rec_yd' ?
+        (stats.rush_yd || 0) + (stats.rec_yd || 0) :
+        stats[stat];
+        const nextTier = Object.keys(scoringSettings).
+        map((settingKey) => settingKey.startsWith(`bonus_${stat}_`) ? settingKey.slice(`bonus_${stat}_`.length) : '').
+        filter((tier) => /^\d+$/.test(tier)).
+        map((tier) => parseInt(tier)).
+        filter((tier) => tier > parseInt(from)).
+        sort((a, b) => a - b)[0];
+        return typeof total === 'number' && total >= parseInt(from) && (nextTier === undefined || total < nextTier) ? 1 : 0;
+      }
+    }
+
+    // Open-ended distance tiers from the narrower ones: fgm_50p = fgm_50_59 + fgm_60p
+    const openTier = key.match(/^(.+)_(\d+)p$/);
+    if (openTier) {
+      const [, prefix, from] = openTier;
+      return Object.entries(stats).reduce((sum, [statKey, value]) => {
+        if (statKey === key || !statKey.startsWith(`${prefix}_`)) return sum;
+        const tier = statKey.slice(prefix.length + 1).match(/^(\d+)(?:_\d+|p)$/);
+        return tier && parseInt(tier[1]) >= parseInt(from) ? sum + value : sum;
+      }, 0);
+    }
+
+    return 0;
+  }
+
+  /**
+   * Each player's raw stat line for a week, keyed by player id. Players without a line for
+   * the week did not play and are left out; players whose stats failed to load are listed.
+   */
+  static async getWeeklyStats(
+    playerIds: string[],
+    seasonYear: string,
+    week: number
+  ): Promise<{stats: Map<string, Record<string, number>>;failed: string[];}> {
+    const stats = new Map<string, Record<string, number>>();
+    const failed: string[] = [];
+    const uniqueIds = [...new Set(playerIds)].filter((playerId) => playerId && playerId !== '0');
+
+    for (let i = 0; i < uniqueIds.length; i += STATS_BATCH_SIZE) {
+      await Promise.all(uniqueIds.slice(i, i + STATS_BATCH_SIZE).map(async (playerId) => {
+        try {
+          const weeks = await this.getPlayerWeeks(playerId, seasonYear);
+          const line = weeks.get(week);
+          if (line) stats.set(playerId, line);
+        } catch (error) {
+          failed.push(playerId);
+        }
+      }));
+    }
+
+    return { stats, failed };
+  }
+
+  /**
+   * Rescore every regular season matchup in a week and compare against the stored scores
+   * and Sleeper's totals
+   */
+  static async verifyWeek(seasonId: number, week: number): Promise<TeamScoreVerification[]> {
+    const { data: conferences } = await DatabaseService.getConferences({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+    });
+
+    const conferenceIds = conferences.map((c) => c.id);
+    if (conferenceIds.length === 0) {
+      return [];
+    }
+
+    const [seasonsResult, scoringSettings, players, matchupsResult, junctionsResult] = await Promise.all([
+    DatabaseService.getSeasons({ filters: [{ column: 'id', operator: 'eq', value: seasonId }] }),
+    ProjectionService.getScoringSettings(seasonId),
+    MatchupCache.getPlayers(),
+    DatabaseService.getMatchups({
+      filters: [
+      { column: 'conference_id', operator: 'in', value: conferenceIds },
+      { column: 'week', operator: 'eq', value: week.toString() },
+      { column: 'is_playoff', operator: 'eq', value: false }]
+
+    }),
+    DatabaseService.getTeamConferenceJunctions({
+      filters: [{ column: 'conference_id', operator: 'in', value: conferenceIds }]
+    })]
+    );
+
+    const seasonYear = seasonsResult.data[0]?.season_year;
+    if (!seasonYear || !scoringSettings) {
+      throw new Error(`No scoring settings found for season ${seasonId}`);
+    }
+
+    if (matchupsResult.error) {
+      throw new Error(`Failed to fetch matchups: ${matchupsResult.error.message || matchupsResult.error}`);
+    }
+
+    // Every team plays out of its own conference's Sleeper league, even in interconference games
+    const lineups = new Map<number, SleeperMatchup>();
+    for (const conference of conferences) {
+      try {
+        const sleeperMatchups = await SleeperApiService.fetchMatchups(conference.league_id, week);
+        junctionsResult.data.
+        filter((j) => j.conference_id === conference.id).
+        forEach((junction) => {
+          const sleeperMatchup = sleeperMatchups.find((m) => m.roster_id === junction.roster_id);
+          if (sleeperMatchup) lineups.set(junction.team_id, sleeperMatchup);
+        });
+      } catch (error) {
+        console.error(`Error fetching Sleeper matchups for ${conference.conference_name}:`, error);
+      }
+    }
+
+    const starterIds = [...lineups.values()].flatMap((lineup) => lineup.starters || []);
+    const { stats, failed } = await this.getWeeklyStats(starterIds, seasonYear, week);
+
+    return matchupsResult.data.flatMap((m) => this.verifyMatchup(m, lineups, stats, failed, scoringSettings, players));
+  }
+
+  /**
+   * Verify every regular season week that has a completed matchup
+   */
+  static async verifySeason(seasonId: number): Promise<TeamScoreVerification[]> {
+    const { data: conferences } = await DatabaseService.getConferences({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+    });
+
+    if (conferences.length === 0) {
+      return [];
+    }
+
+    const { data: matchups } = await DatabaseService.getMatchups({
+      filters: [
+      { column: 'conference_id', operator: 'in', value: conferences.map((c) => c.id) },
+      { column: 'is_playoff', operator: 'eq', value: false },
+      { column: 'matchup_status', operator: 'eq', value: 'complete' }]
+
+    });
+
+    const weeks = [...new Set(matchups.map((m) => parseInt(m.week)))].sort((a, b) => a - b);
+    const results: TeamScoreVerification[] = [];
+    for (const week of weeks) {
+      results.push(...await this.verifyWeek(seasonId, week));
+    }
+    return results;
+  }
+
+  /**
+   * A player's position for position bonuses. Team defenses use the team abbreviation as
+   * their player id.
+   */
+  static getPosition(playerId: string, players: Record<string, SleeperPlayer>): string | undefined {
+    return players[playerId]?.position || (/^[A-Z]{2,3}$/.test(playerId) ? 'DEF' : undefined);
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private static verifyMatchup(
+    matchup: DbMatchup,
+    lineups: Map<number, SleeperMatchup>,
+    stats: Map<string, Record<string, number>>,
+    failed: string[],
+    scoringSettings: Record<string, number>,
+    players: Record<string, SleeperPlayer>
+  ): TeamScoreVerification[] {
+    const sides = [
+    { team_id: matchup.team1_id, opponent_id: matchup.team2_id ?? null, stored: matchup.team1_score }];
+
+    if (matchup.team2_id && !matchup.is_bye) {
+      sides.push({ team_id: matchup.team2_id, opponent_id: matchup.team1_id, stored: matchup.team2_score });
+    }
+
+    return sides.map((side) => {
+      const lineup = lineups.get(side.team_id);
+      const starters: PlayerScoreCheck[] = (lineup?.starters || []).
+      filter((playerId) => playerId && playerId !== '0').
+      map((playerId) => ({
+        player_id: playerId,
+        sleeper_points: lineup!.players_points?.[playerId] || 0,
+        local_points: failed.includes(playerId) ?
+        null :
+        this.calculatePoints(stats.get(playerId) || {}, scoringSettings, this.getPosition(playerId, players))
+      }));
+
+      const storedScore = Number(side.stored) || 0;
+      const sleeperScore = lineup ? Math.round((lineup.points || 0) * 100) / 100 : null;
+      const localScore = lineup && starters.every((starter) => starter.local_points !== null) ?
+      Math.round(starters.reduce((sum, starter) => sum + starter.local_points!, 0) * 100) / 100 :
+      null;
+
+      const differs = (a: number | null, b: number | null) => a !== null && b !== null && Math.abs(a - b) > SCORE_TOLERANCE;
+
+      return {
+        matchup_id: matchup.id,
+        week: parseInt(matchup.week),
+        team_id: side.team_id,
+        opponent_id: side.opponent_id,
+        stored_score: storedScore,
+        sleeper_score: sleeperScore,
+        local_score: localScore,
+        starters,
+        has_discrepancy: differs(localScore, storedScore) || differs(sleeperScore, storedScore) || differs(localScore, sleeperScore)
+      };
+    });
+  }
+
+  // A player's whole regular season by week, fetched once and shared between weeks
+  private static getPlayerWeeks(playerId: string, seasonYear: string): Promise<Map<number, Record<string, number>>> {
+    const key = `${seasonYear}-${playerId}`;
+    const cached = this.statsCache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < STATS_TTL) {
+      return cached.data;
+    }
+
+    const data = SleeperApiService.fetchPlayerSeasonStatsComplete(playerId, 'regular', seasonYear, 'week').
+    then((lines) => new Map(lines.map((line) => [Number(line.week), line.stats || {}])));
+
+    // A failed fetch is not cached so the next verification tries again
+    data.catch(() => this.statsCache.delete(key));
+    this.statsCache.set(key, { data, fetchedAt: Date.now() });
+    return data;
+  }
+}
+
+export default ScoringEngineService;
@@ -0,0 +1,253 @@
+import { DatabaseService } from '@/services/databaseService';
+import SleeperApiService, { SleeperMatchup } from '@/services/sleeperApi';
+import { StandingsService, StandingsData } from '@/services/standingsService';
+import { ScoringEngineService } from '@/services/scoringEngineService';
+import { ProjectionService } from '@/services/projectionService';
+import { AwardsService, StarterScore } from '@/services/awardsService';
+import { PlayoffClinchService } from '@/services/playoffClinchService';
+import MatchupCache from '@/services/matchupCache';
+import { DbConference, DbMatchup, DbTeamConferenceJunction, DbWeeklyAward } from '@/types/database';
+
+export interface SimulatedMatchup {
+  matchup_id: number;
+  week: number;
+  team1_id: number;
+  team2_id: number;
+  actual_team1_score: number;
+  actual_team2_score: number;
+  simulated_team1_score: number;
+  simulated_team2_score: number;
+  actual_winner_id: number | null; // Null on a tie
+  simulated_winner_id: number | null;
+}
+
+export interface SeasonOutcome {
+  standings: StandingsData[];
+  seeds: Map<number, number>; // Team id -> playoff seed, playoff teams only
+  awards: Partial<DbWeeklyAward>[];
+}
+
+export interface ScoringSimulation {
+  season_id: number;
+  weeks: number[];
+  matchups: SimulatedMatchup[];
+  actual: SeasonOutcome;
+  simulated: SeasonOutcome;
+  unscored_starters: number; // Starter weeks whose stats could not be loaded, left at their actual points
+}
+
+/**
+ * Replays a completed season under draft scoring settings, for rule-change votes. Every
+ * starter in every completed regular season week is scored from their raw stat line under
+ * both the season's `scoring_settings` and the draft, and the difference is added to the
+ * stored score. Anything the settings don't change (manual adjustments, stats that fail to
+ * load) is left as it actually was, so the simulation differs from reality only by the
+ * rule change. Standings, playoff seeds and weekly awards are then rebuilt from the
+ * rescored matchups and returned next to the real ones.
+ */
+export class ScoringSimulatorService {
+  /**
+   * Rescore a season under draft scoring settings and compare it with what happened
+   */
+  static async simulateSeason(seasonId: number, draftSettings: Record<string, number>): Promise<ScoringSimulation> {
+    const { data: conferences } = await DatabaseService.getConferences({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+    });
+
+    const conferenceIds = conferences.map((c) => c.id);
+    if (conferenceIds.length === 0) {
+      throw new Error(`No conferences found for season ${seasonId}`);
+    }
+
+    const [seasonsResult, actualSettings, players, matchupsResult, junctionsResult, formatsResult] = await Promise.all([
+    DatabaseService.getSeasons({ filters: [{ column: 'id', operator: 'eq', value: seasonId }] }),
+    ProjectionService.getScoringSettings(seasonId),
+    MatchupCache.getPlayers(),
+    DatabaseService.getMatchups({
+      filters: [
+      { column: 'conference_id', operator: 'in', value: conferenceIds },
+      { column: 'is_playoff', operator: 'eq', value: false }]
+
+    }),
+    DatabaseService.getTeamConferenceJunctions({
+      filters: [{ column: 'conference_id', operator: 'in', value: conferenceIds }]
+    }),
+    DatabaseService.getPlayoffFormats({
+      filters: [
+      { column: 'season_id', operator: 'eq', value: seasonId },
+      { column: 'is_active', operator: 'eq', value: true }]
+
+    })]
+    );
+
+    const seasonYear = seasonsResult.data[0]?.season_year;
+    if (!seasonYear || !actualSettings) {
+      throw new Error(`No scoring settings found for season ${seasonId}`);
+    }
+
+    if (matchupsResult.error) {
+      throw new Error(`Failed to fetch matchups: ${matchupsResult.error.message || matchupsResult.error}`);
+    }
+
+    // The postseason is seeded from the regular season, which ends two weeks before the playoffs
+    const regularSeasonEnd = (formatsResult.data[0]?.playoff_start_week || 14) - 2;
+    const matchupsByWeek = new Map<number, DbMatchup[]>();
+    matchupsResult.data.forEach((m) => {
+      const week = parseInt(m.week);
+      if (week >= 1 && week <= regularSeasonEnd) {
+        matchupsByWeek.set(week, [...(matchupsByWeek.get(week) || []), m]);
+      }
+    });
+
+    const weeks = [...matchupsByWeek.keys()].
+    filter((week) => matchupsByWeek.get(week)!.every((m) => m.matchup_status === 'complete' || m.winning_team_id)).
+    sort((a, b) => a - b);
+
+    const simulatedMatchups: SimulatedMatchup[] = [];
+    const actualAwards: Partial<DbWeeklyAward>[] = [];
+    const simulatedAwards: Partial<DbWeeklyAward>[] = [];
+    let unscoredStarters = 0;
+
+    for (const week of weeks) {
+      const matchups = matchupsByWeek.get(week)!;
+      const lineups = await this.getWeekLineups(conferences, junctionsResult.data, week);
+      const starterIds = [...lineups.values()].flatMap((lineup) => lineup.starters || []);
+      const { stats, failed } = await ScoringEngineService.getWeeklyStats(starterIds, seasonYear, week);
+
+      // Each starter's actual points and how much the draft settings would move them
+      const actualStarters: StarterScore[] = [];
+      const simulatedStarters: StarterScore[] = [];
+      const teamDeltas = new Map<number, number>();
+
+      lineups.forEach((lineup, teamId) => {
+        let delta = 0;
+        (lineup.starters || []).forEach((playerId, index) => {
+          if (!playerId || playerId === '0') return;
+
+          const points = lineup.starters_points?.[index] || 0;
+          let playerDelta = 0;
+          if (failed.includes(playerId)) {
+            unscoredStarters++;
+          } else {
+            const line = stats.get(playerId) || {};
+            const position = ScoringEngineService.getPosition(playerId, players);
+            playerDelta = ScoringEngineService.calculatePoints(line, draftSettings, position) -
+            ScoringEngineService.calculatePoints(line, actualSettings, position);
+          }
+
+          delta += playerDelta;
+          actualStarters.push({ team_id: teamId, player_id: playerId, points });
+          simulatedStarters.push({ team_id: teamId, player_id: playerId, points: this.roundScore(points + playerDelta) });
+        });
+        teamDeltas.set(teamId, delta);
+      });
+
+      const rescored = matchups.map((m): DbMatchup => ({
+        ...m,
+        team1_score: this.roundScore((Number(m.team1_score) || 0) + (teamDeltas.get(m.team1_id) || 0)),
+        team2_score: m.team2_id ?
+        this.roundScore((Number(m.team2_score) || 0) + (teamDeltas.get(m.team2_id) || 0)) :
+        m.team2_score,
+        winning_team_id: null
+      }));
+
+      rescored.forEach((m, index) => {
+        const actual = matchups[index];
+        if (m.is_bye || !m.team2_id) return;
+
+        const actualTeam1 = Number(actual.team1_score) || 0;
+        const actualTeam2 = Number(actual.team2_score) || 0;
+        simulatedMatchups.push({
+          matchup_id: m.id,
+          week,
+          team1_id: m.team1_id,
+          team2_id: m.team2_id,
+          actual_team1_score: actualTeam1,
+          actual_team2_score: actualTeam2,
+          simulated_team1_score: m.team1_score,
+          simulated_team2_score: m.team2_score,
+          actual_winner_id: StandingsService.getMatchupWinner(m.team1_id, m.team2_id, actualTeam1, actualTeam2, actual.winning_team_id),
+          simulated_winner_id: StandingsService.getMatchupWinner(m.team1_id, m.team2_id, m.team1_score, m.team2_score)
+        });
+      });
+
+      actualAwards.push(...AwardsService.calculateWeekAwards(seasonId, week, matchups, actualStarters));
+      simulatedAwards.push(...AwardsService.calculateWeekAwards(seasonId, week, rescored, simulatedStarters));
+    }
+
+    const playoffFormat = formatsResult.data[0] || null;
+    const lastWeek = weeks.length > 0 ? weeks[weeks.length - 1] : 0;
+    const scores = new Map(simulatedMatchups.map((m) => [m.matchup_id, {
+      team1_score: m.simulated_team1_score,
+      team2_score: m.simulated_team2_score
+    }]));
+
+    const [actualStandings, simulatedStandings] = await Promise.all([
+    StandingsService.getStandingsAsOfWeek(seasonId, lastWeek, undefined, playoffFormat),
+    StandingsService.getStandingsWithScores(seasonId, scores, lastWeek, playoffFormat)]
+    );
+
+    return {
+      season_id: seasonId,
+      weeks,
+      matchups: simulatedMatchups,
+      actual: { standings: actualStandings, seeds: this.getSeeds(actualStandings), awards: actualAwards },
+      simulated: { standings: simulatedStandings, seeds: this.getSeeds(simulatedStandings), awards: simulatedAwards },
+      unscored_starters: unscoredStarters
+    };
+  }
+
+  /**
+   * Scoring keys whose value differs between two settings, with the before and after values
+   */
+  static getChangedSettings(
+    actualSettings: Record<string, number>,
+    draftSettings: Record<string, number>
+  ): {key: string;actual: number;draft: number;}[] {
+    const keys = [...new Set([...Object.keys(actualSettings), ...Object.keys(draftSettings)])];
+    return keys.
+    map((key) => ({ key, actual: Number(actualSettings[key]) || 0, draft: Number(draftSettings[key]) || 0 })).
+    filter((setting) => setting.actual !== setting.draft).
+    sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  // Seeds for the teams that made the playoffs: conference champions first, then overall rank
+  private static getSeeds(standings: StandingsData[]): Map<number, number> {
+    return PlayoffClinchService.projectSeeds(standings.filter((team) => team.playoff_eligible));
+  }
+
+  // Sleeper lineups for every team in a week, each from its own conference's league
+  private static async getWeekLineups(
+    conferences: DbConference[],
+    junctions: DbTeamConferenceJunction[],
+    week: number
+  ): Promise<Map<number, SleeperMatchup>> {
+    const lineups = new Map<number, SleeperMatchup>();
+
+    for (const conference of conferences) {
+      try {
+        const sleeperMatchups = await SleeperApiService.fetchMatchups(conference.league_id, week);
+        junctions.
+        filter((j) => j.conference_id === conference.id).
+        forEach((junction) => {
+          const sleeperMatchup = sleeperMatchups.find((m) => m.roster_id === junction.roster_id);
+          if (sleeperMatchup) lineups.set(junction.team_id, sleeperMatchup);
+        });
+      } catch (error) {
+        console.error(`Error fetching Sleeper matchups for ${conference.conference_name}:`, error);
+      }
+    }
+
+    return lineups;
+  }
+
+  private static roundScore(points: number): number {
+    return Math.round(points * 100) / 100;
+  }
+}
+
+export default ScoringSimulatorService;
@@ -26,6 +26,7 @@ export interface SleeperPlayer {
   first_name: string;
   last_name: string;
   position: string;
+  fantasy_positions?: string[]; // Every position the player is eligible at
   team: string;
   jersey_number: number;
   status: string;
@@ -234,6 +235,7 @@ export interface SleeperPlayerResearch {
 export interface SleeperProjection {
   player_id: string;
   stats: Record<string, number>;
+  player?: {position?: string;};
   week: number;
   season: string;
   season_type: string;
@@ -1083,17 +1085,20 @@ export class SleeperApiService {
   }
 
   /**
-   * Get NFL player season stats (full season)
+   * Get NFL player season stats (full season totals, or one line per week played when
+   * grouped by week)
    */
   static async fetchPlayerSeasonStatsComplete(
     playerId: string,
     seasonType: 'regular' | 'post',
-    season: string
+    season: string,
+    grouping?: 'week'
   ): Promise<SleeperPlayerStats[]> {
     try {
       console.log(`Fetching complete season stats for player: ${playerId}, ${seasonType} ${season}`);
+      const groupingParam = grouping ? `&grouping=${grouping}` : '';
       const response = await fetch(
-        `${this.baseUrlNoVersion}/stats/nfl/player/${playerId}?season_type=${seasonType}&season=${season}`
+        `${this.baseUrlNoVersion}/stats/nfl/player/${playerId}?season_type=${seasonType}&season=${season}${groupingParam}`
       );
 
       if (!response.ok) {
@@ -1102,6 +1107,15 @@ export class SleeperApiService {
 
       const data = await response.json();
       console.log(`Fetched complete season stats for player ${playerId}`);
+
+      // Weekly stats come back keyed by week, with null for weeks the player did not play
+      if (grouping === 'week') {
+        return data && typeof data === 'object' && !Array.isArray(data) ?
+          Object.entries(data).
+            filter(([, line]) => line && typeof line === 'object').
+            map(([week, line]) => ({ ...(line as SleeperPlayerStats), week: (line as SleeperPlayerStats).week ?? parseInt(week) })) :
+          [];
+      }
       return Array.isArray(data) ? data : [data];
     } catch (error) {
       console.error('Error fetching player season stats:', error);
@@ -1,10 +1,13 @@
 import { DatabaseService } from '@/services/databaseService';
-import { DbTeamRecord, DbTeam, DbConference, DbPlayoffFormat } from '@/types/database';
+import { TiebreakerService, TiebreakerRule, TiebreakerGame } from '@/services/tiebreakerService';
+import { MedianScoringService, MedianScoringMode } from '@/services/medianScoringService';
+import { DbTeamRecord, DbTeam, DbConference, DbPlayoffFormat, DbMatchup, DbTeamConferenceJunction } from '@/types/database';
 
 export interface StandingsData {
   team_id: number;
   team_name: string;
   owner_name: string;
+  conference_id: number;
   conference_name: string;
   team_logourl: string;
   wins: number;
@@ -18,6 +21,24 @@ export interface StandingsData {
   overall_rank: number;
   playoff_eligible: boolean;
   is_conference_champion: boolean;
+  overall_tiebreaker: TiebreakerRule | null; // Rule that decided the team's overall position within a tie
+  conference_tiebreaker: TiebreakerRule | null; // Rule that decided the team's conference position within a tie
+}
+
+export interface StandingsSnapshot {
+  week: number;
+  standings: StandingsData[];
+}
+
+// Everything needed to rebuild a season's standings at any week
+interface SeasonResults {
+  seasonId: number;
+  matchups: DbMatchup[]; // Completed regular season matchups
+  memberships: DbTeamConferenceJunction[];
+  teamMap: Map<number, DbTeam>;
+  conferenceMap: Map<number, DbConference>;
+  rules: TiebreakerRule[];
+  medianMode: MedianScoringMode;
 }
 
 export class StandingsService {
@@ -96,14 +117,14 @@ export class StandingsService {
 
         const wins = record.wins || 0;
         const losses = record.losses || 0;
-        const ties = 0; // Assuming ties are not used, but could be added to schema
-        const totalGames = wins + losses + ties;
-        const winPercentage = totalGames > 0 ? wins / totalGames : 0;
+        const ties = record.ties || 0;
+        const winPercentage = this.calculateWinPercentage(wins, losses, ties);
 
         return {
           team_id: record.team_id,
           team_name: team?.team_name || `Team ${record.team_id}`,
           owner_name: team?.owner_name || 'Unknown Owner',
+          conference_id: record.conference_id,
           conference_name: conference?.conference_name || 'Unknown Conference',
           team_logourl: team?.team_logourl || '',
           wins,
@@ -116,72 +137,20 @@ export class StandingsService {
           conference_rank: 0, // Will be calculated below
           overall_rank: 0, // Will be calculated below
           playoff_eligible: false, // Will be calculated below
-          is_conference_champion: false // Will be calculated below
+          is_conference_champion: false, // Will be calculated below
+          overall_tiebreaker: null,
+          conference_tiebreaker: null
         };
       });
 
-      // Sort by win percentage (desc), then by points_for (desc)
-      standingsData.sort((a, b) => {
-        if (b.win_percentage !== a.win_percentage) {
-          return b.win_percentage - a.win_percentage;
-        }
-        return b.points_for - a.points_for;
-      });
-
-      // Calculate overall ranks
-      standingsData.forEach((team, index) => {
-        team.overall_rank = index + 1;
-      });
-
-      // Calculate conference ranks and identify conference champions
-      const conferenceGroups = new Map<string, StandingsData[]>();
-      standingsData.forEach(team => {
-        if (!conferenceGroups.has(team.conference_name)) {
-          conferenceGroups.set(team.conference_name, []);
-        }
-        conferenceGroups.get(team.conference_name)!.push(team);
-      });
-
-      // Rank within conferences and identify conference champions
-      conferenceGroups.forEach((teams, conferenceName) => {
-        teams.sort((a, b) => {
-          if (b.win_percentage !== a.win_percentage) {
-            return b.win_percentage - a.win_percentage;
-          }
-          return b.points_for - a.points_for;
-        });
-
-        teams.forEach((team, index) => {
-          team.conference_rank = index + 1;
-          // Conference champion is #1 in conference
-          team.is_conference_champion = index === 0;
-        });
-      });
+      // Load the season's tiebreaker rules and the games they are evaluated on
+      const numericSeasonId = typeof seasonId === 'string' ? parseInt(seasonId) : seasonId;
+      const [tiebreakerRules, tiebreakerGames] = await Promise.all([
+        TiebreakerService.getSeasonRules(numericSeasonId),
+        TiebreakerService.getCompletedGames(numericSeasonId)
+      ]);
 
-      // Calculate playoff eligibility with new seeding logic
-      // Seeds 1-3: Conference Champions (guaranteed spots)
-      // Seeds 4+: Next best teams by overall standings (including Conference Championship losers)
-      const conferenceChampions = standingsData.filter(team => team.is_conference_champion);
-      const nonChampions = standingsData.filter(team => !team.is_conference_champion);
-      
-      // All conference champions make playoffs
-      conferenceChampions.forEach(team => {
-        team.playoff_eligible = true;
-      });
-      
-      // Determine how many additional playoff spots are available
-      const totalPlayoffTeams = playoffFormat?.playoff_teams || 10; // Use playoff format or default to 10
-      const remainingPlayoffSpots = totalPlayoffTeams - conferenceChampions.length;
-      
-      // Award remaining playoff spots to top non-champions by overall rank
-      nonChampions.slice(0, remainingPlayoffSpots).forEach(team => {
-        team.playoff_eligible = true;
-      });
-      
-      // Mark remaining teams as not playoff eligible
-      nonChampions.slice(remainingPlayoffSpots).forEach(team => {
-        team.playoff_eligible = false;
-      });
+      this.rankStandings(standingsData, tiebreakerGames, tiebreakerRules, numericSeasonId, playoffFormat);
 
       console.log(`StandingsService: Returning ${standingsData.length} standings records`);
       return standingsData;
@@ -213,6 +182,79 @@ export class StandingsService {
     return this.getStandingsData(seasonId, undefined, playoffFormat);
   }
 
+  /**
+   * Rebuild standings exactly as they stood after a given week from the completed
+   * regular season matchups, instead of the current team records
+   */
+  static async getStandingsAsOfWeek(
+    seasonId: string | number,
+    week: number,
+    conferenceId?: string | number,
+    playoffFormat?: DbPlayoffFormat | null
+  ): Promise<StandingsData[]> {
+    try {
+      console.log(`StandingsService: Rebuilding standings for season ${seasonId} as of week ${week}`);
+
+      const results = await this.getSeasonResults(seasonId);
+      const standingsData = this.buildStandingsAsOfWeek(results, week, playoffFormat);
+
+      return conferenceId ?
+        standingsData.filter(team => team.conference_id === Number(conferenceId)) :
+        standingsData;
+    } catch (error) {
+      console.error('StandingsService: Error rebuilding standings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the standings after every week from week 1 through the given week
+   * (defaults to the last week with a completed matchup)
+   */
+  static async getRankHistory(
+    seasonId: string | number,
+    throughWeek?: number,
+    playoffFormat?: DbPlayoffFormat | null
+  ): Promise<StandingsSnapshot[]> {
+    try {
+      const results = await this.getSeasonResults(seasonId);
+      const playedWeeks = results.matchups.map(matchup => parseInt(matchup.week));
+      const lastWeek = throughWeek ?? (playedWeeks.length > 0 ? Math.max(...playedWeeks) : 0);
+
+      return Array.from({ length: lastWeek }, (_, index) => ({
+        week: index + 1,
+        standings: this.buildStandingsAsOfWeek(results, index + 1, playoffFormat)
+      }));
+    } catch (error) {
+      console.error('StandingsService: Error building rank history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rebuild the standings as of a week with some matchups rescored. Rescored matchups are
+   * decided by their new scores rather than the recorded winner.
+   */
+  static async getStandingsWithScores(
+    seasonId: string | number,
+    scores: Map<number, { team1_score: number; team2_score: number }>,
+    week: number,
+    playoffFormat?: DbPlayoffFormat | null
+  ): Promise<StandingsData[]> {
+    try {
+      const results = await this.getSeasonResults(seasonId);
+      results.matchups = results.matchups.map(matchup => {
+        const rescored = scores.get(matchup.id);
+        return rescored ? { ...matchup, ...rescored, winning_team_id: null } : matchup;
+      });
+
+      return this.buildStandingsAsOfWeek(results, week, playoffFormat);
+    } catch (error) {
+      console.error('StandingsService: Error rebuilding rescored standings:', error);
+      throw error;
+    }
+  }
+
   /**
    * Format team record as "W-L" or "W-L-T" format
    */
@@ -223,12 +265,249 @@ export class StandingsService {
     return `${wins}-${losses}`;
   }
 
+  /**
+   * Win percentage with each tie counted as half a win
+   */
+  static calculateWinPercentage(wins: number, losses: number, ties: number = 0): number {
+    const totalGames = wins + losses + ties;
+    return totalGames > 0 ? (wins + ties * 0.5) / totalGames : 0;
+  }
+
+  /**
+   * Resolve the winner of a completed matchup: the recorded winner when there is one,
+   * otherwise the higher score. Returns null for a tie.
+   */
+  static getMatchupWinner(
+    team1Id: number,
+    team2Id: number,
+    team1Score: number,
+    team2Score: number,
+    recordedWinnerId?: number | null
+  ): number | null {
+    if (recordedWinnerId === team1Id || recordedWinnerId === team2Id) {
+      return recordedWinnerId;
+    }
+    if (team1Score > team2Score) return team1Id;
+    if (team2Score > team1Score) return team2Id;
+    return null;
+  }
+
   /**
    * Format points with proper decimal places
    */
   static formatPoints(points: number): string {
     return points.toFixed(1);
   }
+
+  /**
+   * Private helper methods
+   */
+
+  private static async getSeasonResults(seasonId: string | number): Promise<SeasonResults> {
+    const numericSeasonId = typeof seasonId === 'string' ? parseInt(seasonId) : seasonId;
+
+    const conferencesResult = await DatabaseService.getConferences({
+      filters: [{ column: 'season_id', operator: 'eq' as const, value: numericSeasonId }]
+    });
+
+    if (conferencesResult.error) {
+      throw new Error(`Failed to fetch conferences: ${conferencesResult.error}`);
+    }
+
+    const conferences = conferencesResult.data || [];
+    const conferenceIds = conferences.map(conf => conf.id);
+
+    const [junctionsResult, matchupsResult, rules, medianMode] = await Promise.all([
+      DatabaseService.getTeamConferenceJunctions({
+        filters: [{ column: 'conference_id', operator: 'in' as const, value: conferenceIds }]
+      }),
+      DatabaseService.getMatchups({
+        filters: [{ column: 'conference_id', operator: 'in' as const, value: conferenceIds }]
+      }),
+      TiebreakerService.getSeasonRules(numericSeasonId),
+      MedianScoringService.getSeasonMode(numericSeasonId)
+    ]);
+
+    if (junctionsResult.error) {
+      throw new Error(`Failed to fetch team memberships: ${junctionsResult.error}`);
+    }
+
+    if (matchupsResult.error) {
+      throw new Error(`Failed to fetch matchups: ${matchupsResult.error}`);
+    }
+
+    const memberships = junctionsResult.data || [];
+    const teamsResult = await DatabaseService.getTeams({
+      filters: [{ column: 'id', operator: 'in' as const, value: memberships.map(m => m.team_id) }]
+    });
+
+    if (teamsResult.error) {
+      throw new Error(`Failed to fetch teams: ${teamsResult.error}`);
+    }
+
+    const teamMap = new Map<number, DbTeam>();
+    (teamsResult.data || []).forEach(team => teamMap.set(team.id, team));
+
+    const conferenceMap = new Map<number, DbConference>();
+    conferences.forEach(conf => conferenceMap.set(conf.id, conf));
+
+    const matchups = (matchupsResult.data || []).filter(m =>
+      !m.is_playoff && !m.is_bye && m.team2_id &&
+      (m.matchup_status === 'complete' || Boolean(m.winning_team_id))
+    );
+
+    return { seasonId: numericSeasonId, matchups, memberships, teamMap, conferenceMap, rules, medianMode };
+  }
+
+  private static buildStandingsAsOfWeek(
+    results: SeasonResults,
+    week: number,
+    playoffFormat?: DbPlayoffFormat | null
+  ): StandingsData[] {
+    const played = results.matchups.filter(matchup => parseInt(matchup.week) <= week);
+
+    const records = new Map<number, { wins: number; losses: number; ties: number; points_for: number; points_against: number }>();
+    results.memberships.forEach(membership => {
+      records.set(membership.team_id, { wins: 0, losses: 0, ties: 0, points_for: 0, points_against: 0 });
+    });
+
+    played.forEach(matchup => {
+      const team1 = records.get(matchup.team1_id);
+      const team2 = records.get(matchup.team2_id!);
+      if (!team1 || !team2) return;
+
+      const team1Score = Number(matchup.team1_score) || 0;
+      const team2Score = Number(matchup.team2_score) || 0;
+      team1.points_for += team1Score;
+      team1.points_against += team2Score;
+      team2.points_for += team2Score;
+      team2.points_against += team1Score;
+
+      const winnerId = this.getMatchupWinner(matchup.team1_id, matchup.team2_id!, team1Score, team2Score, matchup.winning_team_id);
+      if (winnerId === matchup.team1_id) {
+        team1.wins++;
+        team2.losses++;
+      } else if (winnerId === matchup.team2_id) {
+        team2.wins++;
+        team1.losses++;
+      } else {
+        team1.ties++;
+        team2.ties++;
+      }
+    });
+
+    // Add the extra weekly result against the median when the season uses it
+    const medianResults = MedianScoringService.calculateMedianResults(
+      MedianScoringService.toMedianGames(played),
+      results.medianMode,
+      new Map(results.memberships.map(m => [m.team_id, m.conference_id]))
+    );
+    medianResults.forEach((medianResult, teamId) => {
+      const record = records.get(teamId);
+      if (record) {
+        record.wins += medianResult.wins;
+        record.losses += medianResult.losses;
+        record.ties += medianResult.ties;
+      }
+    });
+
+    const standingsData: StandingsData[] = results.memberships.map(membership => {
+      const team = results.teamMap.get(membership.team_id);
+      const conference = results.conferenceMap.get(membership.conference_id);
+      const record = records.get(membership.team_id)!;
+
+      return {
+        team_id: membership.team_id,
+        team_name: team?.team_name || `Team ${membership.team_id}`,
+        owner_name: team?.owner_name || 'Unknown Owner',
+        conference_id: membership.conference_id,
+        conference_name: conference?.conference_name || 'Unknown Conference',
+        team_logourl: team?.team_logourl || '',
+        ...record,
+        point_diff: record.points_for - record.points_against,
+        win_percentage: this.calculateWinPercentage(record.wins, record.losses, record.ties),
+        conference_rank: 0,
+        overall_rank: 0,
+        playoff_eligible: false,
+        is_conference_champion: false,
+        overall_tiebreaker: null,
+        conference_tiebreaker: null
+      };
+    });
+
+    this.rankStandings(
+      standingsData,
+      TiebreakerService.toTiebreakerGames(played),
+      results.rules,
+      results.seasonId,
+      playoffFormat
+    );
+
+    return standingsData;
+  }
+
+  // Assign overall and conference ranks, conference champions and playoff spots in place
+  private static rankStandings(
+    standingsData: StandingsData[],
+    games: TiebreakerGame[],
+    rules: TiebreakerRule[],
+    seasonId: number,
+    playoffFormat?: DbPlayoffFormat | null
+  ): void {
+    // Rank overall by win percentage, then the configured tiebreakers
+    const overallRanking = TiebreakerService.rankTeams(standingsData, games, rules, seasonId);
+    overallRanking.forEach(({ team, rank, tiebreaker }) => {
+      team.overall_rank = rank;
+      team.overall_tiebreaker = tiebreaker;
+    });
+    standingsData.sort((a, b) => a.overall_rank - b.overall_rank);
+
+    // Calculate conference ranks and identify conference champions
+    const conferenceGroups = new Map<number, StandingsData[]>();
+    standingsData.forEach(team => {
+      if (!conferenceGroups.has(team.conference_id)) {
+        conferenceGroups.set(team.conference_id, []);
+      }
+      conferenceGroups.get(team.conference_id)!.push(team);
+    });
+
+    // Rank within conferences and identify conference champions
+    conferenceGroups.forEach((teams) => {
+      const conferenceRanking = TiebreakerService.rankTeams(teams, games, rules, seasonId);
+
+      conferenceRanking.forEach(({ team, rank, tiebreaker }) => {
+        team.conference_rank = rank;
+        team.conference_tiebreaker = tiebreaker;
+        // Conference champion is #1 in conference
+        team.is_conference_champion = rank === 1;
+      });
+    });
+
+    // Calculate playoff eligibility with new seeding logic
+    // Seeds 1-3: Conference Champions (guaranteed spots)
+    // Seeds 4+: Next best teams by overall standings (including Conference Championship losers)
+    const conferenceChampions = standingsData.filter(team => team.is_conference_champion);
+    const nonChampions = standingsData.filter(team => !team.is_conference_champion);
+    
+    // All conference champions make playoffs
+    conferenceChampions.forEach(team => {
+      team.playoff_eligible = true;
+    });
+    
+    // Determine how many additional playoff spots are available
+    const totalPlayoffTeams = playoffFormat?.playoff_teams || 10; // Use playoff format or default to 10
+    const remainingPlayoffSpots = totalPlayoffTeams - conferenceChampions.length;
+    
+    // Award remaining playoff spots to top non-champions by overall rank
+    nonChampions.slice(0, remainingPlayoffSpots).forEach(team => {
+      team.playoff_eligible = true;
+    });
+    
+    // Mark remaining teams as not playoff eligible
+    nonChampions.slice(remainingPlayoffSpots).forEach(team => {
+      team.playoff_eligible = false;
+    });
+  }
 }
 
 export default StandingsService;
\ No newline at end of file
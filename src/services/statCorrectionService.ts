@@ -0,0 +1,514 @@
+import { DatabaseService } from '@/services/databaseService';
+import SleeperApiService, { SleeperMatchup, SleeperPlayer } from '@/services/sleeperApi';
+import { StandingsService } from '@/services/standingsService';
+import { AwardsService } from '@/services/awardsService';
+import { PlayoffClinchService } from '@/services/playoffClinchService';
+import MatchupCache from '@/services/matchupCache';
+import {
+  DbConference,
+  DbMatchup,
+  DbMatchupBoxScore,
+  DbStatCorrection,
+  DbTeamConferenceJunction,
+  StatCorrectionPlayerChange } from
+'@/types/database';
+
+// Scores are kept to two decimals, so anything closer than this is a rounding difference
+const SCORE_TOLERANCE = 0.01;
+
+interface WeekLineups {
+  lineups: Map<number, SleeperMatchup>;
+  loaded: Set<number>; // Teams whose lineup could be loaded
+}
+
+/**
+ * NFL stat corrections are published after the weekly sync has stored final scores and
+ * written team records. The correction pass re-fetches completed weeks from Sleeper and
+ * compares each team's total with the stored matchup score, and each starter's points with
+ * the box score stored by the first pass that found Sleeper agreeing with the final result.
+ * Differences are queued as pending corrections; nothing changes until an admin approves
+ * one, which rewrites the matchup's scores and winner, rebuilds the season's team records
+ * and the week's awards, and stores an explanation of the change.
+ */
+export class StatCorrectionService {
+  /**
+   * Re-fetch every completed regular season week (or just the given week) and queue a
+   * pending correction for each matchup whose Sleeper totals no longer match the stored scores
+   */
+  static async detectCorrections(seasonId: number, week?: number): Promise<DbStatCorrection[]> {
+    const { data: conferences } = await DatabaseService.getConferences({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+    });
+
+    const conferenceIds = conferences.map((c) => c.id);
+    if (conferenceIds.length === 0) {
+      return [];
+    }
+
+    // Only regular season games count toward team records
+    const [matchupsResult, junctionsResult, boxScoresResult, correctionsResult, regularSeasonEnd] = await Promise.all([
+    DatabaseService.getMatchups({
+      filters: [
+      { column: 'conference_id', operator: 'in', value: conferenceIds },
+      { column: 'is_playoff', operator: 'eq', value: false }]
+
+    }),
+    DatabaseService.getTeamConferenceJunctions({
+      filters: [{ column: 'conference_id', operator: 'in', value: conferenceIds }]
+    }),
+    DatabaseService.getMatchupBoxScores({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+    }),
+    DatabaseService.getStatCorrections({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+    }),
+    PlayoffClinchService.getRegularSeasonEnd(seasonId)]
+    );
+
+    if (matchupsResult.error) {
+      throw new Error(`Failed to fetch matchups: ${matchupsResult.error.message || matchupsResult.error}`);
+    }
+
+    const boxScores = new Map(boxScoresResult.data.map((box) => [box.matchup_id, box]));
+
+    // Only weeks where every game has a recorded result; a week still being played is skipped
+    const matchupsByWeek = new Map<number, DbMatchup[]>();
+    matchupsResult.data.forEach((m) => {
+      const matchupWeek = parseInt(m.week);
+      if (matchupWeek > regularSeasonEnd || (week && matchupWeek !== week)) return;
+      matchupsByWeek.set(matchupWeek, [...(matchupsByWeek.get(matchupWeek) || []), m]);
+    });
+
+    const detected: DbStatCorrection[] = [];
+    const weeks = [...matchupsByWeek.keys()].sort((a, b) => a - b);
+
+    for (const matchupWeek of weeks) {
+      const weekMatchups = matchupsByWeek.get(matchupWeek)!;
+      if (!weekMatchups.every((m) => m.matchup_status === 'complete' || m.winning_team_id)) continue;
+
+      const { lineups, loaded } = await this.getWeekLineups(conferences, junctionsResult.data, matchupWeek);
+
+      for (const matchup of weekMatchups) {
+        if (matchup.is_bye || !matchup.team2_id) continue;
+        if (!loaded.has(matchup.team1_id) || !loaded.has(matchup.team2_id)) continue;
+
+        const correction = await this.checkMatchup(
+          seasonId,
+          matchup,
+          lineups,
+          boxScores.get(matchup.id),
+          correctionsResult.data.filter((c) => c.matchup_id === matchup.id)
+        );
+        if (correction) detected.push(correction);
+      }
+    }
+
+    return detected;
+  }
+
+  /**
+   * Corrections for a season, newest first
+   */
+  static async getCorrections(seasonId: number): Promise<DbStatCorrection[]> {
+    const { data, error } = await DatabaseService.getStatCorrections({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }],
+      orderBy: { column: 'created_at', ascending: false }
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch stat corrections: ${error.message || error}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Apply a pending correction: store the corrected scores and winner, accept the corrected
+   * box score, rebuild the season's team records and the week's awards, and record an
+   * explanation
+   */
+  static async approveCorrection(correctionId: number, reviewedBy: string): Promise<DbStatCorrection> {
+    const correction = await this.getPendingCorrection(correctionId);
+
+    const [matchupsResult, teamsResult, players] = await Promise.all([
+    DatabaseService.getMatchups({
+      filters: [{ column: 'id', operator: 'eq', value: correction.matchup_id }]
+    }),
+    DatabaseService.getTeams({
+      filters: [{ column: 'id', operator: 'in', value: [correction.team1_id, correction.team2_id] }]
+    }),
+    MatchupCache.getPlayers()]
+    );
+
+    const matchup = matchupsResult.data[0];
+    if (!matchup) {
+      throw new Error(`Matchup ${correction.matchup_id} not found`);
+    }
+
+    const { error: matchupError } = await DatabaseService.updateMatchup(matchup.id, {
+      team1_score: correction.after_team1_score,
+      team2_score: correction.after_team2_score,
+      winning_team_id: correction.after_winning_team_id ?? null,
+      matchup_status: 'complete'
+    });
+
+    if (matchupError) {
+      throw new Error(`Failed to update matchup: ${matchupError.message || matchupError}`);
+    }
+
+    await this.acceptBoxScore(correction);
+    await this.recalculateTeamRecords(correction.season_id);
+    await AwardsService.recalculateWeekAwards(correction.season_id, correction.week);
+    await this.clearRecap(correction.matchup_id);
+
+    const teamNames = new Map(teamsResult.data.map((team) => [team.id, team.team_name]));
+    const { data, error } = await DatabaseService.updateStatCorrection(correction.id, {
+      status: 'approved',
+      explanation: this.explainCorrection(correction, teamNames, players),
+      reviewed_by: reviewedBy,
+      reviewed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    });
+
+    if (error || !data) {
+      throw new Error(`Failed to update stat correction: ${error?.message || error}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Leave the stored result as it is. The same scores will not be queued again.
+   */
+  static async dismissCorrection(correctionId: number, reviewedBy: string): Promise<DbStatCorrection> {
+    const correction = await this.getPendingCorrection(correctionId);
+
+    const { data, error } = await DatabaseService.updateStatCorrection(correction.id, {
+      status: 'dismissed',
+      reviewed_by: reviewedBy,
+      reviewed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    });
+
+    if (error || !data) {
+      throw new Error(`Failed to update stat correction: ${error?.message || error}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Rewrite `team_records` for every team in a season from the completed regular season
+   * matchups, including any median results
+   */
+  static async recalculateTeamRecords(seasonId: number): Promise<void> {
+    const regularSeasonEnd = await PlayoffClinchService.getRegularSeasonEnd(seasonId);
+    const [standings, existingResult] = await Promise.all([
+    StandingsService.getStandingsAsOfWeek(seasonId, regularSeasonEnd),
+    DatabaseService.getTeamRecords({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }],
+      limit: 500
+    })]
+    );
+
+    for (const team of standings) {
+      const record = {
+        team_id: team.team_id,
+        conference_id: team.conference_id,
+        season_id: seasonId,
+        wins: team.wins,
+        losses: team.losses,
+        ties: team.ties,
+        points_for: team.points_for,
+        points_against: team.points_against,
+        point_diff: team.point_diff,
+        updated_at: new Date().toISOString()
+      };
+
+      const existing = existingResult.data.find((r) =>
+      r.team_id === team.team_id && r.conference_id === team.conference_id
+      );
+
+      const { error } = existing ?
+      await DatabaseService.updateTeamRecord(existing.id, record) :
+      await DatabaseService.createTeamRecord(record);
+
+      if (error) {
+        console.error(`Error writing team record for team ${team.team_id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  // Compare one completed matchup with Sleeper and queue, refresh or retire its pending correction
+  private static async checkMatchup(
+    seasonId: number,
+    matchup: DbMatchup,
+    lineups: Map<number, SleeperMatchup>,
+    boxScore: DbMatchupBoxScore | undefined,
+    corrections: DbStatCorrection[]
+  ): Promise<DbStatCorrection | null> {
+    const team1Lineup = lineups.get(matchup.team1_id)!;
+    const team2Lineup = lineups.get(matchup.team2_id!)!;
+    const team1Points = this.getStarterPoints(team1Lineup);
+    const team2Points = this.getStarterPoints(team2Lineup);
+
+    const before = {
+      team1: Number(matchup.team1_score) || 0,
+      team2: Number(matchup.team2_score) || 0
+    };
+    const after = {
+      team1: this.roundScore(team1Lineup.points || 0),
+      team2: this.roundScore(team2Lineup.points || 0)
+    };
+
+    const pending = corrections.find((c) => c.status === 'pending');
+    const changed = Math.abs(after.team1 - before.team1) > SCORE_TOLERANCE ||
+    Math.abs(after.team2 - before.team2) > SCORE_TOLERANCE;
+
+    if (!changed) {
+      // Sleeper still agrees with the stored result, so these starters are its box score
+      if (!boxScore) {
+        await this.recordBoxScore(seasonId, matchup, team1Lineup, team2Lineup);
+      }
+
+      // Sleeper is back in line with the stored scores, so there is nothing left to approve
+      if (pending) {
+        await DatabaseService.updateStatCorrection(pending.id, {
+          status: 'dismissed',
+          reviewed_by: 'correction pass',
+          reviewed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        });
+      }
+      return null;
+    }
+
+    const alreadyDismissed = corrections.some((c) =>
+    c.status === 'dismissed' &&
+    Math.abs(Number(c.after_team1_score) - after.team1) <= SCORE_TOLERANCE &&
+    Math.abs(Number(c.after_team2_score) - after.team2) <= SCORE_TOLERANCE
+    );
+    if (alreadyDismissed) {
+      return null;
+    }
+
+    const beforeWinner = StandingsService.getMatchupWinner(
+      matchup.team1_id, matchup.team2_id!, before.team1, before.team2, matchup.winning_team_id
+    );
+    const afterWinner = StandingsService.getMatchupWinner(
+      matchup.team1_id, matchup.team2_id!, after.team1, after.team2
+    );
+
+    const correction: Partial<DbStatCorrection> = {
+      season_id: seasonId,
+      week: parseInt(matchup.week),
+      matchup_id: matchup.id,
+      status: 'pending',
+      team1_id: matchup.team1_id,
+      team2_id: matchup.team2_id!,
+      before_team1_score: before.team1,
+      before_team2_score: before.team2,
+      before_winning_team_id: beforeWinner,
+      after_team1_score: after.team1,
+      after_team2_score: after.team2,
+      after_winning_team_id: afterWinner,
+      result_flipped: beforeWinner !== afterWinner,
+      player_changes: [
+      ...this.diffPlayers(matchup.team1_id, boxScore?.team1_points, team1Points),
+      ...this.diffPlayers(matchup.team2_id!, boxScore?.team2_points, team2Points)]
+
+    };
+
+    const { data, error } = pending ?
+    await DatabaseService.updateStatCorrection(pending.id, { ...correction, updated_at: new Date().toISOString() }) :
+    await DatabaseService.createStatCorrection(correction);
+
+    if (error) {
+      console.error(`Error storing stat correction for matchup ${matchup.id}:`, error);
+      return null;
+    }
+
+    return data;
+  }
+
+  // Store the starters' points a matchup's final scores were taken from, so later passes
+  // can show which players were corrected
+  private static async recordBoxScore(
+    seasonId: number,
+    matchup: DbMatchup,
+    team1Lineup: SleeperMatchup,
+    team2Lineup: SleeperMatchup
+  ): Promise<void> {
+    const { error } = await DatabaseService.createMatchupBoxScore({
+      season_id: seasonId,
+      week: parseInt(matchup.week),
+      matchup_id: matchup.id,
+      team1_points: this.getStarterPoints(team1Lineup),
+      team2_points: this.getStarterPoints(team2Lineup)
+    });
+
+    if (error) {
+      console.error(`Error storing box score for matchup ${matchup.id}:`, error);
+    }
+  }
+
+  // Sleeper lineups for every team in a week, each from its own conference's league
+  private static async getWeekLineups(
+    conferences: DbConference[],
+    junctions: DbTeamConferenceJunction[],
+    week: number
+  ): Promise<WeekLineups> {
+    const lineups = new Map<number, SleeperMatchup>();
+    const loaded = new Set<number>();
+
+    for (const conference of conferences) {
+      try {
+        const sleeperMatchups = await SleeperApiService.fetchMatchups(conference.league_id, week);
+        junctions.
+        filter((j) => j.conference_id === conference.id).
+        forEach((junction) => {
+          const sleeperMatchup = sleeperMatchups.find((m) => m.roster_id === junction.roster_id);
+          if (sleeperMatchup) {
+            lineups.set(junction.team_id, sleeperMatchup);
+            loaded.add(junction.team_id);
+          }
+        });
+      } catch (error) {
+        console.error(`Error fetching Sleeper matchups for ${conference.conference_name}:`, error);
+      }
+    }
+
+    return { lineups, loaded };
+  }
+
+  private static getStarterPoints(lineup: SleeperMatchup): Record<string, number> {
+    const points: Record<string, number> = {};
+    (lineup.starters || []).
+    filter((playerId) => playerId && playerId !== '0').
+    forEach((playerId) => {
+      points[playerId] = this.roundScore(lineup.players_points?.[playerId] || 0);
+    });
+    return points;
+  }
+
+  // Starters whose points moved since the accepted box score. Without a box score (the
+  // correction arrived before any pass saw the original result) only the team totals can
+  // show the change.
+  private static diffPlayers(
+    teamId: number,
+    accepted: Record<string, number> | undefined,
+    current: Record<string, number>
+  ): StatCorrectionPlayerChange[] {
+    if (!accepted) return [];
+
+    return Object.entries(current).
+    filter(([playerId, points]) => Math.abs(points - (accepted[playerId] ?? 0)) > SCORE_TOLERANCE).
+    map(([playerId, points]) => ({
+      team_id: teamId,
+      player_id: playerId,
+      before: accepted[playerId] ?? 0,
+      after: points
+    }));
+  }
+
+  private static async getPendingCorrection(correctionId: number): Promise<DbStatCorrection> {
+    const { data, error } = await DatabaseService.getStatCorrections({
+      filters: [{ column: 'id', operator: 'eq', value: correctionId }]
+    });
+
+    if (error || data.length === 0) {
+      throw new Error(`Stat correction ${correctionId} not found`);
+    }
+
+    if (data[0].status !== 'pending') {
+      throw new Error(`Stat correction ${correctionId} has already been ${data[0].status}`);
+    }
+
+    return data[0];
+  }
+
+  // Apply the player changes to the accepted box score so the next pass diffs against them
+  private static async acceptBoxScore(correction: DbStatCorrection): Promise<void> {
+    const { data } = await DatabaseService.getMatchupBoxScores({
+      filters: [{ column: 'matchup_id', operator: 'eq', value: correction.matchup_id }]
+    });
+
+    const boxScore = data[0];
+    if (!boxScore) return;
+
+    const team1Points = { ...boxScore.team1_points };
+    const team2Points = { ...boxScore.team2_points };
+    (correction.player_changes || []).forEach((change) => {
+      const points = change.team_id === correction.team1_id ? team1Points : team2Points;
+      points[change.player_id] = change.after;
+    });
+
+    const { error } = await DatabaseService.updateMatchupBoxScore(boxScore.id, {
+      team1_points: team1Points,
+      team2_points: team2Points,
+      updated_at: new Date().toISOString()
+    });
+
+    if (error) {
+      console.error(`Error updating box score for matchup ${correction.matchup_id}:`, error);
+    }
+  }
+
+  // The stored recap describes the old scores; the next recap pass writes a fresh one
+  private static async clearRecap(matchupId: number): Promise<void> {
+    const { data } = await DatabaseService.getMatchupRecaps({
+      filters: [{ column: 'matchup_id', operator: 'eq', value: matchupId }]
+    });
+
+    for (const recap of data) {
+      const { error } = await DatabaseService.deleteMatchupRecap(recap.id);
+      if (error) {
+        console.error(`Error clearing recap for matchup ${matchupId}:`, error);
+      }
+    }
+  }
+
+  private static explainCorrection(
+    correction: DbStatCorrection,
+    teamNames: Map<number, string>,
+    players: Record<string, SleeperPlayer>
+  ): string {
+    const name = (teamId: number) => teamNames.get(teamId) || `Team ${teamId}`;
+    const playerName = (playerId: string) => {
+      const player = players[playerId];
+      return player ? `${player.first_name} ${player.last_name}` : playerId;
+    };
+    const score = (points: number) => Number(points).toFixed(2);
+    const result = (winnerId: number | null | undefined) => winnerId ? `a win for ${name(winnerId)}` : 'a tie';
+    const move = (teamId: number, before: number, after: number) =>
+    Math.abs(Number(after) - Number(before)) > SCORE_TOLERANCE ?
+    `${name(teamId)} from ${score(before)} to ${score(after)}` :
+    `${name(teamId)} unchanged at ${score(after)}`;
+
+    const scores = `Week ${correction.week} stat corrections: ` +
+    `${move(correction.team1_id, correction.before_team1_score, correction.after_team1_score)}, ` +
+    `${move(correction.team2_id, correction.before_team2_score, correction.after_team2_score)}.`;
+
+    const outcome = correction.result_flipped ?
+    ` The result changed from ${result(correction.before_winning_team_id)} to ${result(correction.after_winning_team_id)}, and team records were recalculated.` :
+    ` The result stands as ${result(correction.after_winning_team_id)}.`;
+
+    const biggest = [...(correction.player_changes || [])].
+    sort((a, b) => Math.abs(b.after - b.before) - Math.abs(a.after - a.before))[0];
+    const player = biggest ?
+    ` Largest change: ${playerName(biggest.player_id)} (${name(biggest.team_id)}) ${score(biggest.before)} to ${score(biggest.after)}.` :
+    '';
+
+    return scores + outcome + player;
+  }
+
+  private static roundScore(points: number): number {
+    return Math.round(points * 100) / 100;
+  }
+}
+
+export default StatCorrectionService;
@@ -0,0 +1,272 @@
+import { DatabaseService } from '@/services/databaseService';
+import { PlayoffOddsService, ScheduledGame } from '@/services/playoffOddsService';
+import { StandingsService } from '@/services/standingsService';
+import { DbMatchup, DbMatchupAdminOverride } from '@/types/database';
+
+export type ScheduleDifficulty = 'hard' | 'average' | 'easy';
+
+export const SCHEDULE_DIFFICULTY_LABELS: Record<ScheduleDifficulty, string> = {
+  hard: 'Hard',
+  average: 'Average',
+  easy: 'Easy'
+};
+
+export interface OpponentStrength {
+  team_id: number;
+  games: number;
+  win_percentage: number;
+  points_for: number; // Points per game
+  difficulty: ScheduleDifficulty;
+}
+
+export interface StrengthOfScheduleSplit {
+  games: number;
+  opponent_win_percentage: number;
+  opponent_points_for: number; // Opponents' average points per game
+  rank: number | null; // 1 is the hardest schedule in the league, null without games
+}
+
+export interface TeamStrengthOfSchedule {
+  team_id: number;
+  played: StrengthOfScheduleSplit;
+  remaining: StrengthOfScheduleSplit;
+}
+
+export interface SeasonStrengthOfSchedule {
+  teams: Map<number, TeamStrengthOfSchedule>;
+  opponents: Map<number, OpponentStrength>;
+}
+
+type SplitKey = 'played' | 'remaining';
+
+/**
+ * Strength of schedule from the regular season `matchups` rows. A team's schedule is
+ * as hard as its opponents' win percentage (ties count half) and scoring per game,
+ * both taken from completed games. Played games and remaining games are measured
+ * separately and ranked across the whole league.
+ *
+ * Interconference weeks are stored two ways: `manual_override` rows already hold the
+ * cross-conference pairing, while `matchup_admin_override` rows re-pair a conference's
+ * Sleeper matchup. Both are applied before anything is counted.
+ */
+export class StrengthOfScheduleService {
+
+  /**
+   * Calculate past and remaining strength of schedule for every team.
+   * Games after `asOfWeek` count as remaining even when they have been played.
+   */
+  static calculateStrengthOfSchedule(
+    teamIds: number[],
+    games: ScheduledGame[],
+    asOfWeek?: number
+  ): SeasonStrengthOfSchedule {
+    const isPlayed = (game: ScheduledGame) => game.completed && (asOfWeek === undefined || game.week <= asOfWeek);
+    const opponents = this.calculateOpponentStrength(teamIds, games.filter(isPlayed));
+
+    const teams = new Map<number, TeamStrengthOfSchedule>();
+    teamIds.forEach((teamId) => {
+      const played: number[] = [];
+      const remaining: number[] = [];
+
+      games.forEach((game) => {
+        const opponentId = game.team1_id === teamId ? game.team2_id : game.team2_id === teamId ? game.team1_id : null;
+        if (opponentId === null) return;
+        (isPlayed(game) ? played : remaining).push(opponentId);
+      });
+
+      teams.set(teamId, {
+        team_id: teamId,
+        played: this.calculateSplit(played, opponents),
+        remaining: this.calculateSplit(remaining, opponents)
+      });
+    });
+
+    this.assignRanks(teams, 'played');
+    this.assignRanks(teams, 'remaining');
+
+    return { teams, opponents };
+  }
+
+  /**
+   * Load the season schedule and calculate strength of schedule for every team in it
+   */
+  static async getSeasonStrengthOfSchedule(seasonId: number, asOfWeek?: number): Promise<SeasonStrengthOfSchedule> {
+    const games = await this.getSeasonSchedule(seasonId);
+    const teamIds = [...new Set(games.flatMap((game) => [game.team1_id, game.team2_id]))];
+    return this.calculateStrengthOfSchedule(teamIds, games, asOfWeek);
+  }
+
+  /**
+   * Get every regular season game for a season with active admin overrides applied
+   */
+  static async getSeasonSchedule(seasonId: number): Promise<ScheduledGame[]> {
+    const { data: conferences } = await DatabaseService.getConferences({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+    });
+
+    const conferenceIds = conferences.map((c) => c.id);
+    if (conferenceIds.length === 0) {
+      return [];
+    }
+
+    const [matchupsResult, overridesResult] = await Promise.all([
+    DatabaseService.getMatchups({
+      filters: [{ column: 'conference_id', operator: 'in', value: conferenceIds }]
+    }),
+    DatabaseService.getMatchupAdminOverrides({
+      filters: [
+      { column: 'season_id', operator: 'eq', value: seasonId },
+      { column: 'is_active', operator: 'eq', value: true }]
+
+    })]
+    );
+
+    if (matchupsResult.error) {
+      throw new Error(`Failed to fetch matchups: ${matchupsResult.error.message || matchupsResult.error}`);
+    }
+
+    if (overridesResult.error) {
+      console.error('Error fetching matchup overrides:', overridesResult.error);
+    }
+
+    return this.applyAdminOverrides(matchupsResult.data, overridesResult.data || []);
+  }
+
+  /**
+   * Convert matchups into scheduled games with active admin overrides applied. An override's
+   * pairing replaces whatever its two teams (and its original Sleeper pairing) were scheduled
+   * for in that conference and week. Sleeper scores belong to a team rather than a pairing,
+   * so each team keeps its own score for the week.
+   */
+  static applyAdminOverrides(matchups: DbMatchup[], overrides: DbMatchupAdminOverride[]): ScheduledGame[] {
+    const regularSeason = matchups.filter((m) => !m.is_playoff && !m.is_bye && m.team2_id);
+    const games = PlayoffOddsService.toScheduledGames(regularSeason);
+
+    // Overrides only apply to weeks the conference actually has regular season matchups in
+    const active = overrides.filter((override) =>
+    override.is_active &&
+    regularSeason.some((m) => m.conference_id === override.conference_id && parseInt(m.week) === override.week)
+    );
+
+    // Each team's score for the week, from whichever completed game it appears in
+    const scores = new Map<string, number>();
+    games.filter((game) => game.completed).forEach((game) => {
+      scores.set(`${game.week}-${game.team1_id}`, game.team1_score);
+      scores.set(`${game.week}-${game.team2_id}`, game.team2_score);
+    });
+
+    const replaced = (m: DbMatchup) => !m.manual_override && active.some((override) => {
+      if (override.week !== parseInt(m.week) || override.conference_id !== m.conference_id) return false;
+      const teams = [override.override_team1_id, override.override_team2_id, override.original_team1_id, override.original_team2_id];
+      return teams.includes(m.team1_id) || teams.includes(m.team2_id as number);
+    });
+
+    const scheduled = games.filter((_, index) => !replaced(regularSeason[index]));
+
+    active.forEach((override) => {
+      const team1Score = scores.get(`${override.week}-${override.override_team1_id}`);
+      const team2Score = scores.get(`${override.week}-${override.override_team2_id}`);
+      const completed = team1Score !== undefined && team2Score !== undefined;
+
+      scheduled.push({
+        week: override.week,
+        team1_id: override.override_team1_id,
+        team2_id: override.override_team2_id,
+        team1_score: team1Score || 0,
+        team2_score: team2Score || 0,
+        winning_team_id: completed ?
+        StandingsService.getMatchupWinner(override.override_team1_id, override.override_team2_id, team1Score, team2Score) :
+        null,
+        completed
+      });
+    });
+
+    // An interconference pairing can be stored under both conferences, count it once
+    const seen = new Set<string>();
+    return scheduled.filter((game) => {
+      const key = `${game.week}-${Math.min(game.team1_id, game.team2_id)}-${Math.max(game.team1_id, game.team2_id)}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Describe a split as a win percentage, e.g. ".542"
+   */
+  static formatWinPercentage(value: number): string {
+    return value.toFixed(3).replace(/^0/, '');
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private static calculateOpponentStrength(teamIds: number[], completed: ScheduledGame[]): Map<number, OpponentStrength> {
+    const strengths = teamIds.map((teamId) => {
+      let wins = 0;
+      let losses = 0;
+      let ties = 0;
+      let points = 0;
+
+      completed.forEach((game) => {
+        if (game.team1_id !== teamId && game.team2_id !== teamId) return;
+
+        const winner = StandingsService.getMatchupWinner(
+          game.team1_id, game.team2_id, game.team1_score, game.team2_score, game.winning_team_id ?? undefined
+        );
+        if (winner === teamId) wins++;else
+        if (winner === null) ties++;else
+        losses++;
+        points += game.team1_id === teamId ? game.team1_score : game.team2_score;
+      });
+
+      const games = wins + losses + ties;
+      return {
+        team_id: teamId,
+        games,
+        win_percentage: StandingsService.calculateWinPercentage(wins, losses, ties),
+        points_for: games > 0 ? points / games : 0,
+        difficulty: 'average' as ScheduleDifficulty
+      };
+    });
+
+    // Top third of the league is a hard opponent, bottom third an easy one
+    const ranked = strengths.
+    filter((s) => s.games > 0).
+    sort((a, b) => b.win_percentage - a.win_percentage || b.points_for - a.points_for);
+    ranked.forEach((strength, index) => {
+      if (index < ranked.length / 3) strength.difficulty = 'hard';else
+      if (index >= ranked.length * 2 / 3) strength.difficulty = 'easy';
+    });
+
+    return new Map(strengths.map((s) => [s.team_id, s]));
+  }
+
+  private static calculateSplit(opponentIds: number[], opponents: Map<number, OpponentStrength>): StrengthOfScheduleSplit {
+    const games = opponentIds.length;
+    const average = (value: (o: OpponentStrength) => number) =>
+    games > 0 ? opponentIds.reduce((sum, id) => sum + (opponents.has(id) ? value(opponents.get(id)!) : 0), 0) / games : 0;
+
+    return {
+      games,
+      opponent_win_percentage: average((o) => o.win_percentage),
+      opponent_points_for: average((o) => o.points_for),
+      rank: null
+    };
+  }
+
+  private static assignRanks(teams: Map<number, TeamStrengthOfSchedule>, key: SplitKey): void {
+    [...teams.values()].
+    filter((team) => team[key].games > 0).
+    sort((a, b) =>
+    b[key].opponent_win_percentage - a[key].opponent_win_percentage ||
+    b[key].opponent_points_for - a[key].opponent_points_for
+    ).
+    forEach((team, index) => {
+      team[key].rank = index + 1;
+    });
+  }
+}
+
+export default StrengthOfScheduleService;
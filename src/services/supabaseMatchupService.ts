@@ -3,6 +3,7 @@ import { DatabaseService } from './databaseService';
 import SleeperApiService, { SleeperMatchup, SleeperRoster, SleeperUser, SleeperPlayer } from './sleeperApi';
 import { DbMatchup, DbConference, DbTeam, DbMatchupAdminOverride, DbPlayoffBracket } from '@/types/database';
 import MatchupCache from './matchupCache';
+import { MatchupStatusService } from './matchupStatusService';
 
 // Use database types directly
 export type DatabaseMatchup = DbMatchup;
@@ -45,13 +46,14 @@ export class SupabaseMatchupService {
       const startTime = performance.now();
 
       // 1. Batch all database queries in parallel for better performance
-      const [dbMatchupsResult, conferencesResult, teamsResult, junctionsResult] = await Promise.all([
+      const [dbMatchupsResult, conferencesResult, teamsResult, junctionsResult, weekStatus] = await Promise.all([
         week >= 13 
           ? this.getPlayoffBrackets(seasonId, week, conferenceId)
           : this.getDatabaseMatchups(seasonId, week, conferenceId),
         this.getConferences(seasonId),
         this.getTeams(),
-        this.getTeamConferenceJunctions()
+        this.getTeamConferenceJunctions(),
+        MatchupStatusService.getWeekStatus(seasonId, week)
       ]);
 
       // Process results based on week type
@@ -291,8 +293,13 @@ export class SupabaseMatchupService {
             team1Junction.roster_id, team2Junction.roster_id
           );
 
-          // Determine status from Sleeper data
-          const status = this.determineMatchupStatusFromSleeper(team1SleeperMatchup, team2SleeperMatchup);
+          // Recorded result first, then the NFL schedule with live Sleeper points
+          const status = MatchupStatusService.getDisplayStatus({
+            matchup_status: dbMatchup.matchup_status,
+            winning_team_id: dbMatchup.winning_team_id,
+            team1_score: team1SleeperMatchup.points,
+            team2_score: team2SleeperMatchup.points
+          }, weekStatus);
 
           const organizedMatchup: OrganizedMatchup = {
             matchup_id: team1SleeperMatchup.matchup_id || 0,
@@ -339,6 +346,7 @@ export class SupabaseMatchupService {
     conference: { id: number; name: string };
     teams: { id: number; name: string; owner: string; points: number; roster_id: number; team_logourl?: string; avatar?: string; conference?: { id: number; name: string } }[];
     status: 'live' | 'completed' | 'upcoming';
+    stat_corrections_pending?: boolean;
     week: number;
     is_playoff: boolean;
     is_bye?: boolean;
@@ -350,15 +358,26 @@ export class SupabaseMatchupService {
       const startTime = performance.now();
 
       // Batch all database queries in parallel
-      const [dbMatchupsResult, conferences, teams, junctions] = await Promise.all([
+      const [dbMatchupsResult, conferences, teams, junctions, weekStatus, correctionsResult] = await Promise.all([
         week >= 13 
           ? this.getPlayoffBrackets(seasonId, week, conferenceId)
           : this.getDatabaseMatchups(seasonId, week, conferenceId),
         this.getConferences(seasonId),
         this.getTeams(),
-        this.getTeamConferenceJunctions()
+        this.getTeamConferenceJunctions(),
+        MatchupStatusService.getWeekStatus(seasonId, week),
+        DatabaseService.getStatCorrections({
+          filters: [
+            { column: 'season_id', operator: 'eq', value: seasonId },
+            { column: 'week', operator: 'eq', value: week },
+            { column: 'status', operator: 'eq', value: 'pending' }
+          ]
+        })
       ]);
 
+      // Matchups with a detected stat correction still waiting for review
+      const pendingCorrections = new Set(correctionsResult.data.map(correction => correction.matchup_id));
+
       // Process matchups based on week type
       let dbMatchups: DatabaseMatchup[] = [];
       if (week >= 13) {
@@ -389,6 +408,11 @@ export class SupabaseMatchupService {
         const team1Conference = team1Junction ? conferences.find(c => c.id === team1Junction.conference_id) : null;
         const team2Conference = team2Junction ? conferences.find(c => c.id === team2Junction.conference_id) : null;
 
+        const lifecycleStatus = MatchupStatusService.resolveStatus({
+          ...dbMatchup,
+          has_pending_correction: pendingCorrections.has(dbMatchup.id)
+        }, weekStatus);
+
         // Build minimal matchup
         const minimalMatchup = {
           id: dbMatchup.id,
@@ -412,7 +436,8 @@ export class SupabaseMatchupService {
               } : undefined
             }
           ],
-          status: this.determineMatchupStatusFromDb(dbMatchup),
+          status: MatchupStatusService.toDisplayStatus(lifecycleStatus),
+          stat_corrections_pending: lifecycleStatus === 'pending_corrections',
           week: parseInt(dbMatchup.week),
           is_playoff: dbMatchup.is_playoff || false,
           is_bye: dbMatchup.is_bye || false,
@@ -584,21 +609,6 @@ export class SupabaseMatchupService {
     }
   }
 
-  /**
-   * Determine matchup status from database data
-   */
-  private static determineMatchupStatusFromDb(matchup: any): 'live' | 'completed' | 'upcoming' {
-    if (matchup.matchup_status === 'complete' || matchup.winning_team_id) {
-      return 'completed';
-    }
-    
-    if (matchup.team1_score > 0 || matchup.team2_score > 0) {
-      return 'live';
-    }
-    
-    return 'upcoming';
-  }
-
   /**
    * Get conferences for a specific season
    */
@@ -908,17 +918,6 @@ export class SupabaseMatchupService {
     }
   }
 
-  /**
-   * Simplified status determination
-   */
-  private static determineMatchupStatusSimple(sleeperMatchup: any): 'live' | 'completed' | 'upcoming' {
-    // Basic status logic - this could be enhanced
-    if (sleeperMatchup.points && sleeperMatchup.points > 0) {
-      return 'completed';
-    }
-    return 'upcoming';
-  }
-
   /**
    * Build matchup teams using database team assignments and Sleeper live data
    */
@@ -1068,31 +1067,6 @@ export class SupabaseMatchupService {
     }
   }
 
-  /**
-   * Determine matchup status from Sleeper matchup data
-   */
-  private static determineMatchupStatusFromSleeper(
-    team1SleeperMatchup: any,
-    team2SleeperMatchup: any
-  ): 'live' | 'completed' | 'upcoming' {
-    // Check if both teams have points data
-    const team1HasPoints = team1SleeperMatchup.points && team1SleeperMatchup.points > 0;
-    const team2HasPoints = team2SleeperMatchup && team2SleeperMatchup.points && team2SleeperMatchup.points > 0;
-    
-    // If both teams have points, it's likely completed
-    if (team1HasPoints && team2HasPoints) {
-      return 'completed';
-    }
-    
-    // If either team has points, it might be live
-    if (team1HasPoints || team2HasPoints) {
-      return 'live';
-    }
-    
-    // No points yet, probably upcoming
-    return 'upcoming';
-  }
-
   /**
    * Get detailed matchup data for the matchup detail page
    */
@@ -1149,17 +1123,18 @@ export class SupabaseMatchupService {
       ) : null;
 
       // Get Sleeper data
-      const [sleeperMatchups, sleeperRosters, sleeperUsers] = await Promise.all([
+      const [sleeperMatchups, sleeperRosters, sleeperUsers, weekStatus] = await Promise.all([
         SleeperApiService.fetchMatchups(conference.league_id, parseInt(dbMatchup.week)),
         SleeperApiService.fetchLeagueRosters(conference.league_id),
-        SleeperApiService.fetchLeagueUsers(conference.league_id)
+        SleeperApiService.fetchLeagueUsers(conference.league_id),
+        MatchupStatusService.getWeekStatus(seasonId, parseInt(dbMatchup.week))
       ]);
 
       // Build detailed matchup object
       const detailedMatchup = {
         id: dbMatchup.id,
         week: parseInt(dbMatchup.week),
-        status: this.determineMatchupStatusFromDb(dbMatchup),
+        status: MatchupStatusService.getDisplayStatus(dbMatchup, weekStatus),
         isPlayoff: dbMatchup.is_playoff || false,
         playoffRound: dbMatchup.notes,
         conference: {
@@ -1186,7 +1161,8 @@ export class SupabaseMatchupService {
           logoUrl: team1.team_logourl,
           record: { 
             wins: team1Record?.wins || 0, 
-            losses: team1Record?.losses || 0 
+            losses: team1Record?.losses || 0,
+            ties: team1Record?.ties || 0
           },
           points: dbMatchup.team1_score || 0,
           projectedPoints: team1SleeperMatchup.projected_points || 0,
@@ -1212,7 +1188,8 @@ export class SupabaseMatchupService {
             logoUrl: team2.team_logourl,
             record: { 
               wins: team2Record?.wins || 0, 
-              losses: team2Record?.losses || 0 
+              losses: team2Record?.losses || 0,
+              ties: team2Record?.ties || 0
             },
             points: dbMatchup.team2_score || 0,
             projectedPoints: team2SleeperMatchup.projected_points || 0,
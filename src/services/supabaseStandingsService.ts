@@ -1,5 +1,8 @@
 import { DatabaseService } from '@/services/databaseService';
 import { DbSeason, DbConference, DbTeam, DbTeamRecord } from '@/types/database';
+import { MedianScoringService, MedianScoringMode } from '@/services/medianScoringService';
+import { StandingsService } from '@/services/standingsService';
+import { TiebreakerService } from '@/services/tiebreakerService';
 
 export interface StandingsData {
   id: number;
@@ -24,6 +27,14 @@ export interface StandingsData {
   team_secondary_color: string;
 }
 
+// A team record joined with its team and conference names
+interface JoinedTeamRecord extends DbTeamRecord {
+  team_name: string;
+  owner_name: string;
+  team_logo_url: string;
+  conference_name: string;
+}
+
 /**
  * Enhanced Standings Service using native Supabase calls
  * This replaces the old standingsService.ts with direct database operations
@@ -31,9 +42,14 @@ export interface StandingsData {
 export class SupabaseStandingsService {
   
   /**
-   * Get standings data for a specific season and optionally filter by conference
+   * Get standings data for a specific season and optionally filter by conference.
+   * Pass a median scoring mode to preview the standings as if the season had used it.
    */
-  static async getStandingsData(seasonYear: number, conferenceId?: string | number): Promise<StandingsData[]> {
+  static async getStandingsData(
+    seasonYear: number,
+    conferenceId?: string | number,
+    medianScoringMode?: MedianScoringMode
+  ): Promise<StandingsData[]> {
     try {
       // First, get the season
       const { data: seasons } = await DatabaseService.getSeasons({
@@ -69,7 +85,13 @@ export class SupabaseStandingsService {
       }
 
       // Get team records with join data
-      const standingsData = await this.getStandingsWithJoins(season.id, teamRecordFilters);
+      let standingsData = await this.getStandingsWithJoins(season.id, teamRecordFilters);
+
+      // Stored records already include the season's own median results
+      const seasonMode = MedianScoringService.normalizeMode(season.median_scoring_mode);
+      if (medianScoringMode && medianScoringMode !== seasonMode) {
+        standingsData = await this.applyMedianScoringMode(season.id, standingsData, seasonMode, medianScoringMode);
+      }
 
       // Calculate additional fields
       return this.enhanceStandingsData(standingsData);
@@ -144,7 +166,7 @@ export class SupabaseStandingsService {
   private static async getStandingsWithJoins(
     seasonId: number, 
     teamRecordFilters: any[]
-  ): Promise<any[]> {
+  ): Promise<JoinedTeamRecord[]> {
     // For now, we'll do separate queries and join in memory
     // In the future, this could be optimized with a Supabase view or function
     
@@ -181,10 +203,60 @@ export class SupabaseStandingsService {
     });
   }
 
+  /**
+   * Swap the median results baked into the stored records for the ones from another mode,
+   * then rank the adjusted records with the season's tiebreakers
+   */
+  private static async applyMedianScoringMode(
+    seasonId: number,
+    records: JoinedTeamRecord[],
+    storedMode: MedianScoringMode,
+    previewMode: MedianScoringMode
+  ): Promise<JoinedTeamRecord[]> {
+    const { data: conferences } = await DatabaseService.getConferences({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+    });
+
+    const conferenceIds = conferences.map((c) => c.id);
+    const [{ data: matchups }, { data: junctions }, rules] = await Promise.all([
+    DatabaseService.getMatchups({
+      filters: [{ column: 'conference_id', operator: 'in', value: conferenceIds }]
+    }),
+    DatabaseService.getTeamConferenceJunctions({
+      filters: [{ column: 'conference_id', operator: 'in', value: conferenceIds }]
+    }),
+    TiebreakerService.getSeasonRules(seasonId)]
+    );
+
+    const games = MedianScoringService.toMedianGames(matchups);
+    const conferenceByTeam = new Map(junctions.map((j) => [j.team_id, j.conference_id]));
+    const storedResults = MedianScoringService.calculateMedianResults(games, storedMode, conferenceByTeam);
+    const previewResults = MedianScoringService.calculateMedianResults(games, previewMode, conferenceByTeam);
+    const empty = { wins: 0, losses: 0, ties: 0 };
+
+    const adjusted = records.map((record) => {
+      const stored = storedResults.get(record.team_id) || empty;
+      const preview = previewResults.get(record.team_id) || empty;
+      const wins = (record.wins || 0) - stored.wins + preview.wins;
+      const losses = (record.losses || 0) - stored.losses + preview.losses;
+      const ties = (record.ties || 0) - stored.ties + preview.ties;
+      return {
+        record: { ...record, wins, losses, ties },
+        team_id: record.team_id,
+        conference_id: record.conference_id,
+        win_percentage: StandingsService.calculateWinPercentage(wins, losses, ties),
+        points_for: record.points_for || 0,
+        points_against: record.points_against || 0
+      };
+    });
+
+    return TiebreakerService.rankTeams(adjusted, TiebreakerService.toTiebreakerGames(matchups), rules, seasonId).
+    map(({ team }) => team.record);
+  }
+
   private static enhanceStandingsData(rawData: any[]): StandingsData[] {
     return rawData.map((record, index) => {
-      const totalGames = record.wins + record.losses + record.ties;
-      const winPercentage = totalGames > 0 ? record.wins / totalGames : 0;
+      const winPercentage = StandingsService.calculateWinPercentage(record.wins || 0, record.losses || 0, record.ties || 0);
       
       return {
         id: record.id,
@@ -1,4 +1,9 @@
 import { toast } from '@/hooks/use-toast';
+import { TiebreakerService, TiebreakerGame } from '@/services/tiebreakerService';
+import { PlayoffClinchService } from '@/services/playoffClinchService';
+import { MedianScoringService, MedianResult } from '@/services/medianScoringService';
+import { StandingsService } from '@/services/standingsService';
+import { DatabaseService } from '@/services/databaseService';
 
 export interface TeamRecord {
   id: number;
@@ -268,21 +273,38 @@ class TeamRecordsService {
           team2Record.points_for += matchup.team_2_score || 0;
           team2Record.points_against += matchup.team_1_score || 0;
 
-          // Update win/loss/tie records
-          if (matchup.winner_id === matchup.team_1_id) {
+          // Update win/loss/tie records (ties are stored with no winner, as null or 0)
+          const winnerId = StandingsService.getMatchupWinner(
+            matchup.team_1_id,
+            matchup.team_2_id,
+            matchup.team_1_score || 0,
+            matchup.team_2_score || 0,
+            matchup.winner_id
+          );
+          if (winnerId === matchup.team_1_id) {
             team1Record.wins++;
             team2Record.losses++;
-          } else if (matchup.winner_id === matchup.team_2_id) {
+          } else if (winnerId === matchup.team_2_id) {
             team2Record.wins++;
             team1Record.losses++;
-          } else if (matchup.team_1_score === matchup.team_2_score && matchup.team_1_score > 0) {
-            // Tie (both teams have same score and it's not 0)
+          } else {
             team1Record.ties++;
             team2Record.ties++;
           }
         }
       });
 
+      // Add the extra weekly result against the median when the season uses it
+      const medianResults = await this.getMedianResults(seasonId);
+      teamRecords.forEach((record, teamId) => {
+        const medianResult = medianResults.get(teamId);
+        if (medianResult) {
+          record.wins += medianResult.wins;
+          record.losses += medianResult.losses;
+          record.ties += medianResult.ties;
+        }
+      });
+
       // Update database with calculated records
       await this.updateTeamRecordsInDatabase(seasonId, conferenceId, teamRecords);
     } catch (error) {
@@ -291,6 +313,36 @@ class TeamRecordsService {
     }
   }
 
+  /**
+   * Extra median wins/losses for a conference's teams. Interconference games can be stored
+   * under either conference and league mode compares against every conference's scores, so
+   * it loads the completed matchups of the whole season and pools each team's score by its
+   * own conference.
+   */
+  private async getMedianResults(seasonId: number): Promise<Map<number, MedianResult>> {
+    const season = await this.getSeasonById(seasonId);
+    const mode = MedianScoringService.normalizeMode(season?.median_scoring_mode);
+    if (mode === 'off') {
+      return new Map();
+    }
+
+    const [conferences, junctions] = await Promise.all([
+    this.getConferencesForSeason(seasonId),
+    this.getTeamConferenceJunctions(seasonId)]
+    );
+
+    const matchups: MatchupResult[] = [];
+    for (const conference of conferences) {
+      matchups.push(...(await this.getCompletedMatchups(seasonId, conference.id)));
+    }
+
+    return MedianScoringService.calculateMedianResults(
+      MedianScoringService.fromLegacyMatchups(matchups),
+      mode,
+      new Map(junctions.map((j) => [j.team_id, j.conference_id]))
+    );
+  }
+
   /**
    * Get completed matchups for record calculation with proper filtering
    */
@@ -337,8 +389,7 @@ class TeamRecordsService {
   : Promise<void> {
     try {
       for (const [teamId, record] of teamRecords.entries()) {
-        const totalGames = record.wins + record.losses + record.ties;
-        const winPercentage = totalGames > 0 ? record.wins / totalGames : 0;
+        const winPercentage = StandingsService.calculateWinPercentage(record.wins, record.losses, record.ties);
 
         // Check if record exists (proper upsert logic)
         const existingRecord = await this.getTeamRecord(teamId, seasonId, record.conference_id);
@@ -406,8 +457,8 @@ class TeamRecordsService {
    */
   private async updateTeamRankings(seasonId: number, conferenceId?: number): Promise<void> {
     try {
-      // Get all records for ranking with proper seasonal filtering
-      const teamRecords = await this.getTeamRecords(seasonId, conferenceId);
+      // Overall ranks and playoff seeds depend on every conference, so always rank the whole season
+      const teamRecords = await this.getTeamRecords(seasonId);
 
       // Group by conference for conference rankings
       const conferenceGroups = new Map<number, TeamRecord[]>();
@@ -418,41 +469,50 @@ class TeamRecordsService {
         conferenceGroups.get(record.conference_id)!.push(record);
       });
 
-      // Sort and rank within conferences
-      for (const [confId, records] of conferenceGroups.entries()) {
-        records.sort((a, b) => {
-          if (a.win_percentage !== b.win_percentage) {
-            return b.win_percentage - a.win_percentage;
-          }
-          return b.points_for - a.points_for;
+      // Tiebreakers are evaluated on the season's completed games using the season's configured rules
+      const season = await this.getSeasonById(seasonId);
+      const tiebreakerRules = TiebreakerService.normalizeRules(season?.tiebreaker_rules);
+      const tiebreakerGames: TiebreakerGame[] = (await this.getCompletedMatchupsForSeason(seasonId)).
+      filter((matchup) => !matchup.is_playoff).
+      map((matchup) => ({
+        team1_id: matchup.team_1_id,
+        team2_id: matchup.team_2_id,
+        team1_score: matchup.team_1_score,
+        team2_score: matchup.team_2_score,
+        winning_team_id: matchup.winner_id || null
+      }));
+
+      // Rank within conferences
+      const conferenceRanks = new Map<number, number>();
+      for (const records of conferenceGroups.values()) {
+        TiebreakerService.rankTeams(records, tiebreakerGames, tiebreakerRules, seasonId).forEach(({ team, rank }) => {
+          conferenceRanks.set(team.id, rank);
         });
-
-        // Update conference rankings
-        for (let i = 0; i < records.length; i++) {
-          const record = records[i];
-          await window.ezsite.apis.tableUpdate(this.TEAM_RECORDS_TABLE_ID, {
-            ID: record.id,
-            conference_rank: i + 1,
-            playoff_eligible: i < 4 // Top 4 teams are playoff eligible
-          });
-        }
       }
 
       // Calculate overall rankings across all conferences for this season
-      const allRecords = Array.from(conferenceGroups.values()).flat();
-      allRecords.sort((a, b) => {
-        if (a.win_percentage !== b.win_percentage) {
-          return b.win_percentage - a.win_percentage;
+      const overallRanking = TiebreakerService.rankTeams(teamRecords, tiebreakerGames, tiebreakerRules, seasonId);
+
+      // Playoff eligibility follows the season's playoff format seeding
+      const playoffFormat = await this.getPlayoffFormat(season);
+      const seeds = PlayoffClinchService.projectSeeds(overallRanking.map(({ team, rank }) => ({
+        team_id: team.id,
+        conference_id: team.conference_id,
+        overall_rank: rank,
+        conference_rank: conferenceRanks.get(team.id) || 0
+      })));
+
+      // Update rankings, skipping conferences that were not requested
+      for (const { team: record, rank } of overallRanking) {
+        if (conferenceId && record.conference_id !== conferenceId) {
+          continue;
         }
-        return b.points_for - a.points_for;
-      });
 
-      // Update overall rankings
-      for (let i = 0; i < allRecords.length; i++) {
-        const record = allRecords[i];
         await window.ezsite.apis.tableUpdate(this.TEAM_RECORDS_TABLE_ID, {
           ID: record.id,
-          overall_rank: i + 1
+          conference_rank: conferenceRanks.get(record.id),
+          overall_rank: rank,
+          playoff_eligible: (seeds.get(record.id) || Infinity) <= playoffFormat.playoff_teams
         });
       }
     } catch (error) {
@@ -795,6 +855,35 @@ class TeamRecordsService {
     }
   }
 
+  private async getPlayoffFormat(season: { season_year: number | string } | null): Promise<{ playoff_teams: number; week_14_byes: number }> {
+    const fallback = { playoff_teams: 10, week_14_byes: 6 };
+    if (!season) return fallback;
+
+    try {
+      // Playoff formats are stored against the Supabase season for the same year
+      const { data: seasons, error: seasonError } = await DatabaseService.getSeasons({
+        filters: [{ column: 'season_year', operator: 'eq', value: String(season.season_year) }],
+        limit: 1
+      });
+      if (seasonError) throw seasonError;
+      if (!seasons[0]) return fallback;
+
+      const { data, error } = await DatabaseService.getPlayoffFormats({
+        filters: [
+        { column: 'season_id', operator: 'eq', value: seasons[0].id },
+        { column: 'is_active', operator: 'eq', value: true }],
+
+        limit: 1
+      });
+
+      if (error) throw error;
+      return data[0] || fallback;
+    } catch (error) {
+      console.error('Error fetching playoff format:', error);
+      return fallback;
+    }
+  }
+
   private async getConferencesForSeason(seasonId: number): Promise<any[]> {
     try {
       const { data, error } = await window.ezsite.apis.tablePage(
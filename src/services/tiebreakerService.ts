@@ -0,0 +1,352 @@
+import { DatabaseService } from '@/services/databaseService';
+import { DbMatchup } from '@/types/database';
+
+export type TiebreakerRule =
+  'head_to_head' |
+  'conference_record' |
+  'points_for' |
+  'points_against' |
+  'coin_flip';
+
+export const DEFAULT_TIEBREAKER_RULES: TiebreakerRule[] = [
+  'head_to_head',
+  'conference_record',
+  'points_for',
+  'points_against',
+  'coin_flip'
+];
+
+export const TIEBREAKER_RULE_LABELS: Record<TiebreakerRule, string> = {
+  head_to_head: 'Head-to-Head',
+  conference_record: 'Conference Record',
+  points_for: 'Points For',
+  points_against: 'Points Against',
+  coin_flip: 'Coin Flip'
+};
+
+export const TIEBREAKER_RULE_SHORT_LABELS: Record<TiebreakerRule, string> = {
+  head_to_head: 'H2H',
+  conference_record: 'Conf',
+  points_for: 'PF',
+  points_against: 'PA',
+  coin_flip: 'Coin'
+};
+
+export interface TiebreakerTeam {
+  team_id: number;
+  conference_id: number;
+  win_percentage: number;
+  points_for: number;
+  points_against: number;
+}
+
+export interface TiebreakerGame {
+  team1_id: number;
+  team2_id: number;
+  team1_score: number;
+  team2_score: number;
+  winning_team_id?: number | null;
+}
+
+export interface RankedTeam<T extends TiebreakerTeam> {
+  team: T;
+  rank: number;
+  // Rule that separated this team from the rest of its tied group (null when not tied)
+  tiebreaker: TiebreakerRule | null;
+}
+
+interface PlacedTeam<T> {
+  team: T;
+  tiebreaker: TiebreakerRule | null;
+}
+
+interface TiebreakerContext {
+  games: TiebreakerGame[];
+  rules: TiebreakerRule[];
+  seed: number;
+  conferenceByTeam: Map<number, number>;
+}
+
+export class TiebreakerService {
+
+  /**
+   * Rank teams by win percentage, breaking ties with the given rules in order.
+   * Ties between three or more teams are broken one team at a time: once a rule
+   * separates the group, the remaining teams restart from the first rule.
+   */
+  static rankTeams<T extends TiebreakerTeam>(
+    teams: T[],
+    games: TiebreakerGame[],
+    rules: TiebreakerRule[] = DEFAULT_TIEBREAKER_RULES,
+    seed: number = 0
+  ): RankedTeam<T>[] {
+    const groups = new Map<number, T[]>();
+    teams.forEach((team) => {
+      const key = Math.round(team.win_percentage * 1e6);
+      if (!groups.has(key)) {
+        groups.set(key, []);
+      }
+      groups.get(key)!.push(team);
+    });
+
+    const context: TiebreakerContext = {
+      games,
+      rules: rules.includes('coin_flip') ? rules : [...rules, 'coin_flip'],
+      seed,
+      conferenceByTeam: new Map(teams.map((team) => [team.team_id, team.conference_id]))
+    };
+
+    const orderedKeys = [...groups.keys()].sort((a, b) => b - a);
+    const placed: PlacedTeam<T>[] = [];
+    orderedKeys.forEach((key) => {
+      placed.push(...this.breakTie(groups.get(key)!, context));
+    });
+
+    return placed.map((entry, index) => ({
+      team: entry.team,
+      rank: index + 1,
+      tiebreaker: entry.tiebreaker
+    }));
+  }
+
+  /**
+   * Load the tiebreaker rules configured for a season, falling back to the defaults
+   */
+  static async getSeasonRules(seasonId: number): Promise<TiebreakerRule[]> {
+    try {
+      const { data: seasons, error } = await DatabaseService.getSeasons({
+        filters: [{ column: 'id', operator: 'eq', value: seasonId }],
+        limit: 1
+      });
+
+      if (error || seasons.length === 0) {
+        return DEFAULT_TIEBREAKER_RULES;
+      }
+
+      return this.normalizeRules(seasons[0].tiebreaker_rules);
+    } catch (error) {
+      console.error('Error fetching tiebreaker rules:', error);
+      return DEFAULT_TIEBREAKER_RULES;
+    }
+  }
+
+  /**
+   * Save the ordered tiebreaker rules for a season
+   */
+  static async saveSeasonRules(seasonId: number, rules: TiebreakerRule[]): Promise<{ success: boolean; error?: unknown }> {
+    const { error } = await DatabaseService.updateSeason(seasonId, {
+      tiebreaker_rules: this.normalizeRules(rules)
+    });
+
+    if (error) {
+      return { success: false, error };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Get completed regular season games for a season in tiebreaker format
+   */
+  static async getCompletedGames(seasonId: number): Promise<TiebreakerGame[]> {
+    const { data: conferences } = await DatabaseService.getConferences({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+    });
+
+    const conferenceIds = conferences.map((c) => c.id);
+    if (conferenceIds.length === 0) {
+      return [];
+    }
+
+    const { data: matchups, error } = await DatabaseService.getMatchups({
+      filters: [{ column: 'conference_id', operator: 'in', value: conferenceIds }]
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch matchups: ${error.message || error}`);
+    }
+
+    return this.toTiebreakerGames(matchups);
+  }
+
+  /**
+   * Convert database matchups into tiebreaker games, keeping only completed regular season games
+   */
+  static toTiebreakerGames(matchups: DbMatchup[]): TiebreakerGame[] {
+    return matchups.
+    filter((m) => !m.is_playoff && !m.is_bye && m.team2_id).
+    filter((m) => m.matchup_status === 'complete' || Boolean(m.winning_team_id)).
+    map((m) => ({
+      team1_id: m.team1_id,
+      team2_id: m.team2_id as number,
+      team1_score: Number(m.team1_score) || 0,
+      team2_score: Number(m.team2_score) || 0,
+      winning_team_id: m.winning_team_id ?? null
+    }));
+  }
+
+  /**
+   * Drop unknown or duplicate rule keys and make sure ties always resolve
+   */
+  static normalizeRules(rules?: string[] | null): TiebreakerRule[] {
+    if (!rules || rules.length === 0) {
+      return DEFAULT_TIEBREAKER_RULES;
+    }
+
+    const valid = rules.filter((rule, index) =>
+    rule in TIEBREAKER_RULE_LABELS && rules.indexOf(rule) === index
+    ) as TiebreakerRule[];
+
+    return valid.length > 0 ? valid : DEFAULT_TIEBREAKER_RULES;
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  private static breakTie<T extends TiebreakerTeam>(group: T[], context: TiebreakerContext): PlacedTeam<T>[] {
+    if (group.length === 1) {
+      return [{ team: group[0], tiebreaker: null }];
+    }
+
+    for (const rule of context.rules) {
+      const values = group.map((team) => this.evaluateRule(rule, team, group, context));
+      if (values.some((value) => value === null)) {
+        continue;
+      }
+
+      const best = Math.max(...(values as number[]));
+      const leaders = group.filter((_, i) => values[i] === best);
+      if (leaders.length === group.length) {
+        continue;
+      }
+
+      const rest = group.filter((_, i) => values[i] !== best);
+      const leaderPlacement = leaders.length === 1 ?
+      [{ team: leaders[0], tiebreaker: rule }] :
+      this.breakTie(leaders, context);
+      const restPlacement = rest.length === 1 ?
+      [{ team: rest[0], tiebreaker: rule }] :
+      this.breakTie(rest, context);
+
+      return [...leaderPlacement, ...restPlacement];
+    }
+
+    // Identical teams on every rule (only possible when team ids collide)
+    return group.map((team) => ({ team, tiebreaker: null }));
+  }
+
+  /**
+   * Score a team on a rule, higher is better. Returns null when the rule cannot be applied to the group.
+   */
+  private static evaluateRule<T extends TiebreakerTeam>(
+    rule: TiebreakerRule,
+    team: T,
+    group: T[],
+    context: TiebreakerContext
+  ): number | null {
+    switch (rule) {
+      case 'head_to_head':
+        return this.headToHeadPercentage(team, group, context.games);
+      case 'conference_record':
+        return this.conferenceRecordPercentage(team, context);
+      case 'points_for':
+        return Math.round(team.points_for * 100);
+      case 'points_against':
+        return -Math.round(team.points_against * 100);
+      case 'coin_flip':
+        return this.coinFlip(team.team_id, context.seed);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Win percentage in games among the tied teams. Only applies when every pair in the group has met.
+   */
+  private static headToHeadPercentage<T extends TiebreakerTeam>(
+    team: T,
+    group: T[],
+    games: TiebreakerGame[]
+  ): number | null {
+    const groupIds = new Set(group.map((t) => t.team_id));
+    const metPairs = new Set<string>();
+    let wins = 0;
+    let played = 0;
+
+    games.forEach((game) => {
+      if (!groupIds.has(game.team1_id) || !groupIds.has(game.team2_id)) {
+        return;
+      }
+      const pairKey = [game.team1_id, game.team2_id].sort((a, b) => a - b).join('_');
+      metPairs.add(pairKey);
+
+      if (game.team1_id !== team.team_id && game.team2_id !== team.team_id) {
+        return;
+      }
+      played++;
+      wins += this.gameResult(game, team.team_id);
+    });
+
+    const requiredPairs = group.length * (group.length - 1) / 2;
+    if (metPairs.size < requiredPairs || played === 0) {
+      return null;
+    }
+
+    return Math.round(wins / played * 1e6);
+  }
+
+  /**
+   * Win percentage against opponents from the team's own conference
+   */
+  private static conferenceRecordPercentage<T extends TiebreakerTeam>(team: T, context: TiebreakerContext): number {
+    let wins = 0;
+    let played = 0;
+
+    context.games.forEach((game) => {
+      if (game.team1_id !== team.team_id && game.team2_id !== team.team_id) {
+        return;
+      }
+      const opponentId = game.team1_id === team.team_id ? game.team2_id : game.team1_id;
+      if (context.conferenceByTeam.get(opponentId) !== team.conference_id) {
+        return;
+      }
+      played++;
+      wins += this.gameResult(game, team.team_id);
+    });
+
+    if (played === 0) {
+      return 0;
+    }
+
+    return Math.round(wins / played * 1e6);
+  }
+
+  /**
+   * 1 for a win, 0.5 for a tie, 0 for a loss
+   */
+  private static gameResult(game: TiebreakerGame, teamId: number): number {
+    if (game.winning_team_id) {
+      return game.winning_team_id === teamId ? 1 : 0;
+    }
+
+    const isTeam1 = game.team1_id === teamId;
+    const teamScore = isTeam1 ? game.team1_score : game.team2_score;
+    const opponentScore = isTeam1 ? game.team2_score : game.team1_score;
+    if (teamScore > opponentScore) return 1;
+    if (teamScore < opponentScore) return 0;
+    return 0.5;
+  }
+
+  /**
+   * Deterministic coin flip so the same season always produces the same order
+   */
+  private static coinFlip(teamId: number, seed: number): number {
+    let hash = (seed * 31 + teamId) | 0;
+    hash = Math.imul(hash ^ hash >>> 16, 0x45d9f3b);
+    hash = Math.imul(hash ^ hash >>> 16, 0x45d9f3b);
+    return (hash ^ hash >>> 16) >>> 0;
+  }
+}
+
+export default TiebreakerService;
@@ -2,6 +2,13 @@
 import { SleeperApiService } from './sleeperApi';
 import { matchupService } from './matchupService';
 import { teamRecordsService } from './teamRecordsService';
+import { MedianScoringService, MedianResult } from './medianScoringService';
+import { StandingsService } from './standingsService';
+import { ConferenceSettingsService } from './conferenceSettingsService';
+import { ProjectionService } from './projectionService';
+import { AwardsService } from './awardsService';
+import { PowerRankingsService } from './powerRankingsService';
+import { DatabaseService } from './databaseService';
 import { toast } from '@/hooks/use-toast';
 
 export interface SyncSchedule {
@@ -238,6 +245,13 @@ class WeeklyAutoSyncService {
 
       const currentSeason = seasons.List[0];
 
+      this.updateSyncStatus({
+        currentStep: 'Checking conference settings...',
+        progress: 15
+      });
+      const seasonId = await this.getSupabaseSeasonId(currentSeason);
+      await ConferenceSettingsService.assertSyncAllowed(seasonId);
+
       // Step 2: Get pending matchups for current week
       this.updateSyncStatus({
         currentStep: 'Fetching pending matchups...',
@@ -280,7 +294,7 @@ class WeeklyAutoSyncService {
           }
 
           // Update team records for this conference
-          await this.updateTeamRecords(conference.id, currentSeason.id);
+          await this.updateTeamRecords(conference, currentSeason.id, seasonId);
           updatedRecords++;
 
         } catch (error) {
@@ -290,6 +304,42 @@ class WeeklyAutoSyncService {
         }
       }
 
+      // Awards for any week that has just completed
+      this.updateSyncStatus({
+        currentStep: 'Recording weekly awards...',
+        progress: 75
+      });
+      await AwardsService.updateSeasonAwards(seasonId);
+
+      // Store the synced week's final projections and scores, and next week's pre-game projections
+      this.updateSyncStatus({
+        currentStep: 'Recording projections...',
+        progress: 80
+      });
+
+      try {
+        const week = Number(currentSeason.current_week);
+        await ProjectionService.recordWeekProjections(seasonId, currentSeason.season_year, week);
+        await ProjectionService.recordWeekProjections(seasonId, currentSeason.season_year, week + 1);
+      } catch (error) {
+        const errorMsg = `Error recording projections: ${error}`;
+        errors.push(errorMsg);
+        console.error(errorMsg);
+      }
+
+      // Snapshot the power rankings through the synced week; regenerating keeps existing blurbs
+      this.updateSyncStatus({
+        currentStep: 'Updating power rankings...',
+        progress: 85
+      });
+
+      const rankings = await PowerRankingsService.generateSnapshot(seasonId, Number(currentSeason.current_week));
+      if (!rankings.success) {
+        const errorMsg = `Error updating power rankings: ${rankings.error}`;
+        errors.push(errorMsg);
+        console.error(errorMsg);
+      }
+
       // Step 4: Final cleanup and status update
       this.updateSyncStatus({
         currentStep: 'Finalizing sync...',
@@ -450,7 +500,12 @@ class WeeklyAutoSyncService {
     }
   }
 
-  private async updateTeamRecords(conferenceId: number, seasonId: number): Promise<void> {
+  private async updateTeamRecords(
+    conference: {id: number;league_id: string;},
+    seasonId: number,
+    supabaseSeasonId: number)
+  : Promise<void> {
+    const conferenceId = conference.id;
     try {
       // Get all completed matchups for this conference and season
       const { data: matchups } = await window.ezsite.apis.tablePage(13329, {
@@ -473,6 +528,8 @@ class WeeklyAutoSyncService {
 
       if (!teamJunctions?.List?.length) return;
 
+      const medianResults = await this.getMedianResults(supabaseSeasonId, conference.league_id, teamJunctions.List);
+
       // Calculate records for each team
       for (const junction of teamJunctions.List) {
         const teamId = junction.team_id;
@@ -494,17 +551,32 @@ class WeeklyAutoSyncService {
           pointsFor += teamScore;
           pointsAgainst += opponentScore;
 
-          if (matchup.winner_id === teamId) {
+          // Ties are stored with no winner, as null or 0
+          const winnerId = StandingsService.getMatchupWinner(
+            matchup.team_1_id,
+            matchup.team_2_id,
+            matchup.team_1_score || 0,
+            matchup.team_2_score || 0,
+            matchup.winner_id
+          );
+          if (winnerId === teamId) {
             wins++;
-          } else if (matchup.winner_id === null) {
+          } else if (winnerId === null) {
             ties++;
           } else {
             losses++;
           }
         }
 
-        const totalGames = wins + losses + ties;
-        const winPercentage = totalGames > 0 ? wins / totalGames : 0;
+        // Extra weekly result against the median when the season uses it
+        const medianResult = medianResults.get(teamId);
+        if (medianResult) {
+          wins += medianResult.wins;
+          losses += medianResult.losses;
+          ties += medianResult.ties;
+        }
+
+        const winPercentage = StandingsService.calculateWinPercentage(wins, losses, ties);
 
         // Update or create team record
         const { data: existingRecord } = await window.ezsite.apis.tablePage(13768, {
@@ -545,6 +617,75 @@ class WeeklyAutoSyncService {
     }
   }
 
+  // Median results come from the Supabase season, whose team ids don't match the legacy
+  // tables; each legacy team is matched to its Supabase team by Sleeper league and roster
+  private async getMedianResults(
+    seasonId: number,
+    leagueId: string,
+    legacyJunctions: {team_id: number;roster_id: number | string;}[])
+  : Promise<Map<number, MedianResult>> {
+    const mode = await MedianScoringService.getSeasonMode(seasonId);
+    if (mode === 'off') {
+      return new Map();
+    }
+
+    const { data: conferences } = await DatabaseService.getConferences({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+    });
+    const conference = conferences.find((c) => c.league_id === leagueId);
+    if (!conference) {
+      return new Map();
+    }
+
+    const conferenceIds = conferences.map((c) => c.id);
+    const [{ data: matchups, error }, { data: junctions }] = await Promise.all([
+    DatabaseService.getMatchups({
+      filters: [{ column: 'conference_id', operator: 'in', value: conferenceIds }],
+      limit: 1000
+    }),
+    DatabaseService.getTeamConferenceJunctions({
+      filters: [{ column: 'conference_id', operator: 'in', value: conferenceIds }]
+    })]
+    );
+
+    if (error) {
+      throw new Error(`Failed to fetch matchups for median scoring: ${error.message || error}`);
+    }
+
+    const results = MedianScoringService.calculateMedianResults(
+      MedianScoringService.toMedianGames(matchups),
+      mode,
+      new Map(junctions.map((j) => [j.team_id, j.conference_id]))
+    );
+
+    const legacyResults = new Map<number, MedianResult>();
+    legacyJunctions.forEach((legacyJunction) => {
+      const junction = junctions.find((j) =>
+      j.conference_id === conference.id && j.roster_id === Number(legacyJunction.roster_id)
+      );
+      const result = junction && results.get(junction.team_id);
+      if (result) {
+        legacyResults.set(legacyJunction.team_id, result);
+      }
+    });
+    return legacyResults;
+  }
+
+  // The settings check reads Supabase seasons, whose ids don't match the legacy seasons table;
+  // match on the season year instead
+  private async getSupabaseSeasonId(season: {season_year: number | string;}): Promise<number> {
+    const { data, error } = await DatabaseService.getSeasons({
+      filters: [{ column: 'season_year', operator: 'eq', value: String(season.season_year) }],
+      limit: 1
+    });
+
+    if (error || !data[0]) {
+      throw new Error(`No season found for ${season.season_year}; conference settings could not be checked`);
+    }
+
+    return data[0].id;
+  }
+
   private updateSyncStatus(updates: Partial<SyncStatus>): void {
     this.syncStatus = { ...this.syncStatus, ...updates };
     this.notifyStatusListeners();
@@ -0,0 +1,416 @@
+import { DatabaseService } from '@/services/databaseService';
+import { SleeperPlayer } from '@/services/sleeperApi';
+import MatchupCache from '@/services/matchupCache';
+import { ProjectionService } from '@/services/projectionService';
+import { MatchupStatusService } from '@/services/matchupStatusService';
+import { DbMatchupWinProbability } from '@/types/database';
+
+export type NFLGameStatus = 'pre_game' | 'in_game' | 'complete';
+
+export interface WinProbabilityLineup {
+  starters: string[];
+  playersPoints: Record<string, number>;
+}
+
+export interface WinProbabilityTeam {
+  points: number; // Points scored so far
+  remaining: number; // Expected points still to come
+  variance: number; // Variance of the points still to come
+  projected: number; // points + remaining
+  playersRemaining: number; // Starters whose NFL game has not finished
+}
+
+export interface WinProbability {
+  team1: number; // 0-1
+  team2: number;
+  team1Projected: number;
+  team2Projected: number;
+}
+
+export interface WinProbabilitySnapshot {
+  season_id: number;
+  matchup_id: number;
+  is_playoff: boolean;
+  week: number;
+  team1_id: number;
+  team2_id: number;
+  probability: WinProbability;
+  team1_points: number;
+  team2_points: number;
+}
+
+export interface MatchupComeback {
+  matchup_id: number;
+  is_playoff: boolean;
+  week: number;
+  winner_id: number;
+  loser_id: number;
+  lowest_probability: number; // Winner's lowest win probability during the game
+  recorded_at?: string; // When the winner was at their lowest
+}
+
+// Share of a starter's projection still to come, by the state of their NFL game
+const REMAINING_SHARE: Record<NFLGameStatus, number> = {
+  pre_game: 1,
+  in_game: 0.5,
+  complete: 0
+};
+
+// A starter's full-game standard deviation as a share of their projection, with a floor
+// so low or missing projections still carry some uncertainty
+const PLAYER_SD_RATIO = 0.5;
+const MIN_PLAYER_SD = 3;
+
+// Snapshots are only stored when the probability moved this much, or this long has passed
+const RECORD_MIN_CHANGE = 0.02;
+const RECORD_MIN_INTERVAL = 15 * 60 * 1000;
+
+// Postgres error code when the snapshot is already stored
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * In-game win probability. Each side's final score is modelled as points already scored
+ * plus a normal distribution for the starters still to play: a starter whose game has not
+ * kicked off still has their whole projection to come, one mid-game about half of it and
+ * one whose game is final nothing. The variance shrinks the same way, so the probability
+ * converges as games finish.
+ */
+export class WinProbabilityService {
+  private static lastRecorded = new Map<string, {probability: number;points: number;recordedAt: number;}>();
+
+  /**
+   * Win probability for both sides of a matchup
+   */
+  static calculateWinProbability(team1: WinProbabilityTeam, team2: WinProbabilityTeam): WinProbability {
+    const difference = team1.projected - team2.projected;
+    const sd = Math.sqrt(team1.variance + team2.variance);
+
+    let probability: number;
+    if (sd === 0) {
+      probability = difference > 0 ? 1 : difference < 0 ? 0 : 0.5;
+    } else {
+      probability = this.normalCdf(difference / sd);
+    }
+
+    return {
+      team1: probability,
+      team2: 1 - probability,
+      team1Projected: team1.projected,
+      team2Projected: team2.projected
+    };
+  }
+
+  /**
+   * Current points, expected remaining points and their variance for one lineup
+   */
+  static buildTeam(
+    lineup: WinProbabilityLineup,
+    projections: Record<string, number>,
+    getGameStatus: (playerId: string) => NFLGameStatus | null
+  ): WinProbabilityTeam {
+    const starters = lineup.starters.filter((playerId) => playerId && playerId !== '0');
+
+    let points = 0;
+    let remaining = 0;
+    let variance = 0;
+    let playersRemaining = 0;
+
+    starters.forEach((playerId) => {
+      points += lineup.playersPoints[playerId] || 0;
+
+      const status = this.getStarterStatus(playerId, lineup, getGameStatus);
+      if (!status) return;
+
+      const share = REMAINING_SHARE[status];
+      const projection = projections[playerId] || 0;
+      remaining += share * projection;
+      variance += share * Math.pow(Math.max(PLAYER_SD_RATIO * projection, MIN_PLAYER_SD), 2);
+      playersRemaining++;
+    });
+
+    return { points, remaining, variance, projected: points + remaining, playersRemaining };
+  }
+
+  /**
+   * Number of starters whose NFL game has not finished
+   */
+  static getPlayersStillPlaying(
+    lineup: WinProbabilityLineup,
+    getGameStatus: (playerId: string) => NFLGameStatus | null
+  ): number {
+    return lineup.starters.filter((playerId) =>
+    playerId && playerId !== '0' && this.getStarterStatus(playerId, lineup, getGameStatus) !== null
+    ).length;
+  }
+
+  /**
+   * Load projections and NFL game states for a week and calculate both sides' win probability
+   */
+  static async getMatchupWinProbability(
+    seasonId: number,
+    season: number,
+    week: number,
+    team1: WinProbabilityLineup,
+    team2: WinProbabilityLineup
+  ): Promise<{probability: WinProbability;teams: [WinProbabilityTeam, WinProbabilityTeam];}> {
+    const getGameStatus = await this.getGameStatusLookup(season, week);
+    const projections = await this.getProjections(seasonId, season, week);
+
+    const teams: [WinProbabilityTeam, WinProbabilityTeam] = [
+    this.buildTeam(team1, projections, getGameStatus),
+    this.buildTeam(team2, projections, getGameStatus)];
+
+
+    return { probability: this.calculateWinProbability(teams[0], teams[1]), teams };
+  }
+
+  /**
+   * Build a lookup from player id to the state of their NFL game this week. When the NFL
+   * schedule cannot be loaded, every rostered player is treated as not having kicked off.
+   */
+  static async getGameStatusLookup(season: number, week: number): Promise<(playerId: string) => NFLGameStatus | null> {
+    const [players, statuses] = await Promise.all([
+    MatchupCache.getPlayers(),
+    this.getGameStatuses(season, week)]
+    );
+
+    return (playerId: string) => {
+      const nflTeam = this.getNFLTeam(playerId, players);
+      if (statuses.size > 0) {
+        return nflTeam ? statuses.get(nflTeam) || null : null;
+      }
+      return nflTeam ? 'pre_game' : null;
+    };
+  }
+
+  /**
+   * Projected points per player for a week under the season's scoring settings, shared
+   * with the projection views
+   */
+  static async getProjections(seasonId: number, season: number, week: number): Promise<Record<string, number>> {
+    try {
+      return await ProjectionService.getPlayerProjections(seasonId, season, week);
+    } catch (error) {
+      console.error('Error loading projections for win probability:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Record a snapshot of a matchup's win probability. Snapshots closer together than the
+   * minimum interval are skipped unless the probability moved noticeably, and the table
+   * keeps one row per distinct snapshot however many pages record it.
+   */
+  static async recordSnapshot(snapshot: WinProbabilitySnapshot): Promise<{success: boolean;error?: unknown;}> {
+    const key = `${snapshot.is_playoff ? 'p' : 'm'}-${snapshot.matchup_id}`;
+    const probability = snapshot.probability.team1;
+    const points = snapshot.team1_points + snapshot.team2_points;
+
+    try {
+      if (!this.lastRecorded.has(key)) {
+        const history = await this.getMatchupHistory(snapshot.matchup_id, snapshot.is_playoff);
+        const latest = history[history.length - 1];
+        if (latest) {
+          this.lastRecorded.set(key, {
+            probability: Number(latest.team1_win_probability),
+            points: Number(latest.team1_points || 0) + Number(latest.team2_points || 0),
+            recordedAt: latest.recorded_at ? new Date(latest.recorded_at).getTime() : 0
+          });
+        }
+      }
+
+      const last = this.lastRecorded.get(key);
+      if (last) {
+        const moved = Math.abs(probability - last.probability) >= RECORD_MIN_CHANGE;
+        const stale = Date.now() - last.recordedAt >= RECORD_MIN_INTERVAL && points !== last.points;
+        if (!moved && !stale) {
+          return { success: true };
+        }
+      }
+
+      const { error } = await DatabaseService.createMatchupWinProbability({
+        season_id: snapshot.season_id,
+        matchup_id: snapshot.matchup_id,
+        is_playoff: snapshot.is_playoff,
+        week: snapshot.week,
+        team1_id: snapshot.team1_id,
+        team2_id: snapshot.team2_id,
+        team1_win_probability: Math.round(probability * 10000) / 10000,
+        team1_points: snapshot.team1_points,
+        team2_points: snapshot.team2_points,
+        team1_projected: Math.round(snapshot.probability.team1Projected * 100) / 100,
+        team2_projected: Math.round(snapshot.probability.team2Projected * 100) / 100,
+        recorded_at: new Date().toISOString()
+      });
+
+      // Another viewer already stored this exact snapshot
+      if (error && error.code !== UNIQUE_VIOLATION) {
+        throw error;
+      }
+
+      this.lastRecorded.set(key, { probability, points, recordedAt: Date.now() });
+      return { success: true };
+    } catch (error) {
+      console.error('Error recording win probability:', error);
+      return { success: false, error };
+    }
+  }
+
+  /**
+   * Every recorded snapshot for a matchup, oldest first
+   */
+  static async getMatchupHistory(matchupId: number, isPlayoff: boolean = false): Promise<DbMatchupWinProbability[]> {
+    const { data, error } = await DatabaseService.getMatchupWinProbabilities({
+      filters: [
+      { column: 'matchup_id', operator: 'eq', value: matchupId },
+      { column: 'is_playoff', operator: 'eq', value: isPlayoff }],
+
+      orderBy: { column: 'recorded_at', ascending: true },
+      limit: 1000
+    });
+
+    if (error) {
+      console.error('Error fetching win probability history:', error);
+      return [];
+    }
+
+    return data;
+  }
+
+  /**
+   * Completed matchups whose winner had the lowest win probability at some point, lowest first
+   */
+  static async getBiggestComebacks(seasonId: number, limit: number = 5): Promise<MatchupComeback[]> {
+    const snapshots = await this.getSeasonSnapshots(seasonId);
+    if (snapshots.length === 0) {
+      return [];
+    }
+
+    const winners = await this.getWinners(seasonId);
+    const byMatchup = new Map<string, DbMatchupWinProbability[]>();
+    snapshots.forEach((snapshot) => {
+      const key = `${snapshot.is_playoff ? 'p' : 'm'}-${snapshot.matchup_id}`;
+      byMatchup.set(key, [...(byMatchup.get(key) || []), snapshot]);
+    });
+
+    const comebacks: MatchupComeback[] = [];
+    byMatchup.forEach((rows, key) => {
+      const winnerId = winners.get(key);
+      const first = rows[0];
+      if (!winnerId || winnerId !== first.team1_id && winnerId !== first.team2_id) return;
+
+      const winnerProbability = (row: DbMatchupWinProbability) =>
+      winnerId === row.team1_id ? Number(row.team1_win_probability) : 1 - Number(row.team1_win_probability);
+      const lowest = rows.reduce((min, row) => winnerProbability(row) < winnerProbability(min) ? row : min, first);
+
+      comebacks.push({
+        matchup_id: first.matchup_id,
+        is_playoff: first.is_playoff,
+        week: first.week,
+        winner_id: winnerId,
+        loser_id: winnerId === first.team1_id ? first.team2_id : first.team1_id,
+        lowest_probability: winnerProbability(lowest),
+        recorded_at: lowest.recorded_at
+      });
+    });
+
+    return comebacks.
+    filter((comeback) => comeback.lowest_probability < 0.5).
+    sort((a, b) => a.lowest_probability - b.lowest_probability).
+    slice(0, limit);
+  }
+
+  /**
+   * Private helper methods
+   */
+
+  // Shares the schedule matchup status is decided from, so both agree on which games are live
+  private static async getGameStatuses(season: number, week: number): Promise<Map<string, NFLGameStatus>> {
+    const games = await MatchupStatusService.getWeekGames(season.toString(), week);
+    const data = new Map<string, NFLGameStatus>();
+    games.forEach((game) => {
+      data.set(game.home, game.status);
+      data.set(game.away, game.status);
+    });
+    return data;
+  }
+
+  // No game this week (bye, free agent) or a finished game means nothing left to score. A
+  // starter who has already scored is mid-game even if the schedule has not caught up yet.
+  private static getStarterStatus(
+    playerId: string,
+    lineup: WinProbabilityLineup,
+    getGameStatus: (playerId: string) => NFLGameStatus | null
+  ): NFLGameStatus | null {
+    const status = getGameStatus(playerId);
+    if (!status || status === 'complete') return null;
+    return status === 'pre_game' && lineup.playersPoints[playerId] ? 'in_game' : status;
+  }
+
+  private static getNFLTeam(playerId: string, players: Record<string, SleeperPlayer>): string | null {
+    // Team defenses use the team abbreviation as their player id
+    if (/^[A-Z]{2,3}$/.test(playerId)) {
+      return playerId;
+    }
+    return players[playerId]?.team || null;
+  }
+
+  private static async getSeasonSnapshots(seasonId: number): Promise<DbMatchupWinProbability[]> {
+    const pageSize = 1000;
+    const snapshots: DbMatchupWinProbability[] = [];
+
+    for (let offset = 0;; offset += pageSize) {
+      const { data, error } = await DatabaseService.getMatchupWinProbabilities({
+        filters: [{ column: 'season_id', operator: 'eq', value: seasonId }],
+        orderBy: { column: 'id', ascending: true },
+        limit: pageSize,
+        offset
+      });
+
+      if (error) {
+        console.error('Error fetching win probability snapshots:', error);
+        break;
+      }
+
+      snapshots.push(...data);
+      if (data.length < pageSize) break;
+    }
+
+    return snapshots;
+  }
+
+  private static async getWinners(seasonId: number): Promise<Map<string, number>> {
+    const { data: conferences } = await DatabaseService.getConferences({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+    });
+
+    const [matchupsResult, bracketsResult] = await Promise.all([
+    DatabaseService.getMatchups({
+      filters: [{ column: 'conference_id', operator: 'in', value: conferences.map((c) => c.id) }]
+    }),
+    DatabaseService.getPlayoffBrackets({
+      filters: [{ column: 'season_id', operator: 'eq', value: seasonId }]
+    })]
+    );
+
+    const winners = new Map<string, number>();
+    (matchupsResult.data || []).forEach((matchup) => {
+      if (matchup.winning_team_id) winners.set(`m-${matchup.id}`, matchup.winning_team_id);
+    });
+    (bracketsResult.data || []).forEach((bracket) => {
+      if (bracket.winning_team_id) winners.set(`p-${bracket.id}`, bracket.winning_team_id);
+    });
+
+    return winners;
+  }
+
+  // Standard normal CDF (Abramowitz and Stegun 7.1.26)
+  private static normalCdf(z: number): number {
+    const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+    const erf = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t *
+    Math.exp(-(z * z) / 2);
+    return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+  }
+}
+
+export default WinProbabilityService;
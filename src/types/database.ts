@@ -8,6 +8,9 @@ export interface DbSeason {
   season_year: string; // Note: this is text in your schema
   scoring_settings?: Record<string, number>; // JSONB column for scoring configuration
   roster_positions?: string[]; // JSONB column for roster position configuration
+  tiebreaker_rules?: string[]; // JSONB column for ordered standings tiebreaker rules
+  median_scoring_mode?: 'off' | 'conference' | 'league'; // Extra weekly win/loss against the median score
+  power_ranking_weights?: Record<string, number>; // JSONB column for power ranking component weights
   charter_file_url?: string; // URL to charter document in Supabase Storage
   charter_file_name?: string; // Original filename of uploaded charter
   charter_uploaded_at?: string; // Timestamp when charter was uploaded
@@ -78,6 +81,7 @@ export interface DbTeamRecord {
   season_id: number;
   wins?: number;
   losses?: number;
+  ties?: number;
   points_for?: number;
   points_against?: number;
   point_diff?: number; // Additional field in your schema
@@ -188,6 +192,161 @@ export interface DbTransaction {
   updated_at?: string;
 }
 
+export interface DbPowerRanking {
+  id: number;
+  season_id: number;
+  week: number;
+  team_id: number;
+  rank: number;
+  score: number;
+  recent_form?: number; // Component scores, 0-1
+  points_for?: number;
+  all_play?: number;
+  strength_of_schedule?: number;
+  blurb?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface DbMatchupWinProbability {
+  id: number;
+  season_id: number;
+  matchup_id: number; // matchups.id, or playoff_brackets.id for playoff games
+  is_playoff: boolean;
+  week: number;
+  team1_id: number;
+  team2_id: number;
+  team1_win_probability: number; // 0-1, team2 is the complement
+  team1_points?: number;
+  team2_points?: number;
+  team1_projected?: number;
+  team2_projected?: number;
+  recorded_at?: string;
+  created_at?: string;
+}
+
+export interface DbTeamProjection {
+  id: number;
+  season_id: number;
+  week: number;
+  team_id: number;
+  projected_points: number;
+  actual_points?: number | null;
+  locked_at?: string | null; // Set once the team starts scoring, the projection is final from then on
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type WeeklyAwardType = 'high_score' | 'low_score' | 'blowout' | 'nail_biter' | 'top_performer';
+
+export interface DbWeeklyAward {
+  id: number;
+  season_id: number;
+  week: number;
+  award_type: WeeklyAwardType;
+  team_id: number; // Winner; for blowout and nail_biter the team that won the game
+  opponent_id?: number | null;
+  matchup_id?: number | null;
+  player_id?: string | null; // Only for top_performer
+  points: number;
+  margin?: number | null; // Only for blowout and nail_biter
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type MatchupOverrideAction = 'create' | 'deactivate' | 'delete' | 'restore';
+
+export interface DbMatchupOverrideEvent {
+  id: number;
+  season_id: number;
+  week: number;
+  conference_id: number;
+  override_id?: number | null; // The override row may have been deleted since
+  action: MatchupOverrideAction;
+  before_team1_id?: number | null; // Pairing in effect before the change
+  before_team2_id?: number | null;
+  after_team1_id?: number | null; // Pairing in effect after the change
+  after_team2_id?: number | null;
+  admin_id?: string;
+  reason?: string;
+  restored_from_event_id?: number | null;
+  override_active?: boolean | null; // Whether the event left an override in effect; null on older events
+  override_snapshot?: Partial<DbMatchupAdminOverride> | null; // JSONB copy of the override row
+  created_at?: string;
+}
+
+export interface DbMatchupRecap {
+  id: number;
+  season_id: number;
+  week: number;
+  matchup_id: number;
+  headline: string; // One line for the weekly digest
+  recap: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface DbMatchupBoxScore {
+  id: number;
+  season_id: number;
+  week: number;
+  matchup_id: number;
+  team1_points: Record<string, number>; // Sleeper player id -> points, starters only
+  team2_points: Record<string, number>;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type StatCorrectionStatus = 'pending' | 'approved' | 'dismissed';
+
+export interface StatCorrectionPlayerChange {
+  team_id: number;
+  player_id: string;
+  before: number;
+  after: number;
+}
+
+export interface DbStatCorrection {
+  id: number;
+  season_id: number;
+  week: number;
+  matchup_id: number;
+  status: StatCorrectionStatus;
+  team1_id: number;
+  team2_id: number;
+  before_team1_score: number;
+  before_team2_score: number;
+  before_winning_team_id?: number | null;
+  after_team1_score: number;
+  after_team2_score: number;
+  after_winning_team_id?: number | null;
+  result_flipped: boolean;
+  player_changes: StatCorrectionPlayerChange[];
+  explanation?: string | null; // Written on approval
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type ConferenceSettingSection = 'scoring' | 'roster' | 'league';
+
+export interface ConferenceSettingDifference {
+  section: ConferenceSettingSection;
+  key: string; // Sleeper scoring key, roster slot or league setting
+  values: { conference_id: number; value: number | string | null }[];
+}
+
+export interface DbConferenceSettingsAcknowledgement {
+  id: number;
+  season_id: number;
+  fingerprint: string;
+  differences: ConferenceSettingDifference[];
+  acknowledged_by: string;
+  acknowledged_at?: string;
+  created_at?: string;
+}
+
 // API Response type for paginated results
 export interface PaginatedResponse<T> {
   data: T[];